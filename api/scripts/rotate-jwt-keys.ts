@@ -0,0 +1,59 @@
+// deno run --env-file=.env --allow-env scripts/rotate-jwt-keys.ts [--alg ES256|EdDSA] [--grace 3600] [--activate-in 300]
+//
+// 轮换 JWT 签名密钥：读取当前的 JWT_SIGNING_KEYS，生成新密钥并为旧密钥设置宽限期，输出新的 JWT_SIGNING_KEYS
+// - --alg：新密钥的签名算法，默认 ES256
+// - --grace：新密钥开始签名后旧密钥仍可验证的时间（秒），默认 3600，不应小于 JWT_EXPIRES_IN
+// - --activate-in：新密钥开始签名前的等待时间（秒），默认等于 JWKS 缓存时间（300），不应小于该值，
+//   否则验证方缓存的 JWKS 中还没有新公钥；多实例部署时再加上发布耗时，保证所有实例都已加载新公钥后才开始用新密钥签名
+import {
+    generateJwtKey,
+    isJwtSigningAlgorithm,
+    JWKS_MAX_AGE,
+    parseJwtKeys,
+    rotateJwtKeys,
+} from '[@BASE]/lib/jwt-keys.ts'
+
+const args = new Map<string, string>()
+for (let i = 0; i < Deno.args.length; i += 2) {
+    args.set(Deno.args[i].replace(/^--/, ''), Deno.args[i + 1] ?? '')
+}
+
+const alg = args.get('alg') ?? 'ES256'
+const grace = Number(args.get('grace') ?? 3600)
+const activateIn = Number(args.get('activate-in') ?? JWKS_MAX_AGE)
+
+if (!isJwtSigningAlgorithm(alg)) {
+    console.error(`❌ 不支持的算法: ${alg}（可选 ES256、EdDSA）`)
+    Deno.exit(1)
+}
+if (!Number.isInteger(grace) || grace < 0 || !Number.isInteger(activateIn) || activateIn < 0) {
+    console.error('❌ --grace 和 --activate-in 必须是非负整数（秒）')
+    Deno.exit(1)
+}
+
+const expiresIn = parseInt(Deno.env.get('JWT_EXPIRES_IN') || '900')
+if (grace < expiresIn) {
+    console.error(`⚠️  宽限期 ${grace}s 小于 JWT_EXPIRES_IN（${expiresIn}s），旧密钥签发的 token 可能在过期前失效`)
+}
+if (activateIn < JWKS_MAX_AGE) {
+    console.error(`⚠️  生效等待时间 ${activateIn}s 小于 JWKS 缓存时间（${JWKS_MAX_AGE}s），缓存了旧 JWKS 的验证方可能无法验证新密钥签发的 token`)
+}
+
+const current = Deno.env.get('JWT_SIGNING_KEYS')
+const keys = current ? parseJwtKeys(current) : []
+const newKey = await generateJwtKey(alg, new Date(Date.now() + activateIn * 1000))
+const rotated = rotateJwtKeys(keys, newKey, grace)
+
+console.error(`🔑 新密钥: ${newKey.kid}（${alg}），${newKey.activatesAt} 开始签名`)
+for (const key of rotated) {
+    if (key.kid !== newKey.kid) {
+        console.error(`   旧密钥: ${key.kid}，验证至 ${key.verifyUntil}`)
+    }
+}
+const removed = keys.length + 1 - rotated.length
+if (removed > 0) {
+    console.error(`   已移除 ${removed} 个超过宽限期的密钥`)
+}
+console.error('\n将以下内容设置为 JWT_SIGNING_KEYS 并重新部署（包含私钥，请勿提交到代码仓库）:\n')
+
+console.log(JSON.stringify(rotated))
@@ -0,0 +1,31 @@
+// deno run --env-file=.env --allow-net --allow-env --allow-read scripts/run-maintenance.ts
+//
+// 定时维护任务，建议每天执行一次（如 crontab: 0 3 * * * cd /path/to/api && deno task maintenance）
+// - 永久删除注销宽限期已结束的账号（数据库已安装 pg_cron 时会自动执行，重复执行没有副作用）
+// - 删除下载链接已过期的个人数据导出文件（服务运行期间会在链接过期时自动删除，服务重启后由这里兜底）
+// 任一任务失败时以非零状态码退出，便于定时任务告警
+import { accountDeletionService } from '[@BASE-services]/account-deletion.service.ts'
+import { dataExportService } from '[@BASE-services]/data-export.service.ts'
+
+const tasks: { name: string; run: () => Promise<string> }[] = [
+    {
+        name: '删除宽限期已结束的注销账号',
+        run: async () => `已删除 ${await accountDeletionService.purgeExpired()} 个账号`,
+    },
+    {
+        name: '删除过期的数据导出文件',
+        run: async () => `已删除 ${await dataExportService.removeExpiredFiles()} 个文件`,
+    },
+]
+
+let failed = false
+for (const task of tasks) {
+    try {
+        console.log(`✅ ${task.name}: ${await task.run()}`)
+    } catch (error) {
+        failed = true
+        console.error(`❌ ${task.name}失败: ${error instanceof Error ? error.message : String(error)}`)
+    }
+}
+
+Deno.exit(failed ? 1 : 0)
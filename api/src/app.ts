@@ -13,11 +13,14 @@ import { prettyJSON } from 'hono/pretty-json';
 // 导入路由
 import authRoutes from '[@BASE-routes]/auth.routes.ts';
 import userRoutes from '[@BASE-routes]/user.routes.ts';
+import adminRoutes from '[@BASE-routes]/admin.routes.ts';
 
 // 导入错误处理
 import { registerErrorHandler } from '[@BASE]/lib/errors/error-handler.ts';
 import { logger } from '[@BASE]/lib/logger.ts';
 import { checkSupabaseHealth } from '[@BASE]/lib/supabase.client.ts';
+import { getJwks } from '[@BASE]/lib/jwt.ts';
+import { JWKS_MAX_AGE } from '[@BASE]/lib/jwt-keys.ts';
 import { requestLogger } from "[@BASE-middlewares]/request-logger.ts";
 
 /**
@@ -53,6 +56,7 @@ app.use('*', cors({
     credentials: true,
     allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
     allowHeaders: ['Content-Type', 'Authorization'],
+    exposeHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After'],
     maxAge: 86400, // 24 hours
 }));
 
@@ -76,6 +80,15 @@ app.get('/health', async (c: Context) => {
     });
 });
 
+// ==================== JWKS ====================
+
+// 访问令牌签名公钥，供其他服务验证本服务签发的 token（轮换期间包含新旧密钥）
+// GET /.well-known/jwks.json
+app.get('/.well-known/jwks.json', (c: Context) => {
+    c.header('Cache-Control', `public, max-age=${JWKS_MAX_AGE}`);
+    return c.json(getJwks());
+});
+
 // ==================== API 路由 ====================
 
 /**
@@ -99,6 +112,9 @@ app.route('/api/auth', authRoutes);
 // 用户路由（需要认证，由路由内部中间件处理）
 app.route('/api/users', userRoutes);
 
+// 管理员路由（需要认证和管理员权限，由路由内部中间件处理）
+app.route('/api/admin', adminRoutes);
+
 // ==================== 404 处理 ====================
 
 /**
@@ -21,6 +21,7 @@ export function FormatAppConfig(config: FullConfig, newConf: AppConfig): AppConf
         corsOrigins: newConf.corsOrigins || config.app.corsOrigins,
         logLevel: newConf.logLevel || config.app.logLevel,
         logDirName: newConf.logDirName || config.app.logDirName,
+        rateLimitStore: newConf.rateLimitStore || config.app.rateLimitStore,
     };
 }
 
@@ -29,7 +30,7 @@ export function FormatAppConfig(config: FullConfig, newConf: AppConfig): AppConf
  * 
  * @description 检查必需的环境变量是否已设置，如果缺少则抛出错误
  * 
- * @throws {Error} 当必需的环境变量缺失时抛出错误
+ * @throws {Error} 当必需的环境变量缺失或 RATE_LIMIT_STORE 取值无效时抛出错误
  * 
  * @example
  * validateAppConfig(); // 验证 APP_NAME 和 ENVIRONMENT 是否设置
@@ -42,4 +43,8 @@ export function ValidateAppConfig(config: AppConfig) {
     if (missing.length > 0) {
         throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
     }
+
+    if (!['memory', 'postgres'].includes(config.rateLimitStore)) {
+        throw new Error('RATE_LIMIT_STORE must be "memory" or "postgres"');
+    }
 }
\ No newline at end of file
@@ -14,15 +14,25 @@ export function FormatAuthConfig(config: FullConfig, newConf: AuthConfig): AuthC
         jwtRefreshExpiresIn: newConf.jwtRefreshExpiresIn || config.auth.jwtRefreshExpiresIn,
         bcryptRounds: newConf.bcryptRounds || config.auth.bcryptRounds,
         sessionSecret: newConf.sessionSecret || config.auth.sessionSecret,
+        passwordProvider: newConf.passwordProvider || config.auth.passwordProvider,
+        // 阈值允许配置为 0（关闭该维度的锁定），逐项合并
+        loginLockout: { ...config.auth.loginLockout, ...newConf.loginLockout },
+        webauthn: { ...config.auth.webauthn, ...newConf.webauthn },
+        oidc: { ...config.auth.oidc, ...newConf.oidc },
+        magicLink: { ...config.auth.magicLink, ...newConf.magicLink },
+        accountDeletion: { ...config.auth.accountDeletion, ...newConf.accountDeletion },
+        dataExport: { ...config.auth.dataExport, ...newConf.dataExport },
+        botChallenge: { ...config.auth.botChallenge, ...newConf.botChallenge },
+        impersonation: { ...config.auth.impersonation, ...newConf.impersonation },
     };
 }
 
 /**
  * 验证认证配置
  * 
- * @description 检查 JWT 密钥长度和 Bcrypt 轮数是否符合安全要求
+ * @description 检查 JWT 密钥长度、Bcrypt 轮数、密码存储方式、登录锁定策略、通行密钥来源、OIDC 身份提供方、登录链接、账号注销、数据导出、人机验证和模拟登录是否符合要求
  * 
- * @throws {Error} 当 JWT_SECRET 长度小于 32 个字符时抛出错误
+ * @throws {Error} 当 JWT_SECRET 长度小于 32 个字符、PASSWORD_PROVIDER 或 LOGIN_LOCKOUT_* 取值无效，WEBAUTHN_ORIGINS 不属于 WEBAUTHN_RP_ID 域名，OIDC_* 配置不完整，或 MAGIC_LINK_*、ACCOUNT_DELETION_*、DATA_EXPORT_*、BOT_CHALLENGE_*、IMPERSONATION_EXPIRES_IN 取值无效时抛出错误
  * 
  * @example
  * validateAuthConfig(); // 验证认证配置是否符合安全要求
@@ -32,6 +42,82 @@ export function ValidateAuthConfig(config: AuthConfig) {
         throw new Error('JWT_SECRET must be at least 32 characters');
     }
 
+    if (!['local', 'supabase'].includes(config.passwordProvider)) {
+        throw new Error('PASSWORD_PROVIDER must be "local" or "supabase"');
+    }
+
+    const lockout = config.loginLockout;
+    if (
+        [lockout.maxAccountFailures, lockout.maxIpFailures].some((n) => !Number.isInteger(n) || n < 0) ||
+        [lockout.window, lockout.lockDuration, lockout.maxLockDuration].some((n) => !Number.isInteger(n) || n <= 0) ||
+        lockout.maxLockDuration < lockout.lockDuration
+    ) {
+        throw new Error('LOGIN_LOCKOUT_* must be non-negative integers and LOGIN_LOCKOUT_MAX_DURATION must not be less than LOGIN_LOCKOUT_DURATION');
+    }
+
+    // 浏览器只允许在 rpId 本身或其子域名下使用通行密钥
+    const { rpId, origins } = config.webauthn;
+    const invalidOrigin = origins.find((origin) => {
+        const hostname = URL.parse(origin)?.hostname;
+        return !hostname || (hostname !== rpId && !hostname.endsWith(`.${rpId}`));
+    });
+    if (!rpId || invalidOrigin !== undefined) {
+        throw new Error(`WEBAUTHN_ORIGINS must be on WEBAUTHN_RP_ID "${rpId}" or its subdomains: ${invalidOrigin}`);
+    }
+
+    // 签发者必须为 HTTPS（本地开发和测试用的 localhost 除外）
+    const { redirectBaseUrl, providers } = config.oidc;
+    if (!URL.canParse(redirectBaseUrl)) {
+        throw new Error(`OIDC_REDIRECT_BASE_URL must be a valid URL: ${redirectBaseUrl}`);
+    }
+    for (const provider of providers) {
+        const issuer = URL.parse(provider.issuer);
+        const isSecure = issuer?.protocol === 'https:' ||
+            (issuer?.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(issuer.hostname));
+        if (!/^[a-z0-9-]+$/.test(provider.id) || !isSecure || !provider.clientId || !provider.scopes.includes('openid')) {
+            throw new Error(`OIDC provider "${provider.id}" must have a lowercase id, an HTTPS issuer, a client id and the "openid" scope`);
+        }
+    }
+
+    const { linkBaseUrl, redirectUrl, expiresIn } = config.magicLink;
+    if (!URL.canParse(linkBaseUrl) || !URL.canParse(redirectUrl) || !Number.isInteger(expiresIn) || expiresIn <= 0) {
+        throw new Error('MAGIC_LINK_BASE_URL and MAGIC_LINK_REDIRECT_URL must be valid URLs and MAGIC_LINK_EXPIRES_IN must be a positive integer');
+    }
+
+    const { gracePeriodDays, reauthMaxAge } = config.accountDeletion;
+    if ([gracePeriodDays, reauthMaxAge].some((n) => !Number.isInteger(n) || n <= 0)) {
+        throw new Error('ACCOUNT_DELETION_GRACE_DAYS and ACCOUNT_DELETION_REAUTH_MAX_AGE must be positive integers');
+    }
+
+    const { bucket, linkExpiresIn } = config.dataExport;
+    if (!bucket) {
+        throw new Error('DATA_EXPORT_BUCKET is required');
+    }
+    if (!Number.isInteger(linkExpiresIn) || linkExpiresIn <= 0) {
+        throw new Error('DATA_EXPORT_LINK_EXPIRES_IN must be a positive integer');
+    }
+
+    const challenge = config.botChallenge;
+    if (!['off', 'adaptive', 'always'].includes(challenge.mode) || !['pow', 'hcaptcha', 'turnstile'].includes(challenge.provider)) {
+        throw new Error('BOT_CHALLENGE_MODE must be "off", "adaptive" or "always" and BOT_CHALLENGE_PROVIDER must be "pow", "hcaptcha" or "turnstile"');
+    }
+    if (
+        !Number.isInteger(challenge.freeAttempts) || challenge.freeAttempts < 0 ||
+        !Number.isInteger(challenge.powDifficulty) || challenge.powDifficulty < 8 || challenge.powDifficulty > 32 ||
+        !Number.isInteger(challenge.powExpiresIn) || challenge.powExpiresIn <= 0
+    ) {
+        throw new Error('BOT_CHALLENGE_FREE_ATTEMPTS must be a non-negative integer, BOT_CHALLENGE_POW_DIFFICULTY must be between 8 and 32 and BOT_CHALLENGE_POW_EXPIRES_IN must be a positive integer');
+    }
+    if (challenge.provider !== 'pow' && (!challenge.siteKey || !challenge.secretKey)) {
+        throw new Error(`BOT_CHALLENGE_SITE_KEY and BOT_CHALLENGE_SECRET_KEY are required for ${challenge.provider}`);
+    }
+
+    // 模拟登录令牌无法提前结束（没有会话），有效期不宜过长
+    const { expiresIn: impersonationExpiresIn } = config.impersonation;
+    if (!Number.isInteger(impersonationExpiresIn) || impersonationExpiresIn < 60 || impersonationExpiresIn > 3600) {
+        throw new Error('IMPERSONATION_EXPIRES_IN must be an integer between 60 and 3600');
+    }
+
     if (config.bcryptRounds < 10 || config.bcryptRounds > 12) {
         console.warn('⚠️  BCRYPT_ROUNDS should be between 10-12 for security and performance balance');
     }
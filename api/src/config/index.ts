@@ -11,6 +11,10 @@ import type {
     AppConfig,
     SupabaseConfig,
     AuthConfig,
+    PasswordProviderMode,
+    OidcProviderConfig,
+    RateLimitStoreMode,
+    BotChallengeConfig,
 } from '[@BASE]/types/config.types.ts';
 import { 
     FormatAppConfig, 
@@ -26,6 +30,26 @@ import {
 } from '[@BASE]/config/auth.config.ts';
 import type { LogLevelName } from '[@BASE]/lib/logger.ts';
 
+/**
+ * 读取 OIDC 身份提供方配置
+ * 
+ * @description OIDC_PROVIDERS 为逗号分隔的提供方标识，每个提供方读取 OIDC_<ID>_* 环境变量（ID 大写，连字符替换为下划线）
+ */
+function loadOidcProviders(): OidcProviderConfig[] {
+    const ids = Deno.env.get("OIDC_PROVIDERS")?.split(",").map((id) => id.trim()).filter(Boolean) || [];
+    return ids.map((id) => {
+        const prefix = `OIDC_${id.toUpperCase().replace(/-/g, "_")}_`;
+        return {
+            id,
+            name: Deno.env.get(`${prefix}NAME`) || id,
+            issuer: Deno.env.get(`${prefix}ISSUER`) || "",
+            clientId: Deno.env.get(`${prefix}CLIENT_ID`) || "",
+            clientSecret: Deno.env.get(`${prefix}CLIENT_SECRET`) || "",
+            scopes: (Deno.env.get(`${prefix}SCOPES`) || "openid email profile").split(" ").filter(Boolean),
+        };
+    });
+}
+
 const config: FullConfig = {
     baseDir: Deno.env.get("BASE_DIR") || "./",
     app: {
@@ -41,6 +65,7 @@ const config: FullConfig = {
         corsOrigins: Deno.env.get("CORS_ORIGINS")?.split(",") || ["http://localhost:3000", "http://localhost:5173"],
         logLevel: Deno.env.get("LOG_LEVEL") as LogLevelName | "INFO",
         logDirName: Deno.env.get("LOG_DIR_NAME") || "logs",
+        rateLimitStore: Deno.env.get("RATE_LIMIT_STORE") as RateLimitStoreMode || "memory",
     },
     supabase: {
         url: Deno.env.get("SUPABASE_URL") || "",
@@ -50,10 +75,52 @@ const config: FullConfig = {
     },
     auth: {
         jwtSecret: Deno.env.get("JWT_SECRET") || "",
-        jwtExpiresIn: parseInt(Deno.env.get("JWT_EXPIRES_IN") || "604800"),
+        jwtExpiresIn: parseInt(Deno.env.get("JWT_EXPIRES_IN") || "900"),
         jwtRefreshExpiresIn: parseInt(Deno.env.get("JWT_REFRESH_EXPIRES_IN") || "2592000"),
         bcryptRounds: parseInt(Deno.env.get("BCRYPT_ROUNDS") || "10"),
         sessionSecret: Deno.env.get("SESSION_SECRET") || "",
+        passwordProvider: Deno.env.get("PASSWORD_PROVIDER") as PasswordProviderMode || "supabase",
+        loginLockout: {
+            maxAccountFailures: parseInt(Deno.env.get("LOGIN_LOCKOUT_MAX_ACCOUNT_FAILURES") || "5"),
+            maxIpFailures: parseInt(Deno.env.get("LOGIN_LOCKOUT_MAX_IP_FAILURES") || "20"),
+            window: parseInt(Deno.env.get("LOGIN_LOCKOUT_WINDOW") || "900"),
+            lockDuration: parseInt(Deno.env.get("LOGIN_LOCKOUT_DURATION") || "300"),
+            maxLockDuration: parseInt(Deno.env.get("LOGIN_LOCKOUT_MAX_DURATION") || "86400"),
+        },
+        webauthn: {
+            rpId: Deno.env.get("WEBAUTHN_RP_ID") || "localhost",
+            rpName: Deno.env.get("WEBAUTHN_RP_NAME") || Deno.env.get("APP_NAME") || "My Project",
+            origins: Deno.env.get("WEBAUTHN_ORIGINS")?.split(",") || ["http://localhost:3000"],
+        },
+        oidc: {
+            redirectBaseUrl: Deno.env.get("OIDC_REDIRECT_BASE_URL") || "http://localhost:3000/auth/oauth",
+            providers: loadOidcProviders(),
+        },
+        magicLink: {
+            linkBaseUrl: Deno.env.get("MAGIC_LINK_BASE_URL") || `${Deno.env.get("APP_URL") || "http://localhost:8000"}/api/auth/magic`,
+            redirectUrl: Deno.env.get("MAGIC_LINK_REDIRECT_URL") || "http://localhost:3000/auth/magic/callback",
+            expiresIn: parseInt(Deno.env.get("MAGIC_LINK_EXPIRES_IN") || "600"),
+        },
+        accountDeletion: {
+            gracePeriodDays: parseInt(Deno.env.get("ACCOUNT_DELETION_GRACE_DAYS") || "30"),
+            reauthMaxAge: parseInt(Deno.env.get("ACCOUNT_DELETION_REAUTH_MAX_AGE") || "600"),
+        },
+        dataExport: {
+            bucket: Deno.env.get("DATA_EXPORT_BUCKET") || "data-exports",
+            linkExpiresIn: parseInt(Deno.env.get("DATA_EXPORT_LINK_EXPIRES_IN") || "604800"),
+        },
+        botChallenge: {
+            mode: Deno.env.get("BOT_CHALLENGE_MODE") as BotChallengeConfig["mode"] || "adaptive",
+            provider: Deno.env.get("BOT_CHALLENGE_PROVIDER") as BotChallengeConfig["provider"] || "pow",
+            freeAttempts: parseInt(Deno.env.get("BOT_CHALLENGE_FREE_ATTEMPTS") || "3"),
+            powDifficulty: parseInt(Deno.env.get("BOT_CHALLENGE_POW_DIFFICULTY") || "18"),
+            powExpiresIn: parseInt(Deno.env.get("BOT_CHALLENGE_POW_EXPIRES_IN") || "300"),
+            siteKey: Deno.env.get("BOT_CHALLENGE_SITE_KEY") || "",
+            secretKey: Deno.env.get("BOT_CHALLENGE_SECRET_KEY") || "",
+        },
+        impersonation: {
+            expiresIn: parseInt(Deno.env.get("IMPERSONATION_EXPIRES_IN") || "900"),
+        },
     },
 };
 
@@ -0,0 +1,103 @@
+/**
+ * @file admin.handler.ts
+ * @description 管理员请求处理器，通过 Service 层处理需要管理员权限的操作
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import type { Context } from '@hono/hono';
+import { adminService } from '[@BASE-services]/admin.service.ts';
+import { apiResponse } from '[@BASE]/lib/api-response.ts';
+import type { 
+    // deno-lint-ignore no-unused-vars
+    SuccessResponse, 
+    // deno-lint-ignore no-unused-vars
+    ErrorResponse,
+} from '[@BASE]/lib/api-response.ts';
+import type {
+    // deno-lint-ignore no-unused-vars
+    AccountUnlockResult,
+    // deno-lint-ignore no-unused-vars
+    UserRoleUpdateResult,
+    // deno-lint-ignore no-unused-vars
+    ImpersonationResult,
+} from '[@BASE-services]/admin.service.ts';
+import { ImpersonateUserInput, UpdateUserRoleInput } from '[@BASE-schemas]/user.schema.ts';
+import { getClientContext } from '[@BASE]/untils/server.ts';
+import type { JwtPayload } from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 解锁账号
+ * 
+ * @route POST /api/admin/users/:id/unlock
+ * @param {Context} c - Hono 上下文对象
+ * @param {string} id - 用户 ID（从路由参数获取）
+ * @returns {Promise<Response<SuccessResponse<AccountUnlockResult> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 清除因登录失败次数过多产生的账号锁定，之前的失败记录不再计入
+ */
+export async function unlockUser(c: Context) {
+    const adminId = c.get('userId');
+    const userId = c.req.param('id')!; // 路由层已校验
+
+    const result = await adminService.unlockAccount(userId, adminId);
+
+    return c.json(apiResponse.success(result, '账号已解锁'), 200);
+}
+
+/**
+ * 修改用户角色
+ * 
+ * @route PUT /api/admin/users/:id/role
+ * @param {Context<{RequestBody: UpdateUserRoleInput}>} c - Hono 上下文对象
+ * @param {string} id - 用户 ID（从路由参数获取）
+ * @returns {Promise<Response<SuccessResponse<UserRoleUpdateResult> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 修改后该用户所有设备需要重新登录，新的访问令牌携带新角色
+ */
+export async function updateUserRole(c: Context) {
+    const adminId = c.get('userId');
+    const userId = c.req.param('id')!; // 路由层已校验
+    const body: UpdateUserRoleInput = await c.req.json();
+
+    const result = await adminService.updateUserRole(userId, body.role, adminId);
+
+    return c.json(apiResponse.success(result, '角色已修改'), 200);
+}
+
+/**
+ * 模拟用户登录
+ * 
+ * @route POST /api/admin/users/:id/impersonate
+ * @param {Context<{RequestBody: ImpersonateUserInput}>} c - Hono 上下文对象
+ * @param {string} id - 用户 ID（从路由参数获取）
+ * @returns {Promise<Response<SuccessResponse<ImpersonationResult> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 返回带 act 声明的短期访问令牌（没有刷新令牌），使用期间不能修改凭据或注销账号
+ */
+export async function impersonateUser(c: Context) {
+    const admin = { sub: c.get('userId'), email: c.get('userEmail') };
+    const userId = c.req.param('id')!; // 路由层已校验
+    const body: ImpersonateUserInput = await c.req.json();
+
+    const result = await adminService.impersonateUser(userId, admin, body.reason, getClientContext(c));
+
+    return c.json(apiResponse.success(result, '已开始模拟登录'), 200);
+}
+
+/**
+ * 结束模拟登录
+ * 
+ * @route POST /api/auth/impersonation/end
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<null> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 使用模拟登录令牌调用，令牌立即失效（不必等到过期），结束时间写入模拟登录记录
+ */
+export async function endImpersonation(c: Context) {
+    const payload: JwtPayload = c.get('jwtPayload');
+
+    await adminService.endImpersonation(payload);
+
+    return c.json(apiResponse.success(null, '已结束模拟登录'), 200);
+}
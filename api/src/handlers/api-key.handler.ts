@@ -0,0 +1,79 @@
+/**
+ * @file api-key.handler.ts
+ * @description 个人 API 密钥请求处理器，处理 API 密钥创建、列表和吊销相关的 HTTP 请求
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import type { Context } from '@hono/hono';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { apiResponse } from '[@BASE]/lib/api-response.ts';
+import type {
+    // deno-lint-ignore no-unused-vars
+    SuccessResponse,
+    // deno-lint-ignore no-unused-vars
+    ErrorResponse,
+} from '[@BASE]/lib/api-response.ts';
+import { CreateApiKeyInput } from '[@BASE-schemas]/user.schema.ts';
+import type {
+    // deno-lint-ignore no-unused-vars
+    ApiKeyInfo,
+    CreatedApiKey,
+} from '[@BASE-services]/api-key.service.ts';
+import { apiKeyService } from '[@BASE-services]/api-key.service.ts';
+
+/**
+ * 获取当前用户的 API 密钥列表
+ * 
+ * @route GET /api/users/me/api-keys
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<ApiKeyInfo[]> | ErrorResponse>>} JSON 响应
+ */
+export async function listApiKeys(c: Context) {
+    const userId = c.get('userId');
+
+    const apiKeys = await apiKeyService.list(userId);
+
+    return c.json(apiResponse.success(apiKeys), 200);
+}
+
+/**
+ * 创建 API 密钥
+ * 
+ * @route POST /api/users/me/api-keys
+ * @param {Context<{RequestBody: CreateApiKeyInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<CreatedApiKey> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 响应中的 key 为密钥明文，只返回这一次；调用方使用 `Authorization: ApiKey <key>` 访问 /api/users/*
+ */
+export async function createApiKey(c: Context) {
+    const userId = c.get('userId');
+    const body: CreateApiKeyInput = await c.req.json();
+
+    const apiKey = await apiKeyService.create(userId, body);
+
+    logger.info('API key created via handler', { userId, apiKeyId: apiKey.id });
+
+    return c.json(
+        apiResponse.success<CreatedApiKey>(apiKey, 'API 密钥已创建，请立即复制保存，关闭后将无法再次查看'),
+        200
+    );
+}
+
+/**
+ * 吊销 API 密钥
+ * 
+ * @route DELETE /api/users/me/api-keys/:id
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<null> | ErrorResponse>>} JSON 响应
+ */
+export async function revokeApiKey(c: Context) {
+    const userId = c.get('userId');
+    const apiKeyId = c.req.param('id')!; // 路由层已校验
+
+    await apiKeyService.revoke(userId, apiKeyId);
+
+    logger.info('API key revoked via handler', { userId, apiKeyId });
+
+    return c.json(apiResponse.success(null, 'API 密钥已吊销'), 200);
+}
@@ -19,13 +19,43 @@ import {
     SendVerificationCodeInput,
     VerificationCodeLoginInput,
     PasswordLoginInput,
+    RegisterInput,
+    RefreshTokenInput,
+    LogoutInput,
+    LogoutAllInput,
+    logoutSchema,
+    logoutAllSchema,
+    ForgotPasswordInput,
+    ResetPasswordInput,
+    LoginChallengeInput,
+    MfaLoginInput,
+    RestoreAccountInput,
 } from '[@BASE-schemas]/auth.schema.ts'
 import supabase from "[@BASE]/lib/supabase.client.ts";
-import type { LoginResponse } from '[@BASE]/types/auth.types.ts';
+import { LoginChallengeType, LoginMethod } from '[@BASE]/types/auth.types.ts';
+import type { JwtPayload, LoginResponse, LoginResult } from '[@BASE]/types/auth.types.ts';
 import { authService } from '[@BASE-services]/auth.service.ts';
-import { generateToken } from '[@BASE]/lib/jwt.ts';
-import { userRepository } from '[@BASE-repositories]/user.repository.ts';
+import { tokenRevocationService } from '[@BASE-services]/token-revocation.service.ts';
+import { botChallengeService } from '[@BASE-services]/bot-challenge.service.ts';
+import { getClientContext } from '[@BASE]/untils/server.ts';
 
+/**
+ * 登录结果对应的提示信息
+ */
+function loginMessage(result: LoginResult): string {
+    if (!('challengeRequired' in result)) {
+        return '登录成功';
+    }
+
+    switch (result.challengeType) {
+        case LoginChallengeType.TOTP:
+            return '请输入两步验证码';
+        case LoginChallengeType.ACCOUNT_RESTORE:
+            return '该账号已申请注销，确认恢复后即可登录';
+        default:
+            return '检测到异常登录，请输入发送到邮箱的验证码';
+    }
+}
 
 /**
  * 发送邮箱验证码
@@ -34,10 +64,17 @@ import { userRepository } from '[@BASE-repositories]/user.repository.ts';
  * @param {Context<{RequestBody: SendVerificationCodeInput}>} c - Hono 上下文对象
  * @returns {Promise<Response<SuccessResponse<null> | ErrorResponse>>} JSON 响应
  * 
- * @description 使用 Supabase Auth 发送邮箱验证码
+ * @description 使用 Supabase Auth 发送邮箱验证码；请求频繁或风险较高时要求先完成人机验证（返回 AUTH_CHALLENGE_REQUIRED 和挑战）
  */
 export async function sendVerificationCode(c: Context) {
     const body: SendVerificationCodeInput = await c.req.json();
+    await botChallengeService.assertPassed({
+        action: 'send-code',
+        email: body.email,
+        ip: getClientContext(c).ip,
+        solution: body.challenge,
+    });
+
     // 使用 Supabase Auth 发送验证码
     const { error } = await supabase.auth.signInWithOtp({
         email: body.email,
@@ -70,72 +107,25 @@ export async function sendVerificationCode(c: Context) {
  * 
  * @route POST /api/auth/login/code
  * @param {Context<{RequestBody: VerificationCodeLoginInput}>} c - Hono 上下文对象
- * @returns {Promise<Response<SuccessResponse<LoginResponse> | ErrorResponse>>} JSON 响应
+ * @returns {Promise<Response<SuccessResponse<LoginResult> | ErrorResponse>>} JSON 响应
  * 
  * @description 使用 Supabase Auth 验证验证码并完成登录。如果验证成功，会自动在 public.users 表中创建用户。
  */
 export async function loginWithVerificationCode(c: Context) {
     // 路由层已通过 zValidator 校验，这里直接取校验后的数据
     const body: VerificationCodeLoginInput = await c.req.json();
-    // 使用 Supabase Auth 验证验证码
-    const { data, error } = await supabase.auth.verifyOtp({
-        email: body.email,
-        token: body.code,
-        type: 'email',
-    });
 
-    if (error) {
-        logger.error('Verification code verification failed', {
-            email: body.email,
-            error: error.message,
-            errorCode: error.status,
-        });
-        const errorInfo = ErrorInfos[ErrorCodes.VERIFICATION_CODE_INVALID];
-        return c.json(
-            apiResponse.error(errorInfo.message, errorInfo.code, error),
-            errorInfo.status
-        )
-    } else if (!data.user) {
-        logger.error('Supabase verifyOtp returned no user', { data });
-        const errorInfo = ErrorInfos[ErrorCodes.INTERNAL_ERROR];
-        return c.json(
-            apiResponse.error('登录失败，请稍后重试', errorInfo.code),
-            errorInfo.status
-        );
-    } else {
-        // Supabase Auth 验证成功后，会在 auth.users 中创建用户
-        // 但不会在我们的 public.users 表中创建，需要手动同步
-        const supabaseUserId = data.user.id;
-
-        // email 在路由层已校验必填；这里直接使用 body.email 作为业务邮箱
-        const email = body.email;
-
-        try {
-            const user = await authService.ensurePublicUserExists({
-                id: supabaseUserId,
-                email,
-                emailVerified: true, // 验证码登录表示邮箱已验证
-            });
-
-            const loginData = await authService.buildLoginResponse(user);
-
-            return c.json(
-                apiResponse.success<LoginResponse>(loginData, '登录成功'),
-                200
-            );
-        } catch (syncErr: unknown) {
-            logger.error('Failed to sync user after verifyOtp', {
-                supabaseUserId,
-                email,
-                error: syncErr instanceof Error ? syncErr.message : String(syncErr),
-            });
-            const errorInfo = ErrorInfos[ErrorCodes.INTERNAL_ERROR];
-            return c.json(
-                apiResponse.error('用户注册失败，请稍后重试', errorInfo.code),
-                errorInfo.status
-            );
-        }
-    }
+    const loginData = await authService.login(
+        LoginMethod.VERIFICATION_CODE,
+        body.email,
+        () => authService.authenticateWithCode(body.email, body.code),
+        getClientContext(c)
+    );
+
+    return c.json(
+        apiResponse.success<LoginResult>(loginData, loginMessage(loginData)),
+        200
+    );
 }
 
 /**
@@ -143,82 +133,234 @@ export async function loginWithVerificationCode(c: Context) {
  * 
  * @route POST /api/auth/login/password
  * @param {Context<{RequestBody: PasswordLoginInput}>} c - Hono 上下文对象
- * @returns {Promise<Response<SuccessResponse<LoginResponse> | ErrorResponse>>} JSON 响应
+ * @returns {Promise<Response<SuccessResponse<LoginResult> | ErrorResponse>>} JSON 响应
  * 
- * @description 使用 Supabase Auth 进行密码登录
+ * @description 按 PASSWORD_PROVIDER 配置使用本地密码哈希或 Supabase Auth 校验密码；
+ * 高风险登录返回验证挑战，需要调用 /api/auth/login/verify 完成登录
  */
 export async function loginWithPassword(c: Context) {
     const body: PasswordLoginInput = await c.req.json();
-    // 使用 Supabase Auth 密码登录
-    const { data, error } = await supabase.auth.signInWithPassword({
+
+    // 通过当前配置的凭据提供者校验密码，生成自己的访问令牌和刷新令牌
+    const loginData = await authService.login(
+        LoginMethod.PASSWORD,
+        body.email,
+        () => authService.authenticateWithPassword(body.email, body.password),
+        getClientContext(c)
+    );
+
+    return c.json(
+        apiResponse.success<LoginResult>(loginData, loginMessage(loginData)),
+        200
+    );
+}
+
+/**
+ * 完成登录验证（高风险登录的第二步）
+ * 
+ * @route POST /api/auth/login/verify
+ * @param {Context<{RequestBody: LoginChallengeInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<LoginResponse> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 提交登录时返回的挑战令牌和邮箱验证码，验证通过后签发令牌
+ */
+export async function verifyLoginChallenge(c: Context) {
+    const body: LoginChallengeInput = await c.req.json();
+
+    const loginData = await authService.verifyLoginChallenge(
+        body.challengeToken,
+        body.code,
+        getClientContext(c)
+    );
+
+    return c.json(
+        apiResponse.success<LoginResponse>(loginData, '登录成功'),
+        200
+    );
+}
+
+/**
+ * 完成两步验证（开启两步验证的用户登录的第二步）
+ * 
+ * @route POST /api/auth/login/mfa
+ * @param {Context<{RequestBody: MfaLoginInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<LoginResponse> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 提交登录时返回的挑战令牌和动态码（或恢复码），验证通过后签发令牌
+ */
+export async function verifyMfaChallenge(c: Context) {
+    const body: MfaLoginInput = await c.req.json();
+
+    const loginData = await authService.verifyMfaChallenge(
+        body.challengeToken,
+        body.code,
+        getClientContext(c)
+    );
+
+    return c.json(
+        apiResponse.success<LoginResponse>(loginData, '登录成功'),
+        200
+    );
+}
+
+/**
+ * 恢复注销中的账号并继续登录
+ * 
+ * @route POST /api/auth/login/restore
+ * @param {Context<{RequestBody: RestoreAccountInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<LoginResult> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 注销宽限期内的账号登录时返回 account_restore 挑战，用户确认后提交挑战令牌恢复账号；
+ * 开启两步验证或高风险登录时继续返回验证挑战
+ */
+export async function restoreAccount(c: Context) {
+    const body: RestoreAccountInput = await c.req.json();
+
+    const loginData = await authService.restoreAccount(body.challengeToken, getClientContext(c));
+
+    return c.json(
+        apiResponse.success<LoginResult>(
+            loginData,
+            'challengeRequired' in loginData ? loginMessage(loginData) : '账号已恢复，登录成功'
+        ),
+        200
+    );
+}
+
+/**
+ * 邮箱 + 密码注册
+ * 
+ * @route POST /api/auth/register
+ * @param {Context<{RequestBody: RegisterInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<LoginResponse> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 创建用户（邮箱未验证状态）并直接登录，邮箱已被注册时返回 USER_EMAIL_ALREADY_EXISTS
+ */
+export async function register(c: Context) {
+    const body: RegisterInput = await c.req.json();
+
+    const user = await authService.register({
+        name: body.name,
         email: body.email,
         password: body.password,
     });
 
-    if (error) {
-        logger.error('Password login failed', {
-            email: body.email,
-            error: error.message,
-            errorCode: error.status,
-        });
-        const errorInfo = ErrorInfos[ErrorCodes.AUTH_INVALID_CREDENTIALS];
-        return c.json(
-            apiResponse.error(errorInfo.message, errorInfo.code, error),
-            errorInfo.status
-        )
-    } else {
-        // 从数据库获取用户信息
-        const user = await userRepository.findById(data.user!.id);
-        if (!user) {
-            const errorInfo = ErrorInfos[ErrorCodes.USER_NOT_FOUND];
-            return c.json(
-                apiResponse.error(errorInfo.message, errorInfo.code),
-                errorInfo.status
-            );
-        }
-
-        // 生成自己的 JWT token
-        const jwtToken = await generateToken({
-            sub: user.id,
-            email: user.email,
-            role: undefined, // 可以根据需要添加角色
-        });
+    const loginData = await authService.buildLoginResponse(user, getClientContext(c));
 
-        const loginData: LoginResponse = {
-            user: {
-                id: user.id,
-                email: user.email,
-                name: user.name,
-            },
-            token: jwtToken,
-        };
+    return c.json(
+        apiResponse.success<LoginResponse>(loginData, '注册成功'),
+        201
+    );
+}
 
-        return c.json(
-            apiResponse.success<LoginResponse>(loginData, '登录成功'),
-            200
-        );
-    }
+/**
+ * 刷新令牌
+ * 
+ * @route POST /api/auth/refresh
+ * @param {Context<{RequestBody: RefreshTokenInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<LoginResponse> | ErrorResponse>>} JSON 响应
+ * 
+ * @description
+ * 使用刷新令牌换取新的访问令牌，同时轮换刷新令牌（旧令牌立即失效）
+ * 已失效的刷新令牌被再次使用时，会吊销该次登录的所有刷新令牌
+ */
+export async function refreshToken(c: Context) {
+    const body: RefreshTokenInput = await c.req.json();
+
+    const loginData = await authService.refreshSession(body.refreshToken, getClientContext(c));
+
+    return c.json(
+        apiResponse.success<LoginResponse>(loginData, '令牌刷新成功'),
+        200
+    );
+}
+
+/**
+ * 忘记密码（发送重置密码验证码）
+ * 
+ * @route POST /api/auth/forgot-password
+ * @param {Context<{RequestBody: ForgotPasswordInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<null> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 无论邮箱是否注册都返回相同的提示，避免邮箱探测
+ */
+export async function forgotPassword(c: Context) {
+    const body: ForgotPasswordInput = await c.req.json();
+
+    await authService.requestPasswordReset(body.email);
+
+    return c.json(
+        apiResponse.success(null, '如果该邮箱已注册，您将收到重置密码验证码'),
+        200
+    );
+}
+
+/**
+ * 重置密码
+ * 
+ * @route POST /api/auth/reset-password
+ * @param {Context<{RequestBody: ResetPasswordInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<null> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 校验重置密码验证码后设置新密码，并使所有已登录设备失效
+ */
+export async function resetPassword(c: Context) {
+    const body: ResetPasswordInput = await c.req.json();
+
+    await authService.resetPassword(body.email, body.code, body.password);
+
+    return c.json(
+        apiResponse.success(null, '密码重置成功，请使用新密码登录'),
+        200
+    );
 }
 
 /**
  * 退出登录
  * 
  * @route POST /api/auth/logout
- * @param {Context} c - Hono 上下文对象
- * @returns {Response<SuccessResponse<null> | ErrorResponse>} JSON 响应
+ * @param {Context<{RequestBody: LogoutInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<null> | ErrorResponse>>} JSON 响应
  * 
  * @description
- * 如果使用 JWT，客户端直接删除 Token 即可
- * 如果需要服务端黑名单，可以在这里处理
- * 从认证中间件注入的 userId 获取用户信息
+ * 吊销当前访问令牌（加入服务端吊销列表），请求体中带有刷新令牌时一并吊销
+ * 从认证中间件注入的 jwtPayload 获取当前令牌信息
  */
-export function logout(c: Context) {
-    // 如果使用 JWT，客户端直接删除 Token 即可
-    // 如果需要服务端黑名单，可以在这里处理
+export async function logout(c: Context) {
+    // 请求体可为空（zValidator 会拒绝空请求体），在这里校验，失败时抛出 ZodError 返回 400
+    const body: LogoutInput = logoutSchema.parse(await c.req.json().catch(() => ({})));
+    const payload: JwtPayload = c.get('jwtPayload'); // 从认证中间件注入
 
-    const userId = c.get('userId'); // 从认证中间件注入
+    await authService.logout(payload, body.refreshToken);
 
-    logger.info('User logged out', { userId });
+    logger.info('User logged out', { userId: payload.sub });
 
     return c.json(apiResponse.success(null, '退出登录成功'), 200);
-}
\ No newline at end of file
+}
+
+/**
+ * 退出所有设备
+ * 
+ * @route POST /api/auth/logout-all
+ * @param {Context<{RequestBody: LogoutAllInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<{ revokedBefore: string }> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 吊销指定时间点（默认当前时间）之前签发给当前用户的所有访问令牌和刷新令牌
+ */
+export async function logoutAll(c: Context) {
+    // 请求体可为空，校验方式同 logout
+    const body: LogoutAllInput = logoutAllSchema.parse(await c.req.json().catch(() => ({})));
+    const payload: JwtPayload = c.get('jwtPayload');
+    const before = body.before ? new Date(body.before) : new Date();
+
+    const { revokedBefore } = await tokenRevocationService.revokeAllForUser(payload.sub, before);
+    // 当前令牌可能与吊销时间点在同一秒内签发（iat 精度为秒），单独吊销
+    if (payload.iat === undefined || payload.iat * 1000 <= before.getTime()) {
+        await tokenRevocationService.revokeToken(payload);
+    }
+
+    return c.json(
+        apiResponse.success({ revokedBefore }, '已退出所有设备'),
+        200
+    );
+}
@@ -0,0 +1,129 @@
+/**
+ * @file magic-link.handler.ts
+ * @description 登录链接（magic link）请求处理器，处理发送登录链接、打开和确认链接、换取令牌和轮询登录结果相关的 HTTP 请求
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import type { Context } from '@hono/hono';
+import config from '[@BASE]/config/index.ts';
+import { apiResponse } from '[@BASE]/lib/api-response.ts';
+import type {
+    // deno-lint-ignore no-unused-vars
+    SuccessResponse,
+    // deno-lint-ignore no-unused-vars
+    ErrorResponse,
+} from '[@BASE]/lib/api-response.ts';
+import {
+    MagicLinkConfirmInput,
+    MagicLinkExchangeInput,
+    MagicLinkPollInput,
+    MagicLinkSendInput,
+} from '[@BASE-schemas]/auth.schema.ts';
+import type { LoginResult, MagicLinkPollResult } from '[@BASE]/types/auth.types.ts';
+// deno-lint-ignore no-unused-vars
+import type { MagicLinkRequest } from '[@BASE-services]/magic-link.service.ts';
+import { authService } from '[@BASE-services]/auth.service.ts';
+import { magicLinkService } from '[@BASE-services]/magic-link.service.ts';
+import { getClientContext } from '[@BASE]/untils/server.ts';
+
+/**
+ * 发送登录链接
+ * 
+ * @route POST /api/auth/magic/send
+ * @param {Context<{RequestBody: MagicLinkSendInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<MagicLinkRequest> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 返回的 pollToken 用于轮询登录结果，在其他设备上点击链接时发起请求的页面也能完成登录
+ */
+export async function sendMagicLink(c: Context) {
+    const body: MagicLinkSendInput = await c.req.json();
+
+    const request = await magicLinkService.send(body.email, getClientContext(c));
+
+    return c.json(apiResponse.success(request, '登录链接已发送'), 200);
+}
+
+/**
+ * 打开登录链接
+ * 
+ * @route GET /api/auth/magic/:token
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response>} 302 重定向到前端登录链接确认页面
+ * 
+ * @description 只校验签名和过期时间，不确认登录：邮件安全网关和浏览器预取会自动打开链接，
+ * 需要用户在确认页面点击确认（POST /api/auth/magic/confirm）后才会登录。
+ * 签名有效时携带链接令牌（?token=...）重定向，无效或已过期时携带 ?error=invalid_link 重定向
+ */
+export async function openMagicLink(c: Context) {
+    const token = c.req.param('token')!; // 路由层已校验
+    const redirect = new URL(config.auth.magicLink.redirectUrl);
+
+    if (await magicLinkService.verify(token)) {
+        redirect.searchParams.set('token', token);
+    } else {
+        redirect.searchParams.set('error', 'invalid_link');
+    }
+
+    // 链接令牌可以确认登录，禁止缓存和通过 Referer 泄露
+    c.header('Cache-Control', 'no-store');
+    c.header('Referrer-Policy', 'no-referrer');
+    return c.redirect(redirect.toString(), 302);
+}
+
+/**
+ * 确认登录链接
+ * 
+ * @route POST /api/auth/magic/confirm
+ * @param {Context<{RequestBody: MagicLinkConfirmInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<{ code: string }> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 确认后发起请求的客户端轮询即可完成登录；返回的一次性换取令牌用于在点击链接的浏览器登录。
+ * 每个链接只签发一个会话，轮询和换取令牌先兑换的一方登录成功
+ */
+export async function confirmMagicLink(c: Context) {
+    const body: MagicLinkConfirmInput = await c.req.json();
+
+    const code = await magicLinkService.approve(body.token);
+
+    c.header('Cache-Control', 'no-store');
+    return c.json(apiResponse.success({ code }, '已确认登录'), 200);
+}
+
+/**
+ * 使用换取令牌完成登录（点击链接的浏览器）
+ * 
+ * @route POST /api/auth/magic/exchange
+ * @param {Context<{RequestBody: MagicLinkExchangeInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<LoginResult> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 发起请求的客户端已通过轮询登录时，换取令牌失效
+ */
+export async function exchangeMagicLink(c: Context) {
+    const body: MagicLinkExchangeInput = await c.req.json();
+
+    const loginData = await authService.loginWithMagicLink(body.code, getClientContext(c));
+
+    return c.json(
+        apiResponse.success<LoginResult>(loginData, '登录成功'),
+        200
+    );
+}
+
+/**
+ * 轮询登录结果（发起请求的客户端）
+ * 
+ * @route POST /api/auth/magic/poll
+ * @param {Context<{RequestBody: MagicLinkPollInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<MagicLinkPollResult> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 链接尚未确认时返回 { status: 'pending' }，确认后返回 { status: 'completed', result: LoginResult }；
+ * 点击链接的浏览器已使用换取令牌登录时，轮询令牌失效
+ */
+export async function pollMagicLink(c: Context) {
+    const body: MagicLinkPollInput = await c.req.json();
+
+    const result = await authService.pollMagicLink(body.pollToken, getClientContext(c));
+
+    return c.json(apiResponse.success<MagicLinkPollResult>(result), 200);
+}
@@ -0,0 +1,75 @@
+/**
+ * @file oauth.handler.ts
+ * @description 第三方登录（OIDC/OAuth2）请求处理器，处理获取登录方式、发起授权和授权回调相关的 HTTP 请求
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import type { Context } from '@hono/hono';
+import { apiResponse } from '[@BASE]/lib/api-response.ts';
+import type {
+    // deno-lint-ignore no-unused-vars
+    SuccessResponse,
+    // deno-lint-ignore no-unused-vars
+    ErrorResponse,
+} from '[@BASE]/lib/api-response.ts';
+import { OAuthCallbackInput } from '[@BASE-schemas]/auth.schema.ts';
+import type { LoginResult } from '[@BASE]/types/auth.types.ts';
+import type {
+    // deno-lint-ignore no-unused-vars
+    AuthorizationRequest,
+    // deno-lint-ignore no-unused-vars
+    OAuthProviderInfo,
+} from '[@BASE-services]/oauth.service.ts';
+import { authService } from '[@BASE-services]/auth.service.ts';
+import { oauthService } from '[@BASE-services]/oauth.service.ts';
+import { getClientContext } from '[@BASE]/untils/server.ts';
+
+/**
+ * 获取已启用的第三方登录方式
+ * 
+ * @route GET /api/auth/oauth/providers
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Response<SuccessResponse<OAuthProviderInfo[]> | ErrorResponse>} JSON 响应
+ */
+export function getProviders(c: Context) {
+    return c.json(apiResponse.success(oauthService.listProviders()), 200);
+}
+
+/**
+ * 发起第三方登录
+ * 
+ * @route POST /api/auth/oauth/:provider
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<AuthorizationRequest> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 前端跳转到返回的授权地址，身份提供方完成认证后回调到前端 /auth/oauth/:provider/callback 页面
+ */
+export async function getAuthorizationUrl(c: Context) {
+    const provider = c.req.param('provider')!; // 路由层已校验
+
+    const request = await oauthService.createAuthorizationUrl(provider);
+
+    return c.json(apiResponse.success(request), 200);
+}
+
+/**
+ * 第三方登录回调
+ * 
+ * @route POST /api/auth/oauth/:provider/callback
+ * @param {Context<{RequestBody: OAuthCallbackInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<LoginResult> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 前端回调页面提交地址栏中的 code 和 state，返回与密码登录相同的 LoginResult
+ */
+export async function handleCallback(c: Context) {
+    const provider = c.req.param('provider')!; // 路由层已校验
+    const body: OAuthCallbackInput = await c.req.json();
+
+    const loginData = await authService.loginWithOAuth(provider, body.code, body.state, getClientContext(c));
+
+    return c.json(
+        apiResponse.success<LoginResult>(loginData, '登录成功'),
+        200
+    );
+}
@@ -7,6 +7,11 @@
 
 import type { Context } from '@hono/hono';
 import { userService } from '[@BASE-services]/user.service.ts';
+import { sessionService } from '[@BASE-services]/session.service.ts';
+import { loginLogService } from '[@BASE-services]/login-log.service.ts';
+import { mfaService } from '[@BASE-services]/mfa.service.ts';
+import { accountDeletionService } from '[@BASE-services]/account-deletion.service.ts';
+import { dataExportService } from '[@BASE-services]/data-export.service.ts';
 import { logger } from '[@BASE]/lib/logger.ts';
 import { apiResponse } from '[@BASE]/lib/api-response.ts';
 import type { 
@@ -16,13 +21,35 @@ import type {
     ErrorResponse,
 } from '[@BASE]/lib/api-response.ts';
 // deno-lint-ignore no-unused-vars
-import type { UserProfile } from '[@BASE]/types/user.types.ts';
+import type { CurrentUserProfile, UserProfile } from '[@BASE]/types/user.types.ts';
+import type { TokenActor } from '[@BASE]/types/auth.types.ts';
+// deno-lint-ignore no-unused-vars
+import type { SessionInfo } from '[@BASE]/types/session.types.ts';
+// deno-lint-ignore no-unused-vars
+import type { LoginHistoryPage } from '[@BASE-services]/login-log.service.ts';
+import type {
+    // deno-lint-ignore no-unused-vars
+    MfaStatus,
+    // deno-lint-ignore no-unused-vars
+    TotpEnrollment,
+    // deno-lint-ignore no-unused-vars
+    RecoveryCodes,
+} from '[@BASE-services]/mfa.service.ts';
+// deno-lint-ignore no-unused-vars
+import type { AccountDeletionResult } from '[@BASE-services]/account-deletion.service.ts';
+// deno-lint-ignore no-unused-vars
+import type { DataExportInfo } from '[@BASE-services]/data-export.service.ts';
 import {
     ChangePasswordInput,
+    SetPasswordInput,
     UpdateAvatarInput,
     UpdateProfileInput,
     SendEmailVerificationCodeInput,
     ChangeEmailInput,
+    VerifyEmailInput,
+    loginHistoryQuerySchema,
+    ConfirmTotpInput,
+    MfaCodeInput,
 } from '[@BASE-schemas]/user.schema.ts';
 
 /**
@@ -30,16 +57,20 @@ import {
  * 
  * @route GET /api/users/me
  * @param {Context} c - Hono 上下文对象
- * @returns {Promise<Response<SuccessResponse<UserProfile> | ErrorResponse>>} JSON 响应
+ * @returns {Promise<Response<SuccessResponse<CurrentUserProfile> | ErrorResponse>>} JSON 响应
  * 
- * @description 从认证中间件获取 userId，返回当前登录用户的资料
+ * @description 从认证中间件获取 userId，返回当前登录用户的资料；管理员模拟登录时 impersonator 为实际操作的管理员
  */
 export async function getCurrentUser(c: Context) {
     const userId = c.get('userId');
+    const impersonator: TokenActor | undefined = c.get('impersonator');
 
     const profile = await userService.getUserProfile(userId);
 
-    return c.json(apiResponse.success(profile), 200);
+    return c.json(apiResponse.success({
+        ...profile,
+        impersonator: impersonator ? { id: impersonator.sub, email: impersonator.email } : null,
+    }), 200);
 }
 
 /**
@@ -99,6 +130,46 @@ export async function changePassword(c: Context) {
     return c.json(apiResponse.success(null, '密码修改成功'), 200);
 }
 
+/**
+ * 发送设置密码验证码
+ * 
+ * @route POST /api/users/me/password/send-code
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<null> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 仅适用于尚未设置密码的用户，验证码发送到当前邮箱
+ */
+export async function sendSetPasswordCode(c: Context) {
+    const userId = c.get('userId');
+
+    await userService.sendSetPasswordCode(userId);
+
+    logger.info('Set password verification code sent via handler', { userId });
+
+    return c.json(
+        apiResponse.success(null, '验证码已发送到当前邮箱'),
+        200
+    );
+}
+
+/**
+ * 设置密码（首次）
+ * 
+ * @route POST /api/users/me/password
+ * @param {Context<{RequestBody: SetPasswordInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<null> | ErrorResponse>>} JSON 响应
+ */
+export async function setPassword(c: Context) {
+    const userId = c.get('userId');
+    const body: SetPasswordInput = await c.req.json();
+
+    await userService.setUserPassword(userId, body.code, body.new_password);
+
+    logger.info('User password set via handler', { userId });
+
+    return c.json(apiResponse.success(null, '密码设置成功'), 200);
+}
+
 /**
  * 获取用户公开资料（通过用户 ID）
  * 
@@ -162,3 +233,241 @@ export async function changeEmail(c: Context) {
         200
     );
 }
+
+/**
+ * 发送验证当前邮箱的验证码
+ * 
+ * @route POST /api/users/me/email/verify/send-code
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<null> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 仅适用于邮箱尚未验证的用户（注册后或更换邮箱后），验证码发送到当前邮箱
+ */
+export async function sendVerifyEmailCode(c: Context) {
+    const userId = c.get('userId');
+
+    await userService.sendVerifyEmailCode(userId);
+
+    logger.info('Verify email code sent via handler', { userId });
+
+    return c.json(
+        apiResponse.success(null, '验证码已发送到当前邮箱'),
+        200
+    );
+}
+
+/**
+ * 验证当前邮箱
+ * 
+ * @route POST /api/users/me/email/verify
+ * @param {Context<{RequestBody: VerifyEmailInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<null> | ErrorResponse>>} JSON 响应
+ */
+export async function verifyEmail(c: Context) {
+    const userId = c.get('userId');
+    const body: VerifyEmailInput = await c.req.json();
+
+    await userService.verifyEmail(userId, body.code);
+
+    logger.info('User email verified via handler', { userId });
+
+    return c.json(apiResponse.success(null, '邮箱验证成功'), 200);
+}
+
+/**
+ * 获取当前用户的登录会话（设备）列表
+ * 
+ * @route GET /api/users/me/sessions
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<SessionInfo[]> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 返回未吊销且未过期的会话，is_current 标记当前请求所在的会话
+ */
+export async function getSessions(c: Context) {
+    const userId = c.get('userId');
+    const sessionId = c.get('sessionId');
+
+    const sessions = await sessionService.listSessions(userId, sessionId);
+
+    return c.json(apiResponse.success(sessions), 200);
+}
+
+/**
+ * 获取当前用户的登录历史
+ * 
+ * @route GET /api/users/me/login-history
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<LoginHistoryPage> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 支持 limit / cursor 游标分页，以及按 status、method 筛选
+ */
+export async function getLoginHistory(c: Context) {
+    const userId = c.get('userId');
+    // 路由层已校验，这里重新解析以获得类型转换和默认值
+    const query = loginHistoryQuerySchema.parse(c.req.query());
+
+    const history = await loginLogService.getLoginHistory(userId, query);
+
+    return c.json(apiResponse.success(history), 200);
+}
+
+/**
+ * 移除登录会话（设备）
+ * 
+ * @route DELETE /api/users/me/sessions/:id
+ * @param {Context} c - Hono 上下文对象
+ * @param {string} id - 会话 ID（从路由参数获取）
+ * @returns {Promise<Response<SuccessResponse<null> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 吊销指定会话及其刷新令牌，该设备上的访问令牌随即失效
+ */
+export async function revokeSession(c: Context) {
+    const userId = c.get('userId');
+    const sessionId = c.req.param('id')!; // 路由层已校验
+
+    await sessionService.revokeUserSession(userId, sessionId);
+
+    logger.info('User session revoked via handler', { userId, sessionId });
+
+    return c.json(apiResponse.success(null, '已移除该设备'), 200);
+}
+
+/**
+ * 注销当前账号
+ * 
+ * @route DELETE /api/users/me
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<AccountDeletionResult> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 要求本次登录不超过 ACCOUNT_DELETION_REAUTH_MAX_AGE（否则返回 AUTH_REAUTHENTICATION_REQUIRED，需要重新登录），
+ * 注销后所有设备退出登录，宽限期内重新登录可以恢复账号
+ */
+export async function deleteAccount(c: Context) {
+    const userId = c.get('userId');
+    const sessionId = c.get('sessionId');
+
+    const result = await accountDeletionService.requestDeletion(userId, sessionId);
+
+    logger.info('Account deletion requested via handler', { userId });
+
+    return c.json(apiResponse.success(result, '账号已注销，宽限期内重新登录可以恢复'), 200);
+}
+
+/**
+ * 导出个人数据
+ * 
+ * @route POST /api/users/me/export
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<DataExportInfo> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 后台生成包含个人资料、登录记录和验证码发送记录的压缩包（JSON + CSV），
+ * 完成后将有时效的下载链接发送到用户邮箱；同时只能有一个进行中的导出
+ */
+export async function exportData(c: Context) {
+    const userId = c.get('userId');
+
+    const result = await dataExportService.requestExport(userId);
+
+    logger.info('Data export requested via handler', { userId, exportId: result.id });
+
+    return c.json(apiResponse.success(result, '数据导出已开始，完成后会将下载链接发送到您的邮箱'), 200);
+}
+
+/**
+ * 获取两步验证状态
+ * 
+ * @route GET /api/users/me/mfa
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<MfaStatus> | ErrorResponse>>} JSON 响应
+ */
+export async function getMfaStatus(c: Context) {
+    const userId = c.get('userId');
+
+    const status = await mfaService.getStatus(userId);
+
+    return c.json(apiResponse.success(status), 200);
+}
+
+/**
+ * 开始绑定 TOTP 两步验证
+ * 
+ * @route POST /api/users/me/mfa/totp
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<TotpEnrollment> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 返回密钥和 otpauth URI，需调用确认接口后才会开启
+ */
+export async function startTotpEnrollment(c: Context) {
+    const userId = c.get('userId');
+
+    const enrollment = await mfaService.startTotpEnrollment(userId);
+
+    return c.json(
+        apiResponse.success(enrollment, '请使用验证器 App 扫描二维码'),
+        200
+    );
+}
+
+/**
+ * 确认绑定 TOTP 两步验证
+ * 
+ * @route POST /api/users/me/mfa/totp/confirm
+ * @param {Context<{RequestBody: ConfirmTotpInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<RecoveryCodes> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 返回一次性恢复码，明文只返回这一次
+ */
+export async function confirmTotp(c: Context) {
+    const userId = c.get('userId');
+    const body: ConfirmTotpInput = await c.req.json();
+
+    const result = await mfaService.confirmTotpEnrollment(userId, body.code);
+
+    logger.info('User TOTP enabled via handler', { userId });
+
+    return c.json(
+        apiResponse.success(result, '两步验证已开启，请妥善保存恢复码'),
+        200
+    );
+}
+
+/**
+ * 关闭 TOTP 两步验证
+ * 
+ * @route POST /api/users/me/mfa/totp/disable
+ * @param {Context<{RequestBody: MfaCodeInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<null> | ErrorResponse>>} JSON 响应
+ */
+export async function disableTotp(c: Context) {
+    const userId = c.get('userId');
+    const body: MfaCodeInput = await c.req.json();
+
+    await mfaService.disableTotp(userId, body.code);
+
+    logger.info('User TOTP disabled via handler', { userId });
+
+    return c.json(apiResponse.success(null, '两步验证已关闭'), 200);
+}
+
+/**
+ * 重新生成两步验证恢复码
+ * 
+ * @route POST /api/users/me/mfa/recovery-codes
+ * @param {Context<{RequestBody: MfaCodeInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<RecoveryCodes> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 旧恢复码立即失效，新恢复码明文只返回这一次
+ */
+export async function regenerateRecoveryCodes(c: Context) {
+    const userId = c.get('userId');
+    const body: MfaCodeInput = await c.req.json();
+
+    const result = await mfaService.regenerateRecoveryCodes(userId, body.code);
+
+    logger.info('User MFA recovery codes regenerated via handler', { userId });
+
+    return c.json(
+        apiResponse.success(result, '恢复码已重新生成，请妥善保存'),
+        200
+    );
+}
@@ -0,0 +1,138 @@
+/**
+ * @file webauthn.handler.ts
+ * @description 通行密钥（WebAuthn）请求处理器，处理通行密钥注册、登录和管理相关的 HTTP 请求
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import type { Context } from '@hono/hono';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { apiResponse } from '[@BASE]/lib/api-response.ts';
+import type {
+    // deno-lint-ignore no-unused-vars
+    SuccessResponse,
+    // deno-lint-ignore no-unused-vars
+    ErrorResponse,
+} from '[@BASE]/lib/api-response.ts';
+import {
+    WebAuthnLoginInput,
+    WebAuthnLoginOptionsInput,
+    WebAuthnRegisterInput,
+} from '[@BASE-schemas]/auth.schema.ts';
+import type { LoginResult } from '[@BASE]/types/auth.types.ts';
+import type {
+    // deno-lint-ignore no-unused-vars
+    AuthenticationOptions,
+    // deno-lint-ignore no-unused-vars
+    PasskeyInfo,
+    // deno-lint-ignore no-unused-vars
+    RegistrationOptions,
+} from '[@BASE-services]/webauthn.service.ts';
+import { authService } from '[@BASE-services]/auth.service.ts';
+import { webauthnService } from '[@BASE-services]/webauthn.service.ts';
+import { getClientContext } from '[@BASE]/untils/server.ts';
+
+/**
+ * 获取通行密钥注册选项
+ * 
+ * @route POST /api/auth/webauthn/register/options
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<RegistrationOptions> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 前端将返回的选项传给 navigator.credentials.create，挑战 5 分钟内有效
+ */
+export async function getRegistrationOptions(c: Context) {
+    const userId = c.get('userId');
+
+    const options = await webauthnService.generateRegistrationOptions(userId);
+
+    return c.json(apiResponse.success(options), 200);
+}
+
+/**
+ * 注册通行密钥
+ * 
+ * @route POST /api/auth/webauthn/register/verify
+ * @param {Context<{RequestBody: WebAuthnRegisterInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<PasskeyInfo> | ErrorResponse>>} JSON 响应
+ */
+export async function verifyRegistration(c: Context) {
+    const userId = c.get('userId');
+    const body: WebAuthnRegisterInput = await c.req.json();
+
+    const passkey = await webauthnService.verifyRegistration(userId, body.credential, body.name);
+
+    logger.info('Passkey registered via handler', { userId, passkeyId: passkey.id });
+
+    return c.json(apiResponse.success(passkey, '通行密钥已添加'), 200);
+}
+
+/**
+ * 获取通行密钥登录选项
+ * 
+ * @route POST /api/auth/webauthn/login/options
+ * @param {Context<{RequestBody: WebAuthnLoginOptionsInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<AuthenticationOptions> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 前端将返回的选项传给 navigator.credentials.get；不传邮箱时由认证器列出可用的通行密钥
+ */
+export async function getAuthenticationOptions(c: Context) {
+    const body: WebAuthnLoginOptionsInput = await c.req.json();
+
+    const options = await webauthnService.generateAuthenticationOptions(body.email);
+
+    return c.json(apiResponse.success(options), 200);
+}
+
+/**
+ * 通行密钥登录
+ * 
+ * @route POST /api/auth/webauthn/login/verify
+ * @param {Context<{RequestBody: WebAuthnLoginInput}>} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<LoginResult> | ErrorResponse>>} JSON 响应
+ * 
+ * @description 返回与密码登录相同的 LoginResponse；通行密钥登录已包含用户验证，不再要求两步验证
+ */
+export async function verifyAuthentication(c: Context) {
+    const body: WebAuthnLoginInput = await c.req.json();
+
+    const loginData = await authService.loginWithPasskey(body.credential, getClientContext(c));
+
+    return c.json(
+        apiResponse.success<LoginResult>(loginData, '登录成功'),
+        200
+    );
+}
+
+/**
+ * 获取当前用户的通行密钥列表
+ * 
+ * @route GET /api/auth/webauthn/credentials
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<PasskeyInfo[]> | ErrorResponse>>} JSON 响应
+ */
+export async function getCredentials(c: Context) {
+    const userId = c.get('userId');
+
+    const passkeys = await webauthnService.listCredentials(userId);
+
+    return c.json(apiResponse.success(passkeys), 200);
+}
+
+/**
+ * 删除通行密钥
+ * 
+ * @route DELETE /api/auth/webauthn/credentials/:id
+ * @param {Context} c - Hono 上下文对象
+ * @returns {Promise<Response<SuccessResponse<null> | ErrorResponse>>} JSON 响应
+ */
+export async function deleteCredential(c: Context) {
+    const userId = c.get('userId');
+    const passkeyId = c.req.param('id')!; // 路由层已校验
+
+    await webauthnService.deleteCredential(userId, passkeyId);
+
+    logger.info('Passkey deleted via handler', { userId, passkeyId });
+
+    return c.json(apiResponse.success(null, '通行密钥已删除'), 200);
+}
@@ -0,0 +1,164 @@
+/**
+ * @file archive.ts
+ * @description 导出文件工具模块，用于生成 CSV 文本和 ZIP 压缩包（仅存储，不压缩）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+/**
+ * 压缩包中的文件
+ * 
+ * @interface
+ * @property {string} name - 文件名（可包含目录，如 'csv/profile.csv'）
+ * @property {string | Uint8Array} data - 文件内容（字符串按 UTF-8 编码）
+ */
+export interface ArchiveEntry {
+    name: string;
+    data: string | Uint8Array;
+}
+
+/** 以这些字符开头的单元格会被电子表格当作公式执行 */
+const CSV_FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/** CRC-32 查找表（多项式 0xEDB88320） */
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let value = i;
+        for (let bit = 0; bit < 8; bit++) {
+            value = value & 1 ? 0xEDB88320 ^ (value >>> 1) : value >>> 1;
+        }
+        table[i] = value;
+    }
+    return table;
+})();
+
+/**
+ * 将对象数组转换为 CSV 文本（RFC 4180）
+ * 
+ * @param {Record<string, unknown>[]} rows - 数据行
+ * @param {string[]} [columns] - 列名，默认取所有行出现过的字段
+ * @returns {string} CSV 文本（CRLF 换行，第一行为列名）
+ * 
+ * @description null / undefined 输出为空单元格，对象和数组输出为 JSON；
+ * 以 = + - @ 等开头的值会加上单引号前缀，避免在电子表格中被当作公式执行
+ * 
+ * @example
+ * toCsv([{ id: 1, name: 'Alice' }]);
+ * // 返回: 'id,name\r\n1,Alice'
+ */
+export function toCsv(rows: Record<string, unknown>[], columns?: string[]): string {
+    const header = columns ?? [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    const lines = [header, ...rows.map((row) => header.map((column) => row[column]))];
+    return lines.map((cells) => cells.map(formatCsvCell).join(',')).join('\r\n');
+}
+
+/**
+ * 计算 CRC-32 校验值
+ * 
+ * @param {Uint8Array} data - 数据
+ * @returns {number} 无符号 32 位校验值
+ */
+export function crc32(data: Uint8Array): number {
+    let crc = 0xFFFFFFFF;
+    for (const byte of data) {
+        crc = CRC32_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * 生成 ZIP 压缩包
+ * 
+ * @param {ArchiveEntry[]} entries - 文件列表
+ * @param {Date} [modifiedAt=new Date()] - 文件修改时间
+ * @returns {Uint8Array<ArrayBuffer>} ZIP 文件内容
+ * 
+ * @description 文件以存储方式（不压缩）写入，文件名使用 UTF-8 编码；不支持 ZIP64，单个压缩包需小于 4GB
+ * 
+ * @example
+ * const zip = createZip([{ name: 'data.json', data: '{}' }]);
+ */
+export function createZip(entries: ArchiveEntry[], modifiedAt: Date = new Date()): Uint8Array<ArrayBuffer> {
+    const encoder = new TextEncoder();
+    const time = (modifiedAt.getUTCHours() << 11) | (modifiedAt.getUTCMinutes() << 5) |
+        (modifiedAt.getUTCSeconds() >> 1);
+    const date = ((modifiedAt.getUTCFullYear() - 1980) << 9) | ((modifiedAt.getUTCMonth() + 1) << 5) |
+        modifiedAt.getUTCDate();
+
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+        const crc = crc32(data);
+
+        // 本地文件头
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034B50, true);
+        local.setUint16(4, 20, true);          // 解压所需版本
+        local.setUint16(6, 0x0800, true);      // 文件名为 UTF-8
+        local.setUint16(8, 0, true);           // 存储（不压缩）
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+        localParts.push(new Uint8Array(local.buffer), name, data);
+
+        // 中央目录记录
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014B50, true);
+        central.setUint16(4, 20, true);        // 创建版本
+        central.setUint16(6, 20, true);        // 解压所需版本
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);   // 本地文件头偏移，其余字段为 0
+        centralParts.push(new Uint8Array(central.buffer), name);
+
+        offset += 30 + name.length + data.length;
+    }
+
+    const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+
+    // 中央目录结束记录
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054B50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+    const zip = new Uint8Array(offset + centralSize + 22);
+    let position = 0;
+    for (const part of parts) {
+        zip.set(part, position);
+        position += part.length;
+    }
+    return zip;
+}
+
+/**
+ * 格式化 CSV 单元格
+ */
+function formatCsvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+
+    let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (typeof value === 'string' && CSV_FORMULA_PREFIXES.some((prefix) => text.startsWith(prefix))) {
+        text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,221 @@
+/**
+ * @file bot-challenge.ts
+ * @description 人机验证模块：自托管的工作量证明（proof-of-work）挑战和 hCaptcha / Turnstile 校验，统一实现 BotChallengeProvider 接口
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { logger } from '[@BASE]/lib/logger.ts';
+import { createSignedToken, verifySignedToken } from '[@BASE]/lib/token.ts';
+import type { RateLimitStore } from '[@BASE]/lib/rate-limit.ts';
+
+/**
+ * 人机验证方式
+ */
+export type BotChallengeType = 'pow' | 'hcaptcha' | 'turnstile';
+
+/**
+ * 下发给客户端的挑战
+ * 
+ * @interface
+ * @property {BotChallengeType} type - 验证方式
+ * @property {string} [token] - 工作量证明：服务端签发的挑战令牌
+ * @property {number} [difficulty] - 工作量证明：SHA-256(`${token}:${nonce}`) 需要的前导零比特数
+ * @property {string} [expiresAt] - 工作量证明：挑战过期时间
+ * @property {string} [siteKey] - CAPTCHA：前端组件使用的站点密钥
+ */
+export interface BotChallenge {
+    type: BotChallengeType;
+    token?: string;
+    difficulty?: number;
+    expiresAt?: string;
+    siteKey?: string;
+}
+
+/**
+ * 客户端提交的解答
+ * 
+ * @interface
+ * @property {string} token - 工作量证明：挑战令牌；CAPTCHA：组件返回的响应令牌
+ * @property {string} [nonce] - 工作量证明：找到的随机数
+ */
+export interface BotChallengeSolution {
+    token: string;
+    nonce?: string;
+}
+
+/**
+ * 人机验证提供方
+ * 
+ * @interface
+ */
+export interface BotChallengeProvider {
+    /** 验证方式 */
+    readonly type: BotChallengeType;
+    /** 生成下发给客户端的挑战 */
+    issue(): Promise<BotChallenge>;
+    /** 校验客户端的解答（每个解答只能使用一次） */
+    verify(solution: BotChallengeSolution, ip?: string | null): Promise<boolean>;
+}
+
+/** 工作量证明挑战令牌的签名用途 */
+const POW_TOKEN_PURPOSE = 'bot_challenge_pow';
+
+/** CAPTCHA 服务端校验地址 */
+const CAPTCHA_VERIFY_URLS: Record<Exclude<BotChallengeType, 'pow'>, string> = {
+    hcaptcha: 'https://api.hcaptcha.com/siteverify',
+    turnstile: 'https://challenges.cloudflare.com/turnstile/v0/siteverify',
+};
+
+/** CAPTCHA 校验请求超时时间（毫秒） */
+const CAPTCHA_VERIFY_TIMEOUT_MS = 5000;
+
+/**
+ * 工作量证明挑战
+ * 
+ * @class
+ * @implements {BotChallengeProvider}
+ * @description
+ * 客户端需要找到 nonce，使 SHA-256(`${token}:${nonce}`) 的前 difficulty 个比特为 0，
+ * 难度每加 1 平均计算量翻倍（18 约为普通设备 0.5-2 秒）；挑战令牌自带签名和过期时间，服务端无需保存，
+ * 已使用的令牌记录在限流计数存储中防止重放
+ * 
+ * @example
+ * const provider = new ProofOfWorkProvider({ secret, difficulty: 18, expiresIn: 300, store });
+ * const challenge = await provider.issue();
+ */
+export class ProofOfWorkProvider implements BotChallengeProvider {
+    readonly type = 'pow' as const;
+
+    /**
+     * 创建 ProofOfWorkProvider 实例
+     * 
+     * @param {Object} options - 选项
+     * @param {string} options.secret - 挑战令牌的签名密钥
+     * @param {number} options.difficulty - 前导零比特数
+     * @param {number} options.expiresIn - 挑战有效期（秒）
+     * @param {RateLimitStore} options.store - 记录已使用令牌的存储
+     */
+    constructor(
+        private readonly options: { secret: string; difficulty: number; expiresIn: number; store: RateLimitStore }
+    ) {}
+
+    async issue(): Promise<BotChallenge> {
+        const expiresAt = new Date(Date.now() + this.options.expiresIn * 1000);
+        return {
+            type: this.type,
+            token: await createSignedToken(this.purpose(), this.options.secret, expiresAt),
+            difficulty: this.options.difficulty,
+            expiresAt: expiresAt.toISOString(),
+        };
+    }
+
+    async verify(solution: BotChallengeSolution): Promise<boolean> {
+        const { token, nonce } = solution;
+        if (!nonce || !/^\d{1,16}$/.test(nonce)) return false;
+        if (!(await verifySignedToken(this.purpose(), this.options.secret, token))) return false;
+        if (!(await hasLeadingZeroBits(`${token}:${nonce}`, this.options.difficulty))) return false;
+
+        // 令牌过期前只能使用一次
+        const used = await this.options.store.incr(`bot-challenge:pow:${token}`, this.options.expiresIn * 1000);
+        return used === 1;
+    }
+
+    /**
+     * 签名用途包含难度，调整难度后之前签发的挑战失效
+     */
+    private purpose(): string {
+        return `${POW_TOKEN_PURPOSE}:${this.options.difficulty}`;
+    }
+}
+
+/**
+ * hCaptcha / Turnstile 校验
+ * 
+ * @class
+ * @implements {BotChallengeProvider}
+ * @description 前端使用 siteKey 渲染组件，把组件返回的响应令牌作为 solution.token 提交，服务端调用 siteverify 接口校验；
+ * 响应令牌由 CAPTCHA 服务保证只能校验一次
+ */
+export class CaptchaProvider implements BotChallengeProvider {
+    /**
+     * 创建 CaptchaProvider 实例
+     * 
+     * @param {Exclude<BotChallengeType, 'pow'>} type - CAPTCHA 服务
+     * @param {Object} options - 选项
+     * @param {string} options.siteKey - 站点密钥
+     * @param {string} options.secretKey - 服务端密钥
+     */
+    constructor(
+        readonly type: Exclude<BotChallengeType, 'pow'>,
+        private readonly options: { siteKey: string; secretKey: string }
+    ) {}
+
+    issue(): Promise<BotChallenge> {
+        return Promise.resolve({ type: this.type, siteKey: this.options.siteKey });
+    }
+
+    async verify(solution: BotChallengeSolution, ip?: string | null): Promise<boolean> {
+        const body = new URLSearchParams({ secret: this.options.secretKey, response: solution.token });
+        if (ip) body.set('remoteip', ip);
+        if (this.type === 'hcaptcha') body.set('sitekey', this.options.siteKey);
+
+        try {
+            const response = await fetch(CAPTCHA_VERIFY_URLS[this.type], {
+                method: 'POST',
+                body,
+                signal: AbortSignal.timeout(CAPTCHA_VERIFY_TIMEOUT_MS),
+            });
+            const result = await response.json() as { success?: boolean; 'error-codes'?: string[] };
+            if (!result.success) {
+                logger.warn('Captcha verification rejected', { type: this.type, errors: result['error-codes'] });
+            }
+            return result.success === true;
+        } catch (error) {
+            logger.error('Captcha verification failed', {
+                type: this.type,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return false;
+        }
+    }
+}
+
+/**
+ * 求解工作量证明挑战
+ * 
+ * @param {string} token - 挑战令牌
+ * @param {number} difficulty - 前导零比特数
+ * @returns {Promise<string>} 满足难度的 nonce
+ * 
+ * @description 前端实现见 web/src/lib/utils/proof-of-work.ts，此处用于测试和脚本
+ */
+export async function solveProofOfWork(token: string, difficulty: number): Promise<string> {
+    for (let nonce = 0; ; nonce++) {
+        if (await hasLeadingZeroBits(`${token}:${nonce}`, difficulty)) {
+            return String(nonce);
+        }
+    }
+}
+
+/**
+ * 判断 SHA-256 摘要的前导零比特数是否不少于 bits
+ * 
+ * @param {string} input - 输入
+ * @param {number} bits - 前导零比特数
+ * @returns {Promise<boolean>} 是否满足
+ */
+export async function hasLeadingZeroBits(input: string, bits: number): Promise<boolean> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input)));
+    let remaining = bits;
+    for (const byte of digest) {
+        if (remaining <= 0) return true;
+        if (remaining >= 8) {
+            if (byte !== 0) return false;
+            remaining -= 8;
+        } else {
+            return byte >> (8 - remaining) === 0;
+        }
+    }
+    return remaining <= 0;
+}
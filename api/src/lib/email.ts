@@ -109,7 +109,7 @@ export async function sendEmail(options: SendEmailOptions): Promise<boolean> {
  * 
  * @param {string} email - 收件人邮箱地址
  * @param {string} code - 验证码
- * @param {string} purpose - 验证码用途（login, register, reset_password, change_email, verify_email）
+ * @param {string} purpose - 验证码用途（login, register, reset_password, change_email, verify_email, set_password）
  * @returns {Promise<boolean>} 是否发送成功
  * 
  * @example
@@ -126,6 +126,7 @@ export async function sendVerificationCodeEmail(
         reset_password: '重置密码',
         change_email: '更换邮箱',
         verify_email: '验证邮箱',
+        set_password: '设置密码',
     }[purpose] || '验证';
 
     const subject = `【${EMAIL_CONFIG.fromName}】您的${purposeText}验证码`;
@@ -176,4 +177,278 @@ ${EMAIL_CONFIG.fromName}
         text,
         html,
     });
-}
\ No newline at end of file
+}
+/**
+ * 新设备登录提醒的登录信息
+ * 
+ * @interface
+ * @property {Date} time - 登录时间
+ * @property {string | null} ip - 登录 IP
+ * @property {string | null} device - 设备描述（如 "Chrome 120 / macOS 14"）
+ * @property {string[]} reasons - 触发提醒的原因（已转换为可读文本）
+ */
+interface SignInAlertDetails {
+    time: Date;
+    ip: string | null;
+    device: string | null;
+    reasons: string[];
+}
+
+/**
+ * 发送新设备登录提醒邮件
+ * 
+ * @param {string} email - 收件人邮箱地址
+ * @param {SignInAlertDetails} details - 登录信息
+ * @returns {Promise<boolean>} 是否发送成功
+ * 
+ * @example
+ * await sendNewSignInEmail('user@example.com', {
+ *   time: new Date(),
+ *   ip: '203.0.113.1',
+ *   device: 'Chrome 120 / macOS 14',
+ *   reasons: ['新的 IP 地址'],
+ * });
+ */
+export async function sendNewSignInEmail(
+    email: string,
+    details: SignInAlertDetails
+): Promise<boolean> {
+    const subject = `【${EMAIL_CONFIG.fromName}】您的账号在新设备上登录`;
+    const time = details.time.toISOString().replace('T', ' ').slice(0, 19) + ' (UTC)';
+    const ip = details.ip || '未知';
+    const device = details.device || '未知设备';
+    const reasons = details.reasons.join('、') || '无';
+
+    const text = `
+您好！
+
+您的账号刚刚完成了一次登录：
+
+登录时间：${time}
+IP 地址：${ip}
+设备：${device}
+提醒原因：${reasons}
+
+如果这是您本人的操作，请忽略此邮件。
+如果不是，请立即修改密码，并在账号设置中退出所有设备。
+
+---
+${EMAIL_CONFIG.fromName}
+  `.trim();
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .details { margin: 20px 0; padding: 12px 16px; background: #F9FAFB; border-radius: 6px; }
+    .warning { color: #DC2626; }
+    .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #999; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h2>您好！</h2>
+    <p>您的账号刚刚完成了一次登录：</p>
+    <div class="details">
+      <p>登录时间：${time}</p>
+      <p>IP 地址：${ip}</p>
+      <p>设备：${device}</p>
+      <p>提醒原因：${reasons}</p>
+    </div>
+    <p>如果这是您本人的操作，请忽略此邮件。</p>
+    <p class="warning">如果不是，请立即修改密码，并在账号设置中退出所有设备。</p>
+    <div class="footer">
+      <p>${EMAIL_CONFIG.fromName}</p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+
+    return await sendEmail({
+        to: email,
+        subject,
+        text,
+        html,
+    });
+}
+
+/**
+ * 登录链接邮件中展示的登录请求来源
+ * 
+ * @interface
+ * @property {string | null} ip - 发起登录请求的 IP
+ * @property {string | null} device - 发起登录请求的设备描述（如 "Chrome 120 / macOS 14"）
+ * @property {number} expiresInMinutes - 链接有效期（分钟）
+ */
+interface MagicLinkDetails {
+    ip: string | null;
+    device: string | null;
+    expiresInMinutes: number;
+}
+
+/**
+ * 发送登录链接邮件
+ * 
+ * @param {string} email - 收件人邮箱地址
+ * @param {string} link - 登录链接
+ * @param {MagicLinkDetails} details - 登录请求来源和有效期
+ * @returns {Promise<boolean>} 是否发送成功
+ * 
+ * @description 邮件中展示发起请求的 IP 和设备：在其他设备上发起的登录，点击链接并确认后由发起请求的设备完成登录，
+ * 用户需要确认是本人发起的请求
+ * 
+ * @example
+ * await sendMagicLinkEmail('user@example.com', 'http://localhost:8000/api/auth/magic/...', {
+ *   ip: '203.0.113.1',
+ *   device: 'Chrome 120 / macOS 14',
+ *   expiresInMinutes: 10,
+ * });
+ */
+export async function sendMagicLinkEmail(
+    email: string,
+    link: string,
+    details: MagicLinkDetails
+): Promise<boolean> {
+    const subject = `【${EMAIL_CONFIG.fromName}】您的登录链接`;
+    const ip = details.ip || '未知';
+    const device = details.device || '未知设备';
+
+    const text = `
+您好！
+
+请点击以下链接登录：
+
+${link}
+
+链接有效期为 ${details.expiresInMinutes} 分钟，只能使用一次。
+
+登录请求来自：
+IP 地址：${ip}
+设备：${device}
+
+如果是在其他设备上发起的登录，点击链接并确认后该设备会完成登录。
+如果这不是您本人的操作，请不要点击链接。
+
+---
+${EMAIL_CONFIG.fromName}
+  `.trim();
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .button { display: inline-block; margin: 20px 0; padding: 12px 24px; background: #4F46E5; color: #fff; text-decoration: none; border-radius: 6px; }
+    .details { margin: 20px 0; padding: 12px 16px; background: #F9FAFB; border-radius: 6px; }
+    .warning { color: #DC2626; }
+    .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #999; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h2>您好！</h2>
+    <p>请点击下方按钮登录：</p>
+    <a class="button" href="${link}">登录</a>
+    <p>链接有效期为 <strong>${details.expiresInMinutes} 分钟</strong>，只能使用一次。</p>
+    <div class="details">
+      <p>登录请求来自：</p>
+      <p>IP 地址：${ip}</p>
+      <p>设备：${device}</p>
+    </div>
+    <p>如果是在其他设备上发起的登录，点击链接并确认后该设备会完成登录。</p>
+    <p class="warning">如果这不是您本人的操作，请不要点击链接。</p>
+    <div class="footer">
+      <p>${EMAIL_CONFIG.fromName}</p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+
+    return await sendEmail({
+        to: email,
+        subject,
+        text,
+        html,
+    });
+}
+
+/**
+ * 发送个人数据导出完成邮件
+ * 
+ * @param {string} email - 收件人邮箱地址
+ * @param {string} link - 下载链接
+ * @param {Date} expiresAt - 下载链接过期时间
+ * @returns {Promise<boolean>} 是否发送成功
+ * 
+ * @example
+ * await sendDataExportEmail('user@example.com', 'https://...', new Date(Date.now() + 7 * 24 * 3600 * 1000));
+ */
+export async function sendDataExportEmail(
+    email: string,
+    link: string,
+    expiresAt: Date
+): Promise<boolean> {
+    const subject = `【${EMAIL_CONFIG.fromName}】您的个人数据导出已完成`;
+    const expires = expiresAt.toISOString().replace('T', ' ').slice(0, 19) + ' (UTC)';
+
+    const text = `
+您好！
+
+您申请导出的个人数据已生成，请点击以下链接下载：
+
+${link}
+
+链接有效期至 ${expires}，过期后需要重新申请导出。
+压缩包中包含 JSON 格式的完整数据和每类数据对应的 CSV 文件。
+
+如果这不是您本人的操作，请立即修改密码，并在账号设置中退出所有设备。
+
+---
+${EMAIL_CONFIG.fromName}
+  `.trim();
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .button { display: inline-block; margin: 20px 0; padding: 12px 24px; background: #4F46E5; color: #fff; text-decoration: none; border-radius: 6px; }
+    .warning { color: #DC2626; }
+    .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #999; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h2>您好！</h2>
+    <p>您申请导出的个人数据已生成，请点击下方按钮下载：</p>
+    <a class="button" href="${link}">下载数据</a>
+    <p>链接有效期至 <strong>${expires}</strong>，过期后需要重新申请导出。</p>
+    <p>压缩包中包含 JSON 格式的完整数据和每类数据对应的 CSV 文件。</p>
+    <p class="warning">如果这不是您本人的操作，请立即修改密码，并在账号设置中退出所有设备。</p>
+    <div class="footer">
+      <p>${EMAIL_CONFIG.fromName}</p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+
+    return await sendEmail({
+        to: email,
+        subject,
+        text,
+        html,
+    });
+}
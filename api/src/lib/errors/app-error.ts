@@ -149,6 +149,14 @@ export const createAuthError = {
     tokenInvalid: () =>
         new AuthError(ErrorCodes.AUTH_TOKEN_INVALID),
 
+    /**
+     * 创建 Token 已吊销错误
+     * 
+     * @returns {AuthError} Token 已吊销错误实例
+     */
+    tokenRevoked: () =>
+        new AuthError(ErrorCodes.AUTH_TOKEN_REVOKED),
+
     /**
      * 创建未授权错误
      * 
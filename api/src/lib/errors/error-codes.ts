@@ -64,6 +64,8 @@ export enum ErrorCodes {
     VALIDATION_ERROR = '00-0002',
     /** 资源不存在 */
     NOT_FOUND = '00-0003',
+    /** 请求过于频繁 */
+    RATE_LIMIT_EXCEEDED = '00-0004',
     /** 认证：无效凭据 */
     AUTH_INVALID_CREDENTIALS = '10-0001',
     /** 认证：Token 已过期 */
@@ -80,12 +82,62 @@ export enum ErrorCodes {
     AUTH_PASSWORD_NOT_SET = '10-0007',
     /** 认证：旧密码错误 */
     AUTH_INVALID_OLD_PASSWORD = '10-0008',
+    /** 认证：刷新令牌被重复使用 */
+    AUTH_REFRESH_TOKEN_REUSED = '10-0009',
+    /** 认证：Token 已被吊销 */
+    AUTH_TOKEN_REVOKED = '10-0010',
+    /** 认证：密码已设置 */
+    AUTH_PASSWORD_ALREADY_SET = '10-0011',
+    /** 认证：权限不足 */
+    AUTH_FORBIDDEN = '10-0012',
+    /** 认证：登录验证挑战无效或已过期 */
+    AUTH_LOGIN_CHALLENGE_INVALID = '10-0013',
+    /** 认证：两步验证码错误 */
+    AUTH_MFA_CODE_INVALID = '10-0014',
+    /** 认证：已开启两步验证 */
+    AUTH_MFA_ALREADY_ENABLED = '10-0015',
+    /** 认证：未开启两步验证 */
+    AUTH_MFA_NOT_ENABLED = '10-0016',
+    /** 认证：通行密钥验证失败 */
+    AUTH_PASSKEY_INVALID = '10-0017',
+    /** 认证：通行密钥注册失败 */
+    AUTH_PASSKEY_REGISTRATION_FAILED = '10-0018',
+    /** 认证：未启用的第三方登录提供方 */
+    AUTH_OAUTH_PROVIDER_NOT_FOUND = '10-0019',
+    /** 认证：第三方登录失败（state 无效、授权码或 ID Token 校验失败） */
+    AUTH_OAUTH_FAILED = '10-0020',
+    /** 认证：第三方账号的邮箱已注册但未经身份提供方验证，无法自动关联 */
+    AUTH_OAUTH_ACCOUNT_CONFLICT = '10-0021',
+    /** 认证：登录链接无效或已过期 */
+    AUTH_MAGIC_LINK_INVALID = '10-0022',
+    /** 认证：API 密钥无效、已吊销或已过期 */
+    AUTH_API_KEY_INVALID = '10-0023',
+    /** 认证：敏感操作要求最近登录，需要重新登录 */
+    AUTH_REAUTHENTICATION_REQUIRED = '10-0024',
+    /** 认证：邮箱未验证 */
+    AUTH_EMAIL_NOT_VERIFIED = '10-0025',
+    /** 认证：需要完成人机验证（错误详情中包含挑战） */
+    AUTH_CHALLENGE_REQUIRED = '10-0026',
+    /** 认证：模拟登录期间不能执行该操作 */
+    AUTH_IMPERSONATION_FORBIDDEN = '10-0027',
     /** 用户：用户不存在 */
     USER_NOT_FOUND = '20-0001',
     /** 用户：用户已存在 */
     USER_ALREADY_EXISTS = '20-0002',
     /** 用户：邮箱已存在 */
     USER_EMAIL_ALREADY_EXISTS = '20-0003',
+    /** 用户：会话不存在 */
+    USER_SESSION_NOT_FOUND = '20-0004',
+    /** 用户：通行密钥不存在 */
+    USER_PASSKEY_NOT_FOUND = '20-0005',
+    /** 用户：API 密钥不存在 */
+    USER_API_KEY_NOT_FOUND = '20-0006',
+    /** 用户：API 密钥数量已达上限 */
+    USER_API_KEY_LIMIT_EXCEEDED = '20-0007',
+    /** 用户：已有正在生成的数据导出 */
+    USER_DATA_EXPORT_IN_PROGRESS = '20-0008',
+    /** 用户：邮箱已验证 */
+    USER_EMAIL_ALREADY_VERIFIED = '20-0009',
     /** 验证码：验证码无效 */
     VERIFICATION_CODE_INVALID = '30-0001',
     /** 验证码：验证码已过期 */
@@ -125,6 +177,11 @@ export const ErrorInfos: Record<ErrorCodes, ErrorInfo> = {
         message: '资源不存在',
         status: 404,
     },
+    [ErrorCodes.RATE_LIMIT_EXCEEDED]: {
+        code: ErrorCodes.RATE_LIMIT_EXCEEDED,
+        message: '请求过于频繁，请稍后再试',
+        status: 429,
+    },
     [ErrorCodes.AUTH_INVALID_CREDENTIALS]: {
         code: ErrorCodes.AUTH_INVALID_CREDENTIALS,
         message: '邮箱或密码错误',
@@ -165,6 +222,101 @@ export const ErrorInfos: Record<ErrorCodes, ErrorInfo> = {
         message: '旧密码错误',
         status: 400,
     },
+    [ErrorCodes.AUTH_REFRESH_TOKEN_REUSED]: {
+        code: ErrorCodes.AUTH_REFRESH_TOKEN_REUSED,
+        message: '登录状态异常，请重新登录',
+        status: 401,
+    },
+    [ErrorCodes.AUTH_TOKEN_REVOKED]: {
+        code: ErrorCodes.AUTH_TOKEN_REVOKED,
+        message: '登录已失效，请重新登录',
+        status: 401,
+    },
+    [ErrorCodes.AUTH_PASSWORD_ALREADY_SET]: {
+        code: ErrorCodes.AUTH_PASSWORD_ALREADY_SET,
+        message: '密码已设置，请使用修改密码功能',
+        status: 400,
+    },
+    [ErrorCodes.AUTH_FORBIDDEN]: {
+        code: ErrorCodes.AUTH_FORBIDDEN,
+        message: '权限不足',
+        status: 403,
+    },
+    [ErrorCodes.AUTH_LOGIN_CHALLENGE_INVALID]: {
+        code: ErrorCodes.AUTH_LOGIN_CHALLENGE_INVALID,
+        message: '登录验证已失效，请重新登录',
+        status: 401,
+    },
+    [ErrorCodes.AUTH_MFA_CODE_INVALID]: {
+        code: ErrorCodes.AUTH_MFA_CODE_INVALID,
+        message: '两步验证码错误',
+        status: 401,
+    },
+    [ErrorCodes.AUTH_MFA_ALREADY_ENABLED]: {
+        code: ErrorCodes.AUTH_MFA_ALREADY_ENABLED,
+        message: '已开启两步验证',
+        status: 400,
+    },
+    [ErrorCodes.AUTH_MFA_NOT_ENABLED]: {
+        code: ErrorCodes.AUTH_MFA_NOT_ENABLED,
+        message: '未开启两步验证',
+        status: 400,
+    },
+    [ErrorCodes.AUTH_PASSKEY_INVALID]: {
+        code: ErrorCodes.AUTH_PASSKEY_INVALID,
+        message: '通行密钥验证失败',
+        status: 401,
+    },
+    [ErrorCodes.AUTH_PASSKEY_REGISTRATION_FAILED]: {
+        code: ErrorCodes.AUTH_PASSKEY_REGISTRATION_FAILED,
+        message: '通行密钥注册失败',
+        status: 400,
+    },
+    [ErrorCodes.AUTH_OAUTH_PROVIDER_NOT_FOUND]: {
+        code: ErrorCodes.AUTH_OAUTH_PROVIDER_NOT_FOUND,
+        message: '不支持的第三方登录方式',
+        status: 404,
+    },
+    [ErrorCodes.AUTH_OAUTH_FAILED]: {
+        code: ErrorCodes.AUTH_OAUTH_FAILED,
+        message: '第三方登录失败，请重试',
+        status: 401,
+    },
+    [ErrorCodes.AUTH_OAUTH_ACCOUNT_CONFLICT]: {
+        code: ErrorCodes.AUTH_OAUTH_ACCOUNT_CONFLICT,
+        message: '该邮箱已注册，请使用原有方式登录',
+        status: 409,
+    },
+    [ErrorCodes.AUTH_MAGIC_LINK_INVALID]: {
+        code: ErrorCodes.AUTH_MAGIC_LINK_INVALID,
+        message: '登录链接无效或已过期',
+        status: 401,
+    },
+    [ErrorCodes.AUTH_API_KEY_INVALID]: {
+        code: ErrorCodes.AUTH_API_KEY_INVALID,
+        message: 'API 密钥无效或已过期',
+        status: 401,
+    },
+    [ErrorCodes.AUTH_REAUTHENTICATION_REQUIRED]: {
+        code: ErrorCodes.AUTH_REAUTHENTICATION_REQUIRED,
+        message: '请重新登录后再执行此操作',
+        status: 403,
+    },
+    [ErrorCodes.AUTH_EMAIL_NOT_VERIFIED]: {
+        code: ErrorCodes.AUTH_EMAIL_NOT_VERIFIED,
+        message: '请先验证邮箱',
+        status: 403,
+    },
+    [ErrorCodes.AUTH_CHALLENGE_REQUIRED]: {
+        code: ErrorCodes.AUTH_CHALLENGE_REQUIRED,
+        message: '请先完成人机验证',
+        status: 428,
+    },
+    [ErrorCodes.AUTH_IMPERSONATION_FORBIDDEN]: {
+        code: ErrorCodes.AUTH_IMPERSONATION_FORBIDDEN,
+        message: '模拟登录期间不能执行该操作',
+        status: 403,
+    },
     [ErrorCodes.USER_NOT_FOUND]: {
         code: ErrorCodes.USER_NOT_FOUND,
         message: '用户不存在',
@@ -180,6 +332,36 @@ export const ErrorInfos: Record<ErrorCodes, ErrorInfo> = {
         message: '邮箱已存在',
         status: 409,
     },
+    [ErrorCodes.USER_SESSION_NOT_FOUND]: {
+        code: ErrorCodes.USER_SESSION_NOT_FOUND,
+        message: '会话不存在或已失效',
+        status: 404,
+    },
+    [ErrorCodes.USER_PASSKEY_NOT_FOUND]: {
+        code: ErrorCodes.USER_PASSKEY_NOT_FOUND,
+        message: '通行密钥不存在',
+        status: 404,
+    },
+    [ErrorCodes.USER_API_KEY_NOT_FOUND]: {
+        code: ErrorCodes.USER_API_KEY_NOT_FOUND,
+        message: 'API 密钥不存在',
+        status: 404,
+    },
+    [ErrorCodes.USER_API_KEY_LIMIT_EXCEEDED]: {
+        code: ErrorCodes.USER_API_KEY_LIMIT_EXCEEDED,
+        message: 'API 密钥数量已达上限',
+        status: 400,
+    },
+    [ErrorCodes.USER_DATA_EXPORT_IN_PROGRESS]: {
+        code: ErrorCodes.USER_DATA_EXPORT_IN_PROGRESS,
+        message: '数据导出正在生成中，完成后会发送到您的邮箱',
+        status: 409,
+    },
+    [ErrorCodes.USER_EMAIL_ALREADY_VERIFIED]: {
+        code: ErrorCodes.USER_EMAIL_ALREADY_VERIFIED,
+        message: '邮箱已验证',
+        status: 400,
+    },
     [ErrorCodes.VERIFICATION_CODE_INVALID]: {
         code: ErrorCodes.VERIFICATION_CODE_INVALID,
         message: '验证码错误或已过期',
@@ -0,0 +1,327 @@
+/**
+ * @file jwt-keys.ts
+ * @description JWT 签名密钥模块：生成和轮换非对称签名密钥（ES256 / EdDSA），按 kid 签名和验证 JWS，导出 JWKS 公钥集合
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { fromBase64Url, toBase64Url } from '[@BASE]/lib/token.ts';
+
+/**
+ * 支持的签名算法
+ * 
+ * @description ES256：ECDSA P-256 + SHA-256；EdDSA：Ed25519
+ */
+export type JwtSigningAlgorithm = 'ES256' | 'EdDSA';
+
+/**
+ * 持久化的签名密钥（JWT_SIGNING_KEYS 中的一项）
+ * 
+ * @interface
+ * @property {string} kid - 密钥 ID（写入 JWT 头部）
+ * @property {JwtSigningAlgorithm} alg - 签名算法
+ * @property {JsonWebKey} privateJwk - 私钥（JWK 格式，包含公钥参数）
+ * @property {string} createdAt - 创建时间
+ * @property {string} activatesAt - 开始用于签名的时间（之前只用于验证，便于多实例滚动发布）
+ * @property {string | null} verifyUntil - 停止验证的时间（轮换后写入，为空表示一直有效）
+ */
+export interface StoredJwtKey {
+    kid: string;
+    alg: JwtSigningAlgorithm;
+    privateJwk: JsonWebKey;
+    createdAt: string;
+    activatesAt: string;
+    verifyUntil: string | null;
+}
+
+/**
+ * 已导入的签名密钥
+ * 
+ * @interface
+ * @property {string} kid - 密钥 ID
+ * @property {JwtSigningAlgorithm} alg - 签名算法
+ * @property {CryptoKey} privateKey - 签名私钥
+ * @property {CryptoKey} publicKey - 验证公钥
+ * @property {JsonWebKey} publicJwk - 公钥（JWK 格式，用于 JWKS）
+ * @property {Date} activatesAt - 开始用于签名的时间
+ * @property {Date | null} verifyUntil - 停止验证的时间
+ */
+export interface JwtKey {
+    kid: string;
+    alg: JwtSigningAlgorithm;
+    privateKey: CryptoKey;
+    publicKey: CryptoKey;
+    publicJwk: JsonWebKey;
+    activatesAt: Date;
+    verifyUntil: Date | null;
+}
+
+/**
+ * JWKS 公钥集合（/.well-known/jwks.json 的响应体）
+ */
+export interface Jwks {
+    keys: (JsonWebKey & { kid: string; alg: JwtSigningAlgorithm; use: 'sig' })[];
+}
+
+/** JWKS 响应的缓存时间（秒），新密钥至少在此之后才能开始签名，保证验证方缓存的 JWKS 已包含新公钥 */
+export const JWKS_MAX_AGE = 300;
+
+/** 各算法对应的 WebCrypto 参数 */
+const ALGORITHMS: Record<JwtSigningAlgorithm, {
+    key: EcKeyImportParams | Algorithm;
+    sign: EcdsaParams | Algorithm;
+    publicParams: string[];
+}> = {
+    ES256: {
+        key: { name: 'ECDSA', namedCurve: 'P-256' },
+        sign: { name: 'ECDSA', hash: 'SHA-256' },
+        publicParams: ['kty', 'crv', 'x', 'y'],
+    },
+    EdDSA: {
+        key: { name: 'Ed25519' },
+        sign: { name: 'Ed25519' },
+        publicParams: ['kty', 'crv', 'x'],
+    },
+};
+
+/**
+ * 判断是否为支持的签名算法
+ * 
+ * @param {unknown} value - 待检查的值
+ * @returns {boolean} 是否为 ES256 或 EdDSA
+ */
+export function isJwtSigningAlgorithm(value: unknown): value is JwtSigningAlgorithm {
+    return typeof value === 'string' && value in ALGORITHMS;
+}
+
+/**
+ * 生成新的签名密钥
+ * 
+ * @param {JwtSigningAlgorithm} alg - 签名算法
+ * @param {Date} [activatesAt=new Date()] - 开始用于签名的时间
+ * @returns {Promise<StoredJwtKey>} 新密钥（可直接写入 JWT_SIGNING_KEYS）
+ * 
+ * @example
+ * const key = await generateJwtKey('ES256');
+ */
+export async function generateJwtKey(
+    alg: JwtSigningAlgorithm,
+    activatesAt: Date = new Date()
+): Promise<StoredJwtKey> {
+    const pair = await crypto.subtle.generateKey(ALGORITHMS[alg].key, true, ['sign', 'verify']) as CryptoKeyPair;
+    const { key_ops: _keyOps, ext: _ext, ...privateJwk } = await crypto.subtle.exportKey('jwk', pair.privateKey);
+    const createdAt = new Date();
+
+    return {
+        kid: `${createdAt.toISOString().slice(0, 10)}-${toBase64Url(crypto.getRandomValues(new Uint8Array(6)))}`,
+        alg,
+        privateJwk,
+        createdAt: createdAt.toISOString(),
+        activatesAt: activatesAt.toISOString(),
+        verifyUntil: null,
+    };
+}
+
+/**
+ * 解析 JWT_SIGNING_KEYS（JSON 数组）
+ * 
+ * @param {string} value - JSON 字符串
+ * @returns {StoredJwtKey[]} 签名密钥列表
+ * @throws {Error} 不是合法的 JSON 数组、缺少字段、算法不支持或 kid 重复时抛出错误
+ */
+export function parseJwtKeys(value: string): StoredJwtKey[] {
+    let keys: unknown;
+    try {
+        keys = JSON.parse(value);
+    } catch {
+        throw new Error('JWT_SIGNING_KEYS must be a JSON array');
+    }
+    if (!Array.isArray(keys)) {
+        throw new Error('JWT_SIGNING_KEYS must be a JSON array');
+    }
+
+    const kids = new Set<string>();
+    for (const key of keys) {
+        if (
+            typeof key?.kid !== 'string' || !key.kid ||
+            !isJwtSigningAlgorithm(key.alg) ||
+            typeof key.privateJwk !== 'object' || typeof key.privateJwk?.d !== 'string' ||
+            Number.isNaN(Date.parse(key.activatesAt)) ||
+            (key.verifyUntil !== null && Number.isNaN(Date.parse(key.verifyUntil)))
+        ) {
+            throw new Error(`JWT_SIGNING_KEYS contains an invalid key: ${key?.kid ?? '(missing kid)'}`);
+        }
+        if (kids.has(key.kid)) {
+            throw new Error(`JWT_SIGNING_KEYS contains duplicate kid: ${key.kid}`);
+        }
+        kids.add(key.kid);
+    }
+
+    return keys as StoredJwtKey[];
+}
+
+/**
+ * 导入签名密钥
+ * 
+ * @param {StoredJwtKey[]} keys - 签名密钥列表
+ * @returns {Promise<JwtKey[]>} 已导入的密钥
+ * @throws {Error} 私钥与算法不匹配时抛出错误
+ */
+export function importJwtKeys(keys: StoredJwtKey[]): Promise<JwtKey[]> {
+    return Promise.all(keys.map(async (key) => {
+        const { key: params, publicParams } = ALGORITHMS[key.alg];
+        const publicJwk = Object.fromEntries(
+            publicParams.map((name) => [name, key.privateJwk[name as keyof JsonWebKey]])
+        ) as JsonWebKey;
+
+        return {
+            kid: key.kid,
+            alg: key.alg,
+            privateKey: await crypto.subtle.importKey('jwk', key.privateJwk, params, false, ['sign']),
+            publicKey: await crypto.subtle.importKey('jwk', publicJwk, params, false, ['verify']),
+            publicJwk,
+            activatesAt: new Date(key.activatesAt),
+            verifyUntil: key.verifyUntil ? new Date(key.verifyUntil) : null,
+        };
+    }));
+}
+
+/**
+ * 轮换签名密钥
+ * 
+ * @param {StoredJwtKey[]} keys - 当前的签名密钥
+ * @param {StoredJwtKey} newKey - 新密钥
+ * @param {number} gracePeriod - 宽限期（秒）：新密钥开始签名后，旧密钥在该时间内仍可验证
+ * @param {Date} [now=new Date()] - 当前时间
+ * @returns {StoredJwtKey[]} 轮换后的签名密钥（删除已过宽限期的密钥）
+ * 
+ * @description 宽限期应不小于访问令牌有效期（JWT_EXPIRES_IN），保证旧密钥签发的令牌在过期前都能通过验证
+ */
+export function rotateJwtKeys(
+    keys: StoredJwtKey[],
+    newKey: StoredJwtKey,
+    gracePeriod: number,
+    now: Date = new Date()
+): StoredJwtKey[] {
+    const verifyUntil = new Date(Date.parse(newKey.activatesAt) + gracePeriod * 1000).toISOString();
+
+    return [
+        ...keys
+            .filter((key) => key.verifyUntil === null || Date.parse(key.verifyUntil) > now.getTime())
+            .map((key) => key.verifyUntil === null ? { ...key, verifyUntil } : key),
+        newKey,
+    ];
+}
+
+/**
+ * 选择当前用于签名的密钥
+ * 
+ * @param {JwtKey[]} keys - 已导入的密钥
+ * @param {Date} [now=new Date()] - 当前时间
+ * @returns {JwtKey | null} 已生效的密钥中最新的一个，没有时返回 null
+ */
+export function selectSigningKey(keys: JwtKey[], now: Date = new Date()): JwtKey | null {
+    return keys
+        .filter((key) => key.activatesAt <= now && isVerificationKey(key, now))
+        .reduce<JwtKey | null>((latest, key) => !latest || key.activatesAt > latest.activatesAt ? key : latest, null);
+}
+
+/**
+ * 生成 JWKS 公钥集合
+ * 
+ * @param {JwtKey[]} keys - 已导入的密钥
+ * @param {Date} [now=new Date()] - 当前时间
+ * @returns {Jwks} 仍可用于验证的公钥（包含尚未开始签名的新密钥）
+ */
+export function toJwks(keys: JwtKey[], now: Date = new Date()): Jwks {
+    return {
+        keys: keys
+            .filter((key) => isVerificationKey(key, now))
+            .map((key) => ({ ...key.publicJwk, kid: key.kid, alg: key.alg, use: 'sig' as const })),
+    };
+}
+
+/**
+ * 签名 JWT（JWS Compact Serialization）
+ * 
+ * @param {Record<string, unknown>} payload - 载荷
+ * @param {JwtKey} key - 签名密钥
+ * @returns {Promise<string>} JWT 字符串，头部包含 alg、typ 和 kid
+ */
+export async function signJwt(payload: Record<string, unknown>, key: JwtKey): Promise<string> {
+    const encoder = new TextEncoder();
+    const header = toBase64Url(encoder.encode(JSON.stringify({ alg: key.alg, typ: 'JWT', kid: key.kid })));
+    const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+    const signature = await crypto.subtle.sign(
+        ALGORITHMS[key.alg].sign,
+        key.privateKey,
+        encoder.encode(`${header}.${body}`)
+    );
+
+    return `${header}.${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * 验证 JWT 签名和有效期
+ * 
+ * @param {string} token - JWT 字符串
+ * @param {JwtKey[]} keys - 已导入的密钥
+ * @param {Date} [now=new Date()] - 当前时间
+ * @returns {Promise<Record<string, unknown>>} 载荷
+ * @throws {Error} 格式错误、kid 未知或已过宽限期、算法不匹配、签名无效、已过期或尚未生效时抛出错误
+ */
+export async function verifyJwt(
+    token: string,
+    keys: JwtKey[],
+    now: Date = new Date()
+): Promise<Record<string, unknown>> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        throw new Error('Malformed token');
+    }
+
+    const decoder = new TextDecoder();
+    let header: Record<string, unknown>;
+    let payload: Record<string, unknown>;
+    try {
+        header = JSON.parse(decoder.decode(fromBase64Url(parts[0])));
+        payload = JSON.parse(decoder.decode(fromBase64Url(parts[1])));
+    } catch {
+        throw new Error('Malformed token');
+    }
+
+    const key = keys.find((item) => item.kid === header.kid && isVerificationKey(item, now));
+    if (!key) {
+        throw new Error(`Unknown signing key: ${String(header.kid)}`);
+    }
+    if (header.alg !== key.alg) {
+        throw new Error(`Algorithm mismatch: ${String(header.alg)}`);
+    }
+
+    const valid = await crypto.subtle.verify(
+        ALGORITHMS[key.alg].sign,
+        key.publicKey,
+        fromBase64Url(parts[2]),
+        new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+    );
+    if (!valid) {
+        throw new Error('Invalid signature');
+    }
+
+    const seconds = Math.floor(now.getTime() / 1000);
+    if (typeof payload.exp !== 'number' || payload.exp <= seconds) {
+        throw new Error('Token expired');
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf > seconds) {
+        throw new Error('Token not yet valid');
+    }
+
+    return payload;
+}
+
+/**
+ * 判断密钥是否仍可用于验证
+ */
+function isVerificationKey(key: JwtKey, now: Date): boolean {
+    return key.verifyUntil === null || key.verifyUntil > now;
+}
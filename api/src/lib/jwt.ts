@@ -5,50 +5,62 @@
  * @createDate 2026-01-25
  */
 
-import { create, verify, getNumericDate } from 'https://deno.land/x/djwt@v3.0.1/mod.ts';
-import type { Payload } from 'https://deno.land/x/djwt@v3.0.1/mod.ts';
 import { logger } from '[@BASE]/lib/logger.ts';
-import type { JwtPayload } from '[@BASE]/types/auth.types.ts';
+import {
+    generateJwtKey,
+    importJwtKeys,
+    parseJwtKeys,
+    selectSigningKey,
+    signJwt,
+    toJwks,
+    verifyJwt,
+} from '[@BASE]/lib/jwt-keys.ts';
+import type { Jwks, JwtKey } from '[@BASE]/lib/jwt-keys.ts';
+import type { JwtPayload, TokenActor } from '[@BASE]/types/auth.types.ts';
 
 /**
- * JWT 密钥，从环境变量读取
+ * JWT 签名密钥（JSON 数组），从环境变量读取
  * 
  * @constant
- * @description 用于签名和验证 JWT token 的密钥
+ * @description 使用 deno task jwt:rotate 生成和轮换，格式见 lib/jwt-keys.ts 的 StoredJwtKey
  */
-const JWT_SECRET = Deno.env.get('JWT_SECRET');
+const JWT_SIGNING_KEYS = Deno.env.get('JWT_SIGNING_KEYS');
 
 /**
- * JWT 过期时间（秒），从环境变量读取，默认 7 天（604800 秒）
+ * JWT 过期时间（秒），从环境变量读取，默认 15 分钟（900 秒），长期登录态由刷新令牌维持
  * 
  * @constant
  */
-const JWT_EXPIRES_IN = parseInt(Deno.env.get('JWT_EXPIRES_IN') || '604800'); // 7 天
-
-if (!JWT_SECRET || JWT_SECRET.length < 32) {
-    throw new Error('JWT_SECRET must be at least 32 characters');
-}
+const JWT_EXPIRES_IN = parseInt(Deno.env.get('JWT_EXPIRES_IN') || '900'); // 15 分钟
 
 /**
- * 加密密钥对象
+ * 签名和验证密钥
  * 
  * @constant
- * @description 使用 HMAC SHA-256 算法导入的密钥，用于签名和验证 JWT
+ * @description 未配置 JWT_SIGNING_KEYS 时，非生产环境使用临时生成的 ES256 密钥（重启后已签发的 token 失效）
  */
-const key = await crypto.subtle.importKey(
-    'raw',
-    new TextEncoder().encode(JWT_SECRET),
-    { name: 'HMAC', hash: 'SHA-256' },
-    true,
-    ['sign', 'verify']
-);
+const keys: JwtKey[] = await (async () => {
+    if (JWT_SIGNING_KEYS) {
+        return importJwtKeys(parseJwtKeys(JWT_SIGNING_KEYS));
+    }
+    if (Deno.env.get('ENVIRONMENT') === 'production') {
+        throw new Error('JWT_SIGNING_KEYS is required in production');
+    }
+
+    logger.warn('JWT_SIGNING_KEYS is not set, using an ephemeral ES256 signing key');
+    return importJwtKeys([await generateJwtKey('ES256')]);
+})();
+
+if (!selectSigningKey(keys)) {
+    throw new Error('JWT_SIGNING_KEYS has no active signing key');
+}
 
 /**
  * 生成 JWT Token
  * 
  * @param {JwtPayload} payload - Token 载荷，包含用户信息
  * @param {number} [expiresIn=JWT_EXPIRES_IN] - 过期时间（秒），默认使用环境变量配置
- * @returns {Promise<string>} JWT Token 字符串
+ * @returns {Promise<string>} JWT Token 字符串（头部包含签名密钥的 kid）
  * 
  * @throws {Error} 当 token 生成失败时抛出错误
  * 
@@ -64,18 +76,29 @@ export async function generateToken(
     expiresIn: number = JWT_EXPIRES_IN
 ): Promise<string> {
     try {
-        const jwtPayload: Payload = {
+        const signingKey = selectSigningKey(keys);
+        if (!signingKey) {
+            throw new Error('No active signing key');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const jwtPayload = {
             sub: payload.sub,
             email: payload.email,
             role: payload.role,
-            exp: getNumericDate(expiresIn),
-            iat: getNumericDate(0), // 当前时间
+            exp: now + expiresIn,
+            iat: now,
+            jti: payload.jti ?? crypto.randomUUID(), // 用于服务端吊销
+            ...(payload.sid ? { sid: payload.sid } : {}),
+            ...(payload.act ? { act: payload.act } : {}),
         };
 
-        const token = await create({ alg: 'HS256', typ: 'JWT' }, jwtPayload, key);
+        const token = await signJwt(jwtPayload, signingKey);
 
         logger.debug('JWT token generated', {
             userId: payload.sub,
+            actorId: payload.act?.sub,
+            kid: signingKey.kid,
             expiresIn,
         });
 
@@ -94,7 +117,7 @@ export async function generateToken(
  * @param {string} token - JWT Token 字符串
  * @returns {Promise<JwtPayload>} Token 载荷，包含用户信息
  * 
- * @throws {Error} 当 Token 无效或过期时抛出错误
+ * @throws {Error} 当 Token 无效、过期或签名密钥已过宽限期时抛出错误
  * 
  * @example
  * try {
@@ -106,7 +129,7 @@ export async function generateToken(
  */
 export async function verifyToken(token: string): Promise<JwtPayload> {
     try {
-        const payload = await verify(token, key);
+        const payload = await verifyJwt(token, keys);
 
         logger.debug('JWT token verified', {
             userId: payload.sub,
@@ -118,6 +141,9 @@ export async function verifyToken(token: string): Promise<JwtPayload> {
             role: payload.role as string | undefined,
             iat: payload.iat as number | undefined,
             exp: payload.exp as number | undefined,
+            jti: payload.jti as string | undefined,
+            sid: payload.sid as string | undefined,
+            act: parseActor(payload.act),
         };
     } catch (error) {
         logger.warn('JWT token verification failed', {
@@ -127,6 +153,29 @@ export async function verifyToken(token: string): Promise<JwtPayload> {
     }
 }
 
+/**
+ * 解析 act 声明（格式不正确时忽略）
+ */
+function parseActor(act: unknown): TokenActor | undefined {
+    const actor = act as Partial<TokenActor> | undefined;
+    if (typeof actor?.sub !== 'string' || typeof actor.email !== 'string') {
+        return undefined;
+    }
+    return { sub: actor.sub, email: actor.email };
+}
+
+/**
+ * 获取 JWKS 公钥集合
+ * 
+ * @returns {Jwks} 当前可用于验证 token 的公钥，供其他服务验证本服务签发的 token
+ * 
+ * @example
+ * app.get('/.well-known/jwks.json', (c) => c.json(getJwks()));
+ */
+export function getJwks(): Jwks {
+    return toJwks(keys);
+}
+
 /**
  * 从请求头中提取 Token
  * 
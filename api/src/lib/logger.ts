@@ -5,6 +5,8 @@
  * @createDate 2026-01-25
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
+
 // ==================== 类型定义 ====================
 
 /**
@@ -53,6 +55,8 @@ export interface BaseLogEntry {
     message: string;
     ip?: string;
     userId?: string;
+    /** 实际操作者（管理员模拟登录时为管理员 ID，userId 为被模拟的用户） */
+    actorId?: string;
     context?: Record<string, unknown>;
     error?: {
         type?: string;
@@ -165,6 +169,40 @@ async function ensureDir(dir: string) {
     }
 }
 
+// ==================== 请求上下文 ====================
+
+/**
+ * 当前请求的日志上下文（requestId、ip、userId、actorId 等），同一请求内的所有日志自动附加
+ */
+const requestContext = new AsyncLocalStorage<LogData>();
+
+/**
+ * 在请求日志上下文中执行
+ * 
+ * @param {LogData} context - 初始上下文（如 requestId、ip）
+ * @param {() => T} fn - 要执行的函数
+ * @returns {T} fn 的返回值
+ * 
+ * @example
+ * await runWithLogContext({ requestId, ip }, () => next());
+ */
+export function runWithLogContext<T>(context: LogData, fn: () => T): T {
+    return requestContext.run({ ...context }, fn);
+}
+
+/**
+ * 补充当前请求的日志上下文（如认证后写入 userId / actorId），不在请求上下文中时忽略
+ * 
+ * @param {LogData} data - 要补充的字段（值为 undefined 的字段不写入）
+ */
+export function setLogContext(data: LogData) {
+    const store = requestContext.getStore();
+    if (!store) return;
+    for (const [key, value] of Object.entries(data)) {
+        if (value !== undefined) store[key] = value;
+    }
+}
+
 // ==================== Logger 类 ====================
 
 /**
@@ -238,7 +276,8 @@ class Logger {
         if (LOG_LEVEL_ORDER[level] < LOG_LEVEL_ORDER[this.config.level]) return;
 
         const now = new Date();
-        const merged: LogData = { ...this.baseContext, ...(data ?? {}) };
+        // 调用方显式传入的字段优先于请求上下文（如管理员操作日志中的 userId 为目标用户）
+        const merged: LogData = { ...requestContext.getStore(), ...this.baseContext, ...(data ?? {}) };
 
         const entry: BaseLogEntry = {
             timestamp: formatIsoWithOffset(now),
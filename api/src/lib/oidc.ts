@@ -0,0 +1,357 @@
+/**
+ * @file oidc.ts
+ * @description 通用 OIDC 客户端工具模块：读取发现文档和 JWKS，生成 PKCE 和授权地址，使用授权码换取令牌并校验 ID Token
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { fromBase64Url, toBase64Url } from '[@BASE]/lib/token.ts';
+import { TtlCache } from '[@BASE]/lib/ttl-cache.ts';
+
+/** 发现文档和 JWKS 缓存时间（毫秒） */
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/** 请求身份提供方的超时时间（毫秒） */
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/** 校验 exp / iat 时允许的时钟偏差（秒） */
+const CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * 支持的 ID Token 签名算法及对应的 WebCrypto 参数
+ */
+const SIGNING_ALGORITHMS: Record<string, {
+    kty: string;
+    importParams: RsaHashedImportParams | EcKeyImportParams;
+    verifyParams: AlgorithmIdentifier | EcdsaParams;
+}> = {
+    RS256: {
+        kty: 'RSA',
+        importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        verifyParams: 'RSASSA-PKCS1-v1_5',
+    },
+    ES256: {
+        kty: 'EC',
+        importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+        verifyParams: { name: 'ECDSA', hash: 'SHA-256' },
+    },
+};
+
+/**
+ * 发现文档（{issuer}/.well-known/openid-configuration，只列出用到的字段）
+ */
+export interface DiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+    userinfo_endpoint?: string;
+    token_endpoint_auth_methods_supported?: string[];
+}
+
+/**
+ * 客户端信息
+ */
+export interface OidcClient {
+    clientId: string;
+    /** 客户端密钥，为空时作为公共客户端（仅使用 PKCE） */
+    clientSecret: string;
+    redirectUri: string;
+}
+
+/**
+ * PKCE 参数对
+ */
+export interface PkcePair {
+    codeVerifier: string;
+    codeChallenge: string;
+}
+
+/**
+ * 令牌端点响应
+ */
+export interface TokenResponse {
+    access_token: string;
+    id_token: string;
+    token_type: string;
+    expires_in?: number;
+    refresh_token?: string;
+    scope?: string;
+}
+
+/**
+ * ID Token 声明（只列出用到的字段）
+ */
+export interface IdTokenClaims {
+    iss: string;
+    sub: string;
+    aud: string | string[];
+    exp: number;
+    iat: number;
+    azp?: string;
+    nonce?: string;
+    email?: string;
+    email_verified?: boolean;
+    name?: string;
+    picture?: string;
+    [claim: string]: unknown;
+}
+
+const discoveryCache = new TtlCache<DiscoveryDocument>(METADATA_CACHE_TTL_MS, 100);
+const jwksCache = new TtlCache<JsonWebKey[]>(METADATA_CACHE_TTL_MS, 100);
+
+/**
+ * 读取身份提供方的发现文档（带缓存）
+ * 
+ * @param {string} issuer - 签发者地址
+ * @returns {Promise<DiscoveryDocument>} 发现文档
+ * @throws {Error} 请求失败、缺少必要端点或 issuer 与配置不一致时抛出错误
+ */
+export async function discover(issuer: string): Promise<DiscoveryDocument> {
+    const cached = discoveryCache.get(issuer);
+    if (cached) return cached;
+
+    const document = await fetchJson<DiscoveryDocument>(
+        `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`
+    );
+    if (document.issuer !== issuer) {
+        throw new Error(`Discovery issuer mismatch: ${document.issuer}`);
+    }
+    if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+        throw new Error('Discovery document is missing required endpoints');
+    }
+
+    discoveryCache.set(issuer, document);
+    return document;
+}
+
+/**
+ * 生成 PKCE 参数（S256）
+ * 
+ * @returns {Promise<PkcePair>} code_verifier 和对应的 code_challenge
+ */
+export async function createPkcePair(): Promise<PkcePair> {
+    const codeVerifier = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+    return { codeVerifier, codeChallenge: toBase64Url(new Uint8Array(digest)) };
+}
+
+/**
+ * 构造授权地址（授权码模式 + PKCE）
+ * 
+ * @param {DiscoveryDocument} discovery - 发现文档
+ * @param {object} params - 授权参数
+ * @returns {string} 前端需要跳转的授权地址
+ */
+export function buildAuthorizationUrl(
+    discovery: DiscoveryDocument,
+    params: {
+        clientId: string;
+        redirectUri: string;
+        scopes: string[];
+        state: string;
+        nonce: string;
+        codeChallenge: string;
+    }
+): string {
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', params.clientId);
+    url.searchParams.set('redirect_uri', params.redirectUri);
+    url.searchParams.set('scope', params.scopes.join(' '));
+    url.searchParams.set('state', params.state);
+    url.searchParams.set('nonce', params.nonce);
+    url.searchParams.set('code_challenge', params.codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    return url.toString();
+}
+
+/**
+ * 使用授权码换取令牌
+ * 
+ * @param {DiscoveryDocument} discovery - 发现文档
+ * @param {OidcClient} client - 客户端信息
+ * @param {string} code - 授权码
+ * @param {string} codeVerifier - 发起授权时生成的 PKCE code_verifier
+ * @returns {Promise<TokenResponse>} 令牌响应
+ * @throws {Error} 身份提供方拒绝或响应中缺少 ID Token 时抛出错误
+ * 
+ * @description 默认使用 client_secret_basic，身份提供方只声明支持 client_secret_post 时改为在请求体中传递密钥
+ */
+export async function exchangeCode(
+    discovery: DiscoveryDocument,
+    client: OidcClient,
+    code: string,
+    codeVerifier: string
+): Promise<TokenResponse> {
+    const body = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: client.redirectUri,
+        code_verifier: codeVerifier,
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+    const methods = discovery.token_endpoint_auth_methods_supported ?? ['client_secret_basic'];
+    if (client.clientSecret && !methods.includes('client_secret_basic') && methods.includes('client_secret_post')) {
+        body.set('client_id', client.clientId);
+        body.set('client_secret', client.clientSecret);
+    } else if (client.clientSecret) {
+        const credentials = `${encodeURIComponent(client.clientId)}:${encodeURIComponent(client.clientSecret)}`;
+        headers['Authorization'] = `Basic ${btoa(credentials)}`;
+    } else {
+        body.set('client_id', client.clientId);
+    }
+
+    const tokens = await fetchJson<TokenResponse>(discovery.token_endpoint, {
+        method: 'POST',
+        headers,
+        body,
+    });
+    if (!tokens.id_token) {
+        throw new Error('Token response does not contain an ID token');
+    }
+    return tokens;
+}
+
+/**
+ * 校验 ID Token 的签名和声明
+ * 
+ * @param {DiscoveryDocument} discovery - 发现文档
+ * @param {string} idToken - ID Token
+ * @param {object} expected - 预期值
+ * @param {string} expected.clientId - 客户端 ID（aud）
+ * @param {string} expected.nonce - 发起授权时生成的 nonce
+ * @returns {Promise<IdTokenClaims>} 校验通过的声明
+ * @throws {Error} 签名、签发者、受众、有效期或 nonce 校验不通过时抛出错误
+ */
+export async function verifyIdToken(
+    discovery: DiscoveryDocument,
+    idToken: string,
+    expected: { clientId: string; nonce: string }
+): Promise<IdTokenClaims> {
+    const parts = idToken.split('.');
+    if (parts.length !== 3) {
+        throw new Error('Malformed ID token');
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = decodeSegment<{ alg: string; kid?: string }>(encodedHeader);
+    const claims = decodeSegment<IdTokenClaims>(encodedPayload);
+
+    const algorithm = SIGNING_ALGORITHMS[header.alg];
+    if (!algorithm) {
+        throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+    }
+    const jwk = await findSigningKey(discovery.jwks_uri, algorithm.kty, header.kid);
+    const key = await crypto.subtle.importKey('jwk', jwk, algorithm.importParams, false, ['verify']);
+    const valid = await crypto.subtle.verify(
+        algorithm.verifyParams,
+        key,
+        fromBase64Url(encodedSignature),
+        new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+    if (!valid) {
+        throw new Error('ID token signature verification failed');
+    }
+
+    if (claims.iss !== discovery.issuer) {
+        throw new Error(`ID token issuer mismatch: ${claims.iss}`);
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(expected.clientId) || (audiences.length > 1 && claims.azp !== expected.clientId)) {
+        throw new Error('ID token audience mismatch');
+    }
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+        throw new Error('ID token has expired');
+    }
+    if (typeof claims.iat !== 'number' || claims.iat - CLOCK_SKEW_SECONDS > now) {
+        throw new Error('ID token was issued in the future');
+    }
+    if (claims.nonce !== expected.nonce) {
+        throw new Error('ID token nonce mismatch');
+    }
+    if (!claims.sub) {
+        throw new Error('ID token does not contain a subject');
+    }
+
+    return claims;
+}
+
+/**
+ * 读取用户信息端点
+ * 
+ * @param {DiscoveryDocument} discovery - 发现文档
+ * @param {string} accessToken - 访问令牌
+ * @returns {Promise<Partial<IdTokenClaims>>} 用户信息声明（调用方需确认 sub 与 ID Token 一致）
+ * @throws {Error} 身份提供方未提供用户信息端点或请求失败时抛出错误
+ */
+export async function fetchUserInfo(
+    discovery: DiscoveryDocument,
+    accessToken: string
+): Promise<Partial<IdTokenClaims>> {
+    if (!discovery.userinfo_endpoint) {
+        throw new Error('Discovery document does not contain a userinfo endpoint');
+    }
+    return await fetchJson<Partial<IdTokenClaims>>(discovery.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+    });
+}
+
+/**
+ * 查找与 kid 匹配的签名公钥，缓存中找不到时重新拉取一次 JWKS（身份提供方可能已轮换密钥）
+ */
+async function findSigningKey(jwksUri: string, kty: string, kid: string | undefined): Promise<JsonWebKey> {
+    const match = (keys: JsonWebKey[]) => keys.find((key) =>
+        key.kty === kty &&
+        (key.use === undefined || key.use === 'sig') &&
+        (kid === undefined || (key as { kid?: string }).kid === kid)
+    );
+
+    const cached = jwksCache.get(jwksUri);
+    const key = (cached && match(cached)) ?? match(await refreshJwks(jwksUri));
+    if (!key) {
+        throw new Error(`No signing key found for kid: ${kid}`);
+    }
+    return key;
+}
+
+/**
+ * 拉取并缓存 JWKS
+ */
+async function refreshJwks(jwksUri: string): Promise<JsonWebKey[]> {
+    const { keys } = await fetchJson<{ keys?: JsonWebKey[] }>(jwksUri);
+    if (!Array.isArray(keys)) {
+        throw new Error('JWKS does not contain keys');
+    }
+    jwksCache.set(jwksUri, keys);
+    return keys;
+}
+
+/**
+ * 请求 JSON 接口，非 2xx 响应时抛出包含 OAuth 错误码的错误
+ */
+async function fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(url, {
+        ...init,
+        headers: { Accept: 'application/json', ...init.headers },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok || data === null || typeof data !== 'object') {
+        const reason = data?.error_description || data?.error || response.statusText;
+        throw new Error(`Request to ${new URL(url).origin} failed (${response.status}): ${reason}`);
+    }
+    return data as T;
+}
+
+/**
+ * 解码 JWT 的 header / payload 段
+ */
+function decodeSegment<T>(segment: string): T {
+    const value = JSON.parse(new TextDecoder().decode(fromBase64Url(segment)));
+    if (value === null || typeof value !== 'object') {
+        throw new Error('Malformed ID token');
+    }
+    return value as T;
+}
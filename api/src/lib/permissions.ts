@@ -0,0 +1,44 @@
+/**
+ * @file permissions.ts
+ * @description 角色权限模块，维护角色与权限的对应关系，供 requireRole / requirePermission 中间件使用
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { Permission, UserRole } from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 角色拥有的权限
+ * 
+ * @constant
+ * @description 新增权限时在 Permission 枚举中定义，再分配给需要的角色；管理员拥有全部权限
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+    [UserRole.USER]: [],
+    [UserRole.ADMIN]: Object.values(Permission),
+};
+
+/**
+ * 判断是否为已定义的角色
+ * 
+ * @param {unknown} role - 待判断的值（如访问令牌中的 role 声明）
+ * @returns {boolean} 是否为 UserRole 的取值
+ */
+export function isUserRole(role: unknown): role is UserRole {
+    return Object.values(UserRole).includes(role as UserRole);
+}
+
+/**
+ * 判断角色是否拥有指定权限
+ * 
+ * @param {string | undefined} role - 角色（未知角色不拥有任何权限）
+ * @param {Permission} permission - 权限
+ * @returns {boolean} 是否拥有该权限
+ * 
+ * @example
+ * hasPermission('admin', Permission.USER_UNLOCK); // true
+ * hasPermission(undefined, Permission.USER_UNLOCK); // false
+ */
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+    return isUserRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
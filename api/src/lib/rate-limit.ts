@@ -0,0 +1,155 @@
+/**
+ * @file rate-limit.ts
+ * @description 限流算法模块：固定窗口和滑动窗口计数，计数存储可替换（进程内存、Postgres，接口与 Redis 命令对应）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { TtlCache } from '[@BASE]/lib/ttl-cache.ts';
+
+/**
+ * 限流算法
+ * 
+ * @description
+ * - fixed：固定窗口，窗口边界处短时间内最多可通过 2 倍请求
+ * - sliding：滑动窗口（按上一个窗口的剩余比例加权估算），没有窗口边界突发
+ */
+export type RateLimitAlgorithm = 'fixed' | 'sliding';
+
+/**
+ * 限流计数存储
+ * 
+ * @interface
+ * @description 方法与 Redis 命令一一对应，实现 Redis 存储时：
+ * incr 使用 MULTI / INCR key / PEXPIRE key ttlMs NX / EXEC，get 使用 GET key
+ */
+export interface RateLimitStore {
+    /**
+     * 计数加一并返回当前计数（键不存在或已过期时从 1 开始，过期时间只在创建时设置）
+     */
+    incr(key: string, ttlMs: number): Promise<number>;
+    /**
+     * 读取计数（键不存在或已过期时返回 0）
+     */
+    get(key: string): Promise<number>;
+}
+
+/**
+ * 限流规则
+ * 
+ * @interface
+ * @property {number} window - 时间窗口（秒）
+ * @property {number} max - 时间窗口内允许的最大请求数
+ * @property {RateLimitAlgorithm} [algorithm='sliding'] - 限流算法
+ */
+export interface RateLimitRule {
+    window: number;
+    max: number;
+    algorithm?: RateLimitAlgorithm;
+}
+
+/**
+ * 限流结果
+ * 
+ * @interface
+ * @property {boolean} allowed - 是否允许本次请求
+ * @property {number} limit - 时间窗口内允许的最大请求数
+ * @property {number} remaining - 剩余请求数
+ * @property {number} reset - 距离额度恢复的秒数（被拒绝时即 Retry-After）
+ */
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    reset: number;
+}
+
+/**
+ * 进程内存限流存储
+ * 
+ * @class
+ * @implements {RateLimitStore}
+ * @description 计数只在当前进程内有效，多实例部署时应使用 Postgres 存储（RATE_LIMIT_STORE=postgres）
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private readonly counters: TtlCache<{ count: number; expiresAt: number }>;
+
+    /**
+     * 创建 MemoryRateLimitStore 实例
+     * 
+     * @param {number} [maxSize=100000] - 最大计数键数量（超过时淘汰最早写入的键）
+     */
+    constructor(maxSize = 100000) {
+        this.counters = new TtlCache(0, maxSize);
+    }
+
+    incr(key: string, ttlMs: number): Promise<number> {
+        const counter = this.counters.get(key) ?? { count: 0, expiresAt: Date.now() + ttlMs };
+        const next = { count: counter.count + 1, expiresAt: counter.expiresAt };
+        this.counters.set(key, next, next.expiresAt);
+        return Promise.resolve(next.count);
+    }
+
+    get(key: string): Promise<number> {
+        return Promise.resolve(this.counters.get(key)?.count ?? 0);
+    }
+}
+
+/**
+ * 记录一次请求并判断是否超过限流规则
+ * 
+ * @param {RateLimitStore} store - 计数存储
+ * @param {string} key - 限流键（限流规则 + 限流对象）
+ * @param {RateLimitRule} rule - 限流规则
+ * @param {number} [now=Date.now()] - 当前时间（毫秒时间戳）
+ * @returns {Promise<RateLimitResult>} 限流结果
+ * 
+ * @description 被拒绝的请求同样计数，持续超限的客户端不会在窗口结束前恢复额度
+ * 
+ * @example
+ * const result = await consumeRateLimit(store, 'send-mail:ip:1.2.3.4', { window: 3600, max: 20 });
+ * if (!result.allowed) throw new AppError(ErrorCodes.RATE_LIMIT_EXCEEDED);
+ */
+export async function consumeRateLimit(
+    store: RateLimitStore,
+    key: string,
+    rule: RateLimitRule,
+    now: number = Date.now()
+): Promise<RateLimitResult> {
+    const windowMs = rule.window * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const windowEnd = windowStart + windowMs;
+
+    if (rule.algorithm === 'fixed') {
+        const count = await store.incr(`${key}:${windowStart}`, windowMs);
+        return {
+            allowed: count <= rule.max,
+            limit: rule.max,
+            remaining: Math.max(0, rule.max - count),
+            reset: Math.ceil((windowEnd - now) / 1000),
+        };
+    }
+
+    // 滑动窗口：当前窗口的计数 + 上一个窗口的计数 × 上一个窗口仍在滑动窗口内的比例
+    // 当前窗口的键要保留到下一个窗口结束，供下一个窗口作为"上一个窗口"读取
+    const [current, previous] = await Promise.all([
+        store.incr(`${key}:${windowStart}`, windowMs * 2),
+        store.get(`${key}:${windowStart - windowMs}`),
+    ]);
+    const previousWeight = (windowEnd - now) / windowMs;
+    const count = Math.floor(previous * previousWeight) + current;
+    const allowed = count <= rule.max;
+
+    // 被拒绝时：上一个窗口的加权计数降到剩余额度以内所需的时间；仅靠当前窗口已超限时需要等到窗口结束
+    let resetAt = windowEnd;
+    if (!allowed && previous > 0 && current < rule.max) {
+        resetAt = windowEnd - windowMs * (rule.max - current) / previous;
+    }
+
+    return {
+        allowed,
+        limit: rule.max,
+        remaining: Math.max(0, rule.max - count),
+        reset: Math.max(1, Math.ceil((resetAt - now) / 1000)),
+    };
+}
@@ -161,6 +161,22 @@ export function createUserClient(accessToken: string): TypedSupabaseClient {
     return client;
 }
 
+/**
+ * 创建一次性的 Supabase 客户端（使用 Anon Key）
+ * 用于 signInWithPassword、verifyOtp 等会把登录会话保存在客户端上的调用：
+ * 在共享的 supabase 客户端上调用时，之后所有请求都会带上最后登录用户的 JWT
+ * 
+ * @returns 新的 Supabase 客户端（用完即弃）
+ * 
+ * @example
+ * ```ts
+ * const { data, error } = await createEphemeralClient().auth.signInWithPassword({ email, password });
+ * ```
+ */
+export function createEphemeralClient(): TypedSupabaseClient {
+    return createSupabaseClient();
+}
+
 /**
  * 健康检查：测试 Supabase 连接
  * @returns 连接是否正常
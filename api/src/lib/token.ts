@@ -0,0 +1,132 @@
+/**
+ * @file token.ts
+ * @description 不透明令牌工具模块，用于生成随机令牌、计算其哈希（数据库只保存哈希）以及生成和校验带签名的短期令牌
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+/**
+ * 将字节数组编码为 base64url 字符串（无填充）
+ * 
+ * @param {Uint8Array} bytes - 字节数组
+ * @returns {string} base64url 字符串
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * 将 base64url 字符串（可无填充）解码为字节数组
+ * 
+ * @param {string} value - base64url 字符串
+ * @returns {Uint8Array<ArrayBuffer>} 字节数组
+ * @throws {Error} 字符串不是合法的 base64url 时抛出错误
+ */
+export function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * 生成随机令牌
+ * 
+ * @param {number} [byteLength=32] - 随机字节数，默认 32 字节（256 位）
+ * @returns {string} base64url 编码的随机令牌
+ * 
+ * @example
+ * const refreshToken = generateRandomToken();
+ * // 返回: 'Qm9x...'（43 个字符）
+ */
+export function generateRandomToken(byteLength = 32): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+    return toBase64Url(bytes);
+}
+
+/**
+ * 计算令牌的 SHA-256 哈希
+ * 
+ * @param {string} token - 明文令牌
+ * @returns {Promise<string>} 十六进制哈希字符串
+ * 
+ * @description 用于将令牌以哈希形式存储到数据库，查询时对传入令牌做同样的哈希后比对
+ * 
+ * @example
+ * const tokenHash = await hashToken(refreshToken);
+ */
+export async function hashToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(token)
+    );
+    return Array.from(new Uint8Array(digest))
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+/**
+ * 生成带签名和过期时间的令牌
+ * 
+ * @param {string} purpose - 令牌用途（参与签名，不同用途的令牌不能互相替代）
+ * @param {string} secret - 签名密钥
+ * @param {Date} expiresAt - 过期时间
+ * @returns {Promise<string>} 格式为 `{随机值}.{过期时间戳（秒）}.{HMAC-SHA256 签名}` 的令牌
+ * 
+ * @description 签名只用于在查询数据库之前拒绝伪造和过期的令牌，令牌是否已使用仍以数据库记录为准
+ * 
+ * @example
+ * const token = await createSignedToken('magic_link', config.auth.jwtSecret, expiresAt);
+ */
+export async function createSignedToken(purpose: string, secret: string, expiresAt: Date): Promise<string> {
+    const payload = `${generateRandomToken()}.${Math.floor(expiresAt.getTime() / 1000)}`;
+    const signature = await crypto.subtle.sign(
+        'HMAC',
+        await importHmacKey(secret),
+        new TextEncoder().encode(`${purpose}.${payload}`)
+    );
+    return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * 校验带签名的令牌
+ * 
+ * @param {string} purpose - 令牌用途
+ * @param {string} secret - 签名密钥
+ * @param {string} token - 令牌
+ * @returns {Promise<boolean>} 格式正确、签名有效且未过期时返回 true
+ */
+export async function verifySignedToken(purpose: string, secret: string, token: string): Promise<boolean> {
+    const parts = token.split('.');
+    if (parts.length !== 3 || !/^\d+$/.test(parts[1]) || Number(parts[1]) * 1000 <= Date.now()) {
+        return false;
+    }
+
+    try {
+        // crypto.subtle.verify 以恒定时间比较签名
+        return await crypto.subtle.verify(
+            'HMAC',
+            await importHmacKey(secret),
+            fromBase64Url(parts[2]),
+            new TextEncoder().encode(`${purpose}.${parts[0]}.${parts[1]}`)
+        );
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * 导入 HMAC-SHA256 签名密钥
+ */
+function importHmacKey(secret: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign', 'verify']
+    );
+}
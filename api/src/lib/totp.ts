@@ -0,0 +1,222 @@
+/**
+ * @file totp.ts
+ * @description TOTP 工具模块（RFC 6238），用于生成两步验证密钥、计算和校验动态码
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+/** RFC 4648 Base32 字母表 */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/** 时间步长（秒），与主流验证器 App 保持一致 */
+export const TOTP_PERIOD = 30;
+
+/** 动态码位数 */
+export const TOTP_DIGITS = 6;
+
+/**
+ * 动态码计算选项
+ * 
+ * @interface
+ * @property {number} [timestamp] - 计算时刻（毫秒），默认当前时间
+ * @property {number} [period=30] - 时间步长（秒）
+ * @property {number} [digits=6] - 动态码位数
+ */
+export interface TotpOptions {
+    timestamp?: number;
+    period?: number;
+    digits?: number;
+}
+
+/**
+ * 动态码校验选项
+ * 
+ * @interface
+ * @property {number} [window=1] - 允许的前后时间步偏差（用于容忍客户端时钟误差）
+ */
+export interface TotpVerifyOptions extends TotpOptions {
+    window?: number;
+}
+
+/**
+ * 将字节数组编码为 Base32 字符串（无填充）
+ * 
+ * @param {Uint8Array} bytes - 字节数组
+ * @returns {string} Base32 字符串
+ */
+export function encodeBase32(bytes: Uint8Array): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+}
+
+/**
+ * 将 Base32 字符串解码为字节数组
+ * 
+ * @param {string} input - Base32 字符串（忽略大小写、空格和填充）
+ * @returns {Uint8Array} 字节数组
+ * @throws {Error} 包含非法字符时抛出错误
+ */
+export function decodeBase32(input: string): Uint8Array<ArrayBuffer> {
+    const normalized = input.toUpperCase().replace(/[\s=]/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of normalized) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error(`Invalid base32 character: ${char}`);
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return new Uint8Array(bytes);
+}
+
+/**
+ * 生成 TOTP 密钥
+ * 
+ * @param {number} [byteLength=20] - 随机字节数，默认 20 字节（160 位，RFC 4226 推荐长度）
+ * @returns {string} Base32 编码的密钥
+ */
+export function generateTotpSecret(byteLength = 20): string {
+    return encodeBase32(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * 计算指定时刻所在的时间步
+ * 
+ * @param {number} [timestamp=Date.now()] - 时刻（毫秒）
+ * @param {number} [period=30] - 时间步长（秒）
+ * @returns {number} 时间步
+ */
+export function getTimeStep(timestamp = Date.now(), period = TOTP_PERIOD): number {
+    return Math.floor(timestamp / 1000 / period);
+}
+
+/**
+ * 计算指定时间步的动态码（HMAC-SHA1）
+ * 
+ * @param {string} secret - Base32 编码的密钥
+ * @param {number} step - 时间步
+ * @param {number} [digits=6] - 动态码位数
+ * @returns {Promise<string>} 左侧补零的动态码
+ */
+export async function generateHotp(secret: string, step: number, digits = TOTP_DIGITS): Promise<string> {
+    const counter = new Uint8Array(8);
+    new DataView(counter.buffer).setBigUint64(0, BigInt(step));
+
+    const key = await crypto.subtle.importKey(
+        'raw',
+        decodeBase32(secret),
+        { name: 'HMAC', hash: 'SHA-1' },
+        false,
+        ['sign']
+    );
+    const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter));
+
+    // 动态截断（RFC 4226 5.3）
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = ((hmac[offset] & 0x7f) << 24) |
+        (hmac[offset + 1] << 16) |
+        (hmac[offset + 2] << 8) |
+        hmac[offset + 3];
+
+    return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * 计算当前（或指定时刻）的动态码
+ * 
+ * @param {string} secret - Base32 编码的密钥
+ * @param {TotpOptions} [options] - 计算选项
+ * @returns {Promise<string>} 动态码
+ * 
+ * @example
+ * const code = await generateTotp('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', { timestamp: 59_000 });
+ * // 返回: '287082'
+ */
+export function generateTotp(secret: string, options: TotpOptions = {}): Promise<string> {
+    const { timestamp = Date.now(), period = TOTP_PERIOD, digits = TOTP_DIGITS } = options;
+    return generateHotp(secret, getTimeStep(timestamp, period), digits);
+}
+
+/**
+ * 校验动态码
+ * 
+ * @param {string} secret - Base32 编码的密钥
+ * @param {string} code - 用户输入的动态码
+ * @param {TotpVerifyOptions} [options] - 校验选项
+ * @returns {Promise<number | null>} 匹配的时间步，不匹配时返回 null
+ * 
+ * @description 返回时间步而不是布尔值，调用方据此拒绝已使用过的时间步，防止动态码重放
+ */
+export async function verifyTotp(
+    secret: string,
+    code: string,
+    options: TotpVerifyOptions = {}
+): Promise<number | null> {
+    const { timestamp = Date.now(), period = TOTP_PERIOD, digits = TOTP_DIGITS, window = 1 } = options;
+
+    if (!new RegExp(`^\\d{${digits}}$`).test(code)) {
+        return null;
+    }
+
+    const current = getTimeStep(timestamp, period);
+    for (let offset = -window; offset <= window; offset++) {
+        const step = current + offset;
+        if (await generateHotp(secret, step, digits) === code) {
+            return step;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * 生成 otpauth:// URI（供验证器 App 扫码绑定）
+ * 
+ * @param {object} params - URI 参数
+ * @param {string} params.secret - Base32 编码的密钥
+ * @param {string} params.accountName - 账号名称（通常为邮箱）
+ * @param {string} params.issuer - 发行方名称（显示在验证器 App 中）
+ * @returns {string} otpauth URI
+ * 
+ * @example
+ * buildOtpauthUri({ secret, accountName: 'user@example.com', issuer: 'My Project' });
+ * // 返回: 'otpauth://totp/My%20Project:user%40example.com?secret=...&issuer=My%20Project&algorithm=SHA1&digits=6&period=30'
+ */
+export function buildOtpauthUri(params: { secret: string; accountName: string; issuer: string }): string {
+    const { secret, accountName, issuer } = params;
+    const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+    const query = [
+        `secret=${secret}`,
+        `issuer=${encodeURIComponent(issuer)}`,
+        'algorithm=SHA1',
+        `digits=${TOTP_DIGITS}`,
+        `period=${TOTP_PERIOD}`,
+    ].join('&');
+
+    return `otpauth://totp/${label}?${query}`;
+}
@@ -0,0 +1,87 @@
+/**
+ * @file ttl-cache.ts
+ * @description 进程内 TTL 缓存，用于缓存频繁读取的数据库查询结果（如令牌吊销状态）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+/**
+ * 缓存条目
+ */
+interface CacheEntry<T> {
+    value: T;
+    /** 缓存过期时间（毫秒时间戳） */
+    expiresAt: number;
+}
+
+/**
+ * TTL 缓存类
+ * 
+ * @class
+ * @template T - 缓存值类型
+ * @description
+ * 每个条目可单独指定过期时间，超过容量时淘汰最早写入的条目
+ * 注意：缓存只在当前进程内有效，多实例部署时各实例的缓存互不同步
+ * 
+ * @example
+ * const cache = new TtlCache<boolean>(30_000);
+ * cache.set('key', true);
+ * cache.get('key'); // true（30 秒内）
+ */
+export class TtlCache<T> {
+    private readonly entries = new Map<string, CacheEntry<T>>();
+
+    /**
+     * 创建 TtlCache 实例
+     * 
+     * @param {number} defaultTtlMs - 默认缓存时间（毫秒）
+     * @param {number} [maxSize=10000] - 最大条目数
+     */
+    constructor(
+        private readonly defaultTtlMs: number,
+        private readonly maxSize = 10000
+    ) {}
+
+    /**
+     * 读取缓存（过期条目会被删除）
+     * 
+     * @param {string} key - 缓存键
+     * @returns {T | undefined} 缓存值，不存在或已过期时返回 undefined
+     */
+    get(key: string): T | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+
+        return entry.value;
+    }
+
+    /**
+     * 写入缓存
+     * 
+     * @param {string} key - 缓存键
+     * @param {T} value - 缓存值
+     * @param {number} [expiresAt] - 过期时间（毫秒时间戳），默认当前时间 + 默认缓存时间
+     */
+    set(key: string, value: T, expiresAt: number = Date.now() + this.defaultTtlMs): void {
+        this.entries.delete(key);
+        if (this.entries.size >= this.maxSize) {
+            const oldestKey = this.entries.keys().next().value;
+            if (oldestKey !== undefined) this.entries.delete(oldestKey);
+        }
+        this.entries.set(key, { value, expiresAt });
+    }
+
+    /**
+     * 删除缓存
+     * 
+     * @param {string} key - 缓存键
+     */
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+}
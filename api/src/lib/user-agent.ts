@@ -0,0 +1,130 @@
+/**
+ * @file user-agent.ts
+ * @description User-Agent 解析工具，提取设备类型、操作系统和浏览器信息（用于会话和登录日志展示）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+/**
+ * 设备类型
+ * 
+ * @typedef {'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown'} DeviceType
+ */
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown';
+
+/**
+ * 设备信息接口
+ * 
+ * @interface
+ * @property {DeviceType} deviceType - 设备类型
+ * @property {string | null} os - 操作系统（含主版本号，如 "iOS 17"）
+ * @property {string | null} browser - 浏览器（含主版本号，如 "Chrome 120"）
+ */
+export interface DeviceInfo {
+    deviceType: DeviceType;
+    os: string | null;
+    browser: string | null;
+}
+
+/**
+ * 操作系统匹配规则（按顺序匹配，先匹配到的优先）
+ */
+const OS_RULES: Array<{ name: string; pattern: RegExp }> = [
+    { name: 'Windows', pattern: /Windows NT (\d+(?:\.\d+)?)/ },
+    { name: 'iOS', pattern: /(?:iPhone|iPad|iPod).*?OS (\d+)/ },
+    { name: 'Android', pattern: /Android (\d+(?:\.\d+)?)/ },
+    { name: 'macOS', pattern: /Mac OS X (\d+[._]\d+)/ },
+    { name: 'ChromeOS', pattern: /CrOS/ },
+    { name: 'Linux', pattern: /Linux/ },
+];
+
+/**
+ * 浏览器匹配规则（按顺序匹配，Edge/Opera 等基于 Chromium 的浏览器需要排在 Chrome 之前）
+ */
+const BROWSER_RULES: Array<{ name: string; pattern: RegExp }> = [
+    { name: 'Edge', pattern: /Edg(?:e|A|iOS)?\/(\d+)/ },
+    { name: 'Opera', pattern: /(?:OPR|Opera)\/(\d+)/ },
+    { name: 'Samsung Internet', pattern: /SamsungBrowser\/(\d+)/ },
+    { name: 'WeChat', pattern: /MicroMessenger\/(\d+)/ },
+    { name: 'Firefox', pattern: /(?:Firefox|FxiOS)\/(\d+)/ },
+    { name: 'Chrome', pattern: /(?:Chrome|CriOS)\/(\d+)/ },
+    { name: 'Safari', pattern: /Version\/(\d+).*Safari/ },
+];
+
+/**
+ * Windows NT 版本号到产品名的映射
+ */
+const WINDOWS_VERSIONS: Record<string, string> = {
+    '10.0': '10',
+    '6.3': '8.1',
+    '6.2': '8',
+    '6.1': '7',
+};
+
+/**
+ * 解析 User-Agent
+ * 
+ * @param {string | null | undefined} userAgent - User-Agent 字符串
+ * @returns {DeviceInfo} 设备信息，无法识别的字段为 null
+ * 
+ * @description 只做常见客户端的轻量识别，结果用于展示，不能作为安全判断依据
+ * 
+ * @example
+ * parseUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) ... Version/17.1 Mobile/15E148 Safari/604.1');
+ * // 返回: { deviceType: 'mobile', os: 'iOS 17', browser: 'Safari 17' }
+ */
+export function parseUserAgent(userAgent: string | null | undefined): DeviceInfo {
+    if (!userAgent) {
+        return { deviceType: 'unknown', os: null, browser: null };
+    }
+
+    return {
+        deviceType: detectDeviceType(userAgent),
+        os: detectOs(userAgent),
+        browser: detectBrowser(userAgent),
+    };
+}
+
+/**
+ * 识别设备类型
+ */
+function detectDeviceType(ua: string): DeviceType {
+    if (/bot|crawler|spider|crawling/i.test(ua)) return 'bot';
+    if (/iPad|Tablet/i.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) return 'tablet';
+    if (/Mobi|iPhone|iPod|Android/i.test(ua)) return 'mobile';
+    if (/Windows|Macintosh|X11|CrOS|Linux/.test(ua)) return 'desktop';
+    return 'unknown';
+}
+
+/**
+ * 识别操作系统
+ */
+function detectOs(ua: string): string | null {
+    for (const { name, pattern } of OS_RULES) {
+        const match = ua.match(pattern);
+        if (!match) continue;
+
+        const version = match[1];
+        if (!version) return name;
+
+        if (name === 'Windows') {
+            return `Windows ${WINDOWS_VERSIONS[version] ?? version}`;
+        }
+        if (name === 'macOS') {
+            return `macOS ${version.replace('_', '.')}`;
+        }
+        return `${name} ${version}`;
+    }
+    return null;
+}
+
+/**
+ * 识别浏览器
+ */
+function detectBrowser(ua: string): string | null {
+    for (const { name, pattern } of BROWSER_RULES) {
+        const match = ua.match(pattern);
+        if (match) return `${name} ${match[1]}`;
+    }
+    return null;
+}
@@ -0,0 +1,594 @@
+/**
+ * @file webauthn.ts
+ * @description WebAuthn 工具模块：解析 CBOR / 认证器数据 / COSE 公钥，校验注册（attestation）和登录（assertion）响应
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { fromBase64Url, toBase64Url } from '[@BASE]/lib/token.ts';
+
+/**
+ * 支持的 COSE 签名算法
+ * 
+ * @enum {number}
+ */
+export enum CoseAlgorithm {
+    /** ECDSA P-256 + SHA-256 */
+    ES256 = -7,
+    /** Ed25519 */
+    EDDSA = -8,
+    /** RSASSA-PKCS1-v1_5 + SHA-256 */
+    RS256 = -257,
+}
+
+/** 注册时向浏览器声明的算法（按优先级排列） */
+export const SUPPORTED_ALGORITHMS: CoseAlgorithm[] = [
+    CoseAlgorithm.EDDSA,
+    CoseAlgorithm.ES256,
+    CoseAlgorithm.RS256,
+];
+
+/** 认证器数据标志位 */
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+/**
+ * 注册响应（PublicKeyCredential.toJSON() 的结果）
+ */
+export interface RegistrationResponseJSON {
+    id: string;
+    rawId: string;
+    type: 'public-key';
+    response: {
+        clientDataJSON: string;
+        attestationObject: string;
+        transports?: string[];
+    };
+}
+
+/**
+ * 登录响应（PublicKeyCredential.toJSON() 的结果）
+ */
+export interface AuthenticationResponseJSON {
+    id: string;
+    rawId: string;
+    type: 'public-key';
+    response: {
+        clientDataJSON: string;
+        authenticatorData: string;
+        signature: string;
+        userHandle?: string | null;
+    };
+}
+
+/**
+ * 客户端数据（clientDataJSON 解码结果）
+ */
+export interface ClientData {
+    type: string;
+    /** base64url 编码的挑战 */
+    challenge: string;
+    origin: string;
+    crossOrigin?: boolean;
+}
+
+/**
+ * 认证器数据
+ */
+export interface AuthenticatorData {
+    rpIdHash: Uint8Array;
+    userPresent: boolean;
+    userVerified: boolean;
+    backupEligible: boolean;
+    backedUp: boolean;
+    signCount: number;
+    /** 注册时包含的凭据信息 */
+    attestedCredential?: {
+        aaguid: Uint8Array;
+        credentialId: Uint8Array;
+        /** COSE 编码的公钥 */
+        publicKey: Uint8Array;
+    };
+}
+
+/**
+ * 校验时的公共预期值
+ */
+export interface ExpectedCeremony {
+    /** base64url 编码的挑战 */
+    challenge: string;
+    /** 允许的来源（如 https://example.com） */
+    origins: string[];
+    /** 依赖方 ID（域名） */
+    rpId: string;
+    /** 是否要求用户验证（生物识别或 PIN），默认 true */
+    requireUserVerification?: boolean;
+}
+
+/**
+ * 注册校验结果
+ */
+export interface VerifiedRegistration {
+    /** base64url 编码的凭据 ID */
+    credentialId: string;
+    /** base64url 编码的 COSE 公钥 */
+    publicKey: string;
+    algorithm: CoseAlgorithm;
+    signCount: number;
+    /** 认证器型号（UUID 格式） */
+    aaguid: string;
+    backupEligible: boolean;
+    backedUp: boolean;
+    transports: string[];
+}
+
+/**
+ * 登录校验结果
+ */
+export interface VerifiedAuthentication {
+    signCount: number;
+    backedUp: boolean;
+}
+
+/**
+ * 解码 CBOR（RFC 8949，仅支持 WebAuthn 用到的定长编码）
+ * 
+ * @param {Uint8Array} bytes - CBOR 数据
+ * @returns {unknown} 解码结果，map 解码为 Map（COSE 公钥的键为整数）
+ * @throws {Error} 数据格式错误或存在多余字节时抛出错误
+ */
+export function decodeCbor(bytes: Uint8Array): unknown {
+    const { value, offset } = decodeCborItem(bytes, 0);
+    if (offset !== bytes.length) {
+        throw new Error('CBOR data has trailing bytes');
+    }
+    return value;
+}
+
+/**
+ * 解码 clientDataJSON
+ * 
+ * @param {string} clientDataJSON - base64url 编码的 clientDataJSON
+ * @returns {ClientData} 客户端数据
+ * @throws {Error} 格式错误时抛出错误
+ */
+export function parseClientData(clientDataJSON: string): ClientData {
+    const data = JSON.parse(new TextDecoder().decode(fromBase64Url(clientDataJSON)));
+    if (
+        typeof data?.type !== 'string' ||
+        typeof data?.challenge !== 'string' ||
+        typeof data?.origin !== 'string'
+    ) {
+        throw new Error('Invalid clientDataJSON');
+    }
+    return data as ClientData;
+}
+
+/**
+ * 解析认证器数据（WebAuthn 6.1）
+ * 
+ * @param {Uint8Array} bytes - 认证器数据
+ * @returns {AuthenticatorData} 解析结果
+ * @throws {Error} 长度不足或格式错误时抛出错误
+ */
+export function parseAuthenticatorData(bytes: Uint8Array): AuthenticatorData {
+    if (bytes.length < 37) {
+        throw new Error('Authenticator data is too short');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const flags = bytes[32];
+    const result: AuthenticatorData = {
+        rpIdHash: bytes.slice(0, 32),
+        userPresent: Boolean(flags & FLAG_USER_PRESENT),
+        userVerified: Boolean(flags & FLAG_USER_VERIFIED),
+        backupEligible: Boolean(flags & FLAG_BACKUP_ELIGIBLE),
+        backedUp: Boolean(flags & FLAG_BACKED_UP),
+        signCount: view.getUint32(33),
+    };
+
+    if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+        if (bytes.length < 55) {
+            throw new Error('Attested credential data is too short');
+        }
+        const idLength = view.getUint16(53);
+        const publicKeyStart = 55 + idLength;
+        // 公钥是一个 CBOR map，解码一次以确定其长度（之后可能还有扩展数据）
+        const { offset } = decodeCborItem(bytes, publicKeyStart);
+
+        result.attestedCredential = {
+            aaguid: bytes.slice(37, 53),
+            credentialId: bytes.slice(55, publicKeyStart),
+            publicKey: bytes.slice(publicKeyStart, offset),
+        };
+    }
+
+    return result;
+}
+
+/**
+ * 校验注册响应（attestation）
+ * 
+ * @param {RegistrationResponseJSON} response - 浏览器返回的注册响应
+ * @param {ExpectedCeremony} expected - 预期的挑战、来源和依赖方 ID
+ * @returns {Promise<VerifiedRegistration>} 需要保存的凭据信息
+ * @throws {Error} 任一校验不通过时抛出错误
+ * 
+ * @description 只接受 none 和 packed 自证明（self attestation）格式；注册时请求 attestation: 'none'，
+ * 不校验认证器厂商证书链
+ */
+export async function verifyRegistrationResponse(
+    response: RegistrationResponseJSON,
+    expected: ExpectedCeremony
+): Promise<VerifiedRegistration> {
+    const clientDataBytes = fromBase64Url(response.response.clientDataJSON);
+    assertClientData(parseClientData(response.response.clientDataJSON), 'webauthn.create', expected);
+
+    const attestation = decodeCbor(fromBase64Url(response.response.attestationObject));
+    if (!(attestation instanceof Map)) {
+        throw new Error('Invalid attestation object');
+    }
+    const fmt = attestation.get('fmt');
+    const attStmt = attestation.get('attStmt');
+    const authDataBytes = attestation.get('authData');
+    if (typeof fmt !== 'string' || !(attStmt instanceof Map) || !(authDataBytes instanceof Uint8Array)) {
+        throw new Error('Invalid attestation object');
+    }
+
+    const authData = parseAuthenticatorData(authDataBytes);
+    await assertAuthenticatorData(authData, expected);
+
+    const credential = authData.attestedCredential;
+    if (!credential) {
+        throw new Error('Attested credential data is missing');
+    }
+    if (toBase64Url(credential.credentialId) !== response.rawId) {
+        throw new Error('Credential ID mismatch');
+    }
+
+    const { key, algorithm } = await importCosePublicKey(credential.publicKey);
+
+    if (fmt === 'packed') {
+        if (attStmt.has('x5c')) {
+            throw new Error('Unsupported attestation: packed with certificate chain');
+        }
+        const signature = attStmt.get('sig');
+        if (attStmt.get('alg') !== algorithm || !(signature instanceof Uint8Array)) {
+            throw new Error('Invalid packed self attestation');
+        }
+        const signedData = concatBytes(authDataBytes, await sha256(clientDataBytes));
+        if (!(await verifySignature(algorithm, key, signature, signedData))) {
+            throw new Error('Attestation signature verification failed');
+        }
+    } else if (fmt !== 'none' || attStmt.size > 0) {
+        throw new Error(`Unsupported attestation format: ${fmt}`);
+    }
+
+    return {
+        credentialId: response.rawId,
+        publicKey: toBase64Url(credential.publicKey),
+        algorithm,
+        signCount: authData.signCount,
+        aaguid: formatUuid(credential.aaguid),
+        backupEligible: authData.backupEligible,
+        backedUp: authData.backedUp,
+        transports: response.response.transports ?? [],
+    };
+}
+
+/**
+ * 校验登录响应（assertion）
+ * 
+ * @param {AuthenticationResponseJSON} response - 浏览器返回的登录响应
+ * @param {ExpectedCeremony} expected - 预期的挑战、来源和依赖方 ID
+ * @param {object} credential - 已保存的凭据
+ * @param {string} credential.publicKey - base64url 编码的 COSE 公钥
+ * @param {number} credential.signCount - 上次记录的签名计数
+ * @returns {Promise<VerifiedAuthentication>} 新的签名计数等信息
+ * @throws {Error} 任一校验不通过，或签名计数回退（疑似认证器被克隆）时抛出错误
+ */
+export async function verifyAuthenticationResponse(
+    response: AuthenticationResponseJSON,
+    expected: ExpectedCeremony,
+    credential: { publicKey: string; signCount: number }
+): Promise<VerifiedAuthentication> {
+    const clientDataBytes = fromBase64Url(response.response.clientDataJSON);
+    assertClientData(parseClientData(response.response.clientDataJSON), 'webauthn.get', expected);
+
+    const authDataBytes = fromBase64Url(response.response.authenticatorData);
+    const authData = parseAuthenticatorData(authDataBytes);
+    await assertAuthenticatorData(authData, expected);
+
+    const { key, algorithm } = await importCosePublicKey(fromBase64Url(credential.publicKey));
+    const signedData = concatBytes(authDataBytes, await sha256(clientDataBytes));
+    if (!(await verifySignature(algorithm, key, fromBase64Url(response.response.signature), signedData))) {
+        throw new Error('Assertion signature verification failed');
+    }
+
+    // 计数均为 0 表示认证器不支持计数（多数同步通行密钥如此），否则必须递增
+    if ((authData.signCount > 0 || credential.signCount > 0) && authData.signCount <= credential.signCount) {
+        throw new Error('Signature counter did not increase');
+    }
+
+    return {
+        signCount: authData.signCount,
+        backedUp: authData.backedUp,
+    };
+}
+
+/**
+ * 校验客户端数据
+ */
+function assertClientData(clientData: ClientData, type: string, expected: ExpectedCeremony): void {
+    if (clientData.type !== type) {
+        throw new Error(`Unexpected client data type: ${clientData.type}`);
+    }
+    if (clientData.challenge !== expected.challenge) {
+        throw new Error('Challenge mismatch');
+    }
+    if (!expected.origins.includes(clientData.origin)) {
+        throw new Error(`Unexpected origin: ${clientData.origin}`);
+    }
+    if (clientData.crossOrigin) {
+        throw new Error('Cross-origin ceremonies are not allowed');
+    }
+}
+
+/**
+ * 校验认证器数据中的依赖方和用户标志
+ */
+async function assertAuthenticatorData(authData: AuthenticatorData, expected: ExpectedCeremony): Promise<void> {
+    const rpIdHash = await sha256(new TextEncoder().encode(expected.rpId));
+    if (!bytesEqual(authData.rpIdHash, rpIdHash)) {
+        throw new Error('RP ID hash mismatch');
+    }
+    if (!authData.userPresent) {
+        throw new Error('User presence flag is not set');
+    }
+    if ((expected.requireUserVerification ?? true) && !authData.userVerified) {
+        throw new Error('User verification flag is not set');
+    }
+}
+
+/**
+ * 导入 COSE 公钥（RFC 9053）
+ */
+async function importCosePublicKey(
+    bytes: Uint8Array
+): Promise<{ key: CryptoKey; algorithm: CoseAlgorithm }> {
+    const cose = decodeCbor(bytes);
+    if (!(cose instanceof Map)) {
+        throw new Error('Invalid COSE key');
+    }
+
+    const algorithm = cose.get(3);
+    switch (algorithm) {
+        case CoseAlgorithm.ES256: {
+            const x = cose.get(-2);
+            const y = cose.get(-3);
+            if (cose.get(1) !== 2 || cose.get(-1) !== 1 || !(x instanceof Uint8Array) || !(y instanceof Uint8Array)) {
+                throw new Error('Invalid ES256 COSE key');
+            }
+            const key = await crypto.subtle.importKey(
+                'raw',
+                concatBytes(new Uint8Array([0x04]), x, y),
+                { name: 'ECDSA', namedCurve: 'P-256' },
+                false,
+                ['verify']
+            );
+            return { key, algorithm };
+        }
+        case CoseAlgorithm.EDDSA: {
+            const x = cose.get(-2);
+            if (cose.get(1) !== 1 || cose.get(-1) !== 6 || !(x instanceof Uint8Array)) {
+                throw new Error('Invalid EdDSA COSE key');
+            }
+            const key = await crypto.subtle.importKey('raw', toArrayBufferView(x), 'Ed25519', false, ['verify']);
+            return { key, algorithm };
+        }
+        case CoseAlgorithm.RS256: {
+            const n = cose.get(-1);
+            const e = cose.get(-2);
+            if (cose.get(1) !== 3 || !(n instanceof Uint8Array) || !(e instanceof Uint8Array)) {
+                throw new Error('Invalid RS256 COSE key');
+            }
+            const key = await crypto.subtle.importKey(
+                'jwk',
+                { kty: 'RSA', n: toBase64Url(n), e: toBase64Url(e), alg: 'RS256', ext: true },
+                { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+                false,
+                ['verify']
+            );
+            return { key, algorithm };
+        }
+        default:
+            throw new Error(`Unsupported COSE algorithm: ${algorithm}`);
+    }
+}
+
+/**
+ * 按算法校验签名
+ */
+function verifySignature(
+    algorithm: CoseAlgorithm,
+    key: CryptoKey,
+    signature: Uint8Array,
+    data: Uint8Array<ArrayBuffer>
+): Promise<boolean> {
+    switch (algorithm) {
+        case CoseAlgorithm.ES256:
+            // 认证器返回 DER 编码的签名，WebCrypto 需要 r || s 格式
+            return crypto.subtle.verify(
+                { name: 'ECDSA', hash: 'SHA-256' },
+                key,
+                derToRawSignature(signature, 32),
+                data
+            );
+        case CoseAlgorithm.EDDSA:
+            return crypto.subtle.verify('Ed25519', key, toArrayBufferView(signature), data);
+        case CoseAlgorithm.RS256:
+            return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, toArrayBufferView(signature), data);
+    }
+}
+
+/**
+ * DER 编码的 ECDSA 签名转换为定长 r || s
+ */
+function derToRawSignature(der: Uint8Array, size: number): Uint8Array<ArrayBuffer> {
+    if (der[0] !== 0x30) {
+        throw new Error('Invalid DER signature');
+    }
+
+    const raw = new Uint8Array(size * 2);
+    let offset = 2;
+    for (let i = 0; i < 2; i++) {
+        if (der[offset] !== 0x02) {
+            throw new Error('Invalid DER signature');
+        }
+        const length = der[offset + 1];
+        let integer = der.slice(offset + 2, offset + 2 + length);
+        // 去掉符号位补的 0x00
+        while (integer.length > size && integer[0] === 0) {
+            integer = integer.slice(1);
+        }
+        if (integer.length > size) {
+            throw new Error('Invalid DER signature');
+        }
+        raw.set(integer, size * (i + 1) - integer.length);
+        offset += 2 + length;
+    }
+
+    return raw;
+}
+
+/**
+ * 解码单个 CBOR 数据项
+ */
+function decodeCborItem(bytes: Uint8Array, start: number): { value: unknown; offset: number } {
+    if (start >= bytes.length) {
+        throw new Error('Unexpected end of CBOR data');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const initial = bytes[start];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+    let offset = start + 1;
+
+    // 简单值和浮点数
+    if (major === 7) {
+        switch (info) {
+            case 20: return { value: false, offset };
+            case 21: return { value: true, offset };
+            case 22: return { value: null, offset };
+            case 23: return { value: undefined, offset };
+            case 26: return { value: view.getFloat32(offset), offset: offset + 4 };
+            case 27: return { value: view.getFloat64(offset), offset: offset + 8 };
+            default: throw new Error(`Unsupported CBOR simple value: ${info}`);
+        }
+    }
+
+    let length: number;
+    if (info < 24) {
+        length = info;
+    } else if (info === 24) {
+        length = bytes[offset];
+        offset += 1;
+    } else if (info === 25) {
+        length = view.getUint16(offset);
+        offset += 2;
+    } else if (info === 26) {
+        length = view.getUint32(offset);
+        offset += 4;
+    } else if (info === 27) {
+        length = Number(view.getBigUint64(offset));
+        offset += 8;
+    } else {
+        throw new Error('Indefinite-length CBOR items are not supported');
+    }
+
+    switch (major) {
+        case 0:
+            return { value: length, offset };
+        case 1:
+            return { value: -1 - length, offset };
+        case 2:
+        case 3: {
+            if (offset + length > bytes.length) {
+                throw new Error('Unexpected end of CBOR data');
+            }
+            const data = bytes.slice(offset, offset + length);
+            return {
+                value: major === 2 ? data : new TextDecoder().decode(data),
+                offset: offset + length,
+            };
+        }
+        case 4: {
+            const items: unknown[] = [];
+            for (let i = 0; i < length; i++) {
+                const item = decodeCborItem(bytes, offset);
+                items.push(item.value);
+                offset = item.offset;
+            }
+            return { value: items, offset };
+        }
+        case 5: {
+            const map = new Map<unknown, unknown>();
+            for (let i = 0; i < length; i++) {
+                const key = decodeCborItem(bytes, offset);
+                const value = decodeCborItem(bytes, key.offset);
+                map.set(key.value, value.value);
+                offset = value.offset;
+            }
+            return { value: map, offset };
+        }
+        default:
+            // 标签（major 6）：忽略标签，返回被标记的值
+            return decodeCborItem(bytes, offset);
+    }
+}
+
+/**
+ * 计算 SHA-256
+ */
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', toArrayBufferView(data)));
+}
+
+/**
+ * 拼接字节数组
+ */
+function concatBytes(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+/**
+ * 复制为独立 ArrayBuffer 上的字节数组（WebCrypto 参数要求）
+ */
+function toArrayBufferView(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+    return new Uint8Array(bytes);
+}
+
+/**
+ * 比较两个字节数组是否相同
+ */
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+    return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * 16 字节格式化为 UUID 字符串
+ */
+function formatUuid(bytes: Uint8Array): string {
+    const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
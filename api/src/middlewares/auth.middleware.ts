@@ -1,14 +1,89 @@
 /**
  * @file auth.middleware.ts
- * @description 认证中间件模块，验证 JWT Token 并注入用户信息到上下文
+ * @description 认证中间件模块，验证 JWT Token 或个人 API 密钥并注入用户信息到上下文
  * @author System
  * @createDate 2026-01-25
  */
 
-import type { Context, Next } from '@hono/hono';
+import type { Context, MiddlewareHandler, Next } from '@hono/hono';
 import { verifyToken, extractTokenFromHeader } from '[@BASE]/lib/jwt.ts';
-import { logger } from '[@BASE]/lib/logger.ts';
-import { createAuthError } from '[@BASE]/lib/errors/app-error.ts';
+import { logger, setLogContext } from '[@BASE]/lib/logger.ts';
+import { AppError, createAuthError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { hasPermission, isUserRole } from '[@BASE]/lib/permissions.ts';
+import { tokenRevocationService } from '[@BASE-services]/token-revocation.service.ts';
+import { sessionService } from '[@BASE-services]/session.service.ts';
+import { apiKeyService } from '[@BASE-services]/api-key.service.ts';
+import { userStatusService } from '[@BASE-services]/user-status.service.ts';
+import { userService } from '[@BASE-services]/user.service.ts';
+import { getClientContext } from '[@BASE]/untils/server.ts';
+import { ApiKeyScope, AuthType, UserRole } from '[@BASE]/types/auth.types.ts';
+import type { JwtPayload, Permission } from '[@BASE]/types/auth.types.ts';
+
+/** 只读请求方法（API 密钥需要 users:read 权限，其余方法需要 users:write 权限） */
+const READ_METHODS = ['GET', 'HEAD'];
+
+/**
+ * 从 Authorization 头中提取 API 密钥
+ * 
+ * @param {string | undefined} authorizationHeader - Authorization 头（格式：ApiKey <key>）
+ * @returns {string | null} API 密钥，不是 ApiKey 格式时返回 null
+ */
+function extractApiKeyFromHeader(authorizationHeader: string | undefined): string | null {
+    const parts = (authorizationHeader ?? '').split(' ');
+    if (parts.length !== 2 || parts[0] !== 'ApiKey' || !parts[1]) {
+        return null;
+    }
+    return parts[1];
+}
+
+/**
+ * 使用 API 密钥认证请求，并将密钥所属用户的信息注入到上下文
+ * 
+ * @param {Context} c - Hono 上下文对象
+ * @param {string} key - API 密钥
+ * @throws {AppError} 密钥无效、账号不是正常状态，或密钥缺少本次请求所需的权限范围时抛出错误
+ */
+async function authenticateApiKey(c: Context, key: string): Promise<void> {
+    const { apiKey, user } = await apiKeyService.authenticate(key, getClientContext(c));
+    userStatusService.assertActive(user);
+
+    const requiredScope = READ_METHODS.includes(c.req.method) ? ApiKeyScope.USERS_READ : ApiKeyScope.USERS_WRITE;
+    if (!apiKey.scopes.includes(requiredScope)) {
+        logger.warn('API key scope denied', { userId: user.id, apiKeyId: apiKey.id, required: requiredScope });
+        throw new AppError(ErrorCodes.AUTH_FORBIDDEN, 'API 密钥缺少所需权限');
+    }
+
+    c.set('userId', user.id);
+    c.set('userEmail', user.email);
+    c.set('userRole', user.role);
+    c.set('authType', AuthType.API_KEY);
+    c.set('apiKeyId', apiKey.id);
+    setLogContext({ userId: user.id });
+}
+
+/**
+ * 检查 Token 是否仍然有效（未被吊销，所属会话未被吊销，账号为正常状态），并更新会话活跃时间
+ * 
+ * @param {Context} c - Hono 上下文对象
+ * @param {JwtPayload} payload - 已验证签名的 Token 载荷
+ * @throws {AuthError} 当 Token 或会话已被吊销时抛出错误
+ * @throws {AppError} 当账号未激活、已暂停或已删除时抛出错误
+ */
+async function assertTokenActive(c: Context, payload: JwtPayload): Promise<void> {
+    if (await tokenRevocationService.isRevoked(payload)) {
+        throw createAuthError.tokenRevoked();
+    }
+
+    await userStatusService.assertActiveById(payload.sub);
+
+    if (payload.sid) {
+        if (!(await sessionService.isActive(payload.sid))) {
+            throw createAuthError.tokenRevoked();
+        }
+        await sessionService.touch(payload.sid, getClientContext(c));
+    }
+}
 
 /**
  * JWT 认证中间件
@@ -18,18 +93,35 @@ import { createAuthError } from '[@BASE]/lib/errors/app-error.ts';
  * @throws {AuthError} 当 Token 缺失、无效或过期时抛出认证错误
  * 
  * @description
- * 从请求头中提取和验证 Token，将用户信息注入到上下文：
+ * 从请求头中提取和验证 Token，检查 Token 及其所属会话是否已被吊销、账号是否为正常状态（状态查询有缓存），
+ * 将用户信息注入到上下文：
  * - userId: 用户ID
  * - userEmail: 用户邮箱
  * - userRole: 用户角色
+ * - authType: 认证方式（bearer / api_key）
+ * - sessionId: 会话ID（旧 Token 可能没有）
+ * - jwtPayload: 完整的 Token 载荷（退出登录时用于吊销当前 Token）
+ * - impersonator: 管理员模拟登录时为实际操作的管理员（Token 的 act 声明），同时写入日志上下文的 actorId
+ * 
+ * 也接受 `Authorization: ApiKey <key>`，此时按请求方法校验密钥的权限范围，
+ * 注入 userId / userEmail / userRole / authType 和 apiKeyId（没有 sessionId 和 jwtPayload）
  * 
  * @example
  * app.use('/api/protected', authMiddleware);
  */
 export async function authMiddleware(c: Context, next: Next) {
     try {
-        // 1. 从请求头提取 Token
         const authHeader = c.req.header('Authorization');
+
+        // 个人 API 密钥（脚本和 CI 使用）
+        const apiKey = extractApiKeyFromHeader(authHeader);
+        if (apiKey) {
+            await authenticateApiKey(c, apiKey);
+            await next();
+            return;
+        }
+
+        // 1. 从请求头提取 Token
         const token = extractTokenFromHeader(authHeader || '');
 
         if (!token) {
@@ -39,10 +131,18 @@ export async function authMiddleware(c: Context, next: Next) {
         // 2. 验证 Token
         const payload = await verifyToken(token);
 
-        // 3. 将用户信息注入到上下文
+        // 3. 检查 Token 及其会话是否已被吊销（退出登录 / 退出所有设备 / 移除设备）
+        await assertTokenActive(c, payload);
+
+        // 4. 将用户信息注入到上下文
         c.set('userId', payload.sub);
         c.set('userEmail', payload.email);
         c.set('userRole', payload.role);
+        c.set('authType', AuthType.BEARER);
+        c.set('sessionId', payload.sid);
+        c.set('jwtPayload', payload);
+        c.set('impersonator', payload.act);
+        setLogContext({ userId: payload.sub, actorId: payload.act?.sub });
 
         logger.debug('User authenticated', {
             userId: payload.sub,
@@ -56,6 +156,10 @@ export async function authMiddleware(c: Context, next: Next) {
         });
 
         // 抛出错误，由全局错误处理器捕获
+        if (error instanceof AppError) {
+            throw error;
+        }
+
         if (error instanceof Error && error.message.includes('Token')) {
             throw createAuthError.tokenInvalid();
         }
@@ -85,9 +189,15 @@ export async function optionalAuthMiddleware(c: Context, next: Next) {
 
         if (token) {
             const payload = await verifyToken(token);
+            await assertTokenActive(c, payload);
             c.set('userId', payload.sub);
             c.set('userEmail', payload.email);
             c.set('userRole', payload.role);
+            c.set('authType', AuthType.BEARER);
+            c.set('sessionId', payload.sid);
+            c.set('jwtPayload', payload);
+            c.set('impersonator', payload.act);
+            setLogContext({ userId: payload.sub, actorId: payload.act?.sub });
         }
 
         await next();
@@ -98,4 +208,131 @@ export async function optionalAuthMiddleware(c: Context, next: Next) {
         });
         await next();
     }
-}
\ No newline at end of file
+}
+
+/**
+ * 登录会话校验中间件
+ * 
+ * @param {Context} c - Hono 上下文对象
+ * @param {Next} next - 下一个中间件函数
+ * @throws {AppError} 当前请求使用 API 密钥认证时抛出权限不足错误
+ * 
+ * @description 需放在 authMiddleware 之后，用于修改密码、更换邮箱、管理会话、两步验证和 API 密钥等敏感操作：
+ * 这些操作只允许用户本人登录后执行，泄露的 API 密钥不能用来接管账号
+ * 
+ * @example
+ * users.post('/me/api-keys', requireSession, zValidator(...), apiKeyHandler.createApiKey);
+ */
+export async function requireSession(c: Context, next: Next) {
+    if (c.get('authType') === AuthType.API_KEY) {
+        logger.warn('API key used on session-only route', { userId: c.get('userId'), apiKeyId: c.get('apiKeyId') });
+        throw new AppError(ErrorCodes.AUTH_FORBIDDEN, '该操作不支持使用 API 密钥');
+    }
+
+    await next();
+}
+
+/**
+ * 禁止模拟登录中间件
+ * 
+ * @param {Context} c - Hono 上下文对象
+ * @param {Next} next - 下一个中间件函数
+ * @throws {AppError} 当前请求使用管理员模拟登录的访问令牌时抛出 AUTH_IMPERSONATION_FORBIDDEN 错误
+ * 
+ * @description 需放在 authMiddleware 之后，用于修改密码、更换邮箱、两步验证、通行密钥、API 密钥、退出所有设备和注销账号等
+ * 会改变账号凭据或不可撤销的操作：客服只能复现问题，不能代替用户做这些决定
+ * 
+ * @example
+ * users.delete('/me', requireSession, denyImpersonation, userHandler.deleteAccount);
+ */
+export async function denyImpersonation(c: Context, next: Next) {
+    const impersonator = c.get('impersonator');
+    if (impersonator) {
+        logger.warn('Impersonation denied on route', { userId: c.get('userId'), actorId: impersonator.sub, path: c.req.path });
+        throw new AppError(ErrorCodes.AUTH_IMPERSONATION_FORBIDDEN);
+    }
+
+    await next();
+}
+
+/**
+ * 邮箱已验证中间件
+ * 
+ * @param {Context} c - Hono 上下文对象
+ * @param {Next} next - 下一个中间件函数
+ * @throws {AppError} 当前用户的邮箱未验证时抛出 AUTH_EMAIL_NOT_VERIFIED 错误
+ * 
+ * @description 需放在 authMiddleware 之后，用于依赖邮箱可达的操作（如将下载链接发送到邮箱）；
+ * 每次请求读取 users.email_verified，与 public.is_email_verified() 的判断一致，验证后立即生效
+ * 
+ * @example
+ * users.post('/me/export', requireSession, requireVerifiedEmail, userHandler.exportData);
+ */
+export async function requireVerifiedEmail(c: Context, next: Next) {
+    await userService.assertEmailVerified(c.get('userId'));
+
+    await next();
+}
+
+/**
+ * 角色校验中间件
+ * 
+ * @param {...UserRole} roles - 允许访问的角色（满足其一即可）
+ * @returns {MiddlewareHandler} 中间件
+ * @throws {AppError} 当前用户的角色不在允许范围内时抛出权限不足错误
+ * 
+ * @description 需放在 authMiddleware 之后，根据 Token 中的 role 声明判断；角色变更时会吊销该用户的所有 Token，
+ * 因此 Token 中的角色不会长期滞后于 users.role
+ * 
+ * @example
+ * app.use('/api/admin/*', authMiddleware, requireRole(UserRole.ADMIN));
+ */
+export function requireRole(...roles: UserRole[]): MiddlewareHandler {
+    return async (c: Context, next: Next) => {
+        const role = c.get('userRole');
+        if (!isUserRole(role) || !roles.includes(role)) {
+            logger.warn('Role permission denied', { userId: c.get('userId'), role, required: roles });
+            throw new AppError(ErrorCodes.AUTH_FORBIDDEN);
+        }
+
+        await next();
+    };
+}
+
+/**
+ * 权限校验中间件
+ * 
+ * @param {...Permission} permissions - 需要的权限（必须全部拥有）
+ * @returns {MiddlewareHandler} 中间件
+ * @throws {AppError} 当前用户的角色缺少任一权限时抛出权限不足错误
+ * 
+ * @description 需放在 authMiddleware 之后，按 Token 中的 role 声明查找角色拥有的权限（见 lib/permissions.ts）
+ * 
+ * @example
+ * admin.post('/users/:id/unlock', requirePermission(Permission.USER_UNLOCK), adminHandler.unlockUser);
+ */
+export function requirePermission(...permissions: Permission[]): MiddlewareHandler {
+    return async (c: Context, next: Next) => {
+        const role = c.get('userRole');
+        const missing = permissions.filter((permission) => !hasPermission(role, permission));
+        if (missing.length > 0) {
+            logger.warn('Permission denied', { userId: c.get('userId'), role, missing });
+            throw new AppError(ErrorCodes.AUTH_FORBIDDEN);
+        }
+
+        await next();
+    };
+}
+
+/**
+ * 管理员权限中间件
+ * 
+ * @constant
+ * @throws {AppError} 当前用户不是管理员时抛出权限不足错误
+ * 
+ * @description 需放在 authMiddleware 之后，等同于 requireRole(UserRole.ADMIN)
+ * 
+ * @example
+ * app.use('/api/admin/*', authMiddleware, requireAdmin);
+ */
+export const requireAdmin: MiddlewareHandler = requireRole(UserRole.ADMIN);
@@ -0,0 +1,127 @@
+/**
+ * @file rate-limit.middleware.ts
+ * @description 限流中间件，按 IP、用户或邮箱限制请求频率，返回 RateLimit-* 和 Retry-After 响应头
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import type { Context, MiddlewareHandler, Next } from '@hono/hono';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { AppError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { consumeRateLimit } from '[@BASE]/lib/rate-limit.ts';
+import type { RateLimitAlgorithm, RateLimitResult, RateLimitStore } from '[@BASE]/lib/rate-limit.ts';
+import { getRateLimitStore } from '[@BASE-repositories]/rate-limit.repository.ts';
+import { getClientIp } from '[@BASE]/untils/server.ts';
+
+/**
+ * 限流对象
+ * 
+ * @description
+ * - ip：客户端 IP（requestLogger 写入的 clientIP）
+ * - user：当前登录用户（需放在 authMiddleware 之后）
+ * - email：请求体中的 email 字段（需放在 zValidator 之后）
+ * - 函数：自定义限流对象，返回 null 时不限流
+ */
+export type RateLimitKey = 'ip' | 'user' | 'email' | ((c: Context) => string | null | Promise<string | null>);
+
+/**
+ * 限流中间件选项
+ * 
+ * @interface
+ * @property {RateLimitKey} key - 限流对象
+ * @property {number} window - 时间窗口（秒）
+ * @property {number} max - 时间窗口内允许的最大请求数
+ * @property {RateLimitAlgorithm} [algorithm='sliding'] - 限流算法
+ * @property {string} [name] - 规则名称，名称相同的规则共享计数，默认为请求方法 + 路由路径
+ * @property {ErrorCodes} [errorCode=ErrorCodes.RATE_LIMIT_EXCEEDED] - 超限时返回的错误码（HTTP 状态码应为 429）
+ * @property {RateLimitStore} [store] - 计数存储，默认按 RATE_LIMIT_STORE 选择
+ */
+export interface RateLimitOptions {
+    key: RateLimitKey;
+    window: number;
+    max: number;
+    algorithm?: RateLimitAlgorithm;
+    name?: string;
+    errorCode?: ErrorCodes;
+    store?: RateLimitStore;
+}
+
+/**
+ * 限流中间件
+ * 
+ * @param {RateLimitOptions} options - 限流选项
+ * @returns {MiddlewareHandler} 中间件
+ * @throws {AppError} 超过限流规则时抛出 errorCode 对应的错误（响应头包含 Retry-After）
+ * 
+ * @description
+ * 每个请求都会写入 RateLimit-Limit、RateLimit-Remaining、RateLimit-Reset 和 RateLimit-Policy 响应头；
+ * 计数存储不可用时放行请求并记录警告，避免存储故障导致登录等接口整体不可用
+ * 
+ * @example
+ * auth.post('/send-code', rateLimit({ key: 'ip', window: 3600, max: 20 }), authHandler.sendVerificationCode);
+ */
+export function rateLimit(options: RateLimitOptions): MiddlewareHandler {
+    const { key, window, max, algorithm = 'sliding', errorCode = ErrorCodes.RATE_LIMIT_EXCEEDED } = options;
+    const keyType = typeof key === 'function' ? 'custom' : key;
+
+    return async (c: Context, next: Next) => {
+        const identifier = await resolveIdentifier(c, key);
+        if (!identifier) {
+            await next();
+            return;
+        }
+
+        const name = options.name ?? `${c.req.method}:${c.req.routePath}`;
+        const store = options.store ?? getRateLimitStore();
+
+        let result;
+        try {
+            result = await consumeRateLimit(store, `ratelimit:${name}:${keyType}:${identifier}`, { window, max, algorithm });
+        } catch (error) {
+            logger.warn('Rate limit store unavailable, request allowed', {
+                name,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            await next();
+            return;
+        }
+
+        // 同一路由有多条规则时，响应头展示剩余次数最少的规则
+        const previous: RateLimitResult | undefined = c.get('rateLimit');
+        if (!previous || result.remaining <= previous.remaining) {
+            c.set('rateLimit', result);
+            c.header('RateLimit-Limit', String(result.limit));
+            c.header('RateLimit-Remaining', String(result.remaining));
+            c.header('RateLimit-Reset', String(result.reset));
+            c.header('RateLimit-Policy', `${max};w=${window}`);
+        }
+
+        if (!result.allowed) {
+            logger.warn('Rate limit exceeded', { name, keyType, identifier, limit: max, window });
+            c.header('Retry-After', String(result.reset));
+            throw new AppError(errorCode);
+        }
+
+        await next();
+    };
+}
+
+/**
+ * 获取限流对象的标识
+ */
+async function resolveIdentifier(c: Context, key: RateLimitKey): Promise<string | null> {
+    switch (key) {
+        case 'ip':
+            return c.get('clientIP') || getClientIp(c);
+        case 'user':
+            return c.get('userId') ?? null;
+        case 'email': {
+            // 请求体已被 zValidator 解析并缓存，这里不会重复读取
+            const body = await c.req.json().catch(() => null);
+            return typeof body?.email === 'string' ? body.email.trim().toLowerCase() : null;
+        }
+        default:
+            return key(c);
+    }
+}
@@ -6,9 +6,10 @@
  */
 
 import { Context, Next } from '@hono/hono'
-import { logger } from '[@BASE]/lib/logger.ts'
+import { logger, runWithLogContext } from '[@BASE]/lib/logger.ts'
 
 function redactSensitive(input: unknown): unknown {
+    // 键名按小写比较
     const SENSITIVE_KEYS = new Set([
         'password',
         'old_password',
@@ -16,6 +17,24 @@ function redactSensitive(input: unknown): unknown {
         'token',
         'access_token',
         'refresh_token',
+        'refreshtoken',
+        // 登录挑战、登录链接的一次性令牌
+        'challengetoken',
+        'polltoken',
+        'exchangetoken',
+        // 邮箱验证码、两步验证动态码和恢复码
+        'code',
+        'recovery_codes',
+        // 两步验证密钥
+        'secret',
+        'otpauth_uri',
+        // 人机验证答案
+        'solution',
+        // 通行密钥断言和注册响应
+        'credential',
+        'response',
+        // API 密钥明文（只在创建时返回）
+        'key',
     ])
 
     const visit = (v: unknown): unknown => {
@@ -50,7 +69,9 @@ function redactSensitive(input: unknown): unknown {
  * 记录请求开始和完成的信息，包括：
  * - 请求方法、路径、客户端 IP、User-Agent
  * - 响应状态码和处理时长
- * 客户端 IP 支持多种代理场景（X-Forwarded-For、CF-Connecting-IP 等）
+ * - 管理员模拟登录时同时记录被模拟的用户（userId）和管理员（actorId）
+ * 客户端 IP 支持多种代理场景（X-Forwarded-For、CF-Connecting-IP 等）；
+ * 后续中间件和业务代码的日志自动附加 requestId、ip（以及认证后的 userId、actorId）
  * 
  * @example
  * app.use('*', requestLogger);
@@ -108,7 +129,7 @@ export const requestLogger = async (c: Context, next: Next) => {
 
     let error: unknown = null
     try {
-        await next()
+        await runWithLogContext({ requestId, ip: clientIP }, () => next())
     } catch (err) {
         error = err
         throw err
@@ -119,6 +140,7 @@ export const requestLogger = async (c: Context, next: Next) => {
         logger.info('HTTP request', {
             requestId,
             userId: c.get('userId'),
+            actorId: c.get('impersonator')?.sub,
             ip: clientIP,
             context: {
                 method: c.req.method,
@@ -149,6 +171,7 @@ export const requestLogger = async (c: Context, next: Next) => {
             logger.responseFail('Response failed', {
                 requestId,
                 userId: c.get('userId'),
+                actorId: c.get('impersonator')?.sub,
                 ip: clientIP,
                 error: error instanceof Error
                     ? { type: error.name, message: error.message, stack: error.stack }
@@ -0,0 +1,132 @@
+/**
+ * @file api-key.repository.ts
+ * @description 个人 API 密钥数据访问层，负责 api_keys 表的操作
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { BaseRepository } from '[@BASE-repositories]/base.repository.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import type { ApiKey } from '[@BASE]/types/auth.types.ts';
+
+/**
+ * API 密钥仓储类
+ * 
+ * @class
+ * @extends {BaseRepository}
+ * @description 提供 API 密钥的创建、查询、吊销和使用记录方法，密钥只以哈希形式保存
+ */
+export class ApiKeyRepository extends BaseRepository {
+    /** 表名 */
+    private readonly tableName = 'api_keys';
+
+    /**
+     * 查询用户的全部 API 密钥（按创建时间倒序，包含已吊销的密钥）
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<ApiKey[]>} API 密钥列表
+     */
+    async findByUserId(userId: string): Promise<ApiKey[]> {
+        const { data } = await this.query<ApiKey>(this.tableName, {
+            where: { user_id: userId },
+            orderBy: { column: 'created_at', ascending: false },
+        });
+        return data;
+    }
+
+    /**
+     * 通过密钥哈希查找 API 密钥
+     * 
+     * @param {string} keyHash - 密钥的 SHA-256 哈希
+     * @returns {Promise<ApiKey | null>} API 密钥记录或 null
+     */
+    findByKeyHash(keyHash: string): Promise<ApiKey | null> {
+        return this.findOne<ApiKey>(this.tableName, { key_hash: keyHash });
+    }
+
+    /**
+     * 统计用户未吊销的 API 密钥数量
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<number>} 未吊销的密钥数量
+     */
+    countActiveByUserId(userId: string): Promise<number> {
+        return this.count(this.tableName, {
+            user_id: userId,
+            revoked_at: { op: 'is', value: null },
+        });
+    }
+
+    /**
+     * 创建 API 密钥
+     * 
+     * @param {object} data - API 密钥数据
+     * @param {string} data.userId - 所属用户 ID
+     * @param {string} data.name - 名称
+     * @param {string} data.prefix - 密钥前缀
+     * @param {string} data.keyHash - 密钥的 SHA-256 哈希
+     * @param {string[]} data.scopes - 权限范围
+     * @param {Date | null} data.expiresAt - 过期时间（null 表示永不过期）
+     * @returns {Promise<ApiKey>} API 密钥记录
+     */
+    create(data: {
+        userId: string;
+        name: string;
+        prefix: string;
+        keyHash: string;
+        scopes: string[];
+        expiresAt: Date | null;
+    }): Promise<ApiKey> {
+        logger.info('Creating API key', { userId: data.userId, prefix: data.prefix });
+        return this.insert<ApiKey>(this.tableName, {
+            user_id: data.userId,
+            name: data.name,
+            prefix: data.prefix,
+            key_hash: data.keyHash,
+            scopes: data.scopes,
+            expires_at: data.expiresAt?.toISOString() ?? null,
+        });
+    }
+
+    /**
+     * 吊销用户自己的 API 密钥
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} id - API 密钥 ID
+     * @returns {Promise<ApiKey | null>} 被吊销的密钥，不存在、不属于该用户或已吊销时返回 null
+     */
+    async revoke(userId: string, id: string): Promise<ApiKey | null> {
+        const rows = await this.updateMany<ApiKey>(
+            this.tableName,
+            { id, user_id: userId, revoked_at: { op: 'is', value: null } },
+            { revoked_at: new Date().toISOString() }
+        );
+        return rows[0] ?? null;
+    }
+
+    /**
+     * 记录 API 密钥的最近使用时间和 IP
+     * 
+     * @param {string} id - API 密钥 ID
+     * @param {string | null} ip - 客户端 IP
+     * @returns {Promise<void>}
+     */
+    async updateLastUsed(id: string, ip: string | null): Promise<void> {
+        await this.updateMany<ApiKey>(
+            this.tableName,
+            { id },
+            {
+                last_used_at: new Date().toISOString(),
+                ...(ip ? { last_used_ip: ip } : {}),
+            }
+        );
+    }
+}
+
+/**
+ * API 密钥仓储单例
+ * 
+ * @constant
+ * @description 使用管理员客户端（api_keys 表不对匿名和普通用户角色开放）
+ */
+export const apiKeyRepository = new ApiKeyRepository(true);
@@ -12,6 +12,9 @@ import type {
     VerificationCodeInsert,
     LoginLog,
     LoginLogInsert,
+    LoginHistoryItem,
+    LoginHistoryOptions,
+    SuspiciousLoginCheck,
 } from '[@BASE]/types/auth.types.ts';
 
 /**
@@ -148,6 +151,31 @@ export class AuthRepository extends BaseRepository {
         return result.data.length ? result.data[0] : null;
     }
 
+    /**
+     * 查询用户的验证码发送记录（不包含验证码本身，用于个人数据导出）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} email - 用户当前邮箱（注册、登录前发送的验证码没有关联用户 ID）
+     * @returns {Promise<Omit<VerificationCode, 'code'>[]>} 验证码记录，按创建时间倒序
+     */
+    async findVerificationHistory(
+        userId: string,
+        email: string
+    ): Promise<Omit<VerificationCode, 'code'>[]> {
+        const options = {
+            select: 'id, user_id, email, purpose, attempts, is_used, used_at, expires_at, ip_address, user_agent, created_at',
+            orderBy: { column: 'created_at', ascending: false },
+        };
+        const [byUser, byEmail] = await Promise.all([
+            this.query<Omit<VerificationCode, 'code'>>(this.verificationTable, { ...options, where: { user_id: userId } }),
+            this.query<Omit<VerificationCode, 'code'>>(this.verificationTable, { ...options, where: { email } }),
+        ]);
+
+        // 两次查询可能包含同一条记录（关联了用户且邮箱未变更）
+        const records = new Map([...byUser.data, ...byEmail.data].map((record) => [record.id, record]));
+        return [...records.values()].sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? ''));
+    }
+
     // ==================== 登录日志相关 ====================
 
     /**
@@ -169,22 +197,56 @@ export class AuthRepository extends BaseRepository {
      * 获取用户登录历史
      * 
      * @param {string} userId - 用户 ID
-     * @param {number} [limit=10] - 返回数量，默认 10 条
-     * @returns {Promise<LoginLog[]>} 登录日志列表，按创建时间倒序
+     * @param {LoginHistoryOptions} options - 查询选项（数量、筛选条件、游标）
+     * @returns {Promise<LoginHistoryItem[]>} 登录记录列表，按创建时间倒序
+     * 
+     * @description 通过 get_user_recent_logins 数据库函数查询，需要使用管理员客户端
      */
     async getUserLoginHistory(
         userId: string,
-        limit = 10
-    ): Promise<LoginLog[]> {
-        logger.debug('Getting user login history', { userId, limit });
+        options: LoginHistoryOptions
+    ): Promise<LoginHistoryItem[]> {
+        logger.debug('Getting user login history', { userId, ...options });
 
-        const result = await this.query<LoginLog>(this.loginLogTable, {
-            where: { user_id: userId },
-            orderBy: { column: 'created_at', ascending: false },
-            limit,
+        const result = await this.rpc<LoginHistoryItem[] | null>('get_user_recent_logins', {
+            p_user_id: userId,
+            p_limit: options.limit,
+            p_status: options.status ?? null,
+            p_login_method: options.method ?? null,
+            p_before_created_at: options.before?.createdAt ?? null,
+            p_before_id: options.before?.id ?? null,
+        });
+
+        return result ?? [];
+    }
+
+    /**
+     * 检测可疑登录（与用户历史成功登录比较）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {object} attempt - 本次登录的 IP 和设备信息
+     * @returns {Promise<SuspiciousLoginCheck | null>} 风险信号，查询无结果时返回 null
+     * 
+     * @description 通过 detect_suspicious_login 数据库函数查询，需要使用管理员客户端
+     */
+    async detectSuspiciousLogin(
+        userId: string,
+        attempt: {
+            ip: string | null;
+            deviceType: string | null;
+            os: string | null;
+            browser: string | null;
+        }
+    ): Promise<SuspiciousLoginCheck | null> {
+        const result = await this.rpc<SuspiciousLoginCheck[] | null>('detect_suspicious_login', {
+            p_user_id: userId,
+            p_ip_address: attempt.ip,
+            p_device_type: attempt.deviceType,
+            p_os: attempt.os,
+            p_browser: attempt.browser,
         });
 
-        return result.data;
+        return result?.[0] ?? null;
     }
 
     /**
@@ -208,6 +270,73 @@ export class AuthRepository extends BaseRepository {
             created_at: { op: 'gte', value: sinceTime },
         });
     }
+
+    /**
+     * 统计某个时间点之后的登录失败次数（按邮箱或 IP）
+     * 
+     * @param {{ email?: string; ip?: string }} target - 统计对象，email 与 ip 二选一（email 需先经 normalizeLoginEmail 统一格式）
+     * @param {string} since - 起始时间（ISO 字符串，不含）
+     * @param {string[]} reasons - 只统计这些失败原因（错误码）
+     * @returns {Promise<number>} 失败登录次数
+     */
+    countFailedLoginsSince(
+        target: { email?: string; ip?: string },
+        since: string,
+        reasons: string[]
+    ): Promise<number> {
+        return this.count(this.loginLogTable, {
+            ...(target.email !== undefined ? { email: target.email } : {}),
+            ...(target.ip !== undefined ? { ip_address: target.ip } : {}),
+            status: 'failed',
+            failure_reason: { op: 'in', value: reasons },
+            created_at: { op: 'gt', value: since },
+        });
+    }
+
+    /**
+     * 获取邮箱最近一次登录成功的时间
+     * 
+     * @param {string} email - 邮箱（需先经 normalizeLoginEmail 统一格式）
+     * @returns {Promise<string | null>} 登录成功时间（ISO 字符串），没有记录时返回 null
+     */
+    async getLastSuccessfulLoginAt(email: string): Promise<string | null> {
+        const result = await this.query<Pick<LoginLog, 'created_at'>>(this.loginLogTable, {
+            select: 'created_at',
+            where: { email, status: 'success' },
+            orderBy: { column: 'created_at', ascending: false },
+            limit: 1,
+        });
+
+        return result.data[0]?.created_at ?? null;
+    }
+
+    /**
+     * 查询用户的全部登录日志（用于个人数据导出）
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<LoginLog[]>} 登录日志，按创建时间倒序
+     * 
+     * @description 分页读取，避免超过 PostgREST 单次返回的最大行数
+     */
+    async findLoginLogsByUserId(userId: string): Promise<LoginLog[]> {
+        const pageSize = 1000;
+        const logs: LoginLog[] = [];
+
+        for (let page = 1; ; page++) {
+            const { data } = await this.query<LoginLog>(this.loginLogTable, {
+                where: { user_id: userId },
+                orderBy: [
+                    { column: 'created_at', ascending: false },
+                    { column: 'id', ascending: false },
+                ],
+                page,
+                pageSize,
+            });
+            logs.push(...data);
+
+            if (data.length < pageSize) return logs;
+        }
+    }
 }
 
 /**
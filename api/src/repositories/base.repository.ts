@@ -606,6 +606,53 @@ export class BaseRepository {
         }
     }
 
+    /**
+     * 插入或更新（按冲突列判断记录是否存在）
+     * 
+     * @template T - 返回数据类型
+     * @param {keyof Database['public']['Tables']} table - 表名
+     * @param {any} data - 插入数据
+     * @param {string} onConflict - 冲突判断列（唯一约束列，多个用逗号分隔）
+     * @returns {Promise<T>} 插入或更新后的记录
+     * 
+     * @throws {Error} 当数据库操作失败时抛出错误
+     * 
+     * @example
+     * await repo.upsert('user_token_revocations', { user_id: '123', revoked_before: now }, 'user_id');
+     */
+    async upsert<T>(
+        table: keyof Database['public']['Tables'],
+        // deno-lint-ignore no-explicit-any
+        data: any,
+        onConflict: string
+    ): Promise<T> {
+        try {
+            const { data: result, error } = await (this.client
+                .from(table)
+                .upsert(data, { onConflict })
+                .select()
+                .single());
+
+            if (error) {
+                logger.error('Database upsert error', {
+                    table,
+                    data,
+                    message: error.message,
+                    code: error.code,
+                });
+                throw error;
+            }
+
+            return result as T;
+        } catch (error) {
+            logger.error('Unexpected error in upsert', {
+                table,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw error;
+        }
+    }
+
     /**
      * 删除记录
      * 
@@ -703,6 +750,46 @@ export class BaseRepository {
         const count = await this.count(table, where);
         return count > 0;
     }
+
+    /**
+     * 调用数据库函数（RPC）
+     * 
+     * @template T - 返回数据类型
+     * @param {keyof Database['public']['Functions']} fn - 函数名
+     * @param {Record<string, unknown>} [args] - 函数参数
+     * @returns {Promise<T>} 函数返回值
+     * 
+     * @throws {Error} 当数据库操作失败时抛出错误
+     * 
+     * @example
+     * const logins = await repo.rpc<LoginHistoryItem[]>('get_user_recent_logins', { p_user_id: '123' });
+     */
+    async rpc<T>(
+        fn: keyof Database['public']['Functions'],
+        args?: Record<string, unknown>
+    ): Promise<T> {
+        try {
+            // deno-lint-ignore no-explicit-any
+            const { data, error } = await this.client.rpc(fn, args as any);
+
+            if (error) {
+                logger.error('Database rpc error', {
+                    fn,
+                    message: error.message,
+                    code: error.code,
+                });
+                throw error;
+            }
+
+            return data as T;
+        } catch (error) {
+            logger.error('Unexpected error in rpc', {
+                fn,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw error;
+        }
+    }
 }
 
 // ==================== 导出便捷实例 ====================
@@ -744,6 +831,7 @@ export const db = {
     // 更新
     update: repository.update.bind(repository),
     updateMany: repository.updateMany.bind(repository),
+    upsert: repository.upsert.bind(repository),
 
     // 删除
     delete: repository.delete.bind(repository),
@@ -0,0 +1,157 @@
+/**
+ * @file data-export.repository.ts
+ * @description 个人数据导出任务数据访问层，负责 data_exports 表的操作
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { BaseRepository } from '[@BASE-repositories]/base.repository.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { DataExportStatus } from '[@BASE]/types/user.types.ts';
+import type { DataExport } from '[@BASE]/types/user.types.ts';
+
+/**
+ * 数据导出任务仓储类
+ * 
+ * @class
+ * @extends {BaseRepository}
+ * @description 提供导出任务的创建、状态流转和导出文件记录的查询方法
+ */
+export class DataExportRepository extends BaseRepository {
+    /** 表名 */
+    private readonly tableName = 'data_exports';
+
+    /**
+     * 查找用户在指定时间之后创建、仍在进行中的导出任务
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {Date} since - 起始时间（更早的进行中任务视为已中断）
+     * @returns {Promise<DataExport | null>} 进行中的任务或 null
+     */
+    async findActiveByUserId(userId: string, since: Date): Promise<DataExport | null> {
+        const { data } = await this.query<DataExport>(this.tableName, {
+            where: {
+                user_id: userId,
+                status: { op: 'in', value: [DataExportStatus.PENDING, DataExportStatus.PROCESSING] },
+                created_at: { op: 'gte', value: since.toISOString() },
+            },
+            orderBy: { column: 'created_at', ascending: false },
+            limit: 1,
+        });
+        return data[0] ?? null;
+    }
+
+    /**
+     * 查询用户仍保留导出文件的任务
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<DataExport[]>} 导出任务列表
+     */
+    async findWithFileByUserId(userId: string): Promise<DataExport[]> {
+        const { data } = await this.query<DataExport>(this.tableName, {
+            where: { user_id: userId, file_path: { op: 'not', value: null } },
+        });
+        return data;
+    }
+
+    /**
+     * 查询下载链接已过期、仍保留导出文件的任务
+     * 
+     * @param {Date} now - 当前时间
+     * @returns {Promise<DataExport[]>} 导出任务列表
+     */
+    async findExpiredWithFile(now: Date): Promise<DataExport[]> {
+        const { data } = await this.query<DataExport>(this.tableName, {
+            where: {
+                file_path: { op: 'not', value: null },
+                expires_at: { op: 'lte', value: now.toISOString() },
+            },
+        });
+        return data;
+    }
+
+    /**
+     * 创建导出任务
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<DataExport>} 导出任务（pending）
+     */
+    create(userId: string): Promise<DataExport> {
+        logger.info('Creating data export', { userId });
+        return this.insert<DataExport>(this.tableName, { user_id: userId });
+    }
+
+    /**
+     * 领取等待处理的任务（pending → processing）
+     * 
+     * @param {string} id - 导出任务 ID
+     * @returns {Promise<DataExport | null>} 领取成功返回任务，已被处理时返回 null
+     */
+    async markProcessing(id: string): Promise<DataExport | null> {
+        const rows = await this.updateMany<DataExport>(
+            this.tableName,
+            { id, status: DataExportStatus.PENDING },
+            { status: DataExportStatus.PROCESSING }
+        );
+        return rows[0] ?? null;
+    }
+
+    /**
+     * 标记任务已完成
+     * 
+     * @param {string} id - 导出任务 ID
+     * @param {object} file - 导出文件信息
+     * @param {string} file.path - 存储桶中的文件路径
+     * @param {number} file.size - 文件大小（字节）
+     * @param {Date} file.expiresAt - 下载链接过期时间
+     * @returns {Promise<DataExport>} 更新后的任务
+     */
+    markCompleted(id: string, file: { path: string; size: number; expiresAt: Date }): Promise<DataExport> {
+        return this.update<DataExport>(this.tableName, { id }, {
+            status: DataExportStatus.COMPLETED,
+            file_path: file.path,
+            file_size: file.size,
+            expires_at: file.expiresAt.toISOString(),
+            completed_at: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * 标记任务失败
+     * 
+     * @param {string} id - 导出任务 ID
+     * @param {string} error - 失败原因
+     * @returns {Promise<void>}
+     */
+    async markFailed(id: string, error: string): Promise<void> {
+        await this.updateMany<DataExport>(
+            this.tableName,
+            { id },
+            { status: DataExportStatus.FAILED, error, completed_at: new Date().toISOString() }
+        );
+    }
+
+    /**
+     * 清除导出文件记录（文件已从存储桶删除）
+     * 
+     * @param {string[]} ids - 导出任务 ID
+     * @returns {Promise<void>}
+     */
+    async clearFiles(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+
+        await this.updateMany<DataExport>(
+            this.tableName,
+            { id: { op: 'in', value: ids } },
+            { file_path: null }
+        );
+    }
+}
+
+/**
+ * 数据导出任务仓储单例
+ * 
+ * @constant
+ * @description 使用管理员客户端（data_exports 表不对匿名和普通用户角色开放）
+ */
+export const dataExportRepository = new DataExportRepository(true);
@@ -0,0 +1,85 @@
+/**
+ * @file impersonation-log.repository.ts
+ * @description 管理员模拟登录记录数据访问层，负责 impersonation_logs 表的操作
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { BaseRepository } from '[@BASE-repositories]/base.repository.ts';
+import type { ImpersonationLog, ImpersonationLogInsert } from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 模拟登录记录仓储类
+ * 
+ * @class
+ * @extends {BaseRepository}
+ * @description 模拟登录记录作为审计记录保留，只在提前结束时写入结束时间
+ */
+export class ImpersonationLogRepository extends BaseRepository {
+    /** 表名 */
+    private readonly tableName = 'impersonation_logs';
+
+    /**
+     * 写入模拟登录记录
+     * 
+     * @param {ImpersonationLogInsert} log - 模拟登录记录
+     * @returns {Promise<ImpersonationLog>} 写入的记录
+     */
+    create(log: ImpersonationLogInsert): Promise<ImpersonationLog> {
+        return this.insert<ImpersonationLog>(this.tableName, log);
+    }
+
+    /**
+     * 记录模拟登录提前结束
+     * 
+     * @param {string} jti - 模拟登录令牌的 jti
+     * @returns {Promise<boolean>} 是否更新了记录（已结束或不存在时返回 false）
+     */
+    async markRevoked(jti: string): Promise<boolean> {
+        const rows = await this.updateMany<ImpersonationLog>(
+            this.tableName,
+            { token_jti: jti, revoked_at: { op: 'is', value: null } },
+            { revoked_at: new Date().toISOString() }
+        );
+        return rows.length > 0;
+    }
+
+    /**
+     * 记录管理员签发的、尚未过期的模拟登录全部提前结束
+     * 
+     * @param {string} adminId - 管理员 ID
+     * @returns {Promise<number>} 更新的记录数量
+     */
+    async markRevokedByAdminId(adminId: string): Promise<number> {
+        const now = new Date().toISOString();
+        const rows = await this.updateMany<ImpersonationLog>(
+            this.tableName,
+            { admin_id: adminId, revoked_at: { op: 'is', value: null }, expires_at: { op: 'gt', value: now } },
+            { revoked_at: now }
+        );
+        return rows.length;
+    }
+
+    /**
+     * 查询以指定用户身份进行的模拟登录记录（按时间倒序，不含令牌标识）
+     * 
+     * @param {string} userId - 被模拟的用户 ID
+     * @returns {Promise<Omit<ImpersonationLog, 'token_jti'>[]>} 模拟登录记录
+     */
+    async findByUserId(userId: string): Promise<Omit<ImpersonationLog, 'token_jti'>[]> {
+        const { data } = await this.query<Omit<ImpersonationLog, 'token_jti'>>(this.tableName, {
+            select: 'id, admin_id, admin_email, user_id, reason, ip_address, user_agent, expires_at, revoked_at, created_at',
+            where: { user_id: userId },
+            orderBy: { column: 'created_at', ascending: false },
+        });
+        return data;
+    }
+}
+
+/**
+ * 模拟登录记录仓储单例
+ * 
+ * @constant
+ * @description 使用管理员客户端（impersonation_logs 表不对匿名和普通用户角色开放）
+ */
+export const impersonationLogRepository = new ImpersonationLogRepository(true);
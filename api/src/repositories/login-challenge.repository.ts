@@ -0,0 +1,74 @@
+/**
+ * @file login-challenge.repository.ts
+ * @description 登录验证挑战数据访问层，负责 login_challenges 表的操作
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { BaseRepository } from '[@BASE-repositories]/base.repository.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import type {
+    LoginChallenge,
+    LoginChallengeInsert,
+} from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 登录验证挑战仓储类
+ * 
+ * @class
+ * @extends {BaseRepository}
+ * @description 提供登录验证挑战的创建、查询和完成方法
+ */
+export class LoginChallengeRepository extends BaseRepository {
+    /** 登录验证挑战表名 */
+    private readonly table = 'login_challenges';
+
+    /**
+     * 创建登录验证挑战
+     * 
+     * @param {LoginChallengeInsert} data - 挑战数据（只包含令牌哈希，不包含明文）
+     * @returns {Promise<LoginChallenge>} 创建的挑战记录
+     */
+    create(data: LoginChallengeInsert): Promise<LoginChallenge> {
+        logger.debug('Creating login challenge', {
+            userId: data.user_id,
+            challengeType: data.challenge_type,
+        });
+        return this.insert<LoginChallenge>(this.table, data);
+    }
+
+    /**
+     * 通过令牌哈希查找挑战
+     * 
+     * @param {string} tokenHash - 挑战令牌哈希
+     * @returns {Promise<LoginChallenge | null>} 挑战记录或 null
+     */
+    findByHash(tokenHash: string): Promise<LoginChallenge | null> {
+        return this.findOne<LoginChallenge>(this.table, { token_hash: tokenHash });
+    }
+
+    /**
+     * 标记挑战已完成（仅当其尚未完成时）
+     * 
+     * @param {string} id - 挑战 ID
+     * @returns {Promise<boolean>} 是否由本次调用完成
+     * 
+     * @description 使用 `consumed_at IS NULL` 作为条件，保证同一挑战只能完成一次
+     */
+    async consumeIfPending(id: string): Promise<boolean> {
+        const rows = await this.updateMany<LoginChallenge>(
+            this.table,
+            { id, consumed_at: { op: 'is', value: null } },
+            { consumed_at: new Date().toISOString() }
+        );
+        return rows.length > 0;
+    }
+}
+
+/**
+ * 登录验证挑战仓储单例
+ * 
+ * @constant
+ * @description 使用管理员客户端（挑战表不对匿名角色开放）
+ */
+export const loginChallengeRepository = new LoginChallengeRepository(true);
@@ -0,0 +1,65 @@
+/**
+ * @file login-lockout.repository.ts
+ * @description 登录锁定数据访问层，负责 login_lockouts 表的操作
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { BaseRepository } from '[@BASE-repositories]/base.repository.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import type {
+    LockoutScope,
+    LoginLockout,
+    LoginLockoutInsert,
+} from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 登录锁定仓储类
+ * 
+ * @class
+ * @extends {BaseRepository}
+ * @description 按（范围, 对象）读写锁定状态，失败次数本身由 login_logs 统计
+ */
+export class LoginLockoutRepository extends BaseRepository {
+    /** 登录锁定表名 */
+    private readonly tableName = 'login_lockouts';
+
+    /**
+     * 查找锁定记录
+     * 
+     * @param {LockoutScope} scope - 锁定范围
+     * @param {string} identifier - 锁定对象（邮箱或 IP）
+     * @returns {Promise<LoginLockout | null>} 锁定记录或 null
+     */
+    find(scope: LockoutScope, identifier: string): Promise<LoginLockout | null> {
+        return this.findOne<LoginLockout>(this.tableName, { scope, identifier });
+    }
+
+    /**
+     * 保存锁定记录（不存在时创建）
+     * 
+     * @param {LoginLockoutInsert} data - 锁定记录
+     * @returns {Promise<LoginLockout>} 保存后的记录
+     */
+    save(data: LoginLockoutInsert): Promise<LoginLockout> {
+        logger.info('Saving login lockout', {
+            scope: data.scope,
+            identifier: data.identifier,
+            lockLevel: data.lock_level,
+            lockedUntil: data.locked_until,
+        });
+        return this.upsert<LoginLockout>(
+            this.tableName,
+            { ...data, updated_at: new Date().toISOString() },
+            'scope,identifier'
+        );
+    }
+}
+
+/**
+ * 登录锁定仓储单例
+ * 
+ * @constant
+ * @description 使用管理员客户端（锁定表不对匿名角色开放）
+ */
+export const loginLockoutRepository = new LoginLockoutRepository(true);
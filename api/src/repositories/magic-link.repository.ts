@@ -0,0 +1,155 @@
+/**
+ * @file magic-link.repository.ts
+ * @description 登录链接数据访问层，负责 magic_links 表的操作
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { BaseRepository } from '[@BASE-repositories]/base.repository.ts';
+import type { MagicLink } from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 登录链接仓储类
+ * 
+ * @class
+ * @extends {BaseRepository}
+ * @description 提供登录链接的创建、确认登录和令牌兑换方法，所有令牌只以哈希形式保存；
+ * 确认以“尚未确认”为条件更新，兑换以“两端都尚未兑换”为条件更新，保证每个链接只签发一个会话
+ */
+export class MagicLinkRepository extends BaseRepository {
+    /** 表名 */
+    private readonly tableName = 'magic_links';
+
+    /**
+     * 创建登录链接
+     * 
+     * @param {object} data - 登录链接数据
+     * @param {string} data.email - 登录邮箱
+     * @param {string} data.tokenHash - 登录链接令牌的 SHA-256 哈希
+     * @param {string} data.pollTokenHash - 轮询令牌的 SHA-256 哈希
+     * @param {Date} data.expiresAt - 过期时间
+     * @returns {Promise<MagicLink>} 登录链接记录
+     */
+    create(data: {
+        email: string;
+        tokenHash: string;
+        pollTokenHash: string;
+        expiresAt: Date;
+    }): Promise<MagicLink> {
+        return this.insert<MagicLink>(this.tableName, {
+            email: data.email,
+            token_hash: data.tokenHash,
+            poll_token_hash: data.pollTokenHash,
+            expires_at: data.expiresAt.toISOString(),
+        });
+    }
+
+    /**
+     * 查询邮箱最近一次请求的登录链接（用于限制发送频率）
+     * 
+     * @param {string} email - 登录邮箱
+     * @returns {Promise<MagicLink | null>} 最近的登录链接或 null
+     */
+    async findLatestByEmail(email: string): Promise<MagicLink | null> {
+        const { data } = await this.query<MagicLink>(this.tableName, {
+            where: { email },
+            orderBy: { column: 'created_at', ascending: false },
+            limit: 1,
+        });
+        return data[0] ?? null;
+    }
+
+    /**
+     * 通过轮询令牌哈希查找未过期的登录链接
+     * 
+     * @param {string} pollTokenHash - 轮询令牌的 SHA-256 哈希
+     * @returns {Promise<MagicLink | null>} 登录链接或 null
+     */
+    async findActiveByPollTokenHash(pollTokenHash: string): Promise<MagicLink | null> {
+        const { data } = await this.query<MagicLink>(this.tableName, {
+            where: {
+                poll_token_hash: pollTokenHash,
+                expires_at: { op: 'gt', value: new Date().toISOString() },
+            },
+            limit: 1,
+        });
+        return data[0] ?? null;
+    }
+
+    /**
+     * 确认登录链接：标记为已确认并保存换取令牌
+     * 
+     * @param {string} tokenHash - 登录链接令牌的 SHA-256 哈希
+     * @param {string} exchangeTokenHash - 换取令牌的 SHA-256 哈希
+     * @param {Date} expiresAt - 确认后的兑换截止时间
+     * @returns {Promise<MagicLink | null>} 被本次调用确认的登录链接，不存在、已过期或已被确认时返回 null
+     */
+    async approve(tokenHash: string, exchangeTokenHash: string, expiresAt: Date): Promise<MagicLink | null> {
+        const now = new Date().toISOString();
+        const rows = await this.updateMany<MagicLink>(
+            this.tableName,
+            {
+                token_hash: tokenHash,
+                approved_at: { op: 'is', value: null },
+                expires_at: { op: 'gt', value: now },
+            },
+            {
+                approved_at: now,
+                exchange_token_hash: exchangeTokenHash,
+                expires_at: expiresAt.toISOString(),
+            }
+        );
+        return rows[0] ?? null;
+    }
+
+    /**
+     * 兑换轮询令牌（发起请求的客户端完成登录）
+     * 
+     * @param {string} id - 登录链接 ID
+     * @returns {Promise<MagicLink | null>} 被本次调用兑换的登录链接，未确认、已过期或任一端已兑换时返回 null
+     */
+    async redeemPoll(id: string): Promise<MagicLink | null> {
+        const now = new Date().toISOString();
+        const rows = await this.updateMany<MagicLink>(
+            this.tableName,
+            {
+                id,
+                approved_at: { op: 'not', value: null },
+                poll_redeemed_at: { op: 'is', value: null },
+                exchange_redeemed_at: { op: 'is', value: null },
+                expires_at: { op: 'gt', value: now },
+            },
+            { poll_redeemed_at: now }
+        );
+        return rows[0] ?? null;
+    }
+
+    /**
+     * 兑换换取令牌（点击链接的浏览器完成登录）
+     * 
+     * @param {string} exchangeTokenHash - 换取令牌的 SHA-256 哈希
+     * @returns {Promise<MagicLink | null>} 被本次调用兑换的登录链接，不存在、已过期或任一端已兑换时返回 null
+     */
+    async redeemExchange(exchangeTokenHash: string): Promise<MagicLink | null> {
+        const now = new Date().toISOString();
+        const rows = await this.updateMany<MagicLink>(
+            this.tableName,
+            {
+                exchange_token_hash: exchangeTokenHash,
+                exchange_redeemed_at: { op: 'is', value: null },
+                poll_redeemed_at: { op: 'is', value: null },
+                expires_at: { op: 'gt', value: now },
+            },
+            { exchange_redeemed_at: now }
+        );
+        return rows[0] ?? null;
+    }
+}
+
+/**
+ * 登录链接仓储单例
+ * 
+ * @constant
+ * @description 使用管理员客户端（magic_links 表不对匿名和普通用户角色开放）
+ */
+export const magicLinkRepository = new MagicLinkRepository(true);
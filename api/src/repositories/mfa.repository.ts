@@ -0,0 +1,165 @@
+/**
+ * @file mfa.repository.ts
+ * @description 两步验证数据访问层，负责 totp_factors 和 mfa_recovery_codes 表的操作
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { BaseRepository } from '[@BASE-repositories]/base.repository.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import type { MfaRecoveryCode, TotpFactor } from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 两步验证仓储类
+ * 
+ * @class
+ * @extends {BaseRepository}
+ * @description 提供 TOTP 密钥和恢复码的读写方法，恢复码只以哈希形式保存
+ */
+export class MfaRepository extends BaseRepository {
+    /** TOTP 密钥表名 */
+    private readonly totpTable = 'totp_factors';
+
+    /** 恢复码表名 */
+    private readonly recoveryCodeTable = 'mfa_recovery_codes';
+
+    /**
+     * 查找用户的 TOTP 密钥
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<TotpFactor | null>} TOTP 密钥记录或 null
+     */
+    findTotpFactor(userId: string): Promise<TotpFactor | null> {
+        return this.findOne<TotpFactor>(this.totpTable, { user_id: userId });
+    }
+
+    /**
+     * 保存待确认的 TOTP 密钥（覆盖之前未确认的密钥）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} secret - Base32 编码的密钥
+     * @returns {Promise<TotpFactor>} 保存后的记录
+     */
+    savePendingTotpFactor(userId: string, secret: string): Promise<TotpFactor> {
+        logger.info('Saving pending TOTP factor', { userId });
+        return this.upsert<TotpFactor>(
+            this.totpTable,
+            {
+                user_id: userId,
+                secret,
+                confirmed_at: null,
+                last_used_step: 0,
+                updated_at: new Date().toISOString(),
+            },
+            'user_id'
+        );
+    }
+
+    /**
+     * 确认 TOTP 密钥（开启两步验证）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {number} step - 确认时使用的时间步
+     * @returns {Promise<TotpFactor>} 更新后的记录
+     */
+    confirmTotpFactor(userId: string, step: number): Promise<TotpFactor> {
+        const now = new Date().toISOString();
+        return this.update<TotpFactor>(
+            this.totpTable,
+            { user_id: userId },
+            { confirmed_at: now, last_used_step: step, updated_at: now }
+        );
+    }
+
+    /**
+     * 占用时间步（仅当其晚于最近一次使用的时间步时）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {number} step - 本次验证通过的时间步
+     * @returns {Promise<boolean>} 是否由本次调用占用
+     * 
+     * @description 使用 `last_used_step < step` 作为条件，同一动态码并发或重复提交时只有一次成功
+     */
+    async claimTotpStep(userId: string, step: number): Promise<boolean> {
+        const rows = await this.updateMany<TotpFactor>(
+            this.totpTable,
+            { user_id: userId, last_used_step: { op: 'lt', value: step } },
+            { last_used_step: step, updated_at: new Date().toISOString() }
+        );
+        return rows.length > 0;
+    }
+
+    /**
+     * 删除用户的 TOTP 密钥
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<boolean>} 是否删除成功
+     */
+    deleteTotpFactor(userId: string): Promise<boolean> {
+        logger.info('Deleting TOTP factor', { userId });
+        return this.delete(this.totpTable, { user_id: userId });
+    }
+
+    /**
+     * 替换用户的全部恢复码（旧恢复码立即失效）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string[]} codeHashes - 新恢复码的哈希
+     * @returns {Promise<void>}
+     */
+    async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+        await this.deleteRecoveryCodes(userId);
+        await this.insertMany<MfaRecoveryCode>(
+            this.recoveryCodeTable,
+            codeHashes.map((codeHash) => ({ user_id: userId, code_hash: codeHash }))
+        );
+        logger.info('MFA recovery codes replaced', { userId, count: codeHashes.length });
+    }
+
+    /**
+     * 使用恢复码（仅当其尚未使用时）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} codeHash - 恢复码哈希
+     * @returns {Promise<boolean>} 是否使用成功
+     */
+    async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+        const rows = await this.updateMany<MfaRecoveryCode>(
+            this.recoveryCodeTable,
+            { user_id: userId, code_hash: codeHash, used_at: { op: 'is', value: null } },
+            { used_at: new Date().toISOString() }
+        );
+        return rows.length > 0;
+    }
+
+    /**
+     * 统计未使用的恢复码数量
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<number>} 未使用的恢复码数量
+     */
+    countUnusedRecoveryCodes(userId: string): Promise<number> {
+        return this.count(this.recoveryCodeTable, {
+            user_id: userId,
+            used_at: { op: 'is', value: null },
+        });
+    }
+
+    /**
+     * 删除用户的全部恢复码
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<boolean>} 是否删除成功
+     */
+    deleteRecoveryCodes(userId: string): Promise<boolean> {
+        return this.delete(this.recoveryCodeTable, { user_id: userId });
+    }
+}
+
+/**
+ * 两步验证仓储单例
+ * 
+ * @constant
+ * @description 使用管理员客户端（两步验证相关表不对匿名和普通用户角色开放）
+ */
+export const mfaRepository = new MfaRepository(true);
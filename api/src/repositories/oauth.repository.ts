@@ -0,0 +1,140 @@
+/**
+ * @file oauth.repository.ts
+ * @description 第三方登录数据访问层，负责 identities 和 oauth_states 表的操作
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { BaseRepository } from '[@BASE-repositories]/base.repository.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import type {
+    Identity,
+    IdentityInsert,
+    OAuthState,
+} from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 第三方登录仓储类
+ * 
+ * @class
+ * @extends {BaseRepository}
+ * @description 提供第三方身份的查询、关联和授权请求状态的创建、消费方法，state 只以哈希形式保存
+ */
+export class OAuthRepository extends BaseRepository {
+    /** 身份表名 */
+    private readonly identityTable = 'identities';
+
+    /** 授权请求状态表名 */
+    private readonly stateTable = 'oauth_states';
+
+    /**
+     * 通过身份提供方和用户标识查找身份
+     * 
+     * @param {string} provider - 身份提供方标识
+     * @param {string} subject - 身份提供方的用户标识
+     * @returns {Promise<Identity | null>} 身份记录或 null
+     */
+    findIdentity(provider: string, subject: string): Promise<Identity | null> {
+        return this.findOne<Identity>(this.identityTable, { provider, subject });
+    }
+
+    /**
+     * 查询用户关联的全部第三方身份（按关联时间倒序）
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<Identity[]>} 身份列表
+     */
+    async findIdentitiesByUserId(userId: string): Promise<Identity[]> {
+        const result = await this.query<Identity>(this.identityTable, {
+            where: { user_id: userId },
+            orderBy: { column: 'created_at', ascending: false },
+        });
+        return result.data;
+    }
+
+    /**
+     * 关联第三方身份
+     * 
+     * @param {IdentityInsert} data - 身份数据
+     * @returns {Promise<Identity>} 保存后的记录
+     */
+    createIdentity(data: IdentityInsert): Promise<Identity> {
+        logger.info('Linking identity', { userId: data.user_id, provider: data.provider });
+        return this.insert<Identity>(this.identityTable, data);
+    }
+
+    /**
+     * 登录成功后更新身份提供方返回的邮箱和登录时间
+     * 
+     * @param {string} id - 身份记录 ID
+     * @param {object} data - 更新数据
+     * @param {string | null} data.email - 邮箱
+     * @param {boolean} data.emailVerified - 邮箱是否已验证
+     * @returns {Promise<Identity>} 更新后的记录
+     */
+    updateIdentityLogin(id: string, data: { email: string | null; emailVerified: boolean }): Promise<Identity> {
+        return this.update<Identity>(this.identityTable, { id }, {
+            email: data.email,
+            email_verified: data.emailVerified,
+            last_login_at: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * 创建授权请求状态
+     * 
+     * @param {object} data - 状态数据
+     * @param {string} data.stateHash - state 的 SHA-256 哈希
+     * @param {string} data.provider - 身份提供方标识
+     * @param {string} data.codeVerifier - PKCE code_verifier
+     * @param {string} data.nonce - ID Token nonce
+     * @param {Date} data.expiresAt - 过期时间
+     * @returns {Promise<OAuthState>} 状态记录
+     */
+    createState(data: {
+        stateHash: string;
+        provider: string;
+        codeVerifier: string;
+        nonce: string;
+        expiresAt: Date;
+    }): Promise<OAuthState> {
+        return this.insert<OAuthState>(this.stateTable, {
+            state_hash: data.stateHash,
+            provider: data.provider,
+            code_verifier: data.codeVerifier,
+            nonce: data.nonce,
+            expires_at: data.expiresAt.toISOString(),
+        });
+    }
+
+    /**
+     * 消费未过期、未使用的授权请求状态
+     * 
+     * @param {string} stateHash - state 的 SHA-256 哈希
+     * @param {string} provider - 身份提供方标识
+     * @returns {Promise<OAuthState | null>} 被本次调用消费的状态，不存在、已过期或已使用时返回 null
+     * 
+     * @description 使用 `consumed_at IS NULL` 作为条件，保证同一 state 只能使用一次
+     */
+    async consumeState(stateHash: string, provider: string): Promise<OAuthState | null> {
+        const rows = await this.updateMany<OAuthState>(
+            this.stateTable,
+            {
+                state_hash: stateHash,
+                provider,
+                consumed_at: { op: 'is', value: null },
+                expires_at: { op: 'gt', value: new Date().toISOString() },
+            },
+            { consumed_at: new Date().toISOString() }
+        );
+        return rows[0] ?? null;
+    }
+}
+
+/**
+ * 第三方登录仓储单例
+ * 
+ * @constant
+ * @description 使用管理员客户端（第三方登录相关表不对匿名和普通用户角色开放）
+ */
+export const oauthRepository = new OAuthRepository(true);
@@ -0,0 +1,71 @@
+/**
+ * @file rate-limit.repository.ts
+ * @description 限流计数数据访问层，负责 rate_limits 表的操作（Postgres 限流存储）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import config from '[@BASE]/config/index.ts';
+import { BaseRepository } from '[@BASE-repositories]/base.repository.ts';
+import { MemoryRateLimitStore } from '[@BASE]/lib/rate-limit.ts';
+import type { RateLimitStore } from '[@BASE]/lib/rate-limit.ts';
+import type { RateLimitCounter } from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 限流计数仓储类
+ * 
+ * @class
+ * @extends {BaseRepository}
+ * @implements {RateLimitStore}
+ * @description 多实例部署时共享限流计数，计数通过 increment_rate_limit() 原子递增
+ */
+export class RateLimitRepository extends BaseRepository implements RateLimitStore {
+    /** 限流计数表名 */
+    private readonly tableName = 'rate_limits';
+
+    /**
+     * 计数加一并返回当前计数
+     * 
+     * @param {string} key - 限流键
+     * @param {number} ttlMs - 过期时间（毫秒，只在创建时设置）
+     * @returns {Promise<number>} 当前计数
+     */
+    incr(key: string, ttlMs: number): Promise<number> {
+        return this.rpc<number>('increment_rate_limit', { p_key: key, p_ttl_ms: ttlMs });
+    }
+
+    /**
+     * 读取计数
+     * 
+     * @param {string} key - 限流键
+     * @returns {Promise<number>} 当前计数，不存在或已过期时返回 0
+     */
+    async get(key: string): Promise<number> {
+        const counter = await this.findOne<Pick<RateLimitCounter, 'count'>>(
+            this.tableName,
+            { key, expires_at: { op: 'gt', value: new Date().toISOString() } },
+            'count'
+        );
+        return counter?.count ?? 0;
+    }
+}
+
+/**
+ * 限流计数仓储单例
+ * 
+ * @constant
+ * @description 使用管理员客户端（限流表不对匿名角色开放）
+ */
+export const rateLimitRepository = new RateLimitRepository(true);
+
+/** 进程内存存储（所有调用方共享同一个实例） */
+const memoryStore = new MemoryRateLimitStore();
+
+/**
+ * 获取限流计数存储
+ * 
+ * @returns {RateLimitStore} RATE_LIMIT_STORE=postgres 时返回 Postgres 存储，否则返回进程内存存储
+ */
+export function getRateLimitStore(): RateLimitStore {
+    return config.app.rateLimitStore === 'postgres' ? rateLimitRepository : memoryStore;
+}
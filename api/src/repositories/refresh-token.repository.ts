@@ -0,0 +1,150 @@
+/**
+ * @file refresh-token.repository.ts
+ * @description 刷新令牌数据访问层，负责 refresh_tokens 表的操作
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { BaseRepository } from '[@BASE-repositories]/base.repository.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import type {
+    RefreshToken,
+    RefreshTokenInsert,
+    RefreshTokenRevokeReason,
+} from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 刷新令牌仓储类
+ * 
+ * @class
+ * @extends {BaseRepository}
+ * @description 提供刷新令牌的创建、查询、轮换和吊销方法
+ */
+export class RefreshTokenRepository extends BaseRepository {
+    /** 刷新令牌表名 */
+    private readonly table = 'refresh_tokens';
+
+    /**
+     * 创建刷新令牌记录
+     * 
+     * @param {RefreshTokenInsert} data - 刷新令牌数据（只包含哈希，不包含明文）
+     * @returns {Promise<RefreshToken>} 创建的刷新令牌记录
+     */
+    create(data: RefreshTokenInsert): Promise<RefreshToken> {
+        logger.debug('Creating refresh token', {
+            userId: data.user_id,
+            familyId: data.family_id,
+        });
+        return this.insert<RefreshToken>(this.table, data);
+    }
+
+    /**
+     * 通过令牌哈希查找记录
+     * 
+     * @param {string} tokenHash - 令牌哈希
+     * @returns {Promise<RefreshToken | null>} 刷新令牌记录或 null
+     */
+    findByHash(tokenHash: string): Promise<RefreshToken | null> {
+        logger.debug('Finding refresh token by hash');
+        return this.findOne<RefreshToken>(this.table, { token_hash: tokenHash });
+    }
+
+    /**
+     * 吊销单个令牌（仅当其尚未被吊销时）
+     * 
+     * @param {string} id - 令牌 ID
+     * @param {RefreshTokenRevokeReason} reason - 吊销原因
+     * @param {string | null} [replacedBy=null] - 替换它的新令牌 ID（轮换时传入）
+     * @returns {Promise<boolean>} 是否由本次调用完成吊销
+     * 
+     * @description 使用 `revoked_at IS NULL` 作为条件，保证并发刷新时只有一个请求能成功轮换
+     */
+    async revokeIfActive(
+        id: string,
+        reason: RefreshTokenRevokeReason,
+        replacedBy: string | null = null
+    ): Promise<boolean> {
+        logger.debug('Revoking refresh token', { id, reason });
+        const rows = await this.updateMany<RefreshToken>(
+            this.table,
+            { id, revoked_at: { op: 'is', value: null } },
+            {
+                revoked_at: new Date().toISOString(),
+                revoked_reason: reason,
+                replaced_by: replacedBy,
+            }
+        );
+        return rows.length > 0;
+    }
+
+    /**
+     * 设置令牌的替换者
+     * 
+     * @param {string} id - 旧令牌 ID
+     * @param {string} replacedBy - 新令牌 ID
+     * @returns {Promise<void>}
+     */
+    async setReplacedBy(id: string, replacedBy: string): Promise<void> {
+        await this.update<RefreshToken>(this.table, { id }, { replaced_by: replacedBy });
+    }
+
+    /**
+     * 吊销整个令牌家族
+     * 
+     * @param {string} familyId - 令牌家族 ID
+     * @param {RefreshTokenRevokeReason} reason - 吊销原因
+     * @returns {Promise<number>} 被吊销的令牌数量
+     */
+    async revokeFamily(
+        familyId: string,
+        reason: RefreshTokenRevokeReason
+    ): Promise<number> {
+        logger.info('Revoking refresh token family', { familyId, reason });
+        const rows = await this.updateMany<RefreshToken>(
+            this.table,
+            { family_id: familyId, revoked_at: { op: 'is', value: null } },
+            {
+                revoked_at: new Date().toISOString(),
+                revoked_reason: reason,
+            }
+        );
+        return rows.length;
+    }
+
+    /**
+     * 吊销用户的所有刷新令牌
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {RefreshTokenRevokeReason} reason - 吊销原因
+     * @param {string} [createdBefore] - 只吊销该时间点（ISO 字符串）之前创建的令牌，不传则吊销全部
+     * @returns {Promise<number>} 被吊销的令牌数量
+     */
+    async revokeAllForUser(
+        userId: string,
+        reason: RefreshTokenRevokeReason,
+        createdBefore?: string
+    ): Promise<number> {
+        logger.info('Revoking all refresh tokens for user', { userId, reason, createdBefore });
+        const rows = await this.updateMany<RefreshToken>(
+            this.table,
+            {
+                user_id: userId,
+                revoked_at: { op: 'is', value: null },
+                ...(createdBefore ? { created_at: { op: 'lt', value: createdBefore } } : {}),
+            },
+            {
+                revoked_at: new Date().toISOString(),
+                revoked_reason: reason,
+            }
+        );
+        return rows.length;
+    }
+}
+
+/**
+ * 刷新令牌仓储单例
+ * 
+ * @constant
+ * @description 使用管理员客户端（refresh_tokens 表不对匿名角色开放）
+ */
+export const refreshTokenRepository = new RefreshTokenRepository(true);
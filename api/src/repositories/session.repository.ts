@@ -0,0 +1,147 @@
+/**
+ * @file session.repository.ts
+ * @description 会话数据访问层，负责 user_sessions 表的操作
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { BaseRepository } from '[@BASE-repositories]/base.repository.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import type {
+    UserSession,
+    UserSessionInsert,
+    UserSessionUpdate,
+    SessionRevokeReason,
+} from '[@BASE]/types/session.types.ts';
+
+/**
+ * 会话仓储类
+ * 
+ * @class
+ * @extends {BaseRepository}
+ * @description 提供会话的创建、查询、更新和吊销方法
+ */
+export class SessionRepository extends BaseRepository {
+    /** 会话表名 */
+    private readonly table = 'user_sessions';
+
+    /**
+     * 创建会话
+     * 
+     * @param {UserSessionInsert} data - 会话数据
+     * @returns {Promise<UserSession>} 创建的会话
+     */
+    create(data: UserSessionInsert): Promise<UserSession> {
+        logger.debug('Creating user session', { userId: data.user_id });
+        return this.insert<UserSession>(this.table, data);
+    }
+
+    /**
+     * 通过 ID 查找会话
+     * 
+     * @param {string} id - 会话 ID
+     * @returns {Promise<UserSession | null>} 会话或 null
+     */
+    findById(id: string): Promise<UserSession | null> {
+        return this.findOne<UserSession>(this.table, { id });
+    }
+
+    /**
+     * 查询用户的有效会话（未吊销且未过期），按最近活跃时间倒序
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<UserSession[]>} 会话列表
+     */
+    async findActiveByUserId(userId: string): Promise<UserSession[]> {
+        const result = await this.query<UserSession>(this.table, {
+            where: {
+                user_id: userId,
+                revoked_at: { op: 'is', value: null },
+                expires_at: { op: 'gt', value: new Date().toISOString() },
+            },
+            orderBy: { column: 'last_seen_at', ascending: false },
+        });
+        return result.data;
+    }
+
+    /**
+     * 查询用户的全部会话（包含已吊销和已过期的会话），按创建时间倒序
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<UserSession[]>} 会话列表
+     */
+    async findByUserId(userId: string): Promise<UserSession[]> {
+        const result = await this.query<UserSession>(this.table, {
+            where: { user_id: userId },
+            orderBy: { column: 'created_at', ascending: false },
+        });
+        return result.data;
+    }
+
+    /**
+     * 更新会话
+     * 
+     * @param {string} id - 会话 ID
+     * @param {UserSessionUpdate} data - 更新数据
+     * @returns {Promise<UserSession>} 更新后的会话
+     */
+    updateSession(id: string, data: UserSessionUpdate): Promise<UserSession> {
+        return this.update<UserSession>(this.table, { id }, data);
+    }
+
+    /**
+     * 吊销单个会话（仅当其尚未被吊销时）
+     * 
+     * @param {string} id - 会话 ID
+     * @param {SessionRevokeReason} reason - 吊销原因
+     * @returns {Promise<boolean>} 是否由本次调用完成吊销
+     */
+    async revoke(id: string, reason: SessionRevokeReason): Promise<boolean> {
+        logger.info('Revoking user session', { id, reason });
+        const rows = await this.updateMany<UserSession>(
+            this.table,
+            { id, revoked_at: { op: 'is', value: null } },
+            {
+                revoked_at: new Date().toISOString(),
+                revoked_reason: reason,
+            }
+        );
+        return rows.length > 0;
+    }
+
+    /**
+     * 吊销用户的所有会话
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {SessionRevokeReason} reason - 吊销原因
+     * @param {string} [createdBefore] - 只吊销该时间点（ISO 字符串）之前创建的会话，不传则吊销全部
+     * @returns {Promise<UserSession[]>} 被吊销的会话
+     */
+    revokeAllForUser(
+        userId: string,
+        reason: SessionRevokeReason,
+        createdBefore?: string
+    ): Promise<UserSession[]> {
+        logger.info('Revoking all sessions for user', { userId, reason, createdBefore });
+        return this.updateMany<UserSession>(
+            this.table,
+            {
+                user_id: userId,
+                revoked_at: { op: 'is', value: null },
+                ...(createdBefore ? { created_at: { op: 'lt', value: createdBefore } } : {}),
+            },
+            {
+                revoked_at: new Date().toISOString(),
+                revoked_reason: reason,
+            }
+        );
+    }
+}
+
+/**
+ * 会话仓储单例
+ * 
+ * @constant
+ * @description 使用管理员客户端（user_sessions 表不对匿名角色开放）
+ */
+export const sessionRepository = new SessionRepository(true);
@@ -0,0 +1,100 @@
+/**
+ * @file token-revocation.repository.ts
+ * @description 访问令牌吊销数据访问层，负责 revoked_tokens 和 user_token_revocations 表的操作
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { BaseRepository } from '[@BASE-repositories]/base.repository.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import type {
+    RevokedToken,
+    RevokedTokenInsert,
+    UserTokenRevocation,
+} from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 访问令牌吊销仓储类
+ * 
+ * @class
+ * @extends {BaseRepository}
+ * @description 提供单个令牌（按 jti）和用户级（按时间点）吊销记录的数据访问方法
+ */
+export class TokenRevocationRepository extends BaseRepository {
+    /** 已吊销令牌表名 */
+    private readonly revokedTable = 'revoked_tokens';
+    /** 用户级吊销表名 */
+    private readonly userRevocationTable = 'user_token_revocations';
+
+    // ==================== 单个令牌 ====================
+
+    /**
+     * 记录已吊销的令牌（重复吊销时覆盖原记录）
+     * 
+     * @param {RevokedTokenInsert} data - 吊销记录
+     * @returns {Promise<RevokedToken>} 吊销记录
+     */
+    revokeToken(data: RevokedTokenInsert): Promise<RevokedToken> {
+        logger.info('Revoking access token', {
+            userId: data.user_id,
+            jti: data.jti,
+            reason: data.reason,
+        });
+        return this.upsert<RevokedToken>(this.revokedTable, data, 'jti');
+    }
+
+    /**
+     * 判断令牌是否已被吊销
+     * 
+     * @param {string} jti - 令牌 ID
+     * @returns {Promise<boolean>} 是否已吊销
+     */
+    isTokenRevoked(jti: string): Promise<boolean> {
+        return this.exists(this.revokedTable, { jti });
+    }
+
+    // ==================== 用户级吊销 ====================
+
+    /**
+     * 查找用户的吊销时间点
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<UserTokenRevocation | null>} 吊销记录或 null
+     */
+    findUserRevocation(userId: string): Promise<UserTokenRevocation | null> {
+        return this.findOne<UserTokenRevocation>(this.userRevocationTable, {
+            user_id: userId,
+        });
+    }
+
+    /**
+     * 设置用户的吊销时间点
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} revokedBefore - 吊销时间点（ISO 字符串）
+     * @returns {Promise<UserTokenRevocation>} 吊销记录
+     */
+    setUserRevocation(
+        userId: string,
+        revokedBefore: string
+    ): Promise<UserTokenRevocation> {
+        logger.info('Revoking all access tokens for user', { userId, revokedBefore });
+        return this.upsert<UserTokenRevocation>(
+            this.userRevocationTable,
+            {
+                user_id: userId,
+                revoked_before: revokedBefore,
+                updated_at: new Date().toISOString(),
+            },
+            'user_id'
+        );
+    }
+}
+
+/**
+ * 访问令牌吊销仓储单例
+ * 
+ * @constant
+ * @description 使用管理员客户端（吊销表不对匿名角色开放）
+ */
+export const tokenRevocationRepository = new TokenRevocationRepository(true);
@@ -66,15 +66,59 @@ export class UserRepository extends BaseRepository {
     }
 
     /**
-     * 删除用户（软删除：标记为 deleted）
+     * 删除用户（软删除：标记为 deleted，宽限期结束后永久删除）
+     * 
+     * @param {string} id - 用户 ID
+     * @param {Date} purgeAfter - 永久删除时间
+     * @returns {Promise<User>} 更新后的用户
+     */
+    softDelete(id: string, purgeAfter: Date): Promise<User> {
+        logger.info('Soft deleting user', { id, purgeAfter });
+        return this.update<User>(this.table, { id }, {
+            status: 'deleted',
+            deleted_at: new Date().toISOString(),
+            purge_after: purgeAfter.toISOString(),
+        });
+    }
+
+    /**
+     * 恢复宽限期内的已删除用户
+     * 
+     * @param {string} id - 用户 ID
+     * @returns {Promise<User | null>} 恢复后的用户，不是已删除状态或宽限期已结束时返回 null
+     */
+    async restore(id: string): Promise<User | null> {
+        logger.info('Restoring deleted user', { id });
+        const rows = await this.updateMany<User>(
+            this.table,
+            {
+                id,
+                status: 'deleted',
+                purge_after: { op: 'gt', value: new Date().toISOString() },
+            },
+            { status: 'active', deleted_at: null, purge_after: null }
+        );
+        return rows[0] ?? null;
+    }
+
+    /**
+     * 永久删除用户（关联表通过外键级联删除）
      * 
      * @param {string} id - 用户 ID
      * @returns {Promise<boolean>} 是否删除成功
      */
-    async softDelete(id: string): Promise<boolean> {
-        logger.info('Soft deleting user', { id });
-        await this.update<User>(this.table, { id }, { status: 'deleted' });
-        return true;
+    hardDelete(id: string): Promise<boolean> {
+        logger.info('Hard deleting user', { id });
+        return this.delete(this.table, { id });
+    }
+
+    /**
+     * 永久删除宽限期已结束的注销用户（调用 purge_deleted_users()，同时删除 auth.users）
+     * 
+     * @returns {Promise<number>} 删除的用户数量
+     */
+    purgeDeleted(): Promise<number> {
+        return this.rpc<number>('purge_deleted_users');
     }
 
     /**
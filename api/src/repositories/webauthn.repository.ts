@@ -0,0 +1,169 @@
+/**
+ * @file webauthn.repository.ts
+ * @description 通行密钥数据访问层，负责 webauthn_credentials 和 webauthn_challenges 表的操作
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { BaseRepository } from '[@BASE-repositories]/base.repository.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import type {
+    WebAuthnCeremony,
+    WebAuthnChallenge,
+    WebAuthnCredential,
+    WebAuthnCredentialInsert,
+} from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 通行密钥仓储类
+ * 
+ * @class
+ * @extends {BaseRepository}
+ * @description 提供通行密钥凭据的增删查改和仪式挑战的创建、消费方法，挑战只以哈希形式保存
+ */
+export class WebAuthnRepository extends BaseRepository {
+    /** 凭据表名 */
+    private readonly credentialTable = 'webauthn_credentials';
+
+    /** 挑战表名 */
+    private readonly challengeTable = 'webauthn_challenges';
+
+    /**
+     * 查询用户的全部通行密钥（按注册时间倒序）
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<WebAuthnCredential[]>} 凭据列表
+     */
+    async findCredentialsByUserId(userId: string): Promise<WebAuthnCredential[]> {
+        const result = await this.query<WebAuthnCredential>(this.credentialTable, {
+            where: { user_id: userId },
+            orderBy: { column: 'created_at', ascending: false },
+        });
+        return result.data;
+    }
+
+    /**
+     * 通过记录 ID 查找凭据
+     * 
+     * @param {string} id - 凭据记录 ID
+     * @returns {Promise<WebAuthnCredential | null>} 凭据记录或 null
+     */
+    findCredentialById(id: string): Promise<WebAuthnCredential | null> {
+        return this.findOne<WebAuthnCredential>(this.credentialTable, { id });
+    }
+
+    /**
+     * 通过认证器凭据 ID 查找凭据
+     * 
+     * @param {string} credentialId - base64url 编码的认证器凭据 ID
+     * @returns {Promise<WebAuthnCredential | null>} 凭据记录或 null
+     */
+    findCredentialByCredentialId(credentialId: string): Promise<WebAuthnCredential | null> {
+        return this.findOne<WebAuthnCredential>(this.credentialTable, { credential_id: credentialId });
+    }
+
+    /**
+     * 保存新注册的凭据
+     * 
+     * @param {WebAuthnCredentialInsert} data - 凭据数据
+     * @returns {Promise<WebAuthnCredential>} 保存后的记录
+     */
+    createCredential(data: WebAuthnCredentialInsert): Promise<WebAuthnCredential> {
+        logger.info('Creating WebAuthn credential', { userId: data.user_id });
+        return this.insert<WebAuthnCredential>(this.credentialTable, data);
+    }
+
+    /**
+     * 登录成功后更新签名计数（仅当新计数大于已保存的计数，或两者均为 0 时）
+     * 
+     * @param {string} id - 凭据记录 ID
+     * @param {number} previousCount - 校验时读取的签名计数
+     * @param {object} data - 更新数据
+     * @param {number} data.signCount - 新的签名计数
+     * @param {boolean} data.backedUp - 是否已同步备份
+     * @returns {Promise<boolean>} 是否更新成功（并发使用同一计数时只有一次成功）
+     */
+    async updateCredentialUsage(
+        id: string,
+        previousCount: number,
+        data: { signCount: number; backedUp: boolean }
+    ): Promise<boolean> {
+        const rows = await this.updateMany<WebAuthnCredential>(
+            this.credentialTable,
+            // 不支持计数的认证器（计数恒为 0）无法防止并发重放，只能依赖一次性挑战
+            { id, sign_count: data.signCount > 0 ? { op: 'lt', value: data.signCount } : previousCount },
+            {
+                sign_count: data.signCount,
+                backed_up: data.backedUp,
+                last_used_at: new Date().toISOString(),
+            }
+        );
+        return rows.length > 0;
+    }
+
+    /**
+     * 删除凭据
+     * 
+     * @param {string} id - 凭据记录 ID
+     * @returns {Promise<boolean>} 是否删除成功
+     */
+    deleteCredential(id: string): Promise<boolean> {
+        logger.info('Deleting WebAuthn credential', { id });
+        return this.delete(this.credentialTable, { id });
+    }
+
+    /**
+     * 创建仪式挑战
+     * 
+     * @param {object} data - 挑战数据
+     * @param {string} data.challengeHash - 挑战的 SHA-256 哈希
+     * @param {WebAuthnCeremony} data.ceremony - 仪式类型
+     * @param {string | null} data.userId - 注册用户 ID（登录挑战为 null）
+     * @param {Date} data.expiresAt - 过期时间
+     * @returns {Promise<WebAuthnChallenge>} 挑战记录
+     */
+    createChallenge(data: {
+        challengeHash: string;
+        ceremony: WebAuthnCeremony;
+        userId: string | null;
+        expiresAt: Date;
+    }): Promise<WebAuthnChallenge> {
+        return this.insert<WebAuthnChallenge>(this.challengeTable, {
+            challenge_hash: data.challengeHash,
+            ceremony: data.ceremony,
+            user_id: data.userId,
+            expires_at: data.expiresAt.toISOString(),
+        });
+    }
+
+    /**
+     * 消费未过期、未使用的挑战
+     * 
+     * @param {string} challengeHash - 挑战的 SHA-256 哈希
+     * @param {WebAuthnCeremony} ceremony - 仪式类型
+     * @returns {Promise<WebAuthnChallenge | null>} 被本次调用消费的挑战，不存在、已过期或已使用时返回 null
+     * 
+     * @description 使用 `consumed_at IS NULL` 作为条件，保证同一挑战只能使用一次
+     */
+    async consumeChallenge(challengeHash: string, ceremony: WebAuthnCeremony): Promise<WebAuthnChallenge | null> {
+        const rows = await this.updateMany<WebAuthnChallenge>(
+            this.challengeTable,
+            {
+                challenge_hash: challengeHash,
+                ceremony,
+                consumed_at: { op: 'is', value: null },
+                expires_at: { op: 'gt', value: new Date().toISOString() },
+            },
+            { consumed_at: new Date().toISOString() }
+        );
+        return rows[0] ?? null;
+    }
+}
+
+/**
+ * 通行密钥仓储单例
+ * 
+ * @constant
+ * @description 使用管理员客户端（通行密钥相关表不对匿名和普通用户角色开放）
+ */
+export const webauthnRepository = new WebAuthnRepository(true);
@@ -0,0 +1,65 @@
+/**
+ * @file admin.routes.ts
+ * @description 管理员路由模块，定义需要管理员权限的路由和中间件
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { Hono } from '@hono/hono';
+import { zValidator } from '@hono/zod-validator';
+import * as adminHandler from '[@BASE-handlers]/admin.handler.ts';
+import { impersonateUserSchema, updateUserRoleSchema, userIdParamSchema } from '[@BASE-schemas]/user.schema.ts';
+import {
+    authMiddleware,
+    requirePermission,
+    requireRole,
+    requireSession,
+} from '[@BASE-middlewares]/auth.middleware.ts';
+import { Permission, UserRole } from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 管理员路由实例
+ * 
+ * @constant
+ */
+const admin = new Hono();
+
+/**
+ * 所有管理员路由都需要登录会话（不接受 API 密钥）和管理员角色，各路由再按需校验具体权限
+ */
+admin.use('*', authMiddleware, requireSession, requireRole(UserRole.ADMIN));
+
+/**
+ * 用户管理
+ */
+
+// 解锁账号（登录失败次数过多导致的锁定）
+// POST /api/admin/users/:id/unlock
+admin.post(
+    '/users/:id/unlock',
+    zValidator('param', userIdParamSchema),
+    requirePermission(Permission.USER_UNLOCK),
+    adminHandler.unlockUser
+);
+
+// 修改用户角色（修改后该用户所有设备需要重新登录）
+// PUT /api/admin/users/:id/role
+admin.put(
+    '/users/:id/role',
+    zValidator('param', userIdParamSchema),
+    zValidator('json', updateUserRoleSchema),
+    requirePermission(Permission.USER_ROLE_UPDATE),
+    adminHandler.updateUserRole
+);
+
+// 模拟用户登录（返回带 act 声明的短期访问令牌，用于复现用户问题）
+// POST /api/admin/users/:id/impersonate
+admin.post(
+    '/users/:id/impersonate',
+    zValidator('param', userIdParamSchema),
+    zValidator('json', impersonateUserSchema),
+    requirePermission(Permission.USER_IMPERSONATE),
+    adminHandler.impersonateUser
+);
+
+export default admin;
@@ -8,12 +8,36 @@
 import { Hono } from '@hono/hono';
 import { zValidator } from '@hono/zod-validator';
 import * as authHandler from '[@BASE-handlers]/auth.handler.ts';
+import * as webauthnHandler from '[@BASE-handlers]/webauthn.handler.ts';
+import * as oauthHandler from '[@BASE-handlers]/oauth.handler.ts';
+import * as magicLinkHandler from '[@BASE-handlers]/magic-link.handler.ts';
+import * as adminHandler from '[@BASE-handlers]/admin.handler.ts';
 import {
     sendVerificationCodeSchema,
     verificationCodeLoginSchema,
     passwordLoginSchema,
+    loginChallengeSchema,
+    mfaLoginSchema,
+    restoreAccountSchema,
+    registerSchema,
+    refreshTokenSchema,
+    forgotPasswordSchema,
+    resetPasswordSchema,
+    webauthnRegisterSchema,
+    webauthnLoginOptionsSchema,
+    webauthnLoginSchema,
+    passkeyIdParamSchema,
+    oauthProviderParamSchema,
+    oauthCallbackSchema,
+    magicLinkSendSchema,
+    magicLinkTokenParamSchema,
+    magicLinkConfirmSchema,
+    magicLinkExchangeSchema,
+    magicLinkPollSchema,
 } from '[@BASE-schemas]/auth.schema.ts';
-import { authMiddleware } from '[@BASE-middlewares]/auth.middleware.ts';
+import { authMiddleware, denyImpersonation, requireSession } from '[@BASE-middlewares]/auth.middleware.ts';
+import { rateLimit } from '[@BASE-middlewares]/rate-limit.middleware.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
 
 /**
  * 认证路由实例
@@ -22,6 +46,32 @@ import { authMiddleware } from '[@BASE-middlewares]/auth.middleware.ts';
  */
 const auth = new Hono();
 
+/**
+ * 限流规则
+ * 
+ * @description 发送邮件的接口（验证码、重置密码、登录链接）共享计数，防止被用来向任意邮箱批量发信；
+ * 校验凭据、验证码、挑战和第三方授权码的接口共享 login 计数，防止穷举；登录失败次数另由登录锁定（LOGIN_LOCKOUT_*）限制；
+ * 刷新令牌和轮询登录链接由客户端自动发起，上限按正常使用的频率放宽
+ */
+const mailIpLimit = rateLimit({
+    name: 'send-mail',
+    key: 'ip',
+    window: 3600,
+    max: 20,
+    errorCode: ErrorCodes.VERIFICATION_CODE_TOO_FREQUENT,
+});
+const mailEmailLimit = rateLimit({
+    name: 'send-mail',
+    key: 'email',
+    window: 3600,
+    max: 5,
+    errorCode: ErrorCodes.VERIFICATION_CODE_TOO_FREQUENT,
+});
+const loginIpLimit = rateLimit({ name: 'login', key: 'ip', window: 60, max: 10 });
+const registerIpLimit = rateLimit({ name: 'register', key: 'ip', window: 3600, max: 10 });
+const refreshIpLimit = rateLimit({ name: 'refresh', key: 'ip', window: 60, max: 30 });
+const magicPollIpLimit = rateLimit({ name: 'magic-poll', key: 'ip', window: 60, max: 60 });
+
 /**
  * 公开路由（无需认证）
  */
@@ -30,7 +80,9 @@ const auth = new Hono();
 // POST /api/auth/send-code
 auth.post(
     '/send-code',
+    mailIpLimit,
     zValidator('json', sendVerificationCodeSchema),
+    mailEmailLimit,
     authHandler.sendVerificationCode
 );
 
@@ -38,6 +90,7 @@ auth.post(
 // POST /api/auth/login/code
 auth.post(
     '/login/code',
+    loginIpLimit,
     zValidator('json', verificationCodeLoginSchema),
     authHandler.loginWithVerificationCode
 );
@@ -46,16 +99,235 @@ auth.post(
 // POST /api/auth/login/password
 auth.post(
     '/login/password',
+    loginIpLimit,
     zValidator('json', passwordLoginSchema),
     authHandler.loginWithPassword
 );
 
+// 完成登录验证（高风险登录的第二步）
+// POST /api/auth/login/verify
+auth.post(
+    '/login/verify',
+    loginIpLimit,
+    zValidator('json', loginChallengeSchema),
+    authHandler.verifyLoginChallenge
+);
+
+// 完成两步验证（开启两步验证的用户登录的第二步）
+// POST /api/auth/login/mfa
+auth.post(
+    '/login/mfa',
+    loginIpLimit,
+    zValidator('json', mfaLoginSchema),
+    authHandler.verifyMfaChallenge
+);
+
+// 恢复注销中的账号并继续登录
+// POST /api/auth/login/restore
+auth.post(
+    '/login/restore',
+    loginIpLimit,
+    zValidator('json', restoreAccountSchema),
+    authHandler.restoreAccount
+);
+
+// 邮箱 + 密码注册
+// POST /api/auth/register
+auth.post(
+    '/register',
+    registerIpLimit,
+    zValidator('json', registerSchema),
+    authHandler.register
+);
+
+// 刷新令牌
+// POST /api/auth/refresh
+auth.post(
+    '/refresh',
+    refreshIpLimit,
+    zValidator('json', refreshTokenSchema),
+    authHandler.refreshToken
+);
+
+// 忘记密码（发送重置密码验证码）
+// POST /api/auth/forgot-password
+auth.post(
+    '/forgot-password',
+    mailIpLimit,
+    zValidator('json', forgotPasswordSchema),
+    mailEmailLimit,
+    authHandler.forgotPassword
+);
+
+// 重置密码
+// POST /api/auth/reset-password
+auth.post(
+    '/reset-password',
+    loginIpLimit,
+    zValidator('json', resetPasswordSchema),
+    authHandler.resetPassword
+);
+
+// 获取通行密钥登录选项
+// POST /api/auth/webauthn/login/options
+auth.post(
+    '/webauthn/login/options',
+    zValidator('json', webauthnLoginOptionsSchema),
+    webauthnHandler.getAuthenticationOptions
+);
+
+// 通行密钥登录
+// POST /api/auth/webauthn/login/verify
+auth.post(
+    '/webauthn/login/verify',
+    loginIpLimit,
+    zValidator('json', webauthnLoginSchema),
+    webauthnHandler.verifyAuthentication
+);
+
+// 获取已启用的第三方登录方式
+// GET /api/auth/oauth/providers
+auth.get(
+    '/oauth/providers',
+    oauthHandler.getProviders
+);
+
+// 发起第三方登录（获取授权地址）
+// POST /api/auth/oauth/:provider
+auth.post(
+    '/oauth/:provider',
+    zValidator('param', oauthProviderParamSchema),
+    oauthHandler.getAuthorizationUrl
+);
+
+// 第三方登录回调
+// POST /api/auth/oauth/:provider/callback
+auth.post(
+    '/oauth/:provider/callback',
+    loginIpLimit,
+    zValidator('param', oauthProviderParamSchema),
+    zValidator('json', oauthCallbackSchema),
+    oauthHandler.handleCallback
+);
+
+// 发送登录链接
+// POST /api/auth/magic/send
+auth.post(
+    '/magic/send',
+    mailIpLimit,
+    zValidator('json', magicLinkSendSchema),
+    mailEmailLimit,
+    magicLinkHandler.sendMagicLink
+);
+
+// 确认登录链接（前端确认页面提交）
+// POST /api/auth/magic/confirm
+auth.post(
+    '/magic/confirm',
+    loginIpLimit,
+    zValidator('json', magicLinkConfirmSchema),
+    magicLinkHandler.confirmMagicLink
+);
+
+// 使用换取令牌完成登录（点击链接的浏览器）
+// POST /api/auth/magic/exchange
+auth.post(
+    '/magic/exchange',
+    loginIpLimit,
+    zValidator('json', magicLinkExchangeSchema),
+    magicLinkHandler.exchangeMagicLink
+);
+
+// 轮询登录链接结果（发起请求的客户端）
+// POST /api/auth/magic/poll
+auth.post(
+    '/magic/poll',
+    magicPollIpLimit,
+    zValidator('json', magicLinkPollSchema),
+    magicLinkHandler.pollMagicLink
+);
+
+// 打开登录链接（重定向到前端确认页面）
+// GET /api/auth/magic/:token
+auth.get(
+    '/magic/:token',
+    zValidator('param', magicLinkTokenParamSchema),
+    magicLinkHandler.openMagicLink
+);
+
 /**
- * 需要认证的路由
+ * 需要认证的路由（只接受登录会话的访问令牌，不接受 API 密钥）
+ * 
+ * 退出所有设备和通行密钥的修改操作不允许管理员模拟登录时执行（denyImpersonation）
  */
 
-// 退出登录
+// 退出登录（请求体可为空，由处理器校验）
 // POST /api/auth/logout
-auth.post('/logout', authMiddleware, authHandler.logout);
+auth.post(
+    '/logout',
+    authMiddleware,
+    requireSession,
+    authHandler.logout
+);
+
+// 退出所有设备（请求体可为空，由处理器校验）
+// POST /api/auth/logout-all
+auth.post(
+    '/logout-all',
+    authMiddleware,
+    requireSession,
+    denyImpersonation,
+    authHandler.logoutAll
+);
+
+// 结束模拟登录（使用管理员模拟登录签发的令牌调用，令牌立即失效）
+// POST /api/auth/impersonation/end
+auth.post(
+    '/impersonation/end',
+    authMiddleware,
+    requireSession,
+    adminHandler.endImpersonation
+);
+
+// 获取通行密钥注册选项
+// POST /api/auth/webauthn/register/options
+auth.post(
+    '/webauthn/register/options',
+    authMiddleware,
+    requireSession,
+    denyImpersonation,
+    webauthnHandler.getRegistrationOptions
+);
+
+// 注册通行密钥
+// POST /api/auth/webauthn/register/verify
+auth.post(
+    '/webauthn/register/verify',
+    authMiddleware,
+    requireSession,
+    denyImpersonation,
+    zValidator('json', webauthnRegisterSchema),
+    webauthnHandler.verifyRegistration
+);
+
+// 获取通行密钥列表
+// GET /api/auth/webauthn/credentials
+auth.get(
+    '/webauthn/credentials',
+    authMiddleware,
+    requireSession,
+    webauthnHandler.getCredentials
+);
+
+// 删除通行密钥
+// DELETE /api/auth/webauthn/credentials/:id
+auth.delete(
+    '/webauthn/credentials/:id',
+    authMiddleware,
+    requireSession,
+    denyImpersonation,
+    zValidator('param', passkeyIdParamSchema),
+    webauthnHandler.deleteCredential
+);
 
 export default auth;
\ No newline at end of file
@@ -8,14 +8,30 @@
 import { Hono } from '@hono/hono';
 import { zValidator } from '@hono/zod-validator';
 import * as userHandler from '[@BASE-handlers]/user.handler.ts';
+import * as apiKeyHandler from '[@BASE-handlers]/api-key.handler.ts';
 import {
     updateProfileSchema,
     updateAvatarSchema,
     changePasswordSchema,
+    setPasswordSchema,
     sendEmailVerificationCodeSchema,
     changeEmailSchema,
+    verifyEmailSchema,
+    sessionIdParamSchema,
+    loginHistoryQuerySchema,
+    confirmTotpSchema,
+    mfaCodeSchema,
+    createApiKeySchema,
+    apiKeyIdParamSchema,
 } from '[@BASE-schemas]/user.schema.ts';
-import { authMiddleware } from '[@BASE-middlewares]/auth.middleware.ts';
+import {
+    authMiddleware,
+    denyImpersonation,
+    requireSession,
+    requireVerifiedEmail,
+} from '[@BASE-middlewares]/auth.middleware.ts';
+import { rateLimit } from '[@BASE-middlewares]/rate-limit.middleware.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
 
 /**
  * 用户路由实例
@@ -25,7 +41,24 @@ import { authMiddleware } from '[@BASE-middlewares]/auth.middleware.ts';
 const users = new Hono();
 
 /**
- * 所有用户路由都需要认证
+ * 限流规则
+ * 
+ * @description 发送验证码的接口按用户共享计数（同一邮箱 60 秒内只能发送一次的限制仍由验证码服务负责）
+ */
+const mailUserLimit = rateLimit({
+    name: 'send-mail',
+    key: 'user',
+    window: 3600,
+    max: 10,
+    errorCode: ErrorCodes.VERIFICATION_CODE_TOO_FREQUENT,
+});
+
+/**
+ * 所有用户路由都需要认证（支持访问令牌和个人 API 密钥）
+ * 
+ * 注销账号、导出个人数据、修改密码、更换和验证邮箱、会话、两步验证和 API 密钥管理需要登录会话（requireSession），不接受 API 密钥；
+ * 导出个人数据会将下载链接发送到邮箱，要求邮箱已验证（requireVerifiedEmail）；
+ * 注销账号、修改和设置密码、更换邮箱、移除会话、两步验证和 API 密钥的修改操作不允许管理员模拟登录时执行（denyImpersonation）
  */
 users.use('*', authMiddleware);
 
@@ -45,6 +78,14 @@ users.put(
     userHandler.updateProfile
 );
 
+// 注销当前账号（要求最近登录，宽限期内重新登录可以恢复）
+// DELETE /api/users/me
+users.delete('/me', requireSession, denyImpersonation, userHandler.deleteAccount);
+
+// 导出个人数据（后台生成，下载链接发送到邮箱）
+// POST /api/users/me/export
+users.post('/me/export', requireSession, requireVerifiedEmail, userHandler.exportData);
+
 // 更新头像
 // PUT /api/users/me/avatar
 users.put(
@@ -57,14 +98,39 @@ users.put(
 // PUT /api/users/me/password
 users.put(
     '/me/password',
+    requireSession,
+    denyImpersonation,
     zValidator('json', changePasswordSchema),
     userHandler.changePassword
 );
 
+// 发送设置密码验证码（尚未设置密码的用户）
+// POST /api/users/me/password/send-code
+users.post(
+    '/me/password/send-code',
+    requireSession,
+    denyImpersonation,
+    mailUserLimit,
+    userHandler.sendSetPasswordCode
+);
+
+// 设置密码（尚未设置密码的用户）
+// POST /api/users/me/password
+users.post(
+    '/me/password',
+    requireSession,
+    denyImpersonation,
+    zValidator('json', setPasswordSchema),
+    userHandler.setPassword
+);
+
 // 发送邮箱验证码（用于更换邮箱）
 // POST /api/users/me/email/send-code
 users.post(
     '/me/email/send-code',
+    requireSession,
+    denyImpersonation,
+    mailUserLimit,
     zValidator('json', sendEmailVerificationCodeSchema),
     userHandler.sendEmailVerificationCode
 );
@@ -73,10 +139,109 @@ users.post(
 // PUT /api/users/me/email
 users.put(
     '/me/email',
+    requireSession,
+    denyImpersonation,
     zValidator('json', changeEmailSchema),
     userHandler.changeEmail
 );
 
+// 发送验证当前邮箱的验证码（邮箱尚未验证的用户）
+// POST /api/users/me/email/verify/send-code
+users.post('/me/email/verify/send-code', requireSession, mailUserLimit, userHandler.sendVerifyEmailCode);
+
+// 验证当前邮箱
+// POST /api/users/me/email/verify
+users.post(
+    '/me/email/verify',
+    requireSession,
+    zValidator('json', verifyEmailSchema),
+    userHandler.verifyEmail
+);
+
+// 获取登录会话（设备）列表
+// GET /api/users/me/sessions
+users.get('/me/sessions', requireSession, userHandler.getSessions);
+
+// 移除登录会话（设备）
+// DELETE /api/users/me/sessions/:id
+users.delete(
+    '/me/sessions/:id',
+    requireSession,
+    denyImpersonation,
+    zValidator('param', sessionIdParamSchema),
+    userHandler.revokeSession
+);
+
+// 获取登录历史
+// GET /api/users/me/login-history
+users.get(
+    '/me/login-history',
+    zValidator('query', loginHistoryQuerySchema),
+    userHandler.getLoginHistory
+);
+
+// 获取两步验证状态
+// GET /api/users/me/mfa
+users.get('/me/mfa', requireSession, userHandler.getMfaStatus);
+
+// 开始绑定 TOTP 两步验证
+// POST /api/users/me/mfa/totp
+users.post('/me/mfa/totp', requireSession, denyImpersonation, userHandler.startTotpEnrollment);
+
+// 确认绑定 TOTP 两步验证
+// POST /api/users/me/mfa/totp/confirm
+users.post(
+    '/me/mfa/totp/confirm',
+    requireSession,
+    denyImpersonation,
+    zValidator('json', confirmTotpSchema),
+    userHandler.confirmTotp
+);
+
+// 关闭 TOTP 两步验证
+// POST /api/users/me/mfa/totp/disable
+users.post(
+    '/me/mfa/totp/disable',
+    requireSession,
+    denyImpersonation,
+    zValidator('json', mfaCodeSchema),
+    userHandler.disableTotp
+);
+
+// 重新生成两步验证恢复码
+// POST /api/users/me/mfa/recovery-codes
+users.post(
+    '/me/mfa/recovery-codes',
+    requireSession,
+    denyImpersonation,
+    zValidator('json', mfaCodeSchema),
+    userHandler.regenerateRecoveryCodes
+);
+
+// 获取 API 密钥列表
+// GET /api/users/me/api-keys
+users.get('/me/api-keys', requireSession, apiKeyHandler.listApiKeys);
+
+// 创建 API 密钥（密钥明文只在本次响应中返回）
+// POST /api/users/me/api-keys
+users.post(
+    '/me/api-keys',
+    requireSession,
+    denyImpersonation,
+    zValidator('json', createApiKeySchema),
+    apiKeyHandler.createApiKey
+);
+
+// 吊销 API 密钥
+// DELETE /api/users/me/api-keys/:id
+users.delete(
+    '/me/api-keys/:id',
+    requireSession,
+    denyImpersonation,
+    zValidator('param', apiKeyIdParamSchema),
+    apiKeyHandler.revokeApiKey
+);
+
 /**
  * 公开用户信息
  */
@@ -16,6 +16,9 @@ import { VerificationPurpose } from '[@BASE]/types/auth.types.ts';
  * 
  * @property {string} email - 邮箱地址，必须是有效的邮箱格式，长度 1-255 字符
  * @property {VerificationPurpose} [purpose] - 验证码用途，默认为 LOGIN
+ * @property {Object} [challenge] - 人机验证解答（服务端返回 AUTH_CHALLENGE_REQUIRED 后提交）
+ * @property {string} challenge.token - 工作量证明的挑战令牌，或 hCaptcha / Turnstile 组件返回的响应令牌
+ * @property {string} [challenge.nonce] - 工作量证明找到的随机数
  */
 export const sendVerificationCodeSchema = z.object({
     email: z
@@ -26,6 +29,13 @@ export const sendVerificationCodeSchema = z.object({
     purpose: z
         .enum(VerificationPurpose)
         .default(VerificationPurpose.LOGIN),
+
+    challenge: z
+        .object({
+            token: z.string().min(1, '人机验证令牌不能为空').max(4096, '人机验证令牌过长'),
+            nonce: z.string().regex(/^\d{1,16}$/, '工作量证明随机数格式不正确').optional(),
+        })
+        .optional(),
 });
 
 export type SendVerificationCodeInput = z.infer<typeof sendVerificationCodeSchema>;
@@ -80,6 +90,86 @@ export const passwordLoginSchema = z.object({
  */
 export type PasswordLoginInput = z.infer<typeof passwordLoginSchema>;
 
+/**
+ * 登录验证 Schema
+ * 
+ * @constant
+ * @description 验证高风险登录第二步（完成登录验证挑战）请求的数据格式
+ * 
+ * @property {string} challengeToken - 登录时返回的挑战令牌
+ * @property {string} code - 邮箱验证码，必须是 6 位数字
+ */
+export const loginChallengeSchema = z.object({
+    challengeToken: z
+        .string()
+        .min(1, '挑战令牌不能为空')
+        .max(512, '挑战令牌格式不正确'),
+
+    code: z
+        .string()
+        .min(1, '验证码不能为空')
+        .length(6, '验证码必须是 6 位数字')
+        .regex(/^\d{6}$/, '验证码必须是 6 位数字'),
+});
+
+/**
+ * 登录验证输入类型
+ * 
+ * @typedef {z.infer<typeof loginChallengeSchema>} LoginChallengeInput
+ */
+export type LoginChallengeInput = z.infer<typeof loginChallengeSchema>;
+
+/**
+ * 两步验证登录 Schema
+ * 
+ * @constant
+ * @description 验证开启两步验证的用户登录第二步请求的数据格式
+ * 
+ * @property {string} challengeToken - 登录时返回的挑战令牌
+ * @property {string} code - 验证器 App 生成的 6 位动态码，或一次性恢复码
+ */
+export const mfaLoginSchema = z.object({
+    challengeToken: z
+        .string()
+        .min(1, '挑战令牌不能为空')
+        .max(512, '挑战令牌格式不正确'),
+
+    code: z
+        .string()
+        .trim()
+        .min(6, '请输入 6 位动态码或恢复码')
+        .max(32, '验证码格式不正确'),
+});
+
+/**
+ * 两步验证登录输入类型
+ * 
+ * @typedef {z.infer<typeof mfaLoginSchema>} MfaLoginInput
+ */
+export type MfaLoginInput = z.infer<typeof mfaLoginSchema>;
+
+/**
+ * 恢复账号 Schema
+ * 
+ * @constant
+ * @description 验证注销宽限期内的账号确认恢复请求的数据格式
+ * 
+ * @property {string} challengeToken - 登录时返回的 account_restore 挑战令牌
+ */
+export const restoreAccountSchema = z.object({
+    challengeToken: z
+        .string()
+        .min(1, '挑战令牌不能为空')
+        .max(512, '挑战令牌格式不正确'),
+});
+
+/**
+ * 恢复账号输入类型
+ * 
+ * @typedef {z.infer<typeof restoreAccountSchema>} RestoreAccountInput
+ */
+export type RestoreAccountInput = z.infer<typeof restoreAccountSchema>;
+
 /**
  * 注册 Schema
  * 
@@ -89,7 +179,6 @@ export type PasswordLoginInput = z.infer<typeof passwordLoginSchema>;
  * @property {string} email - 邮箱地址，必须是有效的邮箱格式，长度 1-255 字符
  * @property {string} password - 密码，长度 8-100 字符，必须包含大小写字母和数字
  * @property {string} name - 姓名，长度 2-50 字符，会自动去除首尾空格
- * @property {string} code - 验证码，必须是 6 位数字
  */
 export const registerSchema = z.object({
     email: z
@@ -113,17 +202,406 @@ export const registerSchema = z.object({
         .min(2, '姓名至少 2 个字符')
         .max(50, '姓名最多 50 个字符')
         .trim(),
+});
+
+/**
+ * 注册输入类型
+ * 
+ * @typedef {z.infer<typeof registerSchema>} RegisterInput
+ */
+export type RegisterInput = z.infer<typeof registerSchema>;
+
+/**
+ * 刷新令牌 Schema
+ * 
+ * @constant
+ * @description 验证刷新令牌请求的数据格式
+ * 
+ * @property {string} refreshToken - 登录时下发的刷新令牌
+ */
+export const refreshTokenSchema = z.object({
+    refreshToken: z
+        .string()
+        .min(1, '刷新令牌不能为空')
+        .max(512, '刷新令牌格式不正确'),
+});
+
+/**
+ * 刷新令牌输入类型
+ * 
+ * @typedef {z.infer<typeof refreshTokenSchema>} RefreshTokenInput
+ */
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+
+
+/**
+ * 退出登录 Schema
+ * 
+ * @constant
+ * @description 验证退出登录请求的数据格式（请求体可为空）
+ * 
+ * @property {string} [refreshToken] - 当前设备的刷新令牌，传入时一并吊销
+ */
+export const logoutSchema = z.object({
+    refreshToken: z
+        .string()
+        .max(512, '刷新令牌格式不正确')
+        .optional(),
+});
+
+/**
+ * 退出登录输入类型
+ * 
+ * @typedef {z.infer<typeof logoutSchema>} LogoutInput
+ */
+export type LogoutInput = z.infer<typeof logoutSchema>;
+
+/**
+ * 退出所有设备 Schema
+ * 
+ * @constant
+ * @description 验证退出所有设备请求的数据格式（请求体可为空）
+ * 
+ * @property {string} [before] - 吊销时间点（ISO 8601），该时间点之前签发的令牌全部失效，默认当前时间，不能晚于当前时间
+ */
+export const logoutAllSchema = z.object({
+    before: z
+        .iso
+        .datetime({ offset: true, error: '时间格式不正确' })
+        .refine((value) => new Date(value).getTime() <= Date.now(), '时间不能晚于当前时间')
+        .optional(),
+});
+
+/**
+ * 退出所有设备输入类型
+ * 
+ * @typedef {z.infer<typeof logoutAllSchema>} LogoutAllInput
+ */
+export type LogoutAllInput = z.infer<typeof logoutAllSchema>;
+
+/**
+ * 忘记密码 Schema
+ * 
+ * @constant
+ * @description 验证忘记密码（发送重置密码验证码）请求的数据格式
+ * 
+ * @property {string} email - 邮箱地址，必须是有效的邮箱格式
+ */
+export const forgotPasswordSchema = z.object({
+    email: z
+        .email('邮箱格式不正确')
+        .min(1, '邮箱不能为空')
+        .max(255, '邮箱长度不能超过 255 个字符'),
+});
+
+/**
+ * 忘记密码输入类型
+ * 
+ * @typedef {z.infer<typeof forgotPasswordSchema>} ForgotPasswordInput
+ */
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+
+/**
+ * 重置密码 Schema
+ * 
+ * @constant
+ * @description 验证重置密码请求的数据格式
+ * 
+ * @property {string} email - 邮箱地址，必须是有效的邮箱格式
+ * @property {string} code - 重置密码验证码，必须是 6 位数字
+ * @property {string} password - 新密码，长度 8-100 字符，必须包含大小写字母和数字
+ */
+export const resetPasswordSchema = z.object({
+    email: z
+        .email('邮箱格式不正确')
+        .min(1, '邮箱不能为空'),
 
     code: z
         .string()
         .min(1, '验证码不能为空')
         .length(6, '验证码必须是 6 位数字')
         .regex(/^\d{6}$/, '验证码必须是 6 位数字'),
+
+    password: z
+        .string()
+        .min(1, '密码不能为空')
+        .min(8, '密码至少 8 个字符')
+        .max(100, '密码最多 100 个字符')
+        .regex(
+            /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+            '密码必须包含大小写字母和数字',
+        ),
 });
 
 /**
- * 注册输入类型
+ * 重置密码输入类型
  * 
- * @typedef {z.infer<typeof registerSchema>} RegisterInput
+ * @typedef {z.infer<typeof resetPasswordSchema>} ResetPasswordInput
+ */
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+
+/**
+ * base64url 字符串 Schema（WebAuthn 响应中的二进制字段）
+ */
+const base64UrlSchema = z
+    .string()
+    .min(1, '通行密钥数据不能为空')
+    .max(16384, '通行密钥数据过长')
+    .regex(/^[A-Za-z0-9_-]+$/, '通行密钥数据格式不正确');
+
+/**
+ * 通行密钥注册 Schema
+ * 
+ * @constant
+ * @description 验证通行密钥注册请求的数据格式（credential 为 PublicKeyCredential.toJSON() 的结果）
+ * 
+ * @property {string} [name] - 通行密钥名称，最多 50 个字符
+ * @property {object} credential - 浏览器返回的注册响应
+ */
+export const webauthnRegisterSchema = z.object({
+    name: z
+        .string()
+        .trim()
+        .max(50, '名称最多 50 个字符')
+        .optional(),
+
+    credential: z.object({
+        id: base64UrlSchema,
+        rawId: base64UrlSchema,
+        type: z.literal('public-key', '凭据类型不正确'),
+        response: z.object({
+            clientDataJSON: base64UrlSchema,
+            attestationObject: base64UrlSchema,
+            transports: z.array(z.string().max(32)).max(10).optional(),
+        }),
+    }),
+});
+
+/**
+ * 通行密钥注册输入类型
+ * 
+ * @typedef {z.infer<typeof webauthnRegisterSchema>} WebAuthnRegisterInput
+ */
+export type WebAuthnRegisterInput = z.infer<typeof webauthnRegisterSchema>;
+
+/**
+ * 通行密钥登录选项 Schema
+ * 
+ * @constant
+ * @description 验证获取通行密钥登录选项请求的数据格式
+ * 
+ * @property {string} [email] - 登录邮箱；不传时由认证器列出可用的通行密钥
+ */
+export const webauthnLoginOptionsSchema = z.object({
+    email: z
+        .email('邮箱格式不正确')
+        .max(255, '邮箱长度不能超过 255 个字符')
+        .optional(),
+});
+
+/**
+ * 通行密钥登录选项输入类型
+ * 
+ * @typedef {z.infer<typeof webauthnLoginOptionsSchema>} WebAuthnLoginOptionsInput
+ */
+export type WebAuthnLoginOptionsInput = z.infer<typeof webauthnLoginOptionsSchema>;
+
+/**
+ * 通行密钥登录 Schema
+ * 
+ * @constant
+ * @description 验证通行密钥登录请求的数据格式（credential 为 PublicKeyCredential.toJSON() 的结果）
+ * 
+ * @property {object} credential - 浏览器返回的登录响应
+ */
+export const webauthnLoginSchema = z.object({
+    credential: z.object({
+        id: base64UrlSchema,
+        rawId: base64UrlSchema,
+        type: z.literal('public-key', '凭据类型不正确'),
+        response: z.object({
+            clientDataJSON: base64UrlSchema,
+            authenticatorData: base64UrlSchema,
+            signature: base64UrlSchema,
+            userHandle: base64UrlSchema.nullable().optional(),
+        }),
+    }),
+});
+
+/**
+ * 通行密钥登录输入类型
+ * 
+ * @typedef {z.infer<typeof webauthnLoginSchema>} WebAuthnLoginInput
+ */
+export type WebAuthnLoginInput = z.infer<typeof webauthnLoginSchema>;
+
+/**
+ * 通行密钥 ID 路由参数 Schema
+ * 
+ * @constant
+ * @description 验证删除通行密钥路由中的通行密钥 ID 参数
+ * 
+ * @property {string} id - 通行密钥记录 ID，必须是 UUID
+ */
+export const passkeyIdParamSchema = z.object({
+    id: z.uuid('通行密钥ID格式不正确'),
+});
+
+/**
+ * 通行密钥 ID 路由参数类型
+ * 
+ * @typedef {z.infer<typeof passkeyIdParamSchema>} PasskeyIdParam
+ */
+export type PasskeyIdParam = z.infer<typeof passkeyIdParamSchema>;
+
+/**
+ * 第三方登录提供方路由参数 Schema
+ * 
+ * @constant
+ * @description 验证第三方登录路由中的身份提供方标识（是否已启用由业务层判断）
+ * 
+ * @property {string} provider - 身份提供方标识，小写字母、数字和连字符
+ */
+export const oauthProviderParamSchema = z.object({
+    provider: z
+        .string()
+        .max(50, '登录方式标识过长')
+        .regex(/^[a-z0-9-]+$/, '登录方式标识格式不正确'),
+});
+
+/**
+ * 第三方登录提供方路由参数类型
+ * 
+ * @typedef {z.infer<typeof oauthProviderParamSchema>} OAuthProviderParam
+ */
+export type OAuthProviderParam = z.infer<typeof oauthProviderParamSchema>;
+
+/**
+ * 第三方登录回调 Schema
+ * 
+ * @constant
+ * @description 验证第三方登录回调请求的数据格式（前端回调页面从地址栏读取后提交）
+ * 
+ * @property {string} code - 身份提供方返回的授权码
+ * @property {string} state - 发起授权时生成的 state
+ */
+export const oauthCallbackSchema = z.object({
+    code: z
+        .string()
+        .min(1, '授权码不能为空')
+        .max(2048, '授权码过长'),
+
+    state: z
+        .string()
+        .min(1, 'state 不能为空')
+        .max(128, 'state 过长'),
+});
+
+/**
+ * 第三方登录回调输入类型
+ * 
+ * @typedef {z.infer<typeof oauthCallbackSchema>} OAuthCallbackInput
+ */
+export type OAuthCallbackInput = z.infer<typeof oauthCallbackSchema>;
+
+/**
+ * 发送登录链接 Schema
+ * 
+ * @constant
+ * @description 验证发送登录链接请求的数据格式
+ * 
+ * @property {string} email - 登录邮箱
+ */
+export const magicLinkSendSchema = z.object({
+    email: z
+        .email('邮箱格式不正确')
+        .min(1, '邮箱不能为空')
+        .max(255, '邮箱长度不能超过 255 个字符'),
+});
+
+/**
+ * 发送登录链接输入类型
+ * 
+ * @typedef {z.infer<typeof magicLinkSendSchema>} MagicLinkSendInput
+ */
+export type MagicLinkSendInput = z.infer<typeof magicLinkSendSchema>;
+
+/**
+ * 登录链接路由参数 Schema
+ * 
+ * @constant
+ * @description 只限制长度，令牌格式和签名由服务层校验，格式错误的链接同样重定向到前端页面提示链接无效
+ * 
+ * @property {string} token - 登录链接令牌
+ */
+export const magicLinkTokenParamSchema = z.object({
+    token: z
+        .string()
+        .max(256, '登录链接无效'),
+});
+
+/**
+ * 确认登录链接 Schema
+ * 
+ * @constant
+ * @description 验证前端确认页面提交登录链接令牌的数据格式
+ * 
+ * @property {string} token - 登录链接令牌（打开链接后重定向地址中的 token）
+ */
+export const magicLinkConfirmSchema = z.object({
+    token: z
+        .string()
+        .min(1, '登录链接无效')
+        .max(256, '登录链接无效'),
+});
+
+/**
+ * 确认登录链接输入类型
+ * 
+ * @typedef {z.infer<typeof magicLinkConfirmSchema>} MagicLinkConfirmInput
+ */
+export type MagicLinkConfirmInput = z.infer<typeof magicLinkConfirmSchema>;
+
+/**
+ * 登录链接换取令牌 Schema
+ * 
+ * @constant
+ * @description 验证确认登录后，点击链接的浏览器提交换取令牌的数据格式
+ * 
+ * @property {string} code - 确认登录链接时返回的换取令牌
+ */
+export const magicLinkExchangeSchema = z.object({
+    code: z
+        .string()
+        .min(1, '登录凭证不能为空')
+        .max(128, '登录凭证无效'),
+});
+
+/**
+ * 登录链接换取令牌输入类型
+ * 
+ * @typedef {z.infer<typeof magicLinkExchangeSchema>} MagicLinkExchangeInput
+ */
+export type MagicLinkExchangeInput = z.infer<typeof magicLinkExchangeSchema>;
+
+/**
+ * 登录链接轮询 Schema
+ * 
+ * @constant
+ * @description 验证发起请求的客户端轮询登录结果的数据格式
+ * 
+ * @property {string} pollToken - 发送登录链接时返回的轮询令牌
+ */
+export const magicLinkPollSchema = z.object({
+    pollToken: z
+        .string()
+        .min(1, '轮询令牌不能为空')
+        .max(128, '轮询令牌无效'),
+});
+
+/**
+ * 登录链接轮询输入类型
+ * 
+ * @typedef {z.infer<typeof magicLinkPollSchema>} MagicLinkPollInput
  */
-export type RegisterInput = z.infer<typeof registerSchema>;
\ No newline at end of file
+export type MagicLinkPollInput = z.infer<typeof magicLinkPollSchema>;
@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod';
+import { ApiKeyScope, LoginMethod, LoginStatus, UserRole } from '[@BASE]/types/auth.types.ts';
 
 /**
  * 更新用户资料 Schema
@@ -99,6 +100,36 @@ export const changePasswordSchema = z.object({
  */
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
 
+/**
+ * 设置密码 Schema
+ * 
+ * @constant
+ * @description 验证首次设置密码请求的数据格式（仅用于尚未设置密码的用户）
+ * 
+ * @property {string} code - 发送到当前邮箱的验证码，必须是6位数字
+ * @property {string} new_password - 新密码，长度 8-100 字符，必须包含大小写字母和数字
+ */
+export const setPasswordSchema = z.object({
+    code: z
+        .string()
+        .regex(/^\d{6}$/, '验证码必须是6位数字'),
+    new_password: z
+        .string()
+        .min(8, '新密码至少 8 个字符')
+        .max(100, '新密码最多 100 个字符')
+        .regex(
+            /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+            '新密码必须包含大小写字母和数字'
+        ),
+});
+
+/**
+ * 设置密码输入类型
+ * 
+ * @typedef {z.infer<typeof setPasswordSchema>} SetPasswordInput
+ */
+export type SetPasswordInput = z.infer<typeof setPasswordSchema>;
+
 /**
  * 发送邮箱验证码 Schema（用于更换邮箱）
  * 
@@ -145,4 +176,235 @@ export const changeEmailSchema = z.object({
  * 
  * @typedef {z.infer<typeof changeEmailSchema>} ChangeEmailInput
  */
-export type ChangeEmailInput = z.infer<typeof changeEmailSchema>;
\ No newline at end of file
+export type ChangeEmailInput = z.infer<typeof changeEmailSchema>;
+
+/**
+ * 验证邮箱 Schema
+ * 
+ * @constant
+ * @description 验证确认当前邮箱请求的数据格式
+ * 
+ * @property {string} code - 发送到当前邮箱的验证码，必须是6位数字
+ */
+export const verifyEmailSchema = z.object({
+    code: z
+        .string()
+        .regex(/^\d{6}$/, '验证码必须是6位数字'),
+});
+
+/**
+ * 验证邮箱输入类型
+ * 
+ * @typedef {z.infer<typeof verifyEmailSchema>} VerifyEmailInput
+ */
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
+
+/**
+ * 确认绑定 TOTP Schema
+ * 
+ * @constant
+ * @description 验证确认绑定两步验证请求的数据格式
+ * 
+ * @property {string} code - 验证器 App 生成的动态码，必须是6位数字
+ */
+export const confirmTotpSchema = z.object({
+    code: z
+        .string()
+        .regex(/^\d{6}$/, '动态码必须是6位数字'),
+});
+
+/**
+ * 确认绑定 TOTP 输入类型
+ * 
+ * @typedef {z.infer<typeof confirmTotpSchema>} ConfirmTotpInput
+ */
+export type ConfirmTotpInput = z.infer<typeof confirmTotpSchema>;
+
+/**
+ * 两步验证码 Schema
+ * 
+ * @constant
+ * @description 验证关闭两步验证、重新生成恢复码等敏感操作请求的数据格式
+ * 
+ * @property {string} code - 6 位动态码或一次性恢复码
+ */
+export const mfaCodeSchema = z.object({
+    code: z
+        .string()
+        .trim()
+        .min(6, '请输入 6 位动态码或恢复码')
+        .max(32, '验证码格式不正确'),
+});
+
+/**
+ * 两步验证码输入类型
+ * 
+ * @typedef {z.infer<typeof mfaCodeSchema>} MfaCodeInput
+ */
+export type MfaCodeInput = z.infer<typeof mfaCodeSchema>;
+
+/**
+ * 会话 ID 路由参数 Schema
+ * 
+ * @constant
+ * @description 验证会话相关路由中的会话 ID 参数
+ * 
+ * @property {string} id - 会话 ID，必须是 UUID
+ */
+export const sessionIdParamSchema = z.object({
+    id: z.uuid('会话ID格式不正确'),
+});
+
+/**
+ * 会话 ID 路由参数类型
+ * 
+ * @typedef {z.infer<typeof sessionIdParamSchema>} SessionIdParam
+ */
+export type SessionIdParam = z.infer<typeof sessionIdParamSchema>;
+
+/**
+ * 用户 ID 路由参数 Schema
+ * 
+ * @constant
+ * @description 验证管理员用户操作路由中的用户 ID 参数
+ * 
+ * @property {string} id - 用户 ID，必须是 UUID
+ */
+export const userIdParamSchema = z.object({
+    id: z.uuid('用户ID格式不正确'),
+});
+
+/**
+ * 用户 ID 路由参数类型
+ * 
+ * @typedef {z.infer<typeof userIdParamSchema>} UserIdParam
+ */
+export type UserIdParam = z.infer<typeof userIdParamSchema>;
+
+/**
+ * 修改用户角色 Schema
+ * 
+ * @constant
+ * @description 验证管理员修改用户角色请求的数据格式
+ * 
+ * @property {UserRole} role - 新角色：user / admin
+ */
+export const updateUserRoleSchema = z.object({
+    role: z.enum(UserRole, '角色不正确'),
+});
+
+/**
+ * 修改用户角色输入类型
+ * 
+ * @typedef {z.infer<typeof updateUserRoleSchema>} UpdateUserRoleInput
+ */
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>;
+
+/**
+ * 模拟用户登录 Schema
+ * 
+ * @constant
+ * @description 验证管理员模拟用户登录请求的数据格式，原因写入模拟登录记录
+ * 
+ * @property {string} reason - 模拟登录原因（如工单号，1-500 个字符）
+ */
+export const impersonateUserSchema = z.object({
+    reason: z.string().trim().min(1, '请填写模拟登录原因').max(500, '原因不能超过500个字符'),
+});
+
+/**
+ * 模拟用户登录输入类型
+ * 
+ * @typedef {z.infer<typeof impersonateUserSchema>} ImpersonateUserInput
+ */
+export type ImpersonateUserInput = z.infer<typeof impersonateUserSchema>;
+
+/**
+ * 登录历史查询参数 Schema
+ * 
+ * @constant
+ * @description 验证登录历史查询参数（query string）
+ * 
+ * @property {number} [limit=20] - 每页数量，1-50
+ * @property {string} [cursor] - 分页游标（上一页返回的 next_cursor）
+ * @property {LoginStatus} [status] - 按登录状态筛选：success / failed
+ * @property {LoginMethod} [method] - 按登录方式筛选：password / verification_code / oauth / sso / passkey / magic_link
+ */
+export const loginHistoryQuerySchema = z.object({
+    limit: z.coerce
+        .number()
+        .int('每页数量必须是整数')
+        .min(1, '每页数量至少为 1')
+        .max(50, '每页数量最多为 50')
+        .default(20),
+    cursor: z
+        .string()
+        .min(1, '分页游标不能为空')
+        .optional(),
+    status: z
+        .enum(LoginStatus, '登录状态无效')
+        .optional(),
+    method: z
+        .enum(LoginMethod, '登录方式无效')
+        .optional(),
+});
+
+/**
+ * 登录历史查询参数类型
+ * 
+ * @typedef {z.infer<typeof loginHistoryQuerySchema>} LoginHistoryQueryInput
+ */
+export type LoginHistoryQueryInput = z.infer<typeof loginHistoryQuerySchema>;
+
+/**
+ * 创建 API 密钥 Schema
+ * 
+ * @constant
+ * @description 验证创建个人 API 密钥请求的数据格式
+ * 
+ * @property {string} name - 密钥名称，1-50 个字符，会自动去除首尾空格
+ * @property {ApiKeyScope[]} scopes - 权限范围，至少一个：users:read / users:write
+ * @property {number} [expiresInDays] - 有效天数，1-365（不传表示永不过期）
+ */
+export const createApiKeySchema = z.object({
+    name: z
+        .string()
+        .trim()
+        .min(1, '名称不能为空')
+        .max(50, '名称最多 50 个字符'),
+    scopes: z
+        .array(z.enum(ApiKeyScope, '权限范围无效'))
+        .min(1, '至少选择一个权限范围'),
+    expiresInDays: z
+        .number()
+        .int('有效天数必须是整数')
+        .min(1, '有效天数至少为 1')
+        .max(365, '有效天数最多为 365')
+        .optional(),
+});
+
+/**
+ * 创建 API 密钥输入类型
+ * 
+ * @typedef {z.infer<typeof createApiKeySchema>} CreateApiKeyInput
+ */
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+
+/**
+ * API 密钥 ID 路由参数 Schema
+ * 
+ * @constant
+ * @description 验证 API 密钥相关路由中的密钥 ID 参数
+ * 
+ * @property {string} id - API 密钥 ID，必须是 UUID
+ */
+export const apiKeyIdParamSchema = z.object({
+    id: z.uuid('API 密钥ID格式不正确'),
+});
+
+/**
+ * API 密钥 ID 路由参数类型
+ * 
+ * @typedef {z.infer<typeof apiKeyIdParamSchema>} ApiKeyIdParam
+ */
+export type ApiKeyIdParam = z.infer<typeof apiKeyIdParamSchema>;
@@ -0,0 +1,137 @@
+/**
+ * @file account-deletion.service.ts
+ * @description 账号注销业务逻辑层：用户自助注销（宽限期内可恢复）和永久删除
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import config from '[@BASE]/config/index.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { supabaseAdmin } from '[@BASE]/lib/supabase.client.ts';
+import { AppError, createUserError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { UserRepository } from '[@BASE-repositories]/user.repository.ts';
+import { sessionService } from '[@BASE-services]/session.service.ts';
+import { tokenRevocationService } from '[@BASE-services]/token-revocation.service.ts';
+import { userStatusService } from '[@BASE-services]/user-status.service.ts';
+import { dataExportService } from '[@BASE-services]/data-export.service.ts';
+import { UserStatus } from '[@BASE]/types/auth.types.ts';
+import type { User } from '[@BASE]/types/user.types.ts';
+
+/**
+ * 注销账号结果
+ */
+export interface AccountDeletionResult {
+    /** 注销时间 */
+    deleted_at: string | null;
+    /** 永久删除时间（之前重新登录可以恢复账号） */
+    purge_after: string | null;
+}
+
+export class AccountDeletionService {
+    private readonly userRepository = new UserRepository(true);
+
+    /**
+     * 注销当前账号：标记为已删除并吊销所有登录，宽限期结束后永久删除
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string | undefined} sessionId - 当前会话 ID（用于校验最近登录）
+     * @returns {Promise<AccountDeletionResult>} 注销时间和永久删除时间
+     * @throws {AppError} 本次登录已超过 ACCOUNT_DELETION_REAUTH_MAX_AGE，或用户不存在时抛出错误
+     */
+    async requestDeletion(userId: string, sessionId: string | undefined): Promise<AccountDeletionResult> {
+        const { gracePeriodDays, reauthMaxAge } = config.auth.accountDeletion;
+        await sessionService.assertRecentlyAuthenticated(sessionId, reauthMaxAge);
+
+        const user = await this.userRepository.findById(userId);
+        if (!user) {
+            throw createUserError.notFound(userId);
+        }
+
+        // 导出文件包含全部个人数据，注销时立即删除
+        await dataExportService.removeFiles(userId);
+
+        const purgeAfter = new Date(Date.now() + gracePeriodDays * 24 * 60 * 60 * 1000);
+        const deleted = await this.userRepository.softDelete(userId, purgeAfter);
+        userStatusService.invalidate(userId);
+
+        // 所有设备退出登录；API 密钥在账号恢复前因状态校验无法使用
+        await tokenRevocationService.revokeAllForUser(userId);
+
+        logger.info('Account deletion requested', { userId, purgeAfter: deleted.purge_after });
+
+        return { deleted_at: deleted.deleted_at, purge_after: deleted.purge_after };
+    }
+
+    /**
+     * 判断账号是否处于注销宽限期（可以通过重新登录恢复）
+     * 
+     * @param {User} user - 用户
+     * @returns {boolean} 是否可以恢复
+     */
+    isRestorable(user: User): boolean {
+        return user.status === UserStatus.DELETED &&
+            !!user.purge_after &&
+            new Date(user.purge_after).getTime() > Date.now();
+    }
+
+    /**
+     * 恢复注销宽限期内的账号
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<User>} 恢复后的用户
+     * @throws {AppError} 账号不在注销宽限期内时抛出错误
+     */
+    async restore(userId: string): Promise<User> {
+        const user = await this.userRepository.restore(userId);
+        userStatusService.invalidate(userId);
+        if (!user) {
+            throw new AppError(ErrorCodes.AUTH_ACCOUNT_DISABLED);
+        }
+
+        logger.info('Deleted account restored', { userId });
+
+        return user;
+    }
+
+    /**
+     * 永久删除账号（auth.users 和 public.users）
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<void>}
+     * @throws {Error} 删除失败时抛出错误
+     * 
+     * @description 宽限期结束的注销账号由 purge_deleted_users() 定时删除，该方法用于管理员立即删除；
+     * 手动清理过 auth.users 的账号可能没有对应记录，忽略不存在的错误
+     */
+    async purge(userId: string): Promise<void> {
+        const { error } = await supabaseAdmin.auth.admin.deleteUser(userId);
+        if (error && error.status !== 404) {
+            throw error;
+        }
+
+        await dataExportService.removeFiles(userId);
+        await this.userRepository.hardDelete(userId);
+        userStatusService.invalidate(userId);
+
+        logger.info('Account purged', { userId });
+    }
+
+    /**
+     * 永久删除宽限期已结束的注销账号
+     * 
+     * @returns {Promise<number>} 删除的账号数量
+     * @throws {Error} 数据库函数执行失败时抛出错误
+     * 
+     * @description 已安装 pg_cron 时数据库每天自动执行 purge_deleted_users()；未安装时由 deno task maintenance 定时调用
+     */
+    async purgeExpired(): Promise<number> {
+        const count = await this.userRepository.purgeDeleted();
+        if (count > 0) {
+            logger.info('Expired deleted accounts purged', { count });
+        }
+        return count;
+    }
+}
+
+export const accountDeletionService = new AccountDeletionService();
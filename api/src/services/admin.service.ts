@@ -5,7 +5,61 @@
  * @createDate 2026-01-25
  */
 
-import { supabaseAdmin } from '[@BASE]/lib/supabase.client.ts';
+import config from '[@BASE]/config/index.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { generateToken } from '[@BASE]/lib/jwt.ts';
+import { AppError, createUserError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { UserRepository } from '[@BASE-repositories]/user.repository.ts';
+import { impersonationLogRepository } from '[@BASE-repositories]/impersonation-log.repository.ts';
+import { accountDeletionService } from '[@BASE-services]/account-deletion.service.ts';
+import { loginLockoutService } from '[@BASE-services]/login-lockout.service.ts';
+import { tokenRevocationService } from '[@BASE-services]/token-revocation.service.ts';
+import { userStatusService } from '[@BASE-services]/user-status.service.ts';
+import { UserRole } from '[@BASE]/types/auth.types.ts';
+import type { ClientContext, JwtPayload, TokenActor } from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 解锁账号结果
+ */
+export interface AccountUnlockResult {
+    /** 用户 ID */
+    user_id: string;
+    /** 用户邮箱 */
+    email: string;
+    /** 解锁前是否处于锁定期 */
+    was_locked: boolean;
+}
+
+/**
+ * 修改用户角色结果
+ */
+export interface UserRoleUpdateResult {
+    /** 用户 ID */
+    user_id: string;
+    /** 用户邮箱 */
+    email: string;
+    /** 修改后的角色 */
+    role: UserRole;
+    /** 是否吊销了该用户已签发的令牌（角色未变化时不吊销） */
+    tokens_revoked: boolean;
+}
+
+/**
+ * 模拟用户登录结果
+ */
+export interface ImpersonationResult {
+    /** 被模拟的用户 */
+    user: {
+        id: string;
+        email: string;
+        name: string;
+    };
+    /** 访问令牌（带 act 声明，没有刷新令牌） */
+    token: string;
+    /** 访问令牌过期时间 */
+    tokenExpiresAt: string;
+}
 
 /**
  * 管理员服务类
@@ -14,22 +68,174 @@ import { supabaseAdmin } from '[@BASE]/lib/supabase.client.ts';
  * @description 提供需要管理员权限的业务逻辑方法，使用 Admin 客户端可以绕过 RLS
  */
 export class AdminService {
+    private readonly userRepository = new UserRepository(true);
+
     /**
-     * 删除用户
+     * 删除用户（立即永久删除，不经过注销宽限期）
      * 
      * @param {string} userId - 用户 ID
      * @returns {Promise<void>}
      * @throws {Error} 当删除操作失败时抛出错误
      * 
-     * @description 使用 Admin 客户端可以删除任何用户（绕过 RLS）
+     * @description 同时删除 auth.users 和 public.users 中的记录，关联数据通过外键级联删除
      */
-    async deleteUser(userId: string) {
-        // 使用 Admin 客户端可以删除任何用户
-        const { error } = await supabaseAdmin
-            .from('users')
-            .delete()
-            .eq('id', userId);
-
-        if (error) throw error;
+    async deleteUser(userId: string): Promise<void> {
+        await accountDeletionService.purge(userId);
     }
-}
\ No newline at end of file
+
+    /**
+     * 解锁因登录失败次数过多被锁定的账号
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} adminId - 执行操作的管理员 ID
+     * @returns {Promise<AccountUnlockResult>} 解锁结果
+     * @throws {AppError} 用户不存在时抛出错误
+     * 
+     * @description 账号按登录邮箱锁定；按 IP 的锁定不受影响，到期后自动解除
+     */
+    async unlockAccount(userId: string, adminId: string): Promise<AccountUnlockResult> {
+        const user = await this.userRepository.findById(userId);
+        if (!user) {
+            throw createUserError.notFound(userId);
+        }
+
+        const wasLocked = await loginLockoutService.unlockAccount(user.email, adminId);
+
+        logger.info('Account unlocked by admin', { userId, adminId, wasLocked });
+
+        return {
+            user_id: user.id,
+            email: user.email,
+            was_locked: wasLocked,
+        };
+    }
+
+    /**
+     * 修改用户角色
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {UserRole} role - 新角色
+     * @param {string} adminId - 执行操作的管理员 ID
+     * @returns {Promise<UserRoleUpdateResult>} 修改结果
+     * @throws {AppError} 用户不存在，或修改自己的角色时抛出错误
+     * 
+     * @description 角色写在访问令牌中，修改后吊销该用户所有会话和令牌，重新登录后按新角色签发；
+     * 该用户作为管理员签发的模拟登录令牌同时失效（按 act 声明检查管理员的吊销时间点）；
+     * 不允许修改自己的角色，避免最后一个管理员误操作后无人可以管理
+     */
+    async updateUserRole(userId: string, role: UserRole, adminId: string): Promise<UserRoleUpdateResult> {
+        if (userId === adminId) {
+            throw new AppError(ErrorCodes.AUTH_FORBIDDEN, '不能修改自己的角色');
+        }
+
+        const user = await this.userRepository.findById(userId);
+        if (!user) {
+            throw createUserError.notFound(userId);
+        }
+
+        if (user.role === role) {
+            return { user_id: user.id, email: user.email, role, tokens_revoked: false };
+        }
+
+        await this.userRepository.updateById(userId, { role });
+        await tokenRevocationService.revokeAllForUser(userId);
+        if (user.role === UserRole.ADMIN) {
+            await impersonationLogRepository.markRevokedByAdminId(userId);
+        }
+
+        logger.info('User role updated by admin', { userId, adminId, from: user.role, to: role });
+
+        return { user_id: user.id, email: user.email, role, tokens_revoked: true };
+    }
+
+    /**
+     * 模拟用户登录（客服以用户身份复现问题）
+     * 
+     * @param {string} userId - 被模拟的用户 ID
+     * @param {TokenActor} admin - 发起模拟登录的管理员
+     * @param {string} reason - 模拟登录原因
+     * @param {ClientContext} [client] - 管理员的客户端信息
+     * @returns {Promise<ImpersonationResult>} 模拟登录的访问令牌
+     * @throws {AppError} 用户不存在、账号不是正常状态，或模拟自己和其他管理员时抛出错误
+     * 
+     * @description
+     * 签发带 act（管理员）声明的短期访问令牌，不创建会话和刷新令牌，过期后需要重新发起，可通过 endImpersonation 提前结束；
+     * 模拟登录期间不能修改密码、邮箱、两步验证等凭据或注销账号（denyImpersonation 中间件），
+     * 每次模拟登录写入 impersonation_logs；不允许模拟管理员，避免借用其他管理员的身份
+     */
+    async impersonateUser(
+        userId: string,
+        admin: TokenActor,
+        reason: string,
+        client?: ClientContext
+    ): Promise<ImpersonationResult> {
+        if (userId === admin.sub) {
+            throw new AppError(ErrorCodes.AUTH_FORBIDDEN, '不能模拟自己登录');
+        }
+
+        const user = await this.userRepository.findById(userId);
+        if (!user) {
+            throw createUserError.notFound(userId);
+        }
+        if (user.role === UserRole.ADMIN) {
+            throw new AppError(ErrorCodes.AUTH_FORBIDDEN, '不能模拟管理员登录');
+        }
+        userStatusService.assertActive(user);
+
+        const { expiresIn } = config.auth.impersonation;
+        const jti = crypto.randomUUID();
+        const expiresAt = new Date(Date.now() + expiresIn * 1000).toISOString();
+
+        // 先写审计记录，写入失败时不签发令牌
+        await impersonationLogRepository.create({
+            admin_id: admin.sub,
+            admin_email: admin.email,
+            user_id: user.id,
+            reason,
+            token_jti: jti,
+            ip_address: client?.ip ?? null,
+            user_agent: client?.userAgent ?? null,
+            expires_at: expiresAt,
+        });
+
+        const token = await generateToken(
+            { sub: user.id, email: user.email, role: user.role, jti, act: admin },
+            expiresIn
+        );
+
+        logger.warn('User impersonated by admin', { userId, actorId: admin.sub, reason, expiresAt });
+
+        return {
+            user: { id: user.id, email: user.email, name: user.name },
+            token,
+            tokenExpiresAt: expiresAt,
+        };
+    }
+
+    /**
+     * 提前结束模拟登录
+     * 
+     * @param {JwtPayload} payload - 当前模拟登录令牌的载荷
+     * @returns {Promise<void>}
+     * @throws {AppError} 当前令牌不是模拟登录令牌时抛出错误
+     * 
+     * @description 吊销该令牌（按 jti）并在 impersonation_logs 中记录结束时间
+     */
+    async endImpersonation(payload: JwtPayload): Promise<void> {
+        if (!payload.act || !payload.jti) {
+            throw new AppError(ErrorCodes.AUTH_FORBIDDEN, '当前不是模拟登录');
+        }
+
+        await tokenRevocationService.revokeToken(payload);
+        await impersonationLogRepository.markRevoked(payload.jti);
+
+        logger.warn('Impersonation ended by admin', { userId: payload.sub, actorId: payload.act.sub });
+    }
+}
+
+/**
+ * 管理员服务单例
+ * 
+ * @constant
+ */
+export const adminService = new AdminService();
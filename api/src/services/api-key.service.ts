@@ -0,0 +1,179 @@
+/**
+ * @file api-key.service.ts
+ * @description 个人 API 密钥业务逻辑层：创建、列出、吊销 API 密钥，以及使用 API 密钥认证请求
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { logger } from '[@BASE]/lib/logger.ts';
+import { TtlCache } from '[@BASE]/lib/ttl-cache.ts';
+import { generateRandomToken, hashToken } from '[@BASE]/lib/token.ts';
+import { AppError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { apiKeyRepository } from '[@BASE-repositories]/api-key.repository.ts';
+import { UserRepository } from '[@BASE-repositories]/user.repository.ts';
+import type { ApiKey, ApiKeyScope, ClientContext } from '[@BASE]/types/auth.types.ts';
+import type { User } from '[@BASE]/types/user.types.ts';
+
+/** 密钥明文前缀，便于在日志和代码仓库扫描中识别泄露的密钥 */
+const KEY_PREFIX = 'ak_';
+
+/** 保存用于展示的密钥前缀长度（含 KEY_PREFIX） */
+const DISPLAY_PREFIX_LENGTH = 11;
+
+/** 每个用户最多持有的未吊销密钥数量 */
+const MAX_ACTIVE_KEYS = 20;
+
+/** 最近使用时间的最小更新间隔（毫秒），避免每个请求都写数据库 */
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * API 密钥信息（返回给前端的列表项，不包含密钥哈希）
+ */
+export type ApiKeyInfo = Omit<ApiKey, 'user_id' | 'key_hash'>;
+
+/**
+ * 新创建的 API 密钥（key 为密钥明文，只在创建时返回一次）
+ */
+export interface CreatedApiKey extends ApiKeyInfo {
+    key: string;
+}
+
+/**
+ * API 密钥认证结果
+ */
+export interface ApiKeyAuthResult {
+    apiKey: ApiKey;
+    user: User;
+}
+
+export class ApiKeyService {
+    private readonly userRepository = new UserRepository(true);
+    /** apiKeyId -> 最近一次写入 last_used_at 的标记 */
+    private readonly touchedCache = new TtlCache<true>(TOUCH_INTERVAL_MS);
+
+    /**
+     * 创建 API 密钥
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {object} data - 密钥信息
+     * @param {string} data.name - 名称
+     * @param {ApiKeyScope[]} data.scopes - 权限范围
+     * @param {number} [data.expiresInDays] - 有效天数（不传表示永不过期）
+     * @returns {Promise<CreatedApiKey>} 新创建的密钥（包含只返回一次的密钥明文）
+     * @throws {AppError} 未吊销的密钥数量已达上限时抛出错误
+     */
+    async create(
+        userId: string,
+        data: { name: string; scopes: ApiKeyScope[]; expiresInDays?: number }
+    ): Promise<CreatedApiKey> {
+        const activeCount = await apiKeyRepository.countActiveByUserId(userId);
+        if (activeCount >= MAX_ACTIVE_KEYS) {
+            throw new AppError(ErrorCodes.USER_API_KEY_LIMIT_EXCEEDED);
+        }
+
+        const key = `${KEY_PREFIX}${generateRandomToken()}`;
+        const apiKey = await apiKeyRepository.create({
+            userId,
+            name: data.name,
+            prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+            keyHash: await hashToken(key),
+            scopes: [...new Set(data.scopes)],
+            expiresAt: data.expiresInDays
+                ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000)
+                : null,
+        });
+
+        logger.info('API key created', { userId, apiKeyId: apiKey.id });
+
+        return { ...this.toApiKeyInfo(apiKey), key };
+    }
+
+    /**
+     * 查询用户的 API 密钥列表
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<ApiKeyInfo[]>} API 密钥列表（按创建时间倒序，包含已吊销的密钥）
+     */
+    async list(userId: string): Promise<ApiKeyInfo[]> {
+        const apiKeys = await apiKeyRepository.findByUserId(userId);
+        return apiKeys.map((apiKey) => this.toApiKeyInfo(apiKey));
+    }
+
+    /**
+     * 吊销用户自己的 API 密钥
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} id - API 密钥 ID
+     * @returns {Promise<void>}
+     * @throws {AppError} 密钥不存在、不属于该用户或已吊销时抛出错误
+     */
+    async revoke(userId: string, id: string): Promise<void> {
+        const apiKey = await apiKeyRepository.revoke(userId, id);
+        if (!apiKey) {
+            throw new AppError(ErrorCodes.USER_API_KEY_NOT_FOUND);
+        }
+
+        logger.info('API key revoked', { userId, apiKeyId: id });
+    }
+
+    /**
+     * 使用 API 密钥认证请求
+     * 
+     * @param {string} key - 密钥明文（Authorization: ApiKey 之后的部分）
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<ApiKeyAuthResult>} 密钥记录和所属用户
+     * @throws {AppError} 密钥不存在、已吊销、已过期或用户不存在时抛出错误
+     */
+    async authenticate(key: string, client?: ClientContext): Promise<ApiKeyAuthResult> {
+        if (!key.startsWith(KEY_PREFIX)) {
+            throw new AppError(ErrorCodes.AUTH_API_KEY_INVALID);
+        }
+
+        const apiKey = await apiKeyRepository.findByKeyHash(await hashToken(key));
+        if (
+            !apiKey ||
+            apiKey.revoked_at ||
+            (apiKey.expires_at && new Date(apiKey.expires_at).getTime() <= Date.now())
+        ) {
+            throw new AppError(ErrorCodes.AUTH_API_KEY_INVALID);
+        }
+
+        const user = await this.userRepository.findById(apiKey.user_id);
+        if (!user) {
+            throw new AppError(ErrorCodes.AUTH_API_KEY_INVALID);
+        }
+
+        await this.touch(apiKey.id, client);
+
+        return { apiKey, user };
+    }
+
+    /**
+     * 更新最近使用时间和 IP（节流，每个密钥每分钟最多写一次）
+     */
+    private async touch(apiKeyId: string, client?: ClientContext): Promise<void> {
+        if (this.touchedCache.get(apiKeyId)) return;
+        this.touchedCache.set(apiKeyId, true);
+
+        try {
+            await apiKeyRepository.updateLastUsed(apiKeyId, client?.ip ?? null);
+        } catch (error) {
+            // 使用记录只用于展示，更新失败不影响请求
+            logger.warn('Failed to update API key last used', {
+                apiKeyId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    /**
+     * 转换为返回给前端的 API 密钥信息
+     */
+    private toApiKeyInfo(apiKey: ApiKey): ApiKeyInfo {
+        const { user_id: _userId, key_hash: _keyHash, ...info } = apiKey;
+        return info;
+    }
+}
+
+export const apiKeyService = new ApiKeyService();
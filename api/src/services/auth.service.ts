@@ -5,11 +5,48 @@
  * @createDate 2026-01-26
  */
 
+import config from '[@BASE]/config/index.ts';
 import { logger } from '[@BASE]/lib/logger.ts';
+import { createEphemeralClient } from '[@BASE]/lib/supabase.client.ts';
 import { generateToken } from '[@BASE]/lib/jwt.ts';
+import { generateRandomToken, hashToken } from '[@BASE]/lib/token.ts';
+import { AppError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
 import { UserRepository } from '[@BASE-repositories]/user.repository.ts';
-import type { LoginResponse } from '[@BASE]/types/auth.types.ts';
+import { refreshTokenRepository } from '[@BASE-repositories]/refresh-token.repository.ts';
+import { tokenRevocationService } from '[@BASE-services]/token-revocation.service.ts';
+import { sessionService } from '[@BASE-services]/session.service.ts';
+import { verificationCodeService } from '[@BASE-services]/verification-code.service.ts';
+import { credentialService } from '[@BASE-services]/credential.service.ts';
+import { loginLogService } from '[@BASE-services]/login-log.service.ts';
+import { loginLockoutService } from '[@BASE-services]/login-lockout.service.ts';
+import { loginRiskService } from '[@BASE-services]/login-risk.service.ts';
+import { loginChallengeService } from '[@BASE-services]/login-challenge.service.ts';
+import { mfaService } from '[@BASE-services]/mfa.service.ts';
+import { webauthnService } from '[@BASE-services]/webauthn.service.ts';
+import { oauthService } from '[@BASE-services]/oauth.service.ts';
+import { magicLinkService } from '[@BASE-services]/magic-link.service.ts';
+import { userStatusService } from '[@BASE-services]/user-status.service.ts';
+import { accountDeletionService } from '[@BASE-services]/account-deletion.service.ts';
+import type { PasswordUserParams } from '[@BASE-services]/credential.service.ts';
+import type { AuthenticationResponseJSON } from '[@BASE]/lib/webauthn.ts';
+import {
+    LoginChallengeType,
+    LoginMethod,
+    LoginRiskLevel,
+    RefreshTokenRevokeReason,
+    VerificationPurpose,
+} from '[@BASE]/types/auth.types.ts';
+import type {
+    ClientContext,
+    JwtPayload,
+    LoginResponse,
+    LoginResult,
+    LoginRiskSignal,
+    MagicLinkPollResult,
+} from '[@BASE]/types/auth.types.ts';
 import type { User } from '[@BASE]/types/user.types.ts';
+import { SessionRevokeReason } from '[@BASE]/types/session.types.ts';
 
 /**
  * 确保 public.users 中存在对应用户（不存在则自动创建）
@@ -90,15 +127,629 @@ export class AuthService {
     }
 
     /**
-     * 组装登录响应（生成业务 JWT）
+     * 邮箱 + 密码注册
+     * 
+     * @param {PasswordUserParams} params - 注册参数（姓名、邮箱、密码）
+     * @returns {Promise<User>} 新创建的用户
+     * @throws {AppError} 邮箱已被注册时抛出错误
+     * 
+     * @description 密码由当前配置的凭据提供者保存；新用户 email_verified 为 false，完成邮箱验证后才会置为 true
      */
-    async buildLoginResponse(user: User): Promise<LoginResponse> {
-        const jwtToken = await generateToken({
-            sub: user.id,
+    async register(params: PasswordUserParams): Promise<User> {
+        // 1. 检查邮箱是否已被注册
+        const existingUser = await this.adminUserRepository.findByEmail(params.email);
+        if (existingUser) {
+            throw new AppError(ErrorCodes.USER_EMAIL_ALREADY_EXISTS);
+        }
+
+        // 2. 通过凭据提供者创建用户
+        const user = await credentialService.createUser(params);
+
+        logger.info('New user registered with password', {
+            userId: user.id,
             email: user.email,
-            role: undefined,
         });
 
+        return user;
+    }
+
+    /**
+     * 登录入口：执行认证、记录登录日志并组装登录响应
+     * 
+     * @param {LoginMethod} method - 登录方式
+     * @param {string} email - 登录邮箱
+     * @param {() => Promise<User>} authenticate - 具体登录方式的认证逻辑，失败时抛出错误
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<LoginResult>} 登录响应；开启两步验证或高风险登录时返回验证挑战，完成验证后才签发令牌
+     * @throws {AppError} 账号或 IP 被锁定、认证失败，或账号不是正常状态时抛出错误
+     * 
+     * @description 所有登录方式都应通过该方法完成，保证每次登录尝试（成功或失败）都写入 login_logs，
+     * 并统一执行登录失败锁定策略、账号状态校验、登录风险评估和两步验证；
+     * 注销宽限期内的账号返回恢复账号挑战，用户确认恢复后再继续后续验证
+     */
+    async login(
+        method: LoginMethod,
+        email: string,
+        authenticate: () => Promise<User>,
+        client?: ClientContext
+    ): Promise<LoginResult> {
+        let user: User | undefined;
+        try {
+            // 锁定期内直接拒绝，不再校验凭据
+            await loginLockoutService.assertNotLocked(email, client?.ip);
+            user = await authenticate();
+            // 凭据正确但账号未激活、已暂停或已删除（超过注销宽限期）：记录失败日志，不计入锁定策略
+            if (!accountDeletionService.isRestorable(user)) {
+                userStatusService.assertActive(user);
+            }
+        } catch (error) {
+            // 凭据正确但账号状态异常时已知道用户；凭据错误时由登录日志按邮箱查找
+            await loginLogService.recordFailure({ method, email, userId: user?.id, client }, error);
+            await loginLockoutService.registerFailure(email, client?.ip, error);
+            throw error;
+        }
+
+        if (accountDeletionService.isRestorable(user)) {
+            return loginChallengeService.createRestoreChallenge({ user, method, email, signals: [], client });
+        }
+
+        return this.continueLogin(method, email, user, client);
+    }
+
+    /**
+     * 恢复注销宽限期内的账号并继续登录（登录时返回恢复账号挑战，用户确认恢复后调用）
+     * 
+     * @param {string} challengeToken - 登录时返回的挑战令牌
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<LoginResult>} 登录响应；开启两步验证或高风险登录时返回验证挑战
+     * @throws {AppError} 挑战无效或已过期、账号被锁定、宽限期已结束时抛出错误
+     * 
+     * @description 凭据已在登录时校验，恢复后继续执行两步验证和登录风险评估，恢复账号不能绕过两步验证
+     */
+    async restoreAccount(challengeToken: string, client?: ClientContext): Promise<LoginResult> {
+        const challenge = await loginChallengeService.findPending(challengeToken, LoginChallengeType.ACCOUNT_RESTORE);
+        const method = challenge.login_method as LoginMethod;
+        const email = challenge.email;
+
+        let user: User;
+        try {
+            await loginLockoutService.assertNotLocked(email, client?.ip);
+            await loginChallengeService.complete(challenge);
+            user = await accountDeletionService.restore(challenge.user_id);
+        } catch (error) {
+            await loginLogService.recordFailure({ method, email, userId: challenge.user_id, client }, error);
+            throw error;
+        }
+
+        return this.continueLogin(method, email, user, client);
+    }
+
+    /**
+     * 完成登录验证挑战（高风险登录的第二步）
+     * 
+     * @param {string} challengeToken - 登录时返回的挑战令牌
+     * @param {string} code - 邮箱验证码
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<LoginResponse>} 登录响应
+     * @throws {AppError} 挑战无效或已过期、账号被锁定、验证码错误时抛出错误
+     * 
+     * @description 验证码错误与首次登录失败一样写入 login_logs 并计入锁定策略
+     */
+    verifyLoginChallenge(
+        challengeToken: string,
+        code: string,
+        client?: ClientContext
+    ): Promise<LoginResponse> {
+        return this.completeChallenge(
+            challengeToken,
+            LoginChallengeType.EMAIL_OTP,
+            (user) => verificationCodeService.consumeCode(user.email, code, VerificationPurpose.LOGIN, user.id),
+            client
+        );
+    }
+
+    /**
+     * 完成两步验证（开启两步验证的用户登录的第二步）
+     * 
+     * @param {string} challengeToken - 登录时返回的挑战令牌
+     * @param {string} code - 验证器 App 生成的动态码，或一次性恢复码
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<LoginResponse>} 登录响应
+     * @throws {AppError} 挑战无效或已过期、账号被锁定、动态码错误时抛出错误
+     * 
+     * @description 动态码错误与首次登录失败一样写入 login_logs 并计入锁定策略
+     */
+    verifyMfaChallenge(
+        challengeToken: string,
+        code: string,
+        client?: ClientContext
+    ): Promise<LoginResponse> {
+        return this.completeChallenge(
+            challengeToken,
+            LoginChallengeType.TOTP,
+            (user) => mfaService.consumeCode(user.id, code),
+            client
+        );
+    }
+
+    /**
+     * 通行密钥登录
+     * 
+     * @param {AuthenticationResponseJSON} response - 浏览器返回的登录响应
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<LoginResult>} 登录响应（通行密钥登录不会返回验证挑战）
+     * @throws {AppError} 通行密钥不存在、账号被锁定或校验不通过时抛出错误
+     * 
+     * @description 先按凭据 ID 找到所属用户，再走统一登录流程（写入登录日志、锁定策略和风险评估）；
+     * 通行密钥不存在时无法确定登录邮箱，不写入登录日志
+     */
+    async loginWithPasskey(
+        response: AuthenticationResponseJSON,
+        client?: ClientContext
+    ): Promise<LoginResult> {
+        const { credential, user } = await webauthnService.findLoginCredential(response);
+
+        return this.login(
+            LoginMethod.PASSKEY,
+            user.email,
+            () => webauthnService.authenticate(credential, user, response),
+            client
+        );
+    }
+
+    /**
+     * 第三方（OIDC/OAuth2）登录
+     * 
+     * @param {string} provider - 身份提供方标识
+     * @param {string} code - 授权码
+     * @param {string} state - 回调地址中的 state
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<LoginResult>} 登录响应；开启两步验证或高风险登录时返回验证挑战
+     * @throws {AppError} 回调校验失败、邮箱冲突或账号被锁定时抛出错误
+     * 
+     * @description 先完成回调校验拿到第三方身份，再走统一登录流程（写入登录日志、锁定策略、风险评估和两步验证）；
+     * 回调校验失败时无法确定登录邮箱，不写入登录日志
+     */
+    async loginWithOAuth(
+        provider: string,
+        code: string,
+        state: string,
+        client?: ClientContext
+    ): Promise<LoginResult> {
+        const profile = await oauthService.exchangeCode(provider, code, state);
+
+        return this.login(
+            LoginMethod.OAUTH,
+            profile.email,
+            () => oauthService.resolveUser(profile),
+            client
+        );
+    }
+
+    /**
+     * 登录链接登录（点击链接的浏览器）
+     * 
+     * @param {string} exchangeToken - 确认登录链接时返回的换取令牌
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<LoginResult>} 登录响应；开启两步验证时返回验证挑战
+     * @throws {AppError} 换取令牌无效或已使用、发起请求的客户端已通过轮询登录、账号被锁定时抛出错误
+     * 
+     * @description 换取令牌无效时无法确定登录邮箱，不写入登录日志
+     */
+    async loginWithMagicLink(exchangeToken: string, client?: ClientContext): Promise<LoginResult> {
+        const link = await magicLinkService.redeemExchange(exchangeToken);
+
+        return this.login(
+            LoginMethod.MAGIC_LINK,
+            link.email,
+            () => magicLinkService.resolveUser(link.email),
+            client
+        );
+    }
+
+    /**
+     * 轮询登录链接（发起请求的客户端，可与点击链接的设备不同）
+     * 
+     * @param {string} pollToken - 发送登录链接时返回的轮询令牌
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<MagicLinkPollResult>} 链接尚未确认时返回 pending，确认后返回登录响应（轮询令牌只能兑换一次）
+     * @throws {AppError} 轮询令牌无效、已过期或已兑换，点击链接的浏览器已登录，账号被锁定时抛出错误
+     */
+    async pollMagicLink(pollToken: string, client?: ClientContext): Promise<MagicLinkPollResult> {
+        const link = await magicLinkService.findByPollToken(pollToken);
+        if (!link.approved_at) {
+            return { status: 'pending' };
+        }
+
+        const result = await this.login(
+            LoginMethod.MAGIC_LINK,
+            link.email,
+            () => magicLinkService.redeemPoll(link),
+            client
+        );
+        return { status: 'completed', result };
+    }
+
+    /**
+     * 邮箱验证码认证（Supabase Auth OTP）
+     * 
+     * @param {string} email - 邮箱
+     * @param {string} code - 验证码
+     * @returns {Promise<User>} 认证通过的用户（首次登录时自动在 public.users 中创建）
+     * @throws {AppError} 验证码错误或用户同步失败时抛出错误
+     */
+    async authenticateWithCode(email: string, code: string): Promise<User> {
+        // 登录会话保存在客户端上，不能使用共享的 supabase 客户端
+        const { data, error } = await createEphemeralClient().auth.verifyOtp({
+            email,
+            token: code,
+            type: 'email',
+        });
+
+        if (error) {
+            logger.error('Verification code verification failed', {
+                email,
+                error: error.message,
+                errorCode: error.status,
+            });
+            throw new AppError(ErrorCodes.VERIFICATION_CODE_INVALID);
+        }
+
+        if (!data.user) {
+            logger.error('Supabase verifyOtp returned no user', { data });
+            throw new AppError(ErrorCodes.INTERNAL_ERROR, '登录失败，请稍后重试');
+        }
+
+        // Supabase Auth 验证成功后，会在 auth.users 中创建用户
+        // 但不会在我们的 public.users 表中创建，需要手动同步
+        try {
+            return await this.ensurePublicUserExists({
+                id: data.user.id,
+                email,
+                emailVerified: true, // 验证码登录表示邮箱已验证
+            });
+        } catch (syncErr: unknown) {
+            logger.error('Failed to sync user after verifyOtp', {
+                supabaseUserId: data.user.id,
+                email,
+                error: syncErr instanceof Error ? syncErr.message : String(syncErr),
+            });
+            throw new AppError(ErrorCodes.INTERNAL_ERROR, '用户注册失败，请稍后重试');
+        }
+    }
+
+    /**
+     * 邮箱 + 密码认证
+     * 
+     * @param {string} email - 邮箱
+     * @param {string} password - 密码
+     * @returns {Promise<User>} 认证通过的用户
+     * @throws {AppError} 邮箱或密码错误时抛出错误（不区分邮箱不存在和密码错误）
+     */
+    async authenticateWithPassword(email: string, password: string): Promise<User> {
+        const user = await credentialService.verify(email, password);
+        if (!user) {
+            logger.warn('Password login failed', { email });
+            throw new AppError(ErrorCodes.AUTH_INVALID_CREDENTIALS);
+        }
+
+        return user;
+    }
+
+    /**
+     * 组装登录响应（创建会话，生成短期访问令牌 + 该会话的刷新令牌）
+     */
+    async buildLoginResponse(user: User, client?: ClientContext): Promise<LoginResponse> {
+        const session = await sessionService.createSession(user.id, client);
+
+        return this.issueTokens(user, {
+            sessionId: session.id,
+            parentId: null,
+            client,
+        });
+    }
+
+    /**
+     * 使用刷新令牌换取新的令牌对（轮换）
+     * 
+     * @param {string} refreshToken - 客户端持有的刷新令牌（明文）
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<LoginResponse>} 新的访问令牌和刷新令牌
+     * @throws {AppError} 令牌不存在、已过期或被重复使用，或账号不是正常状态时抛出错误
+     * 
+     * @description
+     * 1. 每个刷新令牌只能使用一次，使用后立即吊销并签发同一家族的新令牌
+     * 2. 已被轮换的令牌再次出现，视为令牌泄露，吊销整个家族（该次登录的所有令牌）
+     * 3. 令牌家族 ID 即会话 ID，会话被吊销后刷新令牌同样失效
+     */
+    async refreshSession(refreshToken: string, client?: ClientContext): Promise<LoginResponse> {
+        const tokenHash = await hashToken(refreshToken);
+        const stored = await refreshTokenRepository.findByHash(tokenHash);
+
+        if (!stored) {
+            throw new AppError(ErrorCodes.AUTH_TOKEN_INVALID);
+        }
+
+        if (stored.revoked_at) {
+            // 已轮换的令牌被再次使用：吊销整个家族
+            if (stored.revoked_reason === RefreshTokenRevokeReason.ROTATED) {
+                await this.handleRefreshTokenReuse(stored.family_id, stored.user_id);
+                throw new AppError(ErrorCodes.AUTH_REFRESH_TOKEN_REUSED);
+            }
+            throw new AppError(ErrorCodes.AUTH_TOKEN_INVALID);
+        }
+
+        if (new Date(stored.expires_at).getTime() <= Date.now()) {
+            throw new AppError(ErrorCodes.AUTH_TOKEN_EXPIRED);
+        }
+
+        if (!(await sessionService.isActive(stored.family_id))) {
+            throw new AppError(ErrorCodes.AUTH_TOKEN_REVOKED);
+        }
+
+        // 抢占式吊销：并发请求中只有一个能成功，失败的一方视为重放
+        const claimed = await refreshTokenRepository.revokeIfActive(
+            stored.id,
+            RefreshTokenRevokeReason.ROTATED
+        );
+        if (!claimed) {
+            await this.handleRefreshTokenReuse(stored.family_id, stored.user_id);
+            throw new AppError(ErrorCodes.AUTH_REFRESH_TOKEN_REUSED);
+        }
+
+        const user = await this.adminUserRepository.findById(stored.user_id);
+        if (!user) {
+            throw new AppError(ErrorCodes.USER_NOT_FOUND);
+        }
+        userStatusService.assertActive(user);
+
+        const loginData = await this.issueTokens(user, {
+            sessionId: stored.family_id,
+            parentId: stored.id,
+            client,
+        });
+
+        await sessionService.extend(stored.family_id, loginData.refreshTokenExpiresAt, client);
+
+        logger.info('Refresh token rotated', {
+            userId: user.id,
+            familyId: stored.family_id,
+        });
+
+        return loginData;
+    }
+
+    /**
+     * 退出登录：吊销当前访问令牌和当前会话（含会话下的刷新令牌）
+     * 
+     * @param {JwtPayload} payload - 当前访问令牌载荷
+     * @param {string} [refreshToken] - 客户端持有的刷新令牌（访问令牌不含会话 ID 时用于定位令牌家族）
+     * @returns {Promise<void>}
+     */
+    async logout(payload: JwtPayload, refreshToken?: string): Promise<void> {
+        await tokenRevocationService.revokeToken(payload);
+
+        if (payload.sid) {
+            await sessionService.revokeSession(payload.sid, SessionRevokeReason.LOGOUT);
+            return;
+        }
+
+        if (!refreshToken) return;
+
+        const stored = await refreshTokenRepository.findByHash(await hashToken(refreshToken));
+        // 只允许吊销自己的刷新令牌
+        if (!stored || stored.user_id !== payload.sub) {
+            logger.warn('Logout with unknown refresh token', { userId: payload.sub });
+            return;
+        }
+
+        await refreshTokenRepository.revokeFamily(
+            stored.family_id,
+            RefreshTokenRevokeReason.LOGOUT
+        );
+    }
+
+    /**
+     * 发送重置密码验证码
+     * 
+     * @param {string} email - 邮箱
+     * @returns {Promise<void>}
+     * @throws {AppError} 当发送过于频繁或邮件发送失败时抛出错误
+     * 
+     * @description 邮箱未注册时静默返回，避免通过该接口探测邮箱是否已注册
+     */
+    async requestPasswordReset(email: string): Promise<void> {
+        const user = await this.adminUserRepository.findByEmail(email);
+        if (!user) {
+            logger.info('Password reset requested for unknown email', { email });
+            return;
+        }
+
+        await verificationCodeService.sendCode(email, VerificationPurpose.RESET_PASSWORD, user.id);
+    }
+
+    /**
+     * 通过邮箱验证码重置密码
+     * 
+     * @param {string} email - 邮箱
+     * @param {string} code - 重置密码验证码
+     * @param {string} newPassword - 新密码
+     * @returns {Promise<void>}
+     * @throws {AppError} 当验证码错误、过期或错误次数过多时抛出错误
+     * 
+     * @description 重置成功后吊销该用户所有会话和令牌，所有设备需要重新登录
+     */
+    async resetPassword(email: string, code: string, newPassword: string): Promise<void> {
+        const user = await this.adminUserRepository.findByEmail(email);
+        if (!user) {
+            // 与验证码错误返回相同的错误，不暴露邮箱是否注册
+            throw new AppError(ErrorCodes.VERIFICATION_CODE_INVALID);
+        }
+
+        await verificationCodeService.consumeCode(
+            email,
+            code,
+            VerificationPurpose.RESET_PASSWORD,
+            user.id
+        );
+
+        await credentialService.setPassword(user, newPassword);
+
+        await tokenRevocationService.revokeAllForUser(user.id);
+
+        logger.info('User password reset successfully', { userId: user.id });
+    }
+
+    /**
+     * 凭据校验通过、账号状态正常后：评估登录风险，按需返回两步验证或邮箱验证挑战，否则完成登录
+     */
+    private async continueLogin(
+        method: LoginMethod,
+        email: string,
+        user: User,
+        client?: ClientContext
+    ): Promise<LoginResult> {
+        const risk = await loginRiskService.assess(user, email, client);
+
+        // 通行密钥登录要求用户验证（生物识别或 PIN），本身即为抗钓鱼的多因素认证，不再要求动态码或邮箱验证码
+        if (method === LoginMethod.PASSKEY) {
+            return this.completeLogin(method, email, user, risk.signals, client);
+        }
+
+        // 开启两步验证的用户必须提交动态码，动态码同时作为高风险登录的额外验证
+        if (await mfaService.isEnabled(user.id)) {
+            return loginChallengeService.createTotpChallenge({
+                user,
+                method,
+                email,
+                signals: risk.signals,
+                client,
+            });
+        }
+
+        // 验证码和登录链接登录本身已证明邮箱控制权，再发送邮箱验证码没有意义，只发送登录提醒
+        if (
+            risk.level === LoginRiskLevel.HIGH &&
+            method !== LoginMethod.VERIFICATION_CODE &&
+            method !== LoginMethod.MAGIC_LINK
+        ) {
+            return loginChallengeService.createEmailChallenge({
+                user,
+                method,
+                email,
+                signals: risk.signals,
+                client,
+            });
+        }
+
+        return this.completeLogin(method, email, user, risk.signals, client);
+    }
+
+    /**
+     * 校验登录验证挑战，通过后完成登录；失败时写入登录日志并计入锁定策略
+     */
+    private async completeChallenge(
+        challengeToken: string,
+        type: LoginChallengeType,
+        verify: (user: User) => Promise<unknown>,
+        client?: ClientContext
+    ): Promise<LoginResponse> {
+        const challenge = await loginChallengeService.findPending(challengeToken, type);
+        const method = challenge.login_method as LoginMethod;
+        const email = challenge.email;
+
+        let user: User | null;
+        try {
+            await loginLockoutService.assertNotLocked(email, client?.ip);
+
+            user = await this.adminUserRepository.findById(challenge.user_id);
+            if (!user) {
+                throw new AppError(ErrorCodes.AUTH_LOGIN_CHALLENGE_INVALID);
+            }
+            // 挑战创建后账号可能已被暂停
+            userStatusService.assertActive(user);
+
+            await verify(user);
+            await loginChallengeService.complete(challenge);
+        } catch (error) {
+            await loginLogService.recordFailure({ method, email, userId: challenge.user_id, client }, error);
+            await loginLockoutService.registerFailure(email, client?.ip, error);
+            throw error;
+        }
+
+        return this.completeLogin(method, email, user, challenge.risk_signals as LoginRiskSignal[], client);
+    }
+
+    /**
+     * 写入登录成功日志，有风险信号时发送登录提醒，然后签发令牌
+     */
+    private async completeLogin(
+        method: LoginMethod,
+        email: string,
+        user: User,
+        signals: LoginRiskSignal[],
+        client?: ClientContext
+    ): Promise<LoginResponse> {
+        await loginLogService.recordSuccess({ method, email, userId: user.id, client });
+
+        if (signals.length > 0) {
+            // 不等待邮件发送，避免拖慢登录
+            void loginRiskService.notifyNewSignIn(user, signals, client);
+        }
+
+        return this.buildLoginResponse(user, client);
+    }
+
+    /**
+     * 处理刷新令牌重放：吊销整个令牌家族及其会话
+     */
+    private async handleRefreshTokenReuse(familyId: string, userId: string): Promise<void> {
+        await sessionService.revokeSession(familyId, SessionRevokeReason.REUSE_DETECTED);
+
+        logger.warn('Refresh token reuse detected, session revoked', {
+            userId,
+            sessionId: familyId,
+        });
+    }
+
+    /**
+     * 签发访问令牌和刷新令牌
+     */
+    private async issueTokens(
+        user: User,
+        options: { sessionId: string; parentId: string | null; client?: ClientContext }
+    ): Promise<LoginResponse> {
+        const { sessionId, parentId, client } = options;
+        const accessExpiresIn = config.auth.jwtExpiresIn;
+        const refreshExpiresIn = config.auth.jwtRefreshExpiresIn;
+
+        const jwtToken = await generateToken(
+            {
+                sub: user.id,
+                email: user.email,
+                role: user.role,
+                sid: sessionId,
+            },
+            accessExpiresIn
+        );
+
+        const refreshToken = generateRandomToken();
+        const refreshTokenExpiresAt = new Date(Date.now() + refreshExpiresIn * 1000).toISOString();
+
+        const stored = await refreshTokenRepository.create({
+            user_id: user.id,
+            token_hash: await hashToken(refreshToken),
+            family_id: sessionId,
+            parent_id: parentId,
+            expires_at: refreshTokenExpiresAt,
+            ip_address: client?.ip ?? null,
+            user_agent: client?.userAgent ?? null,
+        });
+
+        if (parentId) {
+            await refreshTokenRepository.setReplacedBy(parentId, stored.id);
+        }
+
         return {
             user: {
                 id: user.id,
@@ -106,6 +757,9 @@ export class AuthService {
                 name: user.name,
             },
             token: jwtToken,
+            tokenExpiresAt: new Date(Date.now() + accessExpiresIn * 1000).toISOString(),
+            refreshToken,
+            refreshTokenExpiresAt,
         };
     }
 }
@@ -0,0 +1,109 @@
+/**
+ * @file bot-challenge.service.ts
+ * @description 人机验证业务逻辑层：按请求频率和风险自适应地要求客户端完成工作量证明或 CAPTCHA
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import config from '[@BASE]/config/index.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { AppError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { consumeRateLimit } from '[@BASE]/lib/rate-limit.ts';
+import { CaptchaProvider, ProofOfWorkProvider } from '[@BASE]/lib/bot-challenge.ts';
+import type { BotChallengeProvider, BotChallengeSolution } from '[@BASE]/lib/bot-challenge.ts';
+import { getRateLimitStore } from '[@BASE-repositories]/rate-limit.repository.ts';
+import { loginLockoutRepository } from '[@BASE-repositories]/login-lockout.repository.ts';
+import { LockoutScope } from '[@BASE]/types/auth.types.ts';
+
+/** adaptive 模式统计请求次数的时间窗口（秒） */
+const ATTEMPT_WINDOW = 3600;
+
+/**
+ * 人机验证检查参数
+ * 
+ * @interface
+ * @property {string} action - 受保护的操作（用于区分计数，如 'send-code'）
+ * @property {string} email - 请求中的邮箱
+ * @property {string | null} [ip] - 客户端 IP
+ * @property {BotChallengeSolution} [solution] - 客户端提交的解答
+ */
+export interface BotChallengeCheck {
+    action: string;
+    email: string;
+    ip?: string | null;
+    solution?: BotChallengeSolution;
+}
+
+export class BotChallengeService {
+    private provider: BotChallengeProvider | null = null;
+
+    /**
+     * 检查请求是否需要并通过了人机验证
+     * 
+     * @param {BotChallengeCheck} check - 检查参数
+     * @returns {Promise<void>}
+     * @throws {AppError} 需要人机验证但未提交或解答无效时抛出错误（details 中包含新的挑战）
+     * 
+     * @description 提交了有效解答的请求不受 adaptive 计数限制；解答无效时与未提交一样返回新的挑战
+     */
+    async assertPassed(check: BotChallengeCheck): Promise<void> {
+        const { mode } = config.auth.botChallenge;
+        if (mode === 'off') return;
+
+        const provider = this.getProvider();
+        if (check.solution && await provider.verify(check.solution, check.ip)) {
+            return;
+        }
+
+        if (mode === 'adaptive' && !(await this.isRequired(check))) {
+            return;
+        }
+
+        logger.info('Bot challenge required', {
+            action: check.action,
+            email: check.email,
+            ip: check.ip,
+            solutionProvided: Boolean(check.solution),
+        });
+        throw new AppError(ErrorCodes.AUTH_CHALLENGE_REQUIRED, undefined, { challenge: await provider.issue() });
+    }
+
+    /**
+     * adaptive 模式：同一 IP 或邮箱的请求次数超过免验证次数，或 IP 处于登录锁定状态时需要验证
+     */
+    private async isRequired(check: BotChallengeCheck): Promise<boolean> {
+        const { freeAttempts } = config.auth.botChallenge;
+        const store = getRateLimitStore();
+        const rule = { window: ATTEMPT_WINDOW, max: freeAttempts };
+
+        const [ipAttempts, emailAttempts, ipLock] = await Promise.all([
+            check.ip ? consumeRateLimit(store, `bot-challenge:${check.action}:ip:${check.ip}`, rule) : null,
+            consumeRateLimit(store, `bot-challenge:${check.action}:email:${check.email.toLowerCase()}`, rule),
+            check.ip ? loginLockoutRepository.find(LockoutScope.IP, check.ip) : null,
+        ]);
+
+        const ipLocked = Boolean(ipLock?.locked_until && new Date(ipLock.locked_until).getTime() > Date.now());
+        return ipLocked || ipAttempts?.allowed === false || !emailAttempts.allowed;
+    }
+
+    /**
+     * 按配置创建人机验证提供方（首次使用时创建）
+     */
+    private getProvider(): BotChallengeProvider {
+        if (!this.provider) {
+            const { provider, powDifficulty, powExpiresIn, siteKey, secretKey } = config.auth.botChallenge;
+            this.provider = provider === 'pow'
+                ? new ProofOfWorkProvider({
+                    secret: config.auth.jwtSecret,
+                    difficulty: powDifficulty,
+                    expiresIn: powExpiresIn,
+                    store: getRateLimitStore(),
+                })
+                : new CaptchaProvider(provider, { siteKey, secretKey });
+        }
+        return this.provider;
+    }
+}
+
+export const botChallengeService = new BotChallengeService();
@@ -0,0 +1,350 @@
+/**
+ * @file credential.service.ts
+ * @description 密码凭据业务逻辑层：按配置在本地 bcrypt 哈希和 Supabase Auth 之间选择密码存储方式，统一校验和设置密码
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import config from '[@BASE]/config/index.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { hashPassword, verifyPassword } from '[@BASE]/lib/password.ts';
+import { createEphemeralClient, supabaseAdmin } from '[@BASE]/lib/supabase.client.ts';
+import { AppError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { UserRepository } from '[@BASE-repositories]/user.repository.ts';
+import type { User, UserInsert } from '[@BASE]/types/user.types.ts';
+import type { PasswordProviderMode } from '[@BASE]/types/config.types.ts';
+
+/** PostgreSQL 唯一约束冲突错误码 */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * 使用密码创建用户的参数
+ */
+export interface PasswordUserParams {
+    /** 姓名 */
+    name: string;
+    /** 邮箱 */
+    email: string;
+    /** 明文密码（只用于生成哈希或交给 Supabase Auth，不落库） */
+    password: string;
+}
+
+/**
+ * 创建无密码用户的参数（第三方登录首次登录时使用）
+ */
+export interface PasswordlessUserParams {
+    /** 姓名 */
+    name: string;
+    /** 邮箱 */
+    email: string;
+    /** 邮箱是否已由身份提供方验证 */
+    emailVerified: boolean;
+}
+
+/**
+ * 密码凭据提供者接口
+ * 
+ * @interface
+ * @description 登录、修改密码、重置密码、设置密码和注册都通过同一个提供者读写密码
+ */
+export interface CredentialProvider {
+    /** 校验邮箱和密码，成功返回用户，失败返回 null */
+    verify(email: string, password: string): Promise<User | null>;
+    /** 创建带密码的新用户（邮箱未验证） */
+    createUser(params: PasswordUserParams): Promise<User>;
+    /** 创建未设置密码的新用户（之后可通过设置密码流程补充密码） */
+    createPasswordlessUser(params: PasswordlessUserParams): Promise<User>;
+    /** 设置用户密码（覆盖原密码） */
+    setPassword(user: User, password: string): Promise<void>;
+}
+
+/**
+ * 判断插入错误是否为唯一约束冲突
+ */
+function isUniqueViolation(error: unknown): boolean {
+    return !!error && typeof error === 'object' &&
+        'code' in error && error.code === UNIQUE_VIOLATION;
+}
+
+/**
+ * 先创建 auth.users，再以相同 ID 创建 public.users
+ * 
+ * @param {UserRepository} userRepository - 用户仓储（管理员客户端）
+ * @param {UserInsert} profile - public.users 字段（不含 id）
+ * @param {string} [password] - 交给 Supabase Auth 保存的密码（本地密码模式不传）
+ * @returns {Promise<User>} 新创建的用户
+ * @throws {AppError} 邮箱已被注册时抛出错误
+ * 
+ * @description 两种密码模式都创建 auth.users：邮箱验证码登录（Supabase verifyOtp）按 auth.users 的 ID 查找 public.users，
+ * 两边 ID 不一致时验证码登录会失败
+ */
+async function createUserWithAuthRecord(
+    userRepository: UserRepository,
+    profile: Omit<UserInsert, 'id'> & { email: string; name: string; email_verified: boolean },
+    password?: string
+): Promise<User> {
+    const { data, error } = await supabaseAdmin.auth.admin.createUser({
+        email: profile.email,
+        password,
+        email_confirm: profile.email_verified,
+        user_metadata: { name: profile.name },
+    });
+
+    if (error || !data.user) {
+        if (error?.code === 'email_exists' || error?.status === 422) {
+            throw new AppError(ErrorCodes.USER_EMAIL_ALREADY_EXISTS);
+        }
+        logger.error('Failed to create Supabase auth user', {
+            email: profile.email,
+            error: error?.message,
+        });
+        throw new Error('用户注册失败，请稍后重试');
+    }
+
+    try {
+        return await userRepository.create({
+            ...profile,
+            id: data.user.id,
+            status: 'active',
+        });
+    } catch (createErr: unknown) {
+        // public.users 创建失败时回滚 auth.users，避免留下无法登录的孤立账号
+        await supabaseAdmin.auth.admin.deleteUser(data.user.id);
+
+        // 并发注册同一邮箱时，由 users.email 唯一约束兜底
+        if (isUniqueViolation(createErr)) {
+            throw new AppError(ErrorCodes.USER_EMAIL_ALREADY_EXISTS);
+        }
+        throw createErr;
+    }
+}
+
+/**
+ * 本地密码提供者：bcrypt 哈希存储在 public.users.password_hash
+ * 
+ * @class
+ * @description auth.users 同样以相同 ID 创建（不保存密码），用于邮箱验证码登录
+ */
+export class LocalCredentialProvider implements CredentialProvider {
+    private readonly userRepository = new UserRepository(true);
+
+    async verify(email: string, password: string): Promise<User | null> {
+        const user = await this.userRepository.findByEmail(email);
+        if (!user?.password_hash) {
+            return null;
+        }
+
+        const isValid = await verifyPassword(password, user.password_hash);
+        return isValid ? user : null;
+    }
+
+    async createUser(params: PasswordUserParams): Promise<User> {
+        return await createUserWithAuthRecord(this.userRepository, {
+            email: params.email,
+            name: params.name,
+            password_hash: await hashPassword(params.password),
+            password_set_at: new Date().toISOString(),
+            email_verified: false,
+        });
+    }
+
+    async createPasswordlessUser(params: PasswordlessUserParams): Promise<User> {
+        return await createUserWithAuthRecord(this.userRepository, {
+            email: params.email,
+            name: params.name,
+            email_verified: params.emailVerified,
+        });
+    }
+
+    async setPassword(user: User, password: string): Promise<void> {
+        await this.userRepository.updateById(user.id, {
+            password_hash: await hashPassword(password),
+            password_set_at: new Date().toISOString(),
+        });
+    }
+}
+
+/**
+ * Supabase 密码提供者：密码由 Supabase Auth（auth.users）存储和校验
+ * 
+ * @class
+ * @description public.users.id 与 auth.users.id 保持一致，password_hash 始终为空
+ */
+export class SupabaseCredentialProvider implements CredentialProvider {
+    private readonly userRepository = new UserRepository(true);
+
+    async verify(email: string, password: string): Promise<User | null> {
+        // 登录会话保存在客户端上，不能使用共享的 supabase 客户端
+        const { data, error } = await createEphemeralClient().auth.signInWithPassword({ email, password });
+
+        if (error || !data.user) {
+            logger.debug('Supabase password verification failed', {
+                email,
+                error: error?.message,
+            });
+            return null;
+        }
+
+        const user = await this.userRepository.findById(data.user.id);
+        if (!user) {
+            logger.warn('Supabase auth user has no public.users record', {
+                supabaseUserId: data.user.id,
+                email,
+            });
+        }
+        return user;
+    }
+
+    async createUser(params: PasswordUserParams): Promise<User> {
+        return await createUserWithAuthRecord(
+            this.userRepository,
+            {
+                email: params.email,
+                name: params.name,
+                password_set_at: new Date().toISOString(),
+                email_verified: false,
+            },
+            params.password
+        );
+    }
+
+    async createPasswordlessUser(params: PasswordlessUserParams): Promise<User> {
+        // 不设置密码的 auth.users 仍可通过邮箱验证码登录，两种登录方式共用同一个用户 ID
+        return await createUserWithAuthRecord(this.userRepository, {
+            email: params.email,
+            name: params.name,
+            email_verified: params.emailVerified,
+        });
+    }
+
+    async setPassword(user: User, password: string): Promise<void> {
+        const { error } = await supabaseAdmin.auth.admin.updateUserById(user.id, { password });
+
+        if (error) {
+            logger.error('Failed to update Supabase auth password', {
+                userId: user.id,
+                error: error.message,
+            });
+            throw new Error('密码设置失败，请稍后重试');
+        }
+
+        await this.userRepository.updateById(user.id, {
+            password_set_at: new Date().toISOString(),
+        });
+    }
+}
+
+/**
+ * 密码凭据服务类
+ * 
+ * @class
+ * @description 根据 config.auth.passwordProvider 选择提供者，每次调用时读取配置，运行时注入的配置同样生效
+ */
+export class CredentialService {
+    private readonly providers: Record<PasswordProviderMode, CredentialProvider> = {
+        local: new LocalCredentialProvider(),
+        supabase: new SupabaseCredentialProvider(),
+    };
+
+    /**
+     * 当前使用的密码提供者
+     */
+    private get provider(): CredentialProvider {
+        return this.providers[config.auth.passwordProvider];
+    }
+
+    /**
+     * 用户是否已设置密码
+     * 
+     * @param {User} user - 用户
+     * @returns {boolean} 是否已设置密码
+     */
+    hasPassword(user: User): boolean {
+        return !!user.password_set_at;
+    }
+
+    /**
+     * 校验邮箱和密码
+     * 
+     * @param {string} email - 邮箱
+     * @param {string} password - 明文密码
+     * @returns {Promise<User | null>} 校验通过返回用户，否则返回 null
+     */
+    verify(email: string, password: string): Promise<User | null> {
+        return this.provider.verify(email, password);
+    }
+
+    /**
+     * 创建带密码的新用户
+     * 
+     * @param {PasswordUserParams} params - 用户参数
+     * @returns {Promise<User>} 新创建的用户
+     * @throws {AppError} 邮箱已被注册时抛出错误
+     */
+    createUser(params: PasswordUserParams): Promise<User> {
+        return this.provider.createUser(params);
+    }
+
+    /**
+     * 创建未设置密码的新用户
+     * 
+     * @param {PasswordlessUserParams} params - 用户参数
+     * @returns {Promise<User>} 新创建的用户
+     * @throws {AppError} 邮箱已被注册时抛出错误
+     */
+    createPasswordlessUser(params: PasswordlessUserParams): Promise<User> {
+        return this.provider.createPasswordlessUser(params);
+    }
+
+    /**
+     * 同步更换 auth.users 中的邮箱（更新 public.users.email 之前调用）
+     * 
+     * @param {User} user - 用户
+     * @param {string} email - 新邮箱（已通过验证码确认归属）
+     * @returns {Promise<void>}
+     * @throws {AppError} 新邮箱已被其他 auth.users 使用时抛出错误
+     * 
+     * @description 两种密码模式都有 auth.users：邮箱不一致时 Supabase 密码登录无法使用新邮箱，
+     * 新邮箱的验证码登录会创建另一个 auth 用户；没有 auth.users 记录的旧账号忽略
+     */
+    async setEmail(user: User, email: string): Promise<void> {
+        const { error } = await supabaseAdmin.auth.admin.updateUserById(user.id, {
+            email,
+            email_confirm: true,
+        });
+
+        if (error && error.status !== 404) {
+            if (error.code === 'email_exists' || error.status === 422) {
+                throw new AppError(ErrorCodes.USER_EMAIL_ALREADY_EXISTS);
+            }
+            logger.error('Failed to update Supabase auth email', {
+                userId: user.id,
+                error: error.message,
+            });
+            throw new Error('邮箱更换失败，请稍后重试');
+        }
+    }
+
+    /**
+     * 设置用户密码
+     * 
+     * @param {User} user - 用户
+     * @param {string} password - 新密码
+     * @returns {Promise<void>}
+     */
+    async setPassword(user: User, password: string): Promise<void> {
+        await this.provider.setPassword(user, password);
+        logger.info('User password updated', {
+            userId: user.id,
+            provider: config.auth.passwordProvider,
+        });
+    }
+}
+
+/**
+ * 密码凭据服务单例
+ * 
+ * @constant
+ */
+export const credentialService = new CredentialService();
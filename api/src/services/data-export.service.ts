@@ -0,0 +1,276 @@
+/**
+ * @file data-export.service.ts
+ * @description 个人数据导出业务逻辑层：后台生成包含用户全部个人数据的压缩包（JSON + CSV），通过邮件发送下载链接
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import config from '[@BASE]/config/index.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { supabaseAdmin } from '[@BASE]/lib/supabase.client.ts';
+import { createZip, toCsv } from '[@BASE]/lib/archive.ts';
+import { sendDataExportEmail } from '[@BASE]/lib/email.ts';
+import { AppError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { UserRepository } from '[@BASE-repositories]/user.repository.ts';
+import { AuthRepository } from '[@BASE-repositories]/auth.repository.ts';
+import { dataExportRepository } from '[@BASE-repositories]/data-export.repository.ts';
+import { sessionRepository } from '[@BASE-repositories]/session.repository.ts';
+import { oauthRepository } from '[@BASE-repositories]/oauth.repository.ts';
+import { impersonationLogRepository } from '[@BASE-repositories]/impersonation-log.repository.ts';
+import { userService } from '[@BASE-services]/user.service.ts';
+import { userStatusService } from '[@BASE-services]/user-status.service.ts';
+import { webauthnService } from '[@BASE-services]/webauthn.service.ts';
+import { apiKeyService } from '[@BASE-services]/api-key.service.ts';
+import { mfaService } from '[@BASE-services]/mfa.service.ts';
+import type { DataExport, User } from '[@BASE]/types/user.types.ts';
+
+/** 进行中的任务超过该时间视为已中断（如服务重启），允许重新申请导出 */
+const STALE_EXPORT_MS = 60 * 60 * 1000;
+
+/** setTimeout 支持的最大延迟（毫秒），更长的有效期由定时任务清理 */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/** CSV 文件的 UTF-8 BOM（Excel 需要它才能正确识别中文） */
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * 导出的一类数据
+ */
+interface ExportSection {
+    /** 数据名称（JSON 中的字段名和 CSV 文件名） */
+    name: string;
+    /** 读取用户的该类数据 */
+    collect: (user: User) => Promise<Record<string, unknown>[]>;
+}
+
+/**
+ * 数据导出任务信息
+ */
+export type DataExportInfo = Pick<DataExport, 'id' | 'status' | 'created_at'>;
+
+export class DataExportService {
+    private readonly userRepository = new UserRepository(true);
+    private readonly authRepository = new AuthRepository(true);
+
+    /**
+     * 导出的数据
+     * 
+     * @description 新增业务数据时在此注册，压缩包中会增加对应的 JSON 字段和 CSV 文件；
+     * 不要导出密码哈希、验证码、密钥哈希、TOTP 密钥等凭据
+     */
+    private readonly sections: ExportSection[] = [
+        {
+            name: 'profile',
+            collect: async (user) => [await userService.getUserProfile(user.id)],
+        },
+        {
+            name: 'login_logs',
+            collect: (user) => this.authRepository.findLoginLogsByUserId(user.id),
+        },
+        {
+            name: 'verification_codes',
+            collect: (user) => this.authRepository.findVerificationHistory(user.id, user.email),
+        },
+        {
+            name: 'sessions',
+            collect: (user) => sessionRepository.findByUserId(user.id),
+        },
+        {
+            name: 'passkeys',
+            collect: async (user) => (await webauthnService.listCredentials(user.id)).map((passkey) => ({ ...passkey })),
+        },
+        {
+            name: 'identities',
+            collect: (user) => oauthRepository.findIdentitiesByUserId(user.id),
+        },
+        {
+            name: 'api_keys',
+            collect: (user) => apiKeyService.list(user.id),
+        },
+        {
+            name: 'mfa',
+            collect: async (user) => [{ ...await mfaService.getStatus(user.id) }],
+        },
+        {
+            name: 'impersonation_logs',
+            collect: (user) => impersonationLogRepository.findByUserId(user.id),
+        },
+    ];
+
+    /**
+     * 申请导出个人数据
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<DataExportInfo>} 导出任务（后台生成，完成后通过邮件发送下载链接）
+     * @throws {AppError} 已有进行中的导出任务时抛出错误
+     */
+    async requestExport(userId: string): Promise<DataExportInfo> {
+        const active = await dataExportRepository.findActiveByUserId(
+            userId,
+            new Date(Date.now() - STALE_EXPORT_MS)
+        );
+        if (active) {
+            throw new AppError(ErrorCodes.USER_DATA_EXPORT_IN_PROGRESS);
+        }
+
+        const dataExport = await dataExportRepository.create(userId);
+
+        // 后台生成，不阻塞请求；失败时记录到任务上
+        void this.process(dataExport.id, userId);
+
+        return {
+            id: dataExport.id,
+            status: dataExport.status,
+            created_at: dataExport.created_at,
+        };
+    }
+
+    /**
+     * 删除用户的全部导出文件
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<void>}
+     * @throws {Error} 存储桶删除失败时抛出错误
+     * 
+     * @description 再次导出和注销账号时调用，避免导出文件在存储桶中长期保留
+     */
+    async removeFiles(userId: string): Promise<void> {
+        const exports = await dataExportRepository.findWithFileByUserId(userId);
+        await this.deleteFiles(exports);
+
+        if (exports.length > 0) {
+            logger.info('Data export files removed', { userId, count: exports.length });
+        }
+    }
+
+    /**
+     * 删除下载链接已过期的导出文件
+     * 
+     * @returns {Promise<number>} 删除的文件数量
+     * @throws {Error} 存储桶删除失败时抛出错误
+     * 
+     * @description 导出完成后会在链接过期时自动调用；服务重启会丢失该定时，需要通过 deno task maintenance 定时兜底
+     */
+    async removeExpiredFiles(): Promise<number> {
+        const exports = await dataExportRepository.findExpiredWithFile(new Date());
+        await this.deleteFiles(exports);
+
+        if (exports.length > 0) {
+            logger.info('Expired data export files removed', { count: exports.length });
+        }
+        return exports.length;
+    }
+
+    /**
+     * 从存储桶删除导出文件并清除文件记录
+     */
+    private async deleteFiles(exports: DataExport[]): Promise<void> {
+        if (exports.length === 0) return;
+
+        const { error } = await supabaseAdmin.storage
+            .from(config.auth.dataExport.bucket)
+            .remove(exports.map((item) => item.file_path!));
+        if (error) {
+            throw error;
+        }
+
+        await dataExportRepository.clearFiles(exports.map((item) => item.id));
+    }
+
+    /**
+     * 在下载链接过期时删除导出文件
+     */
+    private scheduleRemoval(expiresAt: Date): void {
+        const delay = expiresAt.getTime() - Date.now();
+        if (delay > MAX_TIMER_DELAY_MS) return;
+
+        const timer = setTimeout(() => {
+            this.removeExpiredFiles().catch((error) => {
+                logger.error('Failed to remove expired data export files', {
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            });
+        }, Math.max(delay, 0));
+        // 不阻止进程退出
+        Deno.unrefTimer(timer);
+    }
+
+    /**
+     * 生成导出文件并发送下载链接
+     */
+    private async process(id: string, userId: string): Promise<void> {
+        const { bucket, linkExpiresIn } = config.auth.dataExport;
+
+        try {
+            if (!await dataExportRepository.markProcessing(id)) return;
+
+            const user = await this.userRepository.findById(userId);
+            if (!user) {
+                throw new Error('User not found');
+            }
+            userStatusService.assertActive(user);
+
+            // 只保留最近一次导出
+            await this.removeFiles(userId);
+
+            const archive = await this.buildArchive(user);
+            const path = `${userId}/${id}.zip`;
+            const { error: uploadError } = await supabaseAdmin.storage
+                .from(bucket)
+                .upload(path, archive, { contentType: 'application/zip', upsert: false });
+            if (uploadError) {
+                throw uploadError;
+            }
+
+            const { data, error: signError } = await supabaseAdmin.storage
+                .from(bucket)
+                .createSignedUrl(path, linkExpiresIn, {
+                    download: `data-export-${new Date().toISOString().slice(0, 10)}.zip`,
+                });
+            if (signError) {
+                throw signError;
+            }
+
+            const expiresAt = new Date(Date.now() + linkExpiresIn * 1000);
+            await dataExportRepository.markCompleted(id, { path, size: archive.length, expiresAt });
+            this.scheduleRemoval(expiresAt);
+
+            const sent = await sendDataExportEmail(user.email, data.signedUrl, expiresAt);
+            if (!sent) {
+                logger.warn('Failed to send data export email', { userId, exportId: id });
+            }
+
+            logger.info('Data export completed', { userId, exportId: id, size: archive.length });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.error('Data export failed', { userId, exportId: id, error: message });
+
+            await dataExportRepository.markFailed(id, message).catch(() => {});
+        }
+    }
+
+    /**
+     * 生成压缩包：data.json 包含全部数据，csv/ 目录下每类数据一个 CSV 文件
+     */
+    private async buildArchive(user: User): Promise<Uint8Array<ArrayBuffer>> {
+        const exportedAt = new Date();
+        const data: Record<string, Record<string, unknown>[]> = {};
+        for (const section of this.sections) {
+            data[section.name] = await section.collect(user);
+        }
+
+        return createZip([
+            {
+                name: 'data.json',
+                data: JSON.stringify({ exported_at: exportedAt.toISOString(), user_id: user.id, ...data }, null, 2),
+            },
+            ...this.sections.map((section) => ({
+                name: `csv/${section.name}.csv`,
+                data: UTF8_BOM + toCsv(data[section.name]),
+            })),
+        ], exportedAt);
+    }
+}
+
+export const dataExportService = new DataExportService();
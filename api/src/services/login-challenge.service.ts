@@ -0,0 +1,170 @@
+/**
+ * @file login-challenge.service.ts
+ * @description 登录验证挑战业务逻辑层：高风险登录或开启两步验证的用户在签发令牌前要求额外验证
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { logger } from '[@BASE]/lib/logger.ts';
+import { generateRandomToken, hashToken } from '[@BASE]/lib/token.ts';
+import { AppError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { loginChallengeRepository } from '[@BASE-repositories]/login-challenge.repository.ts';
+import { verificationCodeService } from '[@BASE-services]/verification-code.service.ts';
+import { LoginChallengeType, VerificationPurpose } from '[@BASE]/types/auth.types.ts';
+import type {
+    ClientContext,
+    LoginChallenge,
+    LoginChallengeResponse,
+    LoginMethod,
+    LoginRiskSignal,
+} from '[@BASE]/types/auth.types.ts';
+import type { User } from '[@BASE]/types/user.types.ts';
+
+/** 邮箱验证码挑战有效期（毫秒），与邮箱验证码有效期一致 */
+const EMAIL_CHALLENGE_EXPIRES_IN_MS = 10 * 60 * 1000;
+
+/** 两步验证挑战有效期（毫秒），只需打开验证器 App 输入动态码，不需要太长 */
+const TOTP_CHALLENGE_EXPIRES_IN_MS = 5 * 60 * 1000;
+
+/** 恢复账号挑战有效期（毫秒） */
+const RESTORE_CHALLENGE_EXPIRES_IN_MS = 10 * 60 * 1000;
+
+/**
+ * 创建登录验证挑战的参数
+ */
+export interface LoginChallengeParams {
+    /** 已通过凭据校验的用户 */
+    user: User;
+    /** 登录方式 */
+    method: LoginMethod;
+    /** 登录邮箱 */
+    email: string;
+    /** 本次登录命中的风险信号 */
+    signals: LoginRiskSignal[];
+    /** 客户端上下文 */
+    client?: ClientContext;
+}
+
+export class LoginChallengeService {
+    /**
+     * 创建邮箱验证码挑战，并向用户邮箱发送登录验证码
+     * 
+     * @param {LoginChallengeParams} params - 挑战参数
+     * @returns {Promise<LoginChallengeResponse>} 挑战令牌（明文只返回这一次）
+     * @throws {AppError} 邮件发送失败时抛出错误
+     */
+    async createEmailChallenge(params: LoginChallengeParams): Promise<LoginChallengeResponse> {
+        const { user } = params;
+
+        try {
+            await verificationCodeService.sendCode(user.email, VerificationPurpose.LOGIN, user.id);
+        } catch (error) {
+            // 1 分钟内重复登录时不再发送，上一封邮件中的验证码仍然有效
+            if (!(error instanceof AppError && error.code === ErrorCodes.VERIFICATION_CODE_TOO_FREQUENT)) {
+                throw error;
+            }
+        }
+
+        return this.create(LoginChallengeType.EMAIL_OTP, params, EMAIL_CHALLENGE_EXPIRES_IN_MS);
+    }
+
+    /**
+     * 创建两步验证挑战（开启两步验证的用户凭据校验通过后调用）
+     * 
+     * @param {LoginChallengeParams} params - 挑战参数
+     * @returns {Promise<LoginChallengeResponse>} 挑战令牌（明文只返回这一次）
+     */
+    createTotpChallenge(params: LoginChallengeParams): Promise<LoginChallengeResponse> {
+        return this.create(LoginChallengeType.TOTP, params, TOTP_CHALLENGE_EXPIRES_IN_MS);
+    }
+
+    /**
+     * 创建恢复账号挑战（注销宽限期内的账号凭据校验通过后调用，由用户确认是否恢复账号）
+     * 
+     * @param {LoginChallengeParams} params - 挑战参数
+     * @returns {Promise<LoginChallengeResponse>} 挑战令牌和账号永久删除时间
+     */
+    async createRestoreChallenge(params: LoginChallengeParams): Promise<LoginChallengeResponse> {
+        const response = await this.create(LoginChallengeType.ACCOUNT_RESTORE, params, RESTORE_CHALLENGE_EXPIRES_IN_MS);
+        return params.user.purge_after ? { ...response, accountPurgeAt: params.user.purge_after } : response;
+    }
+
+    /**
+     * 查找待完成的挑战
+     * 
+     * @param {string} token - 挑战令牌（明文）
+     * @param {LoginChallengeType} type - 期望的验证方式（不同方式的挑战不能混用）
+     * @returns {Promise<LoginChallenge>} 挑战记录
+     * @throws {AppError} 挑战不存在、验证方式不符、已过期或已完成时抛出错误
+     */
+    async findPending(token: string, type: LoginChallengeType): Promise<LoginChallenge> {
+        const challenge = await loginChallengeRepository.findByHash(await hashToken(token));
+
+        if (
+            !challenge ||
+            challenge.challenge_type !== type ||
+            challenge.consumed_at ||
+            new Date(challenge.expires_at).getTime() <= Date.now()
+        ) {
+            throw new AppError(ErrorCodes.AUTH_LOGIN_CHALLENGE_INVALID);
+        }
+
+        return challenge;
+    }
+
+    /**
+     * 标记挑战已完成
+     * 
+     * @param {LoginChallenge} challenge - 挑战记录
+     * @returns {Promise<void>}
+     * @throws {AppError} 挑战已被并发请求完成时抛出错误
+     */
+    async complete(challenge: LoginChallenge): Promise<void> {
+        const consumed = await loginChallengeRepository.consumeIfPending(challenge.id);
+        if (!consumed) {
+            throw new AppError(ErrorCodes.AUTH_LOGIN_CHALLENGE_INVALID);
+        }
+    }
+
+    /**
+     * 创建挑战记录
+     */
+    private async create(
+        type: LoginChallengeType,
+        params: LoginChallengeParams,
+        expiresInMs: number
+    ): Promise<LoginChallengeResponse> {
+        const { user, method, email, signals, client } = params;
+        const token = generateRandomToken();
+        const expiresAt = new Date(Date.now() + expiresInMs).toISOString();
+
+        const challenge = await loginChallengeRepository.create({
+            user_id: user.id,
+            token_hash: await hashToken(token),
+            challenge_type: type,
+            login_method: method,
+            email,
+            risk_signals: signals,
+            ip_address: client?.ip ?? null,
+            user_agent: client?.userAgent ?? null,
+            expires_at: expiresAt,
+        });
+
+        logger.info('Login challenge created', {
+            userId: user.id,
+            challengeId: challenge.id,
+            challengeType: type,
+            signals,
+        });
+
+        return {
+            challengeRequired: true,
+            challengeType: type,
+            challengeToken: token,
+            challengeExpiresAt: expiresAt,
+        };
+    }
+}
+
+export const loginChallengeService = new LoginChallengeService();
@@ -0,0 +1,224 @@
+/**
+ * @file login-lockout.service.ts
+ * @description 登录锁定业务逻辑层：按 login_logs 中的失败次数锁定账号或 IP，连续锁定时按指数退避延长锁定时长
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import config from '[@BASE]/config/index.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { AppError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { AuthRepository } from '[@BASE-repositories]/auth.repository.ts';
+import { loginLockoutRepository } from '[@BASE-repositories]/login-lockout.repository.ts';
+import { LockoutScope } from '[@BASE]/types/auth.types.ts';
+import type { LoginLockout } from '[@BASE]/types/auth.types.ts';
+
+/**
+ * 凭据错误类失败原因（计入锁定和登录风险评估）
+ * 
+ * @description 只统计凭据错误；锁定期内被拒绝的尝试和内部错误不计入，避免锁定自我延长
+ */
+export const CREDENTIAL_FAILURE_REASONS: string[] = [
+    ErrorCodes.AUTH_INVALID_CREDENTIALS,
+    ErrorCodes.VERIFICATION_CODE_INVALID,
+    ErrorCodes.AUTH_MFA_CODE_INVALID,
+    ErrorCodes.AUTH_PASSKEY_INVALID,
+];
+
+/**
+ * 统一邮箱格式（去除首尾空格并转为小写）
+ * 
+ * @description 大小写或空格不同的同一邮箱必须计入同一个账号，否则可以通过变换大小写绕过账号锁定；
+ * 登录日志写入时使用相同的格式
+ */
+export function normalizeLoginEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+/**
+ * 时间字符串转毫秒时间戳（空值视为 0）
+ */
+function toTime(value: string | null | undefined): number {
+    return value ? new Date(value).getTime() : 0;
+}
+
+export class LoginLockoutService {
+    // 登录发生在未认证状态，使用管理员客户端读取登录日志
+    private readonly authRepository = new AuthRepository(true);
+
+    /**
+     * 检查账号和 IP 是否处于锁定期
+     * 
+     * @param {string} email - 登录邮箱
+     * @param {string | null} [ip] - 客户端 IP
+     * @returns {Promise<void>}
+     * @throws {AppError} 账号或 IP 已被锁定时抛出错误（details 中包含解锁时间）
+     */
+    async assertNotLocked(email: string, ip?: string | null): Promise<void> {
+        const locks = await Promise.all([
+            loginLockoutRepository.find(LockoutScope.ACCOUNT, normalizeLoginEmail(email)),
+            ip ? loginLockoutRepository.find(LockoutScope.IP, ip) : null,
+        ]);
+
+        const lockedUntil = Math.max(...locks.map((lock) => toTime(lock?.locked_until)));
+        const retryAfter = Math.ceil((lockedUntil - Date.now()) / 1000);
+
+        if (retryAfter > 0) {
+            throw new AppError(
+                ErrorCodes.AUTH_ACCOUNT_LOCKED,
+                `登录失败次数过多，请 ${Math.ceil(retryAfter / 60)} 分钟后重试`,
+                {
+                    locked_until: new Date(lockedUntil).toISOString(),
+                    retry_after: retryAfter,
+                }
+            );
+        }
+    }
+
+    /**
+     * 登录失败后检查是否需要锁定（失败日志写入之后调用）
+     * 
+     * @param {string} email - 登录邮箱
+     * @param {string | null | undefined} ip - 客户端 IP
+     * @param {unknown} error - 导致登录失败的错误
+     * @returns {Promise<void>}
+     * 
+     * @description 锁定检查失败只记录告警，不影响原始错误的返回
+     */
+    async registerFailure(email: string, ip: string | null | undefined, error: unknown): Promise<void> {
+        if (!(error instanceof AppError) || !CREDENTIAL_FAILURE_REASONS.includes(error.code)) {
+            return;
+        }
+
+        const { maxAccountFailures, maxIpFailures } = config.auth.loginLockout;
+
+        try {
+            if (maxAccountFailures > 0) {
+                // 登录成功后账号的失败次数重新计算；IP 不重置，避免攻击者用自己的账号清零计数
+                const account = normalizeLoginEmail(email);
+                const lastSuccessAt = await this.authRepository.getLastSuccessfulLoginAt(account);
+                await this.evaluate(LockoutScope.ACCOUNT, account, maxAccountFailures, lastSuccessAt);
+            }
+
+            if (ip && maxIpFailures > 0) {
+                await this.evaluate(LockoutScope.IP, ip, maxIpFailures, null);
+            }
+        } catch (evaluateErr) {
+            logger.warn('Failed to evaluate login lockout', {
+                email,
+                ip,
+                error: evaluateErr instanceof Error ? evaluateErr.message : String(evaluateErr),
+            });
+        }
+    }
+
+    /**
+     * 管理员解锁账号
+     * 
+     * @param {string} email - 账号邮箱
+     * @param {string} adminId - 执行解锁的管理员 ID
+     * @returns {Promise<boolean>} 解锁前账号是否处于锁定期
+     * 
+     * @description 清除锁定状态并重置计数起点和锁定级别，之前的失败记录不再计入
+     */
+    async unlockAccount(email: string, adminId: string): Promise<boolean> {
+        const identifier = normalizeLoginEmail(email);
+        const existing = await loginLockoutRepository.find(LockoutScope.ACCOUNT, identifier);
+        const wasLocked = toTime(existing?.locked_until) > Date.now();
+        const now = new Date().toISOString();
+
+        await loginLockoutRepository.save({
+            scope: LockoutScope.ACCOUNT,
+            identifier,
+            lock_level: 0,
+            locked_until: null,
+            counted_from: now,
+            unlocked_by: adminId,
+            unlocked_at: now,
+        });
+
+        logger.info('Login lockout cleared by admin', { email, adminId, wasLocked });
+
+        return wasLocked;
+    }
+
+    /**
+     * 统计失败次数，达到阈值时锁定
+     * 
+     * @param {LockoutScope} scope - 锁定范围
+     * @param {string} identifier - 锁定对象（邮箱或 IP）
+     * @param {number} threshold - 失败次数阈值
+     * @param {string | null} resetAt - 该时间点之前的失败不计入，且之前的锁定不参与退避
+     */
+    private async evaluate(
+        scope: LockoutScope,
+        identifier: string,
+        threshold: number,
+        resetAt: string | null
+    ): Promise<void> {
+        const { window, lockDuration, maxLockDuration } = config.auth.loginLockout;
+        const now = Date.now();
+
+        const existing = await loginLockoutRepository.find(scope, identifier);
+        const since = Math.max(now - window * 1000, toTime(existing?.counted_from), toTime(resetAt));
+
+        const failures = await this.authRepository.countFailedLoginsSince(
+            scope === LockoutScope.ACCOUNT ? { email: identifier } : { ip: identifier },
+            new Date(since).toISOString(),
+            CREDENTIAL_FAILURE_REASONS
+        );
+
+        if (failures < threshold) {
+            return;
+        }
+
+        const level = this.nextLockLevel(existing, toTime(resetAt), now, maxLockDuration);
+        const duration = Math.min(lockDuration * 2 ** (level - 1), maxLockDuration);
+        const lockedUntil = new Date(now + duration * 1000).toISOString();
+
+        await loginLockoutRepository.save({
+            scope,
+            identifier,
+            lock_level: level,
+            locked_until: lockedUntil,
+            // 锁定后重新计数，解锁后需要再次达到阈值才会被锁定
+            counted_from: new Date(now).toISOString(),
+        });
+
+        logger.warn('Login locked after repeated failures', {
+            scope,
+            identifier,
+            failures,
+            level,
+            lockedUntil,
+        });
+    }
+
+    /**
+     * 计算本次锁定级别
+     * 
+     * @description 上次锁定结束后登录成功过、被管理员解锁，或距上次锁定结束已超过最长锁定时长时，从 1 重新开始
+     */
+    private nextLockLevel(
+        existing: LoginLockout | null,
+        resetAt: number,
+        now: number,
+        maxLockDuration: number
+    ): number {
+        const lastLockedUntil = toTime(existing?.locked_until);
+
+        if (
+            !existing ||
+            lastLockedUntil === 0 ||
+            resetAt > lastLockedUntil ||
+            now - lastLockedUntil > maxLockDuration * 1000
+        ) {
+            return 1;
+        }
+
+        return existing.lock_level + 1;
+    }
+}
+
+export const loginLockoutService = new LoginLockoutService();
@@ -0,0 +1,216 @@
+/**
+ * @file login-log.service.ts
+ * @description 登录日志业务逻辑层：记录每一次登录尝试（成功和失败），成功时更新最后登录时间
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { logger } from '[@BASE]/lib/logger.ts';
+import { parseUserAgent } from '[@BASE]/lib/user-agent.ts';
+import { AppError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { AuthRepository } from '[@BASE-repositories]/auth.repository.ts';
+import { UserRepository } from '[@BASE-repositories]/user.repository.ts';
+import { normalizeLoginEmail } from '[@BASE-services]/login-lockout.service.ts';
+import { LoginStatus } from '[@BASE]/types/auth.types.ts';
+import type {
+    ClientContext,
+    LoginHistoryItem,
+    LoginMethod,
+} from '[@BASE]/types/auth.types.ts';
+
+/** 游标中的记录 ID 格式 */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * 登录尝试信息
+ */
+export interface LoginAttempt {
+    /** 登录方式 */
+    method: LoginMethod;
+    /** 登录邮箱 */
+    email: string;
+    /** 用户 ID（失败时可能无法确定） */
+    userId?: string | null;
+    /** 客户端上下文 */
+    client?: ClientContext;
+}
+
+/**
+ * 登录历史查询参数
+ */
+export interface LoginHistoryQuery {
+    /** 每页数量 */
+    limit: number;
+    /** 游标（上一页返回的 next_cursor） */
+    cursor?: string;
+    /** 按登录状态筛选 */
+    status?: LoginStatus;
+    /** 按登录方式筛选 */
+    method?: LoginMethod;
+}
+
+/**
+ * 登录历史分页结果
+ */
+export interface LoginHistoryPage {
+    /** 登录记录，按时间倒序 */
+    items: LoginHistoryItem[];
+    /** 下一页游标，没有更多数据时为 null */
+    next_cursor: string | null;
+}
+
+export class LoginLogService {
+    // 登录发生在未认证状态，使用管理员客户端写入
+    private readonly authRepository = new AuthRepository(true);
+    private readonly userRepository = new UserRepository(true);
+
+    /**
+     * 记录登录成功，并更新用户最后登录时间
+     * 
+     * @param {LoginAttempt} attempt - 登录信息（必须包含 userId）
+     * @returns {Promise<void>}
+     */
+    async recordSuccess(attempt: LoginAttempt & { userId: string }): Promise<void> {
+        await this.write(attempt, LoginStatus.SUCCESS, null);
+
+        try {
+            await this.userRepository.updateLastLogin(attempt.userId);
+        } catch (error) {
+            logger.warn('Failed to update last login time', {
+                userId: attempt.userId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    /**
+     * 记录登录失败
+     * 
+     * @param {LoginAttempt} attempt - 登录信息
+     * @param {unknown} error - 导致登录失败的错误，业务错误记录错误码，其余记录为内部错误
+     * @returns {Promise<void>}
+     * 
+     * @description 未传入 userId 时按登录邮箱查找用户，针对已注册账号的失败尝试（如密码错误）同样出现在该用户的登录历史中
+     */
+    async recordFailure(attempt: LoginAttempt, error: unknown): Promise<void> {
+        const reason = error instanceof AppError ? error.code : ErrorCodes.INTERNAL_ERROR;
+        const userId = attempt.userId ?? await this.findUserId(attempt.email);
+        await this.write(
+            { ...attempt, userId },
+            LoginStatus.FAILED,
+            reason,
+            error instanceof Error ? error.message : String(error)
+        );
+    }
+
+    /**
+     * 获取用户的登录历史（游标分页）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {LoginHistoryQuery} query - 查询参数
+     * @returns {Promise<LoginHistoryPage>} 登录记录和下一页游标
+     * @throws {AppError} 游标无效时抛出错误
+     */
+    async getLoginHistory(userId: string, query: LoginHistoryQuery): Promise<LoginHistoryPage> {
+        const before = query.cursor ? this.decodeCursor(query.cursor) : undefined;
+
+        // 多取一条用于判断是否还有下一页
+        const rows = await this.authRepository.getUserLoginHistory(userId, {
+            limit: query.limit + 1,
+            status: query.status,
+            method: query.method,
+            before,
+        });
+
+        const items = rows.slice(0, query.limit);
+        const last = items[items.length - 1];
+
+        return {
+            items,
+            next_cursor: rows.length > query.limit && last
+                ? this.encodeCursor(last.created_at, last.id)
+                : null,
+        };
+    }
+
+    /**
+     * 按登录邮箱查找用户 ID（查询失败或邮箱未注册时返回 null）
+     */
+    private async findUserId(email: string): Promise<string | null> {
+        try {
+            const user = await this.userRepository.findByEmail(email) ??
+                await this.userRepository.findByEmail(normalizeLoginEmail(email));
+            return user?.id ?? null;
+        } catch (error) {
+            logger.warn('Failed to resolve user for login log', {
+                email,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return null;
+        }
+    }
+
+    /**
+     * 写入登录日志（写入失败只记录告警，不影响登录流程）
+     */
+    private async write(
+        attempt: LoginAttempt,
+        status: LoginStatus,
+        failureReason: string | null,
+        failureMessage?: string
+    ): Promise<void> {
+        const device = parseUserAgent(attempt.client?.userAgent);
+
+        try {
+            await this.authRepository.createLoginLog({
+                user_id: attempt.userId ?? null,
+                // 与登录锁定统计使用相同的邮箱格式
+                email: normalizeLoginEmail(attempt.email),
+                login_method: attempt.method,
+                status,
+                failure_reason: failureReason,
+                ip_address: attempt.client?.ip ?? null,
+                user_agent: attempt.client?.userAgent ?? null,
+                device_type: device.deviceType,
+                os: device.os,
+                browser: device.browser,
+                metadata: {
+                    request_id: attempt.client?.requestId ?? null,
+                    ...(failureMessage ? { failure_message: failureMessage } : {}),
+                },
+            });
+        } catch (error) {
+            logger.warn('Failed to write login log', {
+                email: attempt.email,
+                status,
+                requestId: attempt.client?.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    /**
+     * 编码分页游标（记录的创建时间 + ID）
+     */
+    private encodeCursor(createdAt: string, id: string): string {
+        return btoa(`${createdAt}|${id}`).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    }
+
+    /**
+     * 解码分页游标
+     */
+    private decodeCursor(cursor: string): { createdAt: string; id: string } {
+        try {
+            const [createdAt, id] = atob(cursor.replace(/-/g, '+').replace(/_/g, '/')).split('|');
+            if (createdAt && UUID_PATTERN.test(id ?? '') && !Number.isNaN(Date.parse(createdAt))) {
+                return { createdAt, id };
+            }
+        } catch {
+            // 非法 base64，按无效游标处理
+        }
+        throw new AppError(ErrorCodes.VALIDATION_ERROR, '分页游标无效');
+    }
+}
+
+export const loginLogService = new LoginLogService();
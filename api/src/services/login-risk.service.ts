@@ -0,0 +1,139 @@
+/**
+ * @file login-risk.service.ts
+ * @description 登录风险评估业务逻辑层：结合 detect_suspicious_login 返回的信号和近期失败次数给出风险等级
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { logger } from '[@BASE]/lib/logger.ts';
+import { parseUserAgent } from '[@BASE]/lib/user-agent.ts';
+import { sendNewSignInEmail } from '[@BASE]/lib/email.ts';
+import { AuthRepository } from '[@BASE-repositories]/auth.repository.ts';
+import { CREDENTIAL_FAILURE_REASONS } from '[@BASE-services]/login-lockout.service.ts';
+import { LoginRiskLevel, LoginRiskSignal } from '[@BASE]/types/auth.types.ts';
+import type { ClientContext, LoginRiskAssessment } from '[@BASE]/types/auth.types.ts';
+import type { User } from '[@BASE]/types/user.types.ts';
+
+/** 统计近期登录失败的时间范围（毫秒） */
+const RECENT_FAILURE_WINDOW_MS = 60 * 60 * 1000;
+
+/** 近期登录失败次数达到该值时命中 RECENT_FAILURES 信号 */
+const RECENT_FAILURE_THRESHOLD = 3;
+
+/** 各风险信号的分值 */
+const SIGNAL_WEIGHTS: Record<LoginRiskSignal, number> = {
+    [LoginRiskSignal.NEW_IP]: 1,
+    [LoginRiskSignal.NEW_DEVICE]: 1,
+    [LoginRiskSignal.UNUSUAL_HOUR]: 1,
+    [LoginRiskSignal.RECENT_FAILURES]: 2,
+};
+
+/** 总分达到该值视为高风险（例如新 IP + 新设备，或凭据被多次试错后登录成功） */
+const HIGH_RISK_SCORE = 2;
+
+/** 风险信号在提醒邮件中的说明 */
+const SIGNAL_LABELS: Record<LoginRiskSignal, string> = {
+    [LoginRiskSignal.NEW_IP]: '新的 IP 地址',
+    [LoginRiskSignal.NEW_DEVICE]: '新的设备或浏览器',
+    [LoginRiskSignal.UNUSUAL_HOUR]: '非常用登录时段',
+    [LoginRiskSignal.RECENT_FAILURES]: '近期多次登录失败',
+};
+
+export class LoginRiskService {
+    // 登录发生在未认证状态，使用管理员客户端读取登录日志
+    private readonly authRepository = new AuthRepository(true);
+
+    /**
+     * 评估本次登录的风险（在凭据校验通过后、写入成功日志前调用）
+     * 
+     * @param {User} user - 已通过凭据校验的用户
+     * @param {string} email - 登录邮箱
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<LoginRiskAssessment>} 风险等级和命中的信号
+     * 
+     * @description 评估失败时只记录告警并按低风险处理，不阻断登录
+     */
+    async assess(user: User, email: string, client?: ClientContext): Promise<LoginRiskAssessment> {
+        try {
+            const signals = await this.collectSignals(user, email, client);
+            const score = signals.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal], 0);
+
+            const level = score >= HIGH_RISK_SCORE
+                ? LoginRiskLevel.HIGH
+                : score > 0 ? LoginRiskLevel.MEDIUM : LoginRiskLevel.LOW;
+
+            if (level !== LoginRiskLevel.LOW) {
+                logger.info('Risky login detected', { userId: user.id, level, signals });
+            }
+
+            return { level, signals };
+        } catch (error) {
+            logger.warn('Failed to assess login risk', {
+                userId: user.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return { level: LoginRiskLevel.LOW, signals: [] };
+        }
+    }
+
+    /**
+     * 发送新设备登录提醒邮件（登录完成后调用）
+     * 
+     * @param {User} user - 登录用户
+     * @param {LoginRiskSignal[]} signals - 命中的风险信号
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<void>}
+     * 
+     * @description 发送失败只记录告警，不影响登录
+     */
+    async notifyNewSignIn(
+        user: User,
+        signals: LoginRiskSignal[],
+        client?: ClientContext
+    ): Promise<void> {
+        const device = parseUserAgent(client?.userAgent);
+
+        const sent = await sendNewSignInEmail(user.email, {
+            time: new Date(),
+            ip: client?.ip ?? null,
+            device: [device.browser, device.os].filter(Boolean).join(' / ') || null,
+            reasons: signals.map((signal) => SIGNAL_LABELS[signal]),
+        });
+
+        if (!sent) {
+            logger.warn('Failed to send new sign-in email', { userId: user.id });
+        }
+    }
+
+    /**
+     * 收集风险信号
+     */
+    private async collectSignals(
+        user: User,
+        email: string,
+        client?: ClientContext
+    ): Promise<LoginRiskSignal[]> {
+        const device = parseUserAgent(client?.userAgent);
+        const since = new Date(Date.now() - RECENT_FAILURE_WINDOW_MS).toISOString();
+
+        const [check, recentFailures] = await Promise.all([
+            this.authRepository.detectSuspiciousLogin(user.id, {
+                ip: client?.ip ?? null,
+                deviceType: device.deviceType,
+                os: device.os,
+                browser: device.browser,
+            }),
+            this.authRepository.countFailedLoginsSince({ email }, since, CREDENTIAL_FAILURE_REASONS),
+        ]);
+
+        const signals: LoginRiskSignal[] = [];
+        if (check?.new_ip) signals.push(LoginRiskSignal.NEW_IP);
+        if (check?.new_device) signals.push(LoginRiskSignal.NEW_DEVICE);
+        if (check?.unusual_hour) signals.push(LoginRiskSignal.UNUSUAL_HOUR);
+        if (recentFailures >= RECENT_FAILURE_THRESHOLD) signals.push(LoginRiskSignal.RECENT_FAILURES);
+
+        return signals;
+    }
+}
+
+export const loginRiskService = new LoginRiskService();
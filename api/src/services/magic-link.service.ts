@@ -0,0 +1,203 @@
+/**
+ * @file magic-link.service.ts
+ * @description 登录链接（magic link）业务逻辑层：发送登录链接、确认登录、换取令牌和轮询令牌兑换
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import config from '[@BASE]/config/index.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { sendMagicLinkEmail } from '[@BASE]/lib/email.ts';
+import { parseUserAgent } from '[@BASE]/lib/user-agent.ts';
+import {
+    createSignedToken,
+    generateRandomToken,
+    hashToken,
+    verifySignedToken,
+} from '[@BASE]/lib/token.ts';
+import { AppError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { magicLinkRepository } from '[@BASE-repositories]/magic-link.repository.ts';
+import { UserRepository } from '[@BASE-repositories]/user.repository.ts';
+import { credentialService } from '[@BASE-services]/credential.service.ts';
+import type { ClientContext, MagicLink } from '[@BASE]/types/auth.types.ts';
+import type { User } from '[@BASE]/types/user.types.ts';
+
+/** 登录链接签名用途 */
+const TOKEN_PURPOSE = 'magic_link';
+
+/** 同一邮箱两次发送的最小间隔（毫秒） */
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+/** 确认登录后，兑换令牌的有效期（毫秒） */
+const REDEEM_EXPIRES_IN_MS = 5 * 60 * 1000;
+
+/**
+ * 登录链接请求（发起请求的客户端用 pollToken 轮询登录结果）
+ */
+export interface MagicLinkRequest {
+    /** 轮询令牌 */
+    pollToken: string;
+    /** 登录链接过期时间 */
+    expiresAt: string;
+}
+
+export class MagicLinkService {
+    private readonly userRepository = new UserRepository(true);
+
+    /**
+     * 发送登录链接
+     * 
+     * @param {string} email - 登录邮箱
+     * @param {ClientContext} [client] - 发起请求的客户端上下文（展示在邮件中）
+     * @returns {Promise<MagicLinkRequest>} 轮询令牌和过期时间
+     * @throws {AppError} 发送过于频繁或邮件发送失败时抛出错误
+     * 
+     * @description 与验证码登录一样，邮箱未注册时点击链接会自动创建用户，因此不区分邮箱是否注册
+     */
+    async send(email: string, client?: ClientContext): Promise<MagicLinkRequest> {
+        const latest = await magicLinkRepository.findLatestByEmail(email);
+        if (latest && Date.now() - new Date(latest.created_at || '').getTime() < RESEND_INTERVAL_MS) {
+            throw new AppError(ErrorCodes.VERIFICATION_CODE_TOO_FREQUENT);
+        }
+
+        const { expiresIn, linkBaseUrl } = config.auth.magicLink;
+        const expiresAt = new Date(Date.now() + expiresIn * 1000);
+        const token = await createSignedToken(TOKEN_PURPOSE, config.auth.jwtSecret, expiresAt);
+        const pollToken = generateRandomToken();
+
+        await magicLinkRepository.create({
+            email,
+            tokenHash: await hashToken(token),
+            pollTokenHash: await hashToken(pollToken),
+            expiresAt,
+        });
+
+        const device = parseUserAgent(client?.userAgent);
+        const sent = await sendMagicLinkEmail(email, `${linkBaseUrl.replace(/\/+$/, '')}/${token}`, {
+            ip: client?.ip ?? null,
+            device: [device.browser, device.os].filter(Boolean).join(' / ') || null,
+            expiresInMinutes: Math.ceil(expiresIn / 60),
+        });
+        if (!sent) {
+            throw new AppError(ErrorCodes.EMAIL_SEND_FAILED);
+        }
+
+        logger.info('Magic link sent', { email });
+
+        return { pollToken, expiresAt: expiresAt.toISOString() };
+    }
+
+    /**
+     * 校验登录链接签名和过期时间（打开链接时调用，不修改链接状态）
+     * 
+     * @param {string} token - 邮件中登录链接的令牌
+     * @returns {Promise<boolean>} 签名有效且未过期时返回 true
+     * 
+     * @description 邮件安全网关和链接预取会自动请求链接，打开链接只跳转到前端确认页面，不确认登录
+     */
+    verify(token: string): Promise<boolean> {
+        return verifySignedToken(TOKEN_PURPOSE, config.auth.jwtSecret, token);
+    }
+
+    /**
+     * 确认登录链接并签发换取令牌（用户在前端确认页面点击确认后调用）
+     * 
+     * @param {string} token - 邮件中登录链接的令牌
+     * @returns {Promise<string>} 换取令牌（点击链接的浏览器用于换取会话）
+     * @throws {AppError} 链接签名无效、已过期或已被确认时抛出错误
+     * 
+     * @description 先校验签名和过期时间，伪造或过期的链接不会查询数据库；
+     * 确认后发起请求的客户端轮询或点击链接的浏览器提交换取令牌都可以完成登录，
+     * 但每个链接只签发一个会话，先兑换的一方登录成功，另一方的令牌随即失效，需在 5 分钟内完成
+     */
+    async approve(token: string): Promise<string> {
+        if (!(await this.verify(token))) {
+            throw new AppError(ErrorCodes.AUTH_MAGIC_LINK_INVALID);
+        }
+
+        const exchangeToken = generateRandomToken();
+        const link = await magicLinkRepository.approve(
+            await hashToken(token),
+            await hashToken(exchangeToken),
+            new Date(Date.now() + REDEEM_EXPIRES_IN_MS)
+        );
+        if (!link) {
+            throw new AppError(ErrorCodes.AUTH_MAGIC_LINK_INVALID);
+        }
+
+        logger.info('Magic link approved', { email: link.email });
+
+        return exchangeToken;
+    }
+
+    /**
+     * 通过轮询令牌查找登录链接
+     * 
+     * @param {string} pollToken - 轮询令牌
+     * @returns {Promise<MagicLink>} 登录链接（approved_at 为空表示尚未确认）
+     * @throws {AppError} 轮询令牌无效或已过期时抛出错误
+     */
+    async findByPollToken(pollToken: string): Promise<MagicLink> {
+        const link = await magicLinkRepository.findActiveByPollTokenHash(await hashToken(pollToken));
+        if (!link) {
+            throw new AppError(ErrorCodes.AUTH_MAGIC_LINK_INVALID);
+        }
+        return link;
+    }
+
+    /**
+     * 兑换轮询令牌并返回登录用户
+     * 
+     * @param {MagicLink} link - 已确认的登录链接
+     * @returns {Promise<User>} 登录用户
+     * @throws {AppError} 链接未确认、已过期或已在任一端兑换时抛出错误
+     */
+    async redeemPoll(link: MagicLink): Promise<User> {
+        if (!(await magicLinkRepository.redeemPoll(link.id))) {
+            throw new AppError(ErrorCodes.AUTH_MAGIC_LINK_INVALID);
+        }
+        return this.resolveUser(link.email);
+    }
+
+    /**
+     * 兑换换取令牌
+     * 
+     * @param {string} exchangeToken - 确认登录后返回的换取令牌
+     * @returns {Promise<MagicLink>} 被兑换的登录链接
+     * @throws {AppError} 换取令牌无效、已过期或已在任一端兑换时抛出错误
+     */
+    async redeemExchange(exchangeToken: string): Promise<MagicLink> {
+        const link = await magicLinkRepository.redeemExchange(await hashToken(exchangeToken));
+        if (!link) {
+            throw new AppError(ErrorCodes.AUTH_MAGIC_LINK_INVALID);
+        }
+        return link;
+    }
+
+    /**
+     * 查找或创建登录邮箱对应的用户
+     * 
+     * @param {string} email - 登录邮箱
+     * @returns {Promise<User>} 登录用户
+     * 
+     * @description 确认登录证明了邮箱控制权：邮箱未注册时创建无密码用户，已注册但未验证邮箱时标记为已验证
+     */
+    async resolveUser(email: string): Promise<User> {
+        const user = await this.userRepository.findByEmail(email);
+        if (!user) {
+            return credentialService.createPasswordlessUser({
+                name: email.split('@')[0] || '用户',
+                email,
+                emailVerified: true,
+            });
+        }
+
+        if (!user.email_verified) {
+            return this.userRepository.updateById(user.id, { email_verified: true });
+        }
+        return user;
+    }
+}
+
+export const magicLinkService = new MagicLinkService();
@@ -0,0 +1,269 @@
+/**
+ * @file mfa.service.ts
+ * @description 两步验证业务逻辑层：TOTP 绑定、确认、关闭，以及一次性恢复码的生成和使用
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import config from '[@BASE]/config/index.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { hashToken } from '[@BASE]/lib/token.ts';
+import {
+    buildOtpauthUri,
+    encodeBase32,
+    generateTotpSecret,
+    TOTP_DIGITS,
+    verifyTotp,
+} from '[@BASE]/lib/totp.ts';
+import { AppError, createUserError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { mfaRepository } from '[@BASE-repositories]/mfa.repository.ts';
+import { UserRepository } from '[@BASE-repositories]/user.repository.ts';
+import type { TotpFactor } from '[@BASE]/types/auth.types.ts';
+
+/** 每次生成的恢复码数量 */
+const RECOVERY_CODE_COUNT = 10;
+
+/** 恢复码长度（不含分隔符），展示为 xxxxx-xxxxx */
+const RECOVERY_CODE_LENGTH = 10;
+
+/**
+ * 两步验证状态
+ */
+export interface MfaStatus {
+    /** 是否已开启 TOTP 两步验证 */
+    totp_enabled: boolean;
+    /** 剩余可用的恢复码数量 */
+    recovery_codes_remaining: number;
+}
+
+/**
+ * TOTP 绑定信息（确认前只返回这一次）
+ */
+export interface TotpEnrollment {
+    /** Base32 编码的密钥（无法扫码时手动输入） */
+    secret: string;
+    /** otpauth:// URI（前端据此生成二维码） */
+    otpauth_uri: string;
+}
+
+/**
+ * 一次性恢复码（明文只返回这一次）
+ */
+export interface RecoveryCodes {
+    recovery_codes: string[];
+}
+
+export class MfaService {
+    private readonly userRepository = new UserRepository(true);
+
+    /**
+     * 获取两步验证状态
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<MfaStatus>} 两步验证状态
+     */
+    async getStatus(userId: string): Promise<MfaStatus> {
+        const factor = await mfaRepository.findTotpFactor(userId);
+        const enabled = Boolean(factor?.confirmed_at);
+
+        return {
+            totp_enabled: enabled,
+            recovery_codes_remaining: enabled
+                ? await mfaRepository.countUnusedRecoveryCodes(userId)
+                : 0,
+        };
+    }
+
+    /**
+     * 用户是否已开启两步验证
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<boolean>} 是否已开启
+     */
+    async isEnabled(userId: string): Promise<boolean> {
+        const factor = await mfaRepository.findTotpFactor(userId);
+        return Boolean(factor?.confirmed_at);
+    }
+
+    /**
+     * 开始绑定 TOTP：生成新密钥（未确认前不生效）
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<TotpEnrollment>} 密钥和 otpauth URI
+     * @throws {AppError} 用户不存在或已开启两步验证时抛出错误
+     * 
+     * @description 重复调用会覆盖之前未确认的密钥
+     */
+    async startTotpEnrollment(userId: string): Promise<TotpEnrollment> {
+        const user = await this.userRepository.findById(userId);
+        if (!user) {
+            throw createUserError.notFound(userId);
+        }
+
+        if (await this.isEnabled(userId)) {
+            throw new AppError(ErrorCodes.AUTH_MFA_ALREADY_ENABLED);
+        }
+
+        const secret = generateTotpSecret();
+        await mfaRepository.savePendingTotpFactor(userId, secret);
+
+        logger.info('TOTP enrollment started', { userId });
+
+        return {
+            secret,
+            otpauth_uri: buildOtpauthUri({
+                secret,
+                accountName: user.email,
+                issuer: config.app.name,
+            }),
+        };
+    }
+
+    /**
+     * 确认绑定 TOTP：校验验证器 App 生成的动态码后开启两步验证
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} code - 动态码
+     * @returns {Promise<RecoveryCodes>} 一次性恢复码
+     * @throws {AppError} 尚未开始绑定、已开启或动态码错误时抛出错误
+     */
+    async confirmTotpEnrollment(userId: string, code: string): Promise<RecoveryCodes> {
+        const factor = await mfaRepository.findTotpFactor(userId);
+        if (!factor) {
+            throw new AppError(ErrorCodes.AUTH_MFA_NOT_ENABLED, '请先获取两步验证密钥');
+        }
+        if (factor.confirmed_at) {
+            throw new AppError(ErrorCodes.AUTH_MFA_ALREADY_ENABLED);
+        }
+
+        const step = await verifyTotp(factor.secret, code);
+        if (step === null) {
+            throw new AppError(ErrorCodes.AUTH_MFA_CODE_INVALID);
+        }
+
+        await mfaRepository.confirmTotpFactor(userId, step);
+        const recoveryCodes = await this.issueRecoveryCodes(userId);
+
+        logger.info('TOTP enabled', { userId });
+
+        return { recovery_codes: recoveryCodes };
+    }
+
+    /**
+     * 关闭两步验证（同时作废全部恢复码）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} code - 动态码或恢复码
+     * @returns {Promise<void>}
+     * @throws {AppError} 未开启两步验证或验证码错误时抛出错误
+     */
+    async disableTotp(userId: string, code: string): Promise<void> {
+        await this.consumeCode(userId, code);
+
+        await mfaRepository.deleteRecoveryCodes(userId);
+        await mfaRepository.deleteTotpFactor(userId);
+
+        logger.info('TOTP disabled', { userId });
+    }
+
+    /**
+     * 重新生成恢复码（旧恢复码立即失效）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} code - 动态码或恢复码
+     * @returns {Promise<RecoveryCodes>} 新的一次性恢复码
+     * @throws {AppError} 未开启两步验证或验证码错误时抛出错误
+     */
+    async regenerateRecoveryCodes(userId: string, code: string): Promise<RecoveryCodes> {
+        await this.consumeCode(userId, code);
+
+        const recoveryCodes = await this.issueRecoveryCodes(userId);
+
+        logger.info('MFA recovery codes regenerated', { userId });
+
+        return { recovery_codes: recoveryCodes };
+    }
+
+    /**
+     * 校验并消费两步验证码（动态码或恢复码）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} code - 6 位动态码，或恢复码（忽略大小写和分隔符）
+     * @returns {Promise<void>}
+     * @throws {AppError} 未开启两步验证或验证码错误（含已使用过）时抛出错误
+     * 
+     * @description 动态码的时间步和恢复码都只能使用一次
+     */
+    async consumeCode(userId: string, code: string): Promise<void> {
+        const factor = await mfaRepository.findTotpFactor(userId);
+        if (!factor?.confirmed_at) {
+            throw new AppError(ErrorCodes.AUTH_MFA_NOT_ENABLED);
+        }
+
+        const trimmed = code.trim();
+        const valid = new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(trimmed)
+            ? await this.consumeTotp(factor, trimmed)
+            : await this.consumeRecoveryCode(userId, trimmed);
+
+        if (!valid) {
+            logger.warn('Invalid MFA code', { userId });
+            throw new AppError(ErrorCodes.AUTH_MFA_CODE_INVALID);
+        }
+    }
+
+    /**
+     * 校验动态码并占用其时间步
+     */
+    private async consumeTotp(factor: TotpFactor, code: string): Promise<boolean> {
+        const step = await verifyTotp(factor.secret, code);
+        if (step === null) {
+            return false;
+        }
+
+        return mfaRepository.claimTotpStep(factor.user_id, step);
+    }
+
+    /**
+     * 使用恢复码
+     */
+    private async consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+        const normalized = this.normalizeRecoveryCode(code);
+        if (normalized.length !== RECOVERY_CODE_LENGTH) {
+            return false;
+        }
+
+        const consumed = await mfaRepository.consumeRecoveryCode(userId, await hashToken(normalized));
+        if (consumed) {
+            logger.info('MFA recovery code used', { userId });
+        }
+
+        return consumed;
+    }
+
+    /**
+     * 生成并保存一组新的恢复码，返回明文
+     */
+    private async issueRecoveryCodes(userId: string): Promise<string[]> {
+        const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+            encodeBase32(crypto.getRandomValues(new Uint8Array(8)))
+                .slice(0, RECOVERY_CODE_LENGTH)
+                .toLowerCase()
+        );
+
+        const hashes = await Promise.all(codes.map((code) => hashToken(code)));
+        await mfaRepository.replaceRecoveryCodes(userId, hashes);
+
+        const half = RECOVERY_CODE_LENGTH / 2;
+        return codes.map((code) => `${code.slice(0, half)}-${code.slice(half)}`);
+    }
+
+    /**
+     * 统一恢复码格式（小写，去掉分隔符和空白）
+     */
+    private normalizeRecoveryCode(code: string): string {
+        return code.toLowerCase().replace(/[^a-z2-7]/g, '');
+    }
+}
+
+export const mfaService = new MfaService();
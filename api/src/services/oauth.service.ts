@@ -0,0 +1,268 @@
+/**
+ * @file oauth.service.ts
+ * @description 第三方登录（OIDC/OAuth2）业务逻辑层：生成授权地址、处理回调换取身份信息、把第三方身份关联到本地用户
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import config from '[@BASE]/config/index.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { generateRandomToken, hashToken } from '[@BASE]/lib/token.ts';
+import {
+    buildAuthorizationUrl,
+    createPkcePair,
+    discover,
+    exchangeCode,
+    fetchUserInfo,
+    verifyIdToken,
+} from '[@BASE]/lib/oidc.ts';
+import type { DiscoveryDocument } from '[@BASE]/lib/oidc.ts';
+import { AppError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { oauthRepository } from '[@BASE-repositories]/oauth.repository.ts';
+import { UserRepository } from '[@BASE-repositories]/user.repository.ts';
+import { credentialService } from '[@BASE-services]/credential.service.ts';
+import type { OidcProviderConfig } from '[@BASE]/types/config.types.ts';
+import type { User } from '[@BASE]/types/user.types.ts';
+
+/** 授权请求有效期（毫秒） */
+const STATE_EXPIRES_IN_MS = 10 * 60 * 1000;
+
+/**
+ * 第三方登录提供方信息（登录页展示的按钮）
+ */
+export interface OAuthProviderInfo {
+    id: string;
+    name: string;
+}
+
+/**
+ * 授权请求（前端跳转到 authorizationUrl，身份提供方回调到前端回调页面）
+ */
+export interface AuthorizationRequest {
+    authorizationUrl: string;
+}
+
+/**
+ * 回调校验通过后的第三方身份
+ */
+export interface OAuthProfile {
+    /** 身份提供方标识 */
+    provider: string;
+    /** 身份提供方的用户标识 */
+    subject: string;
+    /** 邮箱 */
+    email: string;
+    /** 身份提供方是否已验证该邮箱 */
+    emailVerified: boolean;
+    /** 姓名 */
+    name: string | null;
+}
+
+export class OAuthService {
+    private readonly userRepository = new UserRepository(true);
+
+    /**
+     * 查询已启用的第三方登录提供方
+     * 
+     * @returns {OAuthProviderInfo[]} 提供方列表（按配置顺序）
+     */
+    listProviders(): OAuthProviderInfo[] {
+        return config.auth.oidc.providers.map(({ id, name }) => ({ id, name }));
+    }
+
+    /**
+     * 生成授权地址（第三方登录的第一步）
+     * 
+     * @param {string} providerId - 身份提供方标识
+     * @returns {Promise<AuthorizationRequest>} 授权地址
+     * @throws {AppError} 提供方未启用或发现文档读取失败时抛出错误
+     * 
+     * @description 生成 state、nonce 和 PKCE code_verifier 并保存，state 10 分钟内有效且只能使用一次
+     */
+    async createAuthorizationUrl(providerId: string): Promise<AuthorizationRequest> {
+        const provider = this.getProvider(providerId);
+        const discovery = await this.discover(provider);
+
+        const state = generateRandomToken();
+        const nonce = generateRandomToken();
+        const { codeVerifier, codeChallenge } = await createPkcePair();
+
+        await oauthRepository.createState({
+            stateHash: await hashToken(state),
+            provider: provider.id,
+            codeVerifier,
+            nonce,
+            expiresAt: new Date(Date.now() + STATE_EXPIRES_IN_MS),
+        });
+
+        return {
+            authorizationUrl: buildAuthorizationUrl(discovery, {
+                clientId: provider.clientId,
+                redirectUri: this.redirectUri(provider),
+                scopes: provider.scopes,
+                state,
+                nonce,
+                codeChallenge,
+            }),
+        };
+    }
+
+    /**
+     * 处理回调：校验 state，使用授权码换取令牌并校验 ID Token
+     * 
+     * @param {string} providerId - 身份提供方标识
+     * @param {string} code - 授权码
+     * @param {string} state - 回调地址中的 state
+     * @returns {Promise<OAuthProfile>} 第三方身份
+     * @throws {AppError} 提供方未启用、state 无效、换取令牌或 ID Token 校验失败、未返回邮箱时抛出错误
+     * 
+     * @description ID Token 不包含邮箱时，从用户信息端点补充（sub 必须一致）
+     */
+    async exchangeCode(providerId: string, code: string, state: string): Promise<OAuthProfile> {
+        const provider = this.getProvider(providerId);
+
+        try {
+            const record = await oauthRepository.consumeState(await hashToken(state), provider.id);
+            if (!record) {
+                throw new Error('State is invalid or expired');
+            }
+
+            const discovery = await discover(provider.issuer);
+            const tokens = await exchangeCode(
+                discovery,
+                {
+                    clientId: provider.clientId,
+                    clientSecret: provider.clientSecret,
+                    redirectUri: this.redirectUri(provider),
+                },
+                code,
+                record.code_verifier
+            );
+            const claims = await verifyIdToken(discovery, tokens.id_token, {
+                clientId: provider.clientId,
+                nonce: record.nonce,
+            });
+
+            let { email, email_verified: emailVerified, name } = claims;
+            if (!email && discovery.userinfo_endpoint) {
+                const userInfo = await fetchUserInfo(discovery, tokens.access_token);
+                if (userInfo.sub !== claims.sub) {
+                    throw new Error('UserInfo subject does not match ID token');
+                }
+                ({ email, email_verified: emailVerified } = userInfo);
+                name ??= userInfo.name;
+            }
+            if (!email) {
+                throw new Error('Identity provider did not return an email address');
+            }
+
+            return {
+                provider: provider.id,
+                subject: claims.sub,
+                email,
+                // 部分身份提供方以字符串返回布尔声明
+                emailVerified: emailVerified === true || String(emailVerified) === 'true',
+                name: name || null,
+            };
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            logger.warn('OAuth callback failed', {
+                provider: provider.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw new AppError(ErrorCodes.AUTH_OAUTH_FAILED);
+        }
+    }
+
+    /**
+     * 查找或创建第三方身份对应的本地用户
+     * 
+     * @param {OAuthProfile} profile - 回调校验通过后的第三方身份
+     * @returns {Promise<User>} 本地用户
+     * @throws {AppError} 邮箱已注册但无法自动关联时抛出错误
+     * 
+     * @description
+     * 1. 已关联的身份直接返回关联用户
+     * 2. 邮箱已注册时，只有身份提供方和本地账号都已验证该邮箱才自动关联，
+     *    避免他人先用未验证的邮箱注册账号（或在身份提供方使用未验证的邮箱）接管账号
+     * 3. 邮箱未注册时创建无密码用户并关联
+     */
+    async resolveUser(profile: OAuthProfile): Promise<User> {
+        const identity = await oauthRepository.findIdentity(profile.provider, profile.subject);
+        if (identity) {
+            const user = await this.userRepository.findById(identity.user_id);
+            if (!user) {
+                throw new AppError(ErrorCodes.AUTH_OAUTH_FAILED);
+            }
+            await oauthRepository.updateIdentityLogin(identity.id, profile);
+            return user;
+        }
+
+        let user = await this.userRepository.findByEmail(profile.email);
+        if (user && !(profile.emailVerified && user.email_verified)) {
+            logger.warn('OAuth identity not linked: email is not verified', {
+                provider: profile.provider,
+                userId: user.id,
+                emailVerifiedByProvider: profile.emailVerified,
+            });
+            throw new AppError(ErrorCodes.AUTH_OAUTH_ACCOUNT_CONFLICT);
+        }
+
+        user ??= await credentialService.createPasswordlessUser({
+            name: profile.name || profile.email.split('@')[0] || '用户',
+            email: profile.email,
+            emailVerified: profile.emailVerified,
+        });
+
+        await oauthRepository.createIdentity({
+            user_id: user.id,
+            provider: profile.provider,
+            subject: profile.subject,
+            email: profile.email,
+            email_verified: profile.emailVerified,
+            last_login_at: new Date().toISOString(),
+        });
+
+        logger.info('OAuth identity linked', { userId: user.id, provider: profile.provider });
+
+        return user;
+    }
+
+    /**
+     * 读取已启用的提供方配置
+     */
+    private getProvider(providerId: string): OidcProviderConfig {
+        const provider = config.auth.oidc.providers.find((item) => item.id === providerId);
+        if (!provider) {
+            throw new AppError(ErrorCodes.AUTH_OAUTH_PROVIDER_NOT_FOUND);
+        }
+        return provider;
+    }
+
+    /**
+     * 读取发现文档，失败时转换为业务错误
+     */
+    private async discover(provider: OidcProviderConfig): Promise<DiscoveryDocument> {
+        try {
+            return await discover(provider.issuer);
+        } catch (error) {
+            logger.error('OIDC discovery failed', {
+                provider: provider.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw new AppError(ErrorCodes.INTERNAL_ERROR, '第三方登录暂不可用，请稍后重试');
+        }
+    }
+
+    /**
+     * 前端回调页面地址
+     */
+    private redirectUri(provider: OidcProviderConfig): string {
+        return `${config.auth.oidc.redirectBaseUrl.replace(/\/+$/, '')}/${provider.id}/callback`;
+    }
+}
+
+export const oauthService = new OAuthService();
@@ -0,0 +1,240 @@
+/**
+ * @file session.service.ts
+ * @description 会话业务逻辑层：登录会话的创建、活跃状态维护、设备列表和吊销
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import config from '[@BASE]/config/index.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { TtlCache } from '[@BASE]/lib/ttl-cache.ts';
+import { parseUserAgent } from '[@BASE]/lib/user-agent.ts';
+import { AppError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { sessionRepository } from '[@BASE-repositories]/session.repository.ts';
+import { refreshTokenRepository } from '[@BASE-repositories]/refresh-token.repository.ts';
+import { RefreshTokenRevokeReason } from '[@BASE]/types/auth.types.ts';
+import type { ClientContext } from '[@BASE]/types/auth.types.ts';
+import { SessionRevokeReason } from '[@BASE]/types/session.types.ts';
+import type { SessionInfo, UserSession } from '[@BASE]/types/session.types.ts';
+
+/**
+ * 会话状态缓存时间（毫秒）
+ * 
+ * @description 多实例部署时，其他实例上的会话吊销最多延迟该时间生效；本实例的吊销立即生效
+ */
+const CACHE_TTL_MS = 30 * 1000;
+
+/** 最近活跃时间的最小更新间隔（毫秒），避免每个请求都写数据库 */
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export class SessionService {
+    /** sessionId -> 是否有效 */
+    private readonly activeCache = new TtlCache<boolean>(CACHE_TTL_MS);
+    /** sessionId -> 最近一次写入 last_seen_at 的标记 */
+    private readonly touchedCache = new TtlCache<true>(TOUCH_INTERVAL_MS);
+
+    /**
+     * 创建会话（每次登录调用一次）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<UserSession>} 创建的会话
+     */
+    async createSession(userId: string, client?: ClientContext): Promise<UserSession> {
+        const device = parseUserAgent(client?.userAgent);
+        const expiresAt = new Date(Date.now() + config.auth.jwtRefreshExpiresIn * 1000);
+
+        const session = await sessionRepository.create({
+            user_id: userId,
+            ip_address: client?.ip ?? null,
+            user_agent: client?.userAgent ?? null,
+            device_type: device.deviceType,
+            os: device.os,
+            browser: device.browser,
+            expires_at: expiresAt.toISOString(),
+        });
+
+        this.activeCache.set(session.id, true);
+        this.touchedCache.set(session.id, true);
+
+        logger.info('User session created', {
+            userId,
+            sessionId: session.id,
+            deviceType: device.deviceType,
+        });
+
+        return session;
+    }
+
+    /**
+     * 判断会话是否有效（未吊销且未过期）
+     * 
+     * @param {string} sessionId - 会话 ID
+     * @returns {Promise<boolean>} 是否有效
+     */
+    async isActive(sessionId: string): Promise<boolean> {
+        const cached = this.activeCache.get(sessionId);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const session = await sessionRepository.findById(sessionId);
+        const active = !!session &&
+            !session.revoked_at &&
+            new Date(session.expires_at).getTime() > Date.now();
+
+        this.activeCache.set(sessionId, active);
+
+        return active;
+    }
+
+    /**
+     * 校验会话是否为最近登录（注销账号等敏感操作要求用户刚刚登录过）
+     * 
+     * @param {string | undefined} sessionId - 会话 ID（旧 Token 没有会话 ID，视为需要重新登录）
+     * @param {number} maxAge - 允许的最长登录时间（秒）
+     * @returns {Promise<void>}
+     * @throws {AppError} 会话不存在或登录时间超过 maxAge 时抛出错误
+     * 
+     * @description 会话创建时间即本次登录完成的时间，刷新令牌轮换不会改变
+     */
+    async assertRecentlyAuthenticated(sessionId: string | undefined, maxAge: number): Promise<void> {
+        const session = sessionId ? await sessionRepository.findById(sessionId) : null;
+        const authenticatedAt = session?.created_at ? new Date(session.created_at).getTime() : 0;
+
+        if (Date.now() - authenticatedAt > maxAge * 1000) {
+            throw new AppError(ErrorCodes.AUTH_REAUTHENTICATION_REQUIRED);
+        }
+    }
+
+    /**
+     * 更新会话最近活跃时间和 IP（节流，每个会话每分钟最多写一次）
+     * 
+     * @param {string} sessionId - 会话 ID
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<void>}
+     */
+    async touch(sessionId: string, client?: ClientContext): Promise<void> {
+        if (this.touchedCache.get(sessionId)) return;
+        this.touchedCache.set(sessionId, true);
+
+        try {
+            await sessionRepository.updateSession(sessionId, {
+                last_seen_at: new Date().toISOString(),
+                ...(client?.ip ? { ip_address: client.ip } : {}),
+            });
+        } catch (error) {
+            // 活跃时间只用于展示，更新失败不影响请求
+            logger.warn('Failed to update session last seen', {
+                sessionId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    /**
+     * 刷新令牌轮换后延长会话有效期
+     * 
+     * @param {string} sessionId - 会话 ID
+     * @param {string} expiresAt - 新的过期时间（ISO 字符串，与新刷新令牌一致）
+     * @param {ClientContext} [client] - 客户端上下文
+     * @returns {Promise<void>}
+     */
+    async extend(sessionId: string, expiresAt: string, client?: ClientContext): Promise<void> {
+        await sessionRepository.updateSession(sessionId, {
+            expires_at: expiresAt,
+            last_seen_at: new Date().toISOString(),
+            ...(client?.ip ? { ip_address: client.ip } : {}),
+        });
+        this.touchedCache.set(sessionId, true);
+    }
+
+    /**
+     * 获取用户的有效会话列表
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} [currentSessionId] - 当前请求所在的会话 ID（用于标记当前设备）
+     * @returns {Promise<SessionInfo[]>} 会话列表，按最近活跃时间倒序
+     */
+    async listSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+        const sessions = await sessionRepository.findActiveByUserId(userId);
+
+        return sessions.map((session) => {
+            const { user_id: _userId, revoked_at: _revokedAt, revoked_reason: _reason, ...rest } = session;
+            return {
+                ...rest,
+                is_current: session.id === currentSessionId,
+            };
+        });
+    }
+
+    /**
+     * 用户移除自己的某个会话（设备）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} sessionId - 会话 ID
+     * @returns {Promise<void>}
+     * @throws {AppError} 会话不存在、不属于该用户或已失效时抛出错误
+     */
+    async revokeUserSession(userId: string, sessionId: string): Promise<void> {
+        const session = await sessionRepository.findById(sessionId);
+        if (!session || session.user_id !== userId || session.revoked_at) {
+            throw new AppError(ErrorCodes.USER_SESSION_NOT_FOUND);
+        }
+
+        await this.revokeSession(sessionId, SessionRevokeReason.USER);
+    }
+
+    /**
+     * 吊销会话，同时吊销该会话的所有刷新令牌
+     * 
+     * @param {string} sessionId - 会话 ID
+     * @param {SessionRevokeReason} reason - 吊销原因
+     * @returns {Promise<void>}
+     */
+    async revokeSession(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+        await sessionRepository.revoke(sessionId, reason);
+        // 会话 ID 即刷新令牌家族 ID
+        await refreshTokenRepository.revokeFamily(sessionId, this.toRefreshTokenReason(reason));
+        this.activeCache.set(sessionId, false);
+    }
+
+    /**
+     * 吊销用户的所有会话
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {SessionRevokeReason} reason - 吊销原因
+     * @param {string} [createdBefore] - 只吊销该时间点（ISO 字符串）之前创建的会话
+     * @returns {Promise<number>} 被吊销的会话数量
+     * 
+     * @description 只处理会话本身，刷新令牌由调用方统一吊销
+     */
+    async revokeAllForUser(
+        userId: string,
+        reason: SessionRevokeReason,
+        createdBefore?: string
+    ): Promise<number> {
+        const sessions = await sessionRepository.revokeAllForUser(userId, reason, createdBefore);
+        for (const session of sessions) {
+            this.activeCache.set(session.id, false);
+        }
+        return sessions.length;
+    }
+
+    /**
+     * 会话吊销原因映射为刷新令牌吊销原因
+     */
+    private toRefreshTokenReason(reason: SessionRevokeReason): RefreshTokenRevokeReason {
+        switch (reason) {
+            case SessionRevokeReason.ADMIN:
+                return RefreshTokenRevokeReason.ADMIN;
+            case SessionRevokeReason.REUSE_DETECTED:
+                return RefreshTokenRevokeReason.REUSE_DETECTED;
+            default:
+                return RefreshTokenRevokeReason.LOGOUT;
+        }
+    }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,178 @@
+/**
+ * @file token-revocation.service.ts
+ * @description 访问令牌吊销业务逻辑层：退出登录、退出所有设备、吊销检查（数据库 + 内存缓存）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import config from '[@BASE]/config/index.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { TtlCache } from '[@BASE]/lib/ttl-cache.ts';
+import { tokenRevocationRepository } from '[@BASE-repositories]/token-revocation.repository.ts';
+import { refreshTokenRepository } from '[@BASE-repositories]/refresh-token.repository.ts';
+import { sessionService } from '[@BASE-services]/session.service.ts';
+import {
+    AccessTokenRevokeReason,
+    RefreshTokenRevokeReason,
+} from '[@BASE]/types/auth.types.ts';
+import type { JwtPayload } from '[@BASE]/types/auth.types.ts';
+import { SessionRevokeReason } from '[@BASE]/types/session.types.ts';
+
+/**
+ * 未吊销结果的缓存时间（毫秒）
+ * 
+ * @description 多实例部署时，其他实例上的吊销最多延迟该时间生效；本实例的吊销立即生效
+ */
+const CACHE_TTL_MS = 30 * 1000;
+
+export class TokenRevocationService {
+    /** jti -> 是否已吊销 */
+    private readonly jtiCache = new TtlCache<boolean>(CACHE_TTL_MS);
+    /** userId -> 吊销时间点（毫秒时间戳，null 表示未设置） */
+    private readonly userCutoffCache = new TtlCache<number | null>(CACHE_TTL_MS);
+
+    /**
+     * 吊销单个访问令牌（退出登录）
+     * 
+     * @param {JwtPayload} payload - 已验证的令牌载荷
+     * @param {AccessTokenRevokeReason} [reason] - 吊销原因
+     * @returns {Promise<void>}
+     */
+    async revokeToken(
+        payload: JwtPayload,
+        reason: AccessTokenRevokeReason = AccessTokenRevokeReason.LOGOUT
+    ): Promise<void> {
+        if (!payload.jti) {
+            // 旧版本签发的令牌没有 jti，无法单独吊销，只能等待自然过期
+            logger.warn('Cannot revoke access token without jti', { userId: payload.sub });
+            return;
+        }
+
+        const expiresAt = payload.exp
+            ? payload.exp * 1000
+            : Date.now() + config.auth.jwtExpiresIn * 1000;
+
+        await tokenRevocationRepository.revokeToken({
+            jti: payload.jti,
+            user_id: payload.sub,
+            reason,
+            expires_at: new Date(expiresAt).toISOString(),
+        });
+
+        this.jtiCache.set(payload.jti, true, expiresAt);
+    }
+
+    /**
+     * 吊销用户在指定时间点之前签发的所有令牌（退出所有设备）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {Date} [before] - 吊销时间点，默认当前时间
+     * @returns {Promise<{ revokedBefore: string; refreshTokensRevoked: number }>} 生效的吊销时间点和被吊销的刷新令牌数量
+     * 
+     * @description
+     * 1. 访问令牌：记录用户级吊销时间点，签发时间早于该时间点的令牌全部失效
+     * 2. 刷新令牌：直接吊销该时间点之前创建的刷新令牌，防止继续换取新的访问令牌
+     * 3. 会话：吊销该时间点之前创建的会话
+     * 4. 已存在更晚的时间点时保留原值，吊销范围只扩大不缩小
+     */
+    async revokeAllForUser(
+        userId: string,
+        before: Date = new Date()
+    ): Promise<{ revokedBefore: string; refreshTokensRevoked: number }> {
+        let revokedBefore = before.toISOString();
+
+        const existing = await tokenRevocationRepository.findUserRevocation(userId);
+        if (existing && new Date(existing.revoked_before).getTime() >= before.getTime()) {
+            revokedBefore = existing.revoked_before;
+        } else {
+            await tokenRevocationRepository.setUserRevocation(userId, revokedBefore);
+        }
+
+        this.userCutoffCache.set(userId, new Date(revokedBefore).getTime());
+
+        const refreshTokensRevoked = await refreshTokenRepository.revokeAllForUser(
+            userId,
+            RefreshTokenRevokeReason.LOGOUT,
+            before.toISOString()
+        );
+
+        const sessionsRevoked = await sessionService.revokeAllForUser(
+            userId,
+            SessionRevokeReason.LOGOUT_ALL,
+            before.toISOString()
+        );
+
+        logger.info('All tokens revoked for user', {
+            userId,
+            revokedBefore,
+            refreshTokensRevoked,
+            sessionsRevoked,
+        });
+
+        return { revokedBefore, refreshTokensRevoked };
+    }
+
+    /**
+     * 检查访问令牌是否已被吊销
+     * 
+     * @param {JwtPayload} payload - 已验证的令牌载荷
+     * @returns {Promise<boolean>} 是否已吊销
+     */
+    async isRevoked(payload: JwtPayload): Promise<boolean> {
+        if (payload.iat !== undefined) {
+            if (await this.isIssuedBeforeCutoff(payload.sub, payload.iat)) {
+                return true;
+            }
+            // 模拟登录令牌同时受管理员本人的吊销时间点约束：管理员被修改角色或退出所有设备后一并失效
+            if (payload.act && await this.isIssuedBeforeCutoff(payload.act.sub, payload.iat)) {
+                return true;
+            }
+        }
+
+        if (!payload.jti) {
+            return false;
+        }
+
+        const cached = this.jtiCache.get(payload.jti);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const revoked = await tokenRevocationRepository.isTokenRevoked(payload.jti);
+        const tokenExpiresAt = payload.exp ? payload.exp * 1000 : Date.now() + CACHE_TTL_MS;
+        this.jtiCache.set(
+            payload.jti,
+            revoked,
+            revoked ? tokenExpiresAt : Math.min(tokenExpiresAt, Date.now() + CACHE_TTL_MS)
+        );
+
+        return revoked;
+    }
+
+    /**
+     * 令牌是否签发于用户级吊销时间点之前
+     */
+    private async isIssuedBeforeCutoff(userId: string, iat: number): Promise<boolean> {
+        const cutoff = await this.getUserCutoff(userId);
+        // iat 精度为秒，按秒比较，避免吊销后同一秒内重新登录签发的令牌被误判
+        return cutoff !== null && iat < Math.floor(cutoff / 1000);
+    }
+
+    /**
+     * 获取用户级吊销时间点（带缓存）
+     */
+    private async getUserCutoff(userId: string): Promise<number | null> {
+        const cached = this.userCutoffCache.get(userId);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const record = await tokenRevocationRepository.findUserRevocation(userId);
+        const cutoff = record ? new Date(record.revoked_before).getTime() : null;
+        this.userCutoffCache.set(userId, cutoff);
+
+        return cutoff;
+    }
+}
+
+export const tokenRevocationService = new TokenRevocationService();
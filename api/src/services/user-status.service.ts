@@ -0,0 +1,87 @@
+/**
+ * @file user-status.service.ts
+ * @description 用户状态业务逻辑层：登录和每次认证请求时校验 users.status，只有正常状态的账号可以使用
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { logger } from '[@BASE]/lib/logger.ts';
+import { TtlCache } from '[@BASE]/lib/ttl-cache.ts';
+import { AppError, createAuthError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { UserRepository } from '[@BASE-repositories]/user.repository.ts';
+import { UserStatus } from '[@BASE]/types/auth.types.ts';
+import type { User } from '[@BASE]/types/user.types.ts';
+
+/**
+ * 用户状态缓存时间（毫秒）
+ * 
+ * @description 在数据库中直接修改状态（或在其他实例上修改）最多延迟该时间生效；
+ * 通过 invalidate 清除缓存的修改在本实例立即生效
+ */
+const CACHE_TTL_MS = 30 * 1000;
+
+/** 用户不存在时写入缓存的标记 */
+const MISSING = 'missing';
+
+export class UserStatusService {
+    private readonly userRepository = new UserRepository(true);
+    /** userId -> users.status（用户不存在时为 MISSING） */
+    private readonly statusCache = new TtlCache<string>(CACHE_TTL_MS);
+
+    /**
+     * 校验已查询到的用户是否为正常状态（登录流程使用，同时刷新缓存）
+     * 
+     * @param {User} user - 用户
+     * @returns {void}
+     * @throws {AppError} 账号为未激活、已暂停或已删除状态时抛出错误
+     */
+    assertActive(user: User): void {
+        const status = user.status ?? UserStatus.ACTIVE;
+        this.statusCache.set(user.id, status);
+        this.assertStatus(user.id, status);
+    }
+
+    /**
+     * 按用户 ID 校验账号是否为正常状态（认证中间件每个请求调用，优先读取缓存）
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<void>}
+     * @throws {AppError} 用户不存在，或账号为未激活、已暂停或已删除状态时抛出错误
+     */
+    async assertActiveById(userId: string): Promise<void> {
+        let status = this.statusCache.get(userId);
+        if (status === undefined) {
+            const user = await this.userRepository.findById(userId);
+            status = user ? user.status ?? UserStatus.ACTIVE : MISSING;
+            this.statusCache.set(userId, status);
+        }
+
+        if (status === MISSING) {
+            throw createAuthError.tokenInvalid();
+        }
+        this.assertStatus(userId, status);
+    }
+
+    /**
+     * 清除用户的状态缓存（修改 users.status 后调用，使新状态在本实例立即生效）
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {void}
+     */
+    invalidate(userId: string): void {
+        this.statusCache.delete(userId);
+    }
+
+    /**
+     * 非正常状态时抛出账号已禁用错误
+     */
+    private assertStatus(userId: string, status: string): void {
+        if (status !== UserStatus.ACTIVE) {
+            logger.warn('Inactive account rejected', { userId, status });
+            throw new AppError(ErrorCodes.AUTH_ACCOUNT_DISABLED);
+        }
+    }
+}
+
+export const userStatusService = new UserStatusService();
@@ -6,14 +6,13 @@
  */
 
 import { userRepository } from '[@BASE-repositories]/user.repository.ts';
-import { authRepository } from '[@BASE-repositories]/auth.repository.ts';
-import { hashPassword, verifyPassword } from '[@BASE]/lib/password.ts';
+import { verificationCodeService } from '[@BASE-services]/verification-code.service.ts';
+import { credentialService } from '[@BASE-services]/credential.service.ts';
 import { logger } from '[@BASE]/lib/logger.ts';
 import { AppError } from '[@BASE]/lib/errors/app-error.ts';
 import { ErrorInfos, ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
-import { sendVerificationCodeEmail } from '[@BASE]/lib/email.ts';
 import { VerificationPurpose } from '[@BASE]/types/auth.types.ts';
-import type { UserProfile, UserUpdateData, ChangePasswordData } from '[@BASE]/types/user.types.ts';
+import type { User, UserProfile, UserUpdateData, ChangePasswordData } from '[@BASE]/types/user.types.ts';
 
 /**
  * 用户服务类
@@ -48,10 +47,12 @@ export class UserService {
             bio: user.bio,
             phone: user.phone,
             status: user.status,
+            role: user.role,
             email_verified: user.email_verified,
             created_at: user.created_at,
             updated_at: user.updated_at,
             last_login_at: user.last_login_at,
+            has_password: credentialService.hasPassword(user),
         };
 
         return profile;
@@ -107,10 +108,12 @@ export class UserService {
             bio: updatedUser.bio,
             phone: updatedUser.phone,
             status: updatedUser.status,
+            role: updatedUser.role,
             email_verified: updatedUser.email_verified,
             created_at: updatedUser.created_at,
             updated_at: updatedUser.updated_at,
             last_login_at: updatedUser.last_login_at,
+            has_password: credentialService.hasPassword(updatedUser),
         };
     }
 
@@ -164,18 +167,15 @@ export class UserService {
         }
 
         // 2. 检查是否已设置密码
-        if (!user.password_hash) {
+        if (!credentialService.hasPassword(user)) {
             const error = ErrorInfos[ErrorCodes.AUTH_PASSWORD_NOT_SET];
             throw new AppError(error.code, error.message);
         }
 
-        // 3. 验证旧密码
-        const isValidOldPassword = await verifyPassword(
-            data.old_password,
-            user.password_hash
-        );
+        // 3. 验证旧密码（与登录使用同一凭据提供者）
+        const verifiedUser = await credentialService.verify(user.email, data.old_password);
 
-        if (!isValidOldPassword) {
+        if (!verifiedUser || verifiedUser.id !== userId) {
             const error = ErrorInfos[ErrorCodes.AUTH_INVALID_OLD_PASSWORD];
             throw new AppError(error.code, error.message);
         }
@@ -186,17 +186,177 @@ export class UserService {
             throw new AppError(error.code, error.message);
         }
 
-        // 5. 加密新密码
-        const newPasswordHash = await hashPassword(data.new_password);
-
-        // 6. 更新密码
-        await userRepository.updateById(userId, {
-            password_hash: newPasswordHash,
-        });
+        // 5. 更新密码
+        await credentialService.setPassword(user, data.new_password);
 
         logger.info('User password changed successfully', { userId });
     }
 
+    /**
+     * 发送设置密码验证码（发送到当前邮箱）
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<void>}
+     * @throws {AppError} 当用户不存在、已设置密码或发送过于频繁时抛出错误
+     */
+    async sendSetPasswordCode(userId: string): Promise<void> {
+        logger.info('Sending set password verification code', { userId });
+
+        // 1. 查找用户
+        const user = await userRepository.findById(userId);
+        if (!user) {
+            const error = ErrorInfos[ErrorCodes.USER_NOT_FOUND];
+            throw new AppError(error.code, error.message);
+        }
+
+        // 2. 已设置密码的用户应使用修改密码
+        if (credentialService.hasPassword(user)) {
+            const error = ErrorInfos[ErrorCodes.AUTH_PASSWORD_ALREADY_SET];
+            throw new AppError(error.code, error.message);
+        }
+
+        // 3. 发送验证码（60秒内只能发送一次）
+        await verificationCodeService.sendCode(
+            user.email,
+            VerificationPurpose.SET_PASSWORD,
+            userId
+        );
+    }
+
+    /**
+     * 首次设置密码（验证码登录的用户没有密码）
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} code - 发送到当前邮箱的验证码
+     * @param {string} newPassword - 新密码
+     * @returns {Promise<void>}
+     * @throws {AppError} 当用户不存在、已设置密码、验证码错误或过期时抛出错误
+     */
+    async setUserPassword(
+        userId: string,
+        code: string,
+        newPassword: string
+    ): Promise<void> {
+        logger.info('Setting user password', { userId });
+
+        // 1. 查找用户
+        const user = await userRepository.findById(userId);
+        if (!user) {
+            const error = ErrorInfos[ErrorCodes.USER_NOT_FOUND];
+            throw new AppError(error.code, error.message);
+        }
+
+        // 2. 已设置密码的用户应使用修改密码（需要验证旧密码）
+        if (credentialService.hasPassword(user)) {
+            const error = ErrorInfos[ErrorCodes.AUTH_PASSWORD_ALREADY_SET];
+            throw new AppError(error.code, error.message);
+        }
+
+        // 3. 校验并消费验证码（必须属于当前用户）
+        await verificationCodeService.consumeCode(
+            user.email,
+            code,
+            VerificationPurpose.SET_PASSWORD,
+            userId
+        );
+
+        // 4. 保存密码
+        await credentialService.setPassword(user, newPassword);
+
+        logger.info('User password set successfully', { userId });
+    }
+
+    /**
+     * 发送邮箱验证码（验证当前邮箱）
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<void>}
+     * @throws {AppError} 当用户不存在、邮箱已验证或发送过于频繁时抛出错误
+     */
+    async sendVerifyEmailCode(userId: string): Promise<void> {
+        logger.info('Sending verify email code', { userId });
+
+        // 1. 查找用户
+        const user = await userRepository.findById(userId);
+        if (!user) {
+            const error = ErrorInfos[ErrorCodes.USER_NOT_FOUND];
+            throw new AppError(error.code, error.message);
+        }
+
+        // 2. 已验证的邮箱无需重复验证
+        if (user.email_verified) {
+            const error = ErrorInfos[ErrorCodes.USER_EMAIL_ALREADY_VERIFIED];
+            throw new AppError(error.code, error.message);
+        }
+
+        // 3. 发送验证码（60秒内只能发送一次）
+        await verificationCodeService.sendCode(
+            user.email,
+            VerificationPurpose.VERIFY_EMAIL,
+            userId
+        );
+    }
+
+    /**
+     * 验证当前邮箱
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} code - 发送到当前邮箱的验证码
+     * @returns {Promise<void>}
+     * @throws {AppError} 当用户不存在、邮箱已验证、验证码错误或过期时抛出错误
+     */
+    async verifyEmail(userId: string, code: string): Promise<void> {
+        logger.info('Verifying user email', { userId });
+
+        // 1. 查找用户
+        const user = await userRepository.findById(userId);
+        if (!user) {
+            const error = ErrorInfos[ErrorCodes.USER_NOT_FOUND];
+            throw new AppError(error.code, error.message);
+        }
+
+        // 2. 已验证的邮箱无需重复验证
+        if (user.email_verified) {
+            const error = ErrorInfos[ErrorCodes.USER_EMAIL_ALREADY_VERIFIED];
+            throw new AppError(error.code, error.message);
+        }
+
+        // 3. 校验并消费验证码（必须属于当前用户，且发送到当前邮箱）
+        await verificationCodeService.consumeCode(
+            user.email,
+            code,
+            VerificationPurpose.VERIFY_EMAIL,
+            userId
+        );
+
+        // 4. 标记邮箱已验证
+        await userRepository.updateById(userId, { email_verified: true });
+
+        logger.info('User email verified successfully', { userId });
+    }
+
+    /**
+     * 校验用户邮箱已验证
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<void>}
+     * @throws {AppError} 当用户不存在或邮箱未验证时抛出错误
+     * 
+     * @description 与数据库函数 public.is_email_verified() 的判断一致：email_verified 为空视为未验证
+     */
+    async assertEmailVerified(userId: string): Promise<void> {
+        const user = await userRepository.findById(userId);
+        if (!user) {
+            const error = ErrorInfos[ErrorCodes.USER_NOT_FOUND];
+            throw new AppError(error.code, error.message);
+        }
+
+        if (!user.email_verified) {
+            const error = ErrorInfos[ErrorCodes.AUTH_EMAIL_NOT_VERIFIED];
+            throw new AppError(error.code, error.message);
+        }
+    }
+
     /**
      * 获取用户公开资料
      * 
@@ -258,53 +418,13 @@ export class UserService {
             throw new AppError(error.code, error.message);
         }
 
-        // 4. 检查发送频率（60秒内只能发送一次）
-        const lastVerification = await authRepository.getLastVerification(
+        // 4. 发送验证码（60秒内只能发送一次）
+        await verificationCodeService.sendCode(
             newEmail,
-            VerificationPurpose.CHANGE_EMAIL
+            VerificationPurpose.CHANGE_EMAIL,
+            userId
         );
 
-        if (lastVerification) {
-            const lastSentTime = new Date(lastVerification.created_at || '').getTime();
-            const now = Date.now();
-            const timeDiff = now - lastSentTime;
-
-            // 60秒 = 60000毫秒
-            if (timeDiff < 60000) {
-                const error = ErrorInfos[ErrorCodes.VERIFICATION_CODE_TOO_FREQUENT];
-                throw new AppError(error.code, error.message);
-            }
-        }
-
-        // 5. 生成6位数字验证码
-        const code = Math.floor(100000 + Math.random() * 900000).toString();
-
-        // 6. 计算过期时间（10分钟后）
-        const expiresAt = new Date(Date.now() + 10 * 60 * 1000).toISOString();
-
-        // 7. 保存验证码到数据库
-        await authRepository.createVerificationCode({
-            email: newEmail,
-            code,
-            purpose: VerificationPurpose.CHANGE_EMAIL,
-            expires_at: expiresAt,
-            user_id: userId,
-            is_used: false,
-            attempts: 0,
-        });
-
-        // 8. 发送验证码邮件
-        const emailSent = await sendVerificationCodeEmail(
-            newEmail,
-            code,
-            VerificationPurpose.CHANGE_EMAIL
-        );
-
-        if (!emailSent) {
-            const error = ErrorInfos[ErrorCodes.EMAIL_SEND_FAILED];
-            throw new AppError(error.code, error.message);
-        }
-
         logger.info('Email verification code sent successfully', { userId, newEmail });
     }
 
@@ -344,45 +464,33 @@ export class UserService {
             throw new AppError(error.code, error.message);
         }
 
-        // 4. 验证验证码
-        const verificationCode = await authRepository.findValidVerificationCode(
+        // 4. 校验并消费验证码（必须属于当前用户）
+        await verificationCodeService.consumeCode(
             newEmail,
             code,
-            VerificationPurpose.CHANGE_EMAIL
+            VerificationPurpose.CHANGE_EMAIL,
+            userId
         );
 
-        if (!verificationCode) {
-            // 尝试增加验证码尝试次数（如果验证码存在但已过期或已使用）
-            const lastCode = await authRepository.getLastVerification(
-                newEmail,
-                VerificationPurpose.CHANGE_EMAIL
-            );
-            if (lastCode && !lastCode.is_used) {
-                await authRepository.incrementVerificationAttempts(lastCode.id);
-            }
-
-            const error = ErrorInfos[ErrorCodes.VERIFICATION_CODE_INVALID];
-            throw new AppError(error.code, error.message);
-        }
-
-        // 5. 检查验证码是否属于当前用户
-        if (verificationCode.user_id !== userId) {
-            const error = ErrorInfos[ErrorCodes.VERIFICATION_CODE_INVALID];
-            throw new AppError(error.code, '验证码无效');
+        // 5. 同步 auth.users 中的邮箱（密码登录和验证码登录按 auth.users 的邮箱查找用户）
+        await credentialService.setEmail(user, newEmail);
+
+        // 6. 更新用户邮箱，并将 email_verified 设置为 false（需要重新验证）
+        let updatedUser: User;
+        try {
+            updatedUser = await userRepository.updateById(userId, {
+                email: newEmail,
+                email_verified: false,
+            });
+        } catch (updateErr) {
+            // public.users 更新失败时恢复 auth.users 中的邮箱，避免两边不一致
+            await credentialService.setEmail(user, user.email).catch(() => undefined);
+            throw updateErr;
         }
 
-        // 6. 标记验证码为已使用
-        await authRepository.markVerificationCodeAsUsed(verificationCode.id);
-
-        // 7. 更新用户邮箱，并将 email_verified 设置为 false（需要重新验证）
-        const updatedUser = await userRepository.updateById(userId, {
-            email: newEmail,
-            email_verified: false,
-        });
-
         logger.info('User email changed successfully', { userId, newEmail });
 
-        // 8. 返回更新后的用户资料
+        // 7. 返回更新后的用户资料
         return {
             id: updatedUser.id,
             email: updatedUser.email,
@@ -391,10 +499,12 @@ export class UserService {
             bio: updatedUser.bio,
             phone: updatedUser.phone,
             status: updatedUser.status,
+            role: updatedUser.role,
             email_verified: updatedUser.email_verified,
             created_at: updatedUser.created_at,
             updated_at: updatedUser.updated_at,
             last_login_at: updatedUser.last_login_at,
+            has_password: credentialService.hasPassword(updatedUser),
         };
     }
 }
@@ -0,0 +1,143 @@
+/**
+ * @file verification-code.service.ts
+ * @description 邮箱验证码业务逻辑层：发送（含频率限制）和校验（含重试次数限制）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { AuthRepository } from '[@BASE-repositories]/auth.repository.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { AppError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorInfos, ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { sendVerificationCodeEmail } from '[@BASE]/lib/email.ts';
+import type { VerificationCode, VerificationPurpose } from '[@BASE]/types/auth.types.ts';
+
+/** 同一邮箱同一用途的最小发送间隔（毫秒） */
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+/** 验证码有效期（毫秒） */
+const CODE_EXPIRES_IN_MS = 10 * 60 * 1000;
+
+/** 单个验证码允许的最大错误次数 */
+const MAX_ATTEMPTS = 5;
+
+/**
+ * 验证码服务类
+ * 
+ * @class
+ * @description 统一处理各用途（更换邮箱、重置密码等）的邮箱验证码发送和校验
+ */
+export class VerificationCodeService {
+    // 忘记密码等流程在未登录状态下调用，使用管理员客户端避免 RLS 导致查询不到验证码
+    private readonly authRepository = new AuthRepository(true);
+
+    /**
+     * 发送验证码
+     * 
+     * @param {string} email - 收件邮箱
+     * @param {VerificationPurpose} purpose - 验证码用途
+     * @param {string | null} [userId=null] - 关联的用户 ID
+     * @returns {Promise<void>}
+     * @throws {AppError} 当发送过于频繁或邮件发送失败时抛出错误
+     */
+    async sendCode(
+        email: string,
+        purpose: VerificationPurpose,
+        userId: string | null = null
+    ): Promise<void> {
+        // 1. 检查发送频率（60秒内只能发送一次）
+        const lastVerification = await this.authRepository.getLastVerification(email, purpose);
+
+        if (lastVerification) {
+            const lastSentTime = new Date(lastVerification.created_at || '').getTime();
+            if (Date.now() - lastSentTime < RESEND_INTERVAL_MS) {
+                const error = ErrorInfos[ErrorCodes.VERIFICATION_CODE_TOO_FREQUENT];
+                throw new AppError(error.code, error.message);
+            }
+        }
+
+        // 2. 生成6位数字验证码
+        const code = (100000 + crypto.getRandomValues(new Uint32Array(1))[0] % 900000).toString();
+
+        // 3. 保存验证码到数据库（10分钟后过期）
+        await this.authRepository.createVerificationCode({
+            email,
+            code,
+            purpose,
+            expires_at: new Date(Date.now() + CODE_EXPIRES_IN_MS).toISOString(),
+            user_id: userId,
+            is_used: false,
+            attempts: 0,
+        });
+
+        // 4. 发送验证码邮件
+        const emailSent = await sendVerificationCodeEmail(email, code, purpose);
+
+        if (!emailSent) {
+            const error = ErrorInfos[ErrorCodes.EMAIL_SEND_FAILED];
+            throw new AppError(error.code, error.message);
+        }
+
+        logger.info('Verification code sent', { email, purpose, userId });
+    }
+
+    /**
+     * 校验并消费验证码（校验通过后标记为已使用）
+     * 
+     * @param {string} email - 邮箱
+     * @param {string} code - 验证码
+     * @param {VerificationPurpose} purpose - 验证码用途
+     * @param {string} [userId] - 传入时要求验证码属于该用户
+     * @returns {Promise<VerificationCode>} 已消费的验证码记录
+     * @throws {AppError} 当验证码错误、过期、不属于该用户或错误次数过多时抛出错误
+     */
+    async consumeCode(
+        email: string,
+        code: string,
+        purpose: VerificationPurpose,
+        userId?: string
+    ): Promise<VerificationCode> {
+        const lastCode = await this.authRepository.getLastVerification(email, purpose);
+
+        // 1. 最近一次验证码错误次数过多，需要重新获取
+        if (lastCode && !lastCode.is_used && (lastCode.attempts || 0) >= MAX_ATTEMPTS) {
+            const error = ErrorInfos[ErrorCodes.VERIFICATION_CODE_MAX_ATTEMPTS];
+            throw new AppError(error.code, error.message);
+        }
+
+        // 2. 查找有效验证码
+        const verificationCode = await this.authRepository.findValidVerificationCode(
+            email,
+            code,
+            purpose
+        );
+
+        if (!verificationCode) {
+            // 增加最近一次验证码的尝试次数（如果验证码存在但输入错误、已过期）
+            if (lastCode && !lastCode.is_used) {
+                await this.authRepository.incrementVerificationAttempts(lastCode.id);
+            }
+
+            const error = ErrorInfos[ErrorCodes.VERIFICATION_CODE_INVALID];
+            throw new AppError(error.code, error.message);
+        }
+
+        // 3. 检查验证码是否属于指定用户
+        if (userId !== undefined && verificationCode.user_id !== userId) {
+            const error = ErrorInfos[ErrorCodes.VERIFICATION_CODE_INVALID];
+            throw new AppError(error.code, '验证码无效');
+        }
+
+        // 4. 标记验证码为已使用
+        await this.authRepository.markVerificationCodeAsUsed(verificationCode.id);
+
+        return verificationCode;
+    }
+}
+
+/**
+ * 验证码服务单例
+ * 
+ * @constant
+ */
+export const verificationCodeService = new VerificationCodeService();
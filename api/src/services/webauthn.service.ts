@@ -0,0 +1,364 @@
+/**
+ * @file webauthn.service.ts
+ * @description 通行密钥（WebAuthn）业务逻辑层：生成注册和登录选项、校验认证器响应、管理用户的通行密钥
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import config from '[@BASE]/config/index.ts';
+import { logger } from '[@BASE]/lib/logger.ts';
+import { generateRandomToken, hashToken, toBase64Url } from '[@BASE]/lib/token.ts';
+import {
+    parseClientData,
+    SUPPORTED_ALGORITHMS,
+    verifyAuthenticationResponse,
+    verifyRegistrationResponse,
+} from '[@BASE]/lib/webauthn.ts';
+import type {
+    AuthenticationResponseJSON,
+    ExpectedCeremony,
+    RegistrationResponseJSON,
+} from '[@BASE]/lib/webauthn.ts';
+import { AppError, createUserError } from '[@BASE]/lib/errors/app-error.ts';
+import { ErrorCodes } from '[@BASE]/lib/errors/error-codes.ts';
+import { webauthnRepository } from '[@BASE-repositories]/webauthn.repository.ts';
+import { UserRepository } from '[@BASE-repositories]/user.repository.ts';
+import { WebAuthnCeremony } from '[@BASE]/types/auth.types.ts';
+import type { WebAuthnCredential } from '[@BASE]/types/auth.types.ts';
+import type { User } from '[@BASE]/types/user.types.ts';
+
+/** 仪式挑战有效期（毫秒），同时作为浏览器端的超时时间 */
+const CHALLENGE_EXPIRES_IN_MS = 5 * 60 * 1000;
+
+/**
+ * 凭据描述（excludeCredentials / allowCredentials 列表项）
+ */
+interface CredentialDescriptor {
+    type: 'public-key';
+    id: string;
+    transports?: string[];
+}
+
+/**
+ * 注册选项（PublicKeyCredentialCreationOptionsJSON，前端传给 navigator.credentials.create）
+ */
+export interface RegistrationOptions {
+    challenge: string;
+    rp: { id: string; name: string };
+    user: { id: string; name: string; displayName: string };
+    pubKeyCredParams: { type: 'public-key'; alg: number }[];
+    timeout: number;
+    attestation: 'none';
+    authenticatorSelection: {
+        residentKey: 'required';
+        requireResidentKey: true;
+        userVerification: 'required';
+    };
+    excludeCredentials: CredentialDescriptor[];
+}
+
+/**
+ * 登录选项（PublicKeyCredentialRequestOptionsJSON，前端传给 navigator.credentials.get）
+ */
+export interface AuthenticationOptions {
+    challenge: string;
+    rpId: string;
+    timeout: number;
+    userVerification: 'required';
+    allowCredentials: CredentialDescriptor[];
+}
+
+/**
+ * 通行密钥信息（返回给前端的列表项，不包含公钥）
+ */
+export interface PasskeyInfo {
+    id: string;
+    name: string | null;
+    transports: string[];
+    backed_up: boolean;
+    created_at: string | null;
+    last_used_at: string | null;
+}
+
+export class WebAuthnService {
+    private readonly userRepository = new UserRepository(true);
+
+    /**
+     * 生成注册选项（已登录用户添加通行密钥的第一步）
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<RegistrationOptions>} 注册选项
+     * @throws {AppError} 用户不存在时抛出错误
+     * 
+     * @description 要求可发现凭据和用户验证，登录时无需输入邮箱；已注册的认证器通过 excludeCredentials 排除
+     */
+    async generateRegistrationOptions(userId: string): Promise<RegistrationOptions> {
+        const user = await this.userRepository.findById(userId);
+        if (!user) {
+            throw createUserError.notFound(userId);
+        }
+
+        const [challenge, credentials] = await Promise.all([
+            this.createChallenge(WebAuthnCeremony.REGISTRATION, userId),
+            webauthnRepository.findCredentialsByUserId(userId),
+        ]);
+        const { rpId, rpName } = config.auth.webauthn;
+
+        return {
+            challenge,
+            rp: { id: rpId, name: rpName },
+            user: {
+                id: toBase64Url(new TextEncoder().encode(user.id)),
+                name: user.email,
+                displayName: user.name || user.email,
+            },
+            pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({ type: 'public-key' as const, alg })),
+            timeout: CHALLENGE_EXPIRES_IN_MS,
+            attestation: 'none',
+            authenticatorSelection: {
+                residentKey: 'required',
+                requireResidentKey: true,
+                userVerification: 'required',
+            },
+            excludeCredentials: credentials.map((credential) => this.toDescriptor(credential)),
+        };
+    }
+
+    /**
+     * 校验注册响应并保存通行密钥
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {RegistrationResponseJSON} response - 浏览器返回的注册响应
+     * @param {string} [name] - 通行密钥名称
+     * @returns {Promise<PasskeyInfo>} 新注册的通行密钥
+     * @throws {AppError} 挑战无效、校验不通过或该认证器已注册时抛出错误
+     */
+    async verifyRegistration(
+        userId: string,
+        response: RegistrationResponseJSON,
+        name?: string
+    ): Promise<PasskeyInfo> {
+        try {
+            const expected = await this.consumeChallenge(
+                response.response.clientDataJSON,
+                WebAuthnCeremony.REGISTRATION,
+                userId
+            );
+            const verified = await verifyRegistrationResponse(response, expected);
+
+            if (await webauthnRepository.findCredentialByCredentialId(verified.credentialId)) {
+                throw new Error('Credential is already registered');
+            }
+
+            const credential = await webauthnRepository.createCredential({
+                user_id: userId,
+                credential_id: verified.credentialId,
+                public_key: verified.publicKey,
+                algorithm: verified.algorithm,
+                sign_count: verified.signCount,
+                transports: verified.transports,
+                aaguid: verified.aaguid,
+                backup_eligible: verified.backupEligible,
+                backed_up: verified.backedUp,
+                name: name || null,
+            });
+
+            logger.info('Passkey registered', { userId, credentialId: credential.id });
+
+            return this.toPasskeyInfo(credential);
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            logger.warn('Passkey registration failed', {
+                userId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw new AppError(ErrorCodes.AUTH_PASSKEY_REGISTRATION_FAILED);
+        }
+    }
+
+    /**
+     * 生成登录选项
+     * 
+     * @param {string} [email] - 登录邮箱；不传时由认证器列出可用的通行密钥（可发现凭据）
+     * @returns {Promise<AuthenticationOptions>} 登录选项
+     * 
+     * @description 邮箱未注册或没有通行密钥时返回空的 allowCredentials，与不传邮箱时一致，避免泄露邮箱是否注册
+     */
+    async generateAuthenticationOptions(email?: string): Promise<AuthenticationOptions> {
+        const user = email ? await this.userRepository.findByEmail(email) : null;
+        const credentials = user ? await webauthnRepository.findCredentialsByUserId(user.id) : [];
+
+        return {
+            challenge: await this.createChallenge(WebAuthnCeremony.AUTHENTICATION, null),
+            rpId: config.auth.webauthn.rpId,
+            timeout: CHALLENGE_EXPIRES_IN_MS,
+            userVerification: 'required',
+            allowCredentials: credentials.map((credential) => this.toDescriptor(credential)),
+        };
+    }
+
+    /**
+     * 查找登录响应对应的通行密钥及其所属用户
+     * 
+     * @param {AuthenticationResponseJSON} response - 浏览器返回的登录响应
+     * @returns {Promise<{ credential: WebAuthnCredential; user: User }>} 凭据和用户
+     * @throws {AppError} 通行密钥不存在（如已删除）时抛出错误
+     */
+    async findLoginCredential(
+        response: AuthenticationResponseJSON
+    ): Promise<{ credential: WebAuthnCredential; user: User }> {
+        const credential = await webauthnRepository.findCredentialByCredentialId(response.rawId);
+        const user = credential ? await this.userRepository.findById(credential.user_id) : null;
+        if (!credential || !user) {
+            logger.warn('Unknown passkey used for login', { credentialId: response.rawId });
+            throw new AppError(ErrorCodes.AUTH_PASSKEY_INVALID);
+        }
+
+        return { credential, user };
+    }
+
+    /**
+     * 通行密钥认证：校验登录响应的挑战和签名，通过后更新签名计数
+     * 
+     * @param {WebAuthnCredential} credential - 响应对应的通行密钥
+     * @param {User} user - 通行密钥所属用户
+     * @param {AuthenticationResponseJSON} response - 浏览器返回的登录响应
+     * @returns {Promise<User>} 认证通过的用户
+     * @throws {AppError} 挑战无效、签名错误或签名计数回退时抛出错误
+     */
+    async authenticate(
+        credential: WebAuthnCredential,
+        user: User,
+        response: AuthenticationResponseJSON
+    ): Promise<User> {
+        try {
+            const expected = await this.consumeChallenge(
+                response.response.clientDataJSON,
+                WebAuthnCeremony.AUTHENTICATION,
+                null
+            );
+            // 可发现凭据返回的 userHandle 必须与凭据所属用户一致
+            const { userHandle } = response.response;
+            if (userHandle && userHandle !== toBase64Url(new TextEncoder().encode(user.id))) {
+                throw new Error('User handle mismatch');
+            }
+
+            const verified = await verifyAuthenticationResponse(response, expected, {
+                publicKey: credential.public_key,
+                signCount: credential.sign_count,
+            });
+
+            const updated = await webauthnRepository.updateCredentialUsage(
+                credential.id,
+                credential.sign_count,
+                verified
+            );
+            if (!updated) {
+                throw new Error('Signature counter was already used');
+            }
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            logger.warn('Passkey authentication failed', {
+                userId: user.id,
+                credentialId: credential.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw new AppError(ErrorCodes.AUTH_PASSKEY_INVALID);
+        }
+
+        return user;
+    }
+
+    /**
+     * 查询用户的通行密钥列表
+     * 
+     * @param {string} userId - 用户 ID
+     * @returns {Promise<PasskeyInfo[]>} 通行密钥列表（按注册时间倒序）
+     */
+    async listCredentials(userId: string): Promise<PasskeyInfo[]> {
+        const credentials = await webauthnRepository.findCredentialsByUserId(userId);
+        return credentials.map((credential) => this.toPasskeyInfo(credential));
+    }
+
+    /**
+     * 删除用户自己的通行密钥
+     * 
+     * @param {string} userId - 用户 ID
+     * @param {string} id - 通行密钥记录 ID
+     * @returns {Promise<void>}
+     * @throws {AppError} 通行密钥不存在或不属于该用户时抛出错误
+     */
+    async deleteCredential(userId: string, id: string): Promise<void> {
+        const credential = await webauthnRepository.findCredentialById(id);
+        if (!credential || credential.user_id !== userId) {
+            throw new AppError(ErrorCodes.USER_PASSKEY_NOT_FOUND);
+        }
+
+        await webauthnRepository.deleteCredential(id);
+
+        logger.info('Passkey deleted', { userId, credentialId: id });
+    }
+
+    /**
+     * 生成并保存仪式挑战，返回挑战明文
+     */
+    private async createChallenge(ceremony: WebAuthnCeremony, userId: string | null): Promise<string> {
+        const challenge = generateRandomToken();
+        await webauthnRepository.createChallenge({
+            challengeHash: await hashToken(challenge),
+            ceremony,
+            userId,
+            expiresAt: new Date(Date.now() + CHALLENGE_EXPIRES_IN_MS),
+        });
+        return challenge;
+    }
+
+    /**
+     * 消费客户端数据中的挑战，返回校验响应所需的预期值
+     */
+    private async consumeChallenge(
+        clientDataJSON: string,
+        ceremony: WebAuthnCeremony,
+        userId: string | null
+    ): Promise<ExpectedCeremony> {
+        const { challenge } = parseClientData(clientDataJSON);
+        const record = await webauthnRepository.consumeChallenge(await hashToken(challenge), ceremony);
+        if (!record || record.user_id !== userId) {
+            throw new Error('Challenge is invalid or expired');
+        }
+
+        const { rpId, origins } = config.auth.webauthn;
+        return { challenge, rpId, origins };
+    }
+
+    /**
+     * 转换为凭据描述
+     */
+    private toDescriptor(credential: WebAuthnCredential): CredentialDescriptor {
+        return {
+            type: 'public-key',
+            id: credential.credential_id,
+            transports: credential.transports.length > 0 ? credential.transports : undefined,
+        };
+    }
+
+    /**
+     * 转换为返回给前端的通行密钥信息
+     */
+    private toPasskeyInfo(credential: WebAuthnCredential): PasskeyInfo {
+        return {
+            id: credential.id,
+            name: credential.name,
+            transports: credential.transports,
+            backed_up: credential.backed_up,
+            created_at: credential.created_at,
+            last_used_at: credential.last_used_at,
+        };
+    }
+}
+
+export const webauthnService = new WebAuthnService();
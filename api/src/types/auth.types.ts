@@ -36,6 +36,256 @@ export type LoginLog = Database['public']['Tables']['login_logs']['Row'];
  */
 export type LoginLogInsert = Database['public']['Tables']['login_logs']['Insert'];
 
+/**
+ * 登录历史记录类型（get_user_recent_logins 函数返回的单条记录）
+ * 
+ * @typedef {Database['public']['Functions']['get_user_recent_logins']['Returns'][number]} LoginHistoryItem
+ */
+export type LoginHistoryItem = Database['public']['Functions']['get_user_recent_logins']['Returns'][number];
+
+/**
+ * 登录历史查询选项
+ * 
+ * @interface
+ * @property {number} limit - 每页数量
+ * @property {LoginStatus} [status] - 按登录状态筛选
+ * @property {LoginMethod} [method] - 按登录方式筛选
+ * @property {{ createdAt: string; id: string }} [before] - 游标：上一页最后一条记录
+ */
+export interface LoginHistoryOptions {
+    limit: number;
+    status?: LoginStatus;
+    method?: LoginMethod;
+    before?: { createdAt: string; id: string };
+}
+
+/**
+ * 刷新令牌表行类型
+ * 
+ * @typedef {Database['public']['Tables']['refresh_tokens']['Row']} RefreshToken
+ */
+export type RefreshToken = Database['public']['Tables']['refresh_tokens']['Row'];
+
+/**
+ * 刷新令牌表插入类型
+ * 
+ * @typedef {Database['public']['Tables']['refresh_tokens']['Insert']} RefreshTokenInsert
+ */
+export type RefreshTokenInsert = Database['public']['Tables']['refresh_tokens']['Insert'];
+
+/**
+ * 已吊销访问令牌表行类型
+ * 
+ * @typedef {Database['public']['Tables']['revoked_tokens']['Row']} RevokedToken
+ */
+export type RevokedToken = Database['public']['Tables']['revoked_tokens']['Row'];
+
+/**
+ * 已吊销访问令牌表插入类型
+ * 
+ * @typedef {Database['public']['Tables']['revoked_tokens']['Insert']} RevokedTokenInsert
+ */
+export type RevokedTokenInsert = Database['public']['Tables']['revoked_tokens']['Insert'];
+
+/**
+ * 用户级令牌吊销表行类型
+ * 
+ * @typedef {Database['public']['Tables']['user_token_revocations']['Row']} UserTokenRevocation
+ */
+export type UserTokenRevocation = Database['public']['Tables']['user_token_revocations']['Row'];
+
+/**
+ * 登录验证挑战表行类型
+ * 
+ * @typedef {Database['public']['Tables']['login_challenges']['Row']} LoginChallenge
+ */
+export type LoginChallenge = Database['public']['Tables']['login_challenges']['Row'];
+
+/**
+ * 登录验证挑战表插入类型
+ * 
+ * @typedef {Database['public']['Tables']['login_challenges']['Insert']} LoginChallengeInsert
+ */
+export type LoginChallengeInsert = Database['public']['Tables']['login_challenges']['Insert'];
+
+/**
+ * TOTP 密钥表行类型
+ * 
+ * @typedef {Database['public']['Tables']['totp_factors']['Row']} TotpFactor
+ */
+export type TotpFactor = Database['public']['Tables']['totp_factors']['Row'];
+
+/**
+ * 两步验证恢复码表行类型
+ * 
+ * @typedef {Database['public']['Tables']['mfa_recovery_codes']['Row']} MfaRecoveryCode
+ */
+export type MfaRecoveryCode = Database['public']['Tables']['mfa_recovery_codes']['Row'];
+
+/**
+ * 通行密钥凭据表行类型
+ * 
+ * @typedef {Database['public']['Tables']['webauthn_credentials']['Row']} WebAuthnCredential
+ */
+export type WebAuthnCredential = Database['public']['Tables']['webauthn_credentials']['Row'];
+
+/**
+ * 通行密钥凭据表插入类型
+ * 
+ * @typedef {Database['public']['Tables']['webauthn_credentials']['Insert']} WebAuthnCredentialInsert
+ */
+export type WebAuthnCredentialInsert = Database['public']['Tables']['webauthn_credentials']['Insert'];
+
+/**
+ * 通行密钥仪式挑战表行类型
+ * 
+ * @typedef {Database['public']['Tables']['webauthn_challenges']['Row']} WebAuthnChallenge
+ */
+export type WebAuthnChallenge = Database['public']['Tables']['webauthn_challenges']['Row'];
+
+/**
+ * 第三方身份表行类型
+ * 
+ * @typedef {Database['public']['Tables']['identities']['Row']} Identity
+ */
+export type Identity = Database['public']['Tables']['identities']['Row'];
+
+/**
+ * 第三方身份表插入类型
+ * 
+ * @typedef {Database['public']['Tables']['identities']['Insert']} IdentityInsert
+ */
+export type IdentityInsert = Database['public']['Tables']['identities']['Insert'];
+
+/**
+ * OAuth 授权请求状态表行类型
+ * 
+ * @typedef {Database['public']['Tables']['oauth_states']['Row']} OAuthState
+ */
+export type OAuthState = Database['public']['Tables']['oauth_states']['Row'];
+
+/**
+ * 登录链接表行类型
+ * 
+ * @typedef {Database['public']['Tables']['magic_links']['Row']} MagicLink
+ */
+export type MagicLink = Database['public']['Tables']['magic_links']['Row'];
+
+/**
+ * 个人 API 密钥表行类型
+ * 
+ * @typedef {Database['public']['Tables']['api_keys']['Row']} ApiKey
+ */
+export type ApiKey = Database['public']['Tables']['api_keys']['Row'];
+
+/**
+ * 可疑登录检测结果类型（detect_suspicious_login 函数返回行）
+ * 
+ * @typedef {Database['public']['Functions']['detect_suspicious_login']['Returns'][number]} SuspiciousLoginCheck
+ */
+export type SuspiciousLoginCheck = Database['public']['Functions']['detect_suspicious_login']['Returns'][number];
+
+/**
+ * 登录锁定表行类型
+ * 
+ * @typedef {Database['public']['Tables']['login_lockouts']['Row']} LoginLockout
+ */
+export type LoginLockout = Database['public']['Tables']['login_lockouts']['Row'];
+
+/**
+ * 登录锁定表插入类型
+ * 
+ * @typedef {Database['public']['Tables']['login_lockouts']['Insert']} LoginLockoutInsert
+ */
+export type LoginLockoutInsert = Database['public']['Tables']['login_lockouts']['Insert'];
+
+/**
+ * 限流计数表行类型
+ * 
+ * @typedef {Database['public']['Tables']['rate_limits']['Row']} RateLimitCounter
+ */
+export type RateLimitCounter = Database['public']['Tables']['rate_limits']['Row'];
+
+/**
+ * 模拟登录记录表行类型
+ * 
+ * @typedef {Database['public']['Tables']['impersonation_logs']['Row']} ImpersonationLog
+ */
+export type ImpersonationLog = Database['public']['Tables']['impersonation_logs']['Row'];
+
+/**
+ * 模拟登录记录表插入类型
+ * 
+ * @typedef {Database['public']['Tables']['impersonation_logs']['Insert']} ImpersonationLogInsert
+ */
+export type ImpersonationLogInsert = Database['public']['Tables']['impersonation_logs']['Insert'];
+
+/**
+ * 登录锁定范围枚举
+ * 
+ * @enum {string}
+ */
+export enum LockoutScope {
+    /** 账号（按登录邮箱） */
+    ACCOUNT = 'account',
+    /** IP 地址 */
+    IP = 'ip',
+}
+
+/**
+ * 用户角色枚举
+ * 
+ * @enum {string}
+ * @description 与 users.role 的取值一致，写入访问令牌的 role 声明
+ */
+export enum UserRole {
+    /** 普通用户 */
+    USER = 'user',
+    /** 管理员 */
+    ADMIN = 'admin',
+}
+
+/**
+ * 权限枚举
+ * 
+ * @enum {string}
+ * @description 格式为 {资源}:{操作}，角色拥有的权限见 lib/permissions.ts
+ */
+export enum Permission {
+    /** 解锁因登录失败被锁定的账号 */
+    USER_UNLOCK = 'users:unlock',
+    /** 修改用户角色 */
+    USER_ROLE_UPDATE = 'users:update_role',
+    /** 模拟用户登录（客服复现问题） */
+    USER_IMPERSONATE = 'users:impersonate',
+}
+
+/**
+ * API 密钥权限范围枚举
+ * 
+ * @enum {string}
+ * @description 与 api_keys.scopes 的取值一致；GET/HEAD 请求需要读取权限，其余请求需要修改权限
+ */
+export enum ApiKeyScope {
+    /** 读取用户资料 */
+    USERS_READ = 'users:read',
+    /** 修改用户资料 */
+    USERS_WRITE = 'users:write',
+}
+
+/**
+ * 认证方式枚举
+ * 
+ * @enum {string}
+ * @description authMiddleware 写入上下文的 authType
+ */
+export enum AuthType {
+    /** 访问令牌（Authorization: Bearer ...） */
+    BEARER = 'bearer',
+    /** 个人 API 密钥（Authorization: ApiKey ...） */
+    API_KEY = 'api_key',
+}
+
 /**
  * 登录方式枚举
  * 
@@ -50,6 +300,90 @@ export enum LoginMethod {
     OAUTH = 'oauth',
     /** SSO 单点登录 */
     SSO = 'sso',
+    /** 通行密钥（WebAuthn）登录 */
+    PASSKEY = 'passkey',
+    /** 登录链接（magic link）登录 */
+    MAGIC_LINK = 'magic_link',
+}
+
+/**
+ * 登录状态枚举
+ * 
+ * @enum {string}
+ */
+export enum LoginStatus {
+    /** 成功 */
+    SUCCESS = 'success',
+    /** 失败 */
+    FAILED = 'failed',
+}
+
+/**
+ * 登录风险信号枚举
+ * 
+ * @enum {string}
+ */
+export enum LoginRiskSignal {
+    /** 未使用过的 IP */
+    NEW_IP = 'new_ip',
+    /** 未使用过的设备（设备类型 + 操作系统 + 浏览器） */
+    NEW_DEVICE = 'new_device',
+    /** 非常用登录时段 */
+    UNUSUAL_HOUR = 'unusual_hour',
+    /** 近期多次登录失败 */
+    RECENT_FAILURES = 'recent_failures',
+}
+
+/**
+ * 登录风险等级枚举
+ * 
+ * @enum {string}
+ */
+export enum LoginRiskLevel {
+    /** 低风险：直接登录 */
+    LOW = 'low',
+    /** 中风险：直接登录，发送新设备登录提醒 */
+    MEDIUM = 'medium',
+    /** 高风险：需要额外验证后才签发令牌 */
+    HIGH = 'high',
+}
+
+/**
+ * 登录风险评估结果
+ * 
+ * @interface
+ * @property {LoginRiskLevel} level - 风险等级
+ * @property {LoginRiskSignal[]} signals - 命中的风险信号
+ */
+export interface LoginRiskAssessment {
+    level: LoginRiskLevel;
+    signals: LoginRiskSignal[];
+}
+
+/**
+ * 登录验证挑战方式枚举
+ * 
+ * @enum {string}
+ */
+export enum LoginChallengeType {
+    /** 邮箱验证码 */
+    EMAIL_OTP = 'email_otp',
+    /** 两步验证动态码（或恢复码） */
+    TOTP = 'totp',
+    /** 确认恢复注销宽限期内的账号 */
+    ACCOUNT_RESTORE = 'account_restore',
+}
+
+/**
+ * 通行密钥仪式类型枚举
+ * 
+ * @enum {string}
+ */
+export enum WebAuthnCeremony {
+    /** 注册通行密钥 */
+    REGISTRATION = 'registration',
+    /** 使用通行密钥登录 */
+    AUTHENTICATION = 'authentication',
 }
 
 /**
@@ -68,6 +402,8 @@ export enum VerificationPurpose {
     CHANGE_EMAIL = 'change_email',
     /** 验证邮箱 */
     VERIFY_EMAIL = 'verify_email',
+    /** 设置密码（验证码登录的用户首次设置密码） */
+    SET_PASSWORD = 'set_password',
 }
 
 /**
@@ -86,12 +422,43 @@ export enum UserStatus {
     DELETED = 'deleted',
 }
 
+/**
+ * 刷新令牌吊销原因枚举
+ * 
+ * @enum {string}
+ */
+export enum RefreshTokenRevokeReason {
+    /** 已轮换（正常刷新） */
+    ROTATED = 'rotated',
+    /** 检测到重放（已轮换的令牌被再次使用） */
+    REUSE_DETECTED = 'reuse_detected',
+    /** 退出登录 */
+    LOGOUT = 'logout',
+    /** 管理员操作 */
+    ADMIN = 'admin',
+}
+
+/**
+ * 访问令牌吊销原因枚举
+ * 
+ * @enum {string}
+ */
+export enum AccessTokenRevokeReason {
+    /** 退出登录 */
+    LOGOUT = 'logout',
+    /** 管理员操作 */
+    ADMIN = 'admin',
+}
+
 /**
  * 登录响应接口
  * 
  * @interface
  * @property {AuthUser} user - 用户信息
- * @property {string} token - JWT 访问令牌
+ * @property {string} token - JWT 访问令牌（短期有效）
+ * @property {string} tokenExpiresAt - 访问令牌过期时间（ISO 字符串）
+ * @property {string} refreshToken - 刷新令牌（用于换取新的访问令牌，每次使用后轮换）
+ * @property {string} refreshTokenExpiresAt - 刷新令牌过期时间（ISO 字符串）
  */
 export interface LoginResponse {
     user: {
@@ -100,6 +467,58 @@ export interface LoginResponse {
         name: string;
     };
     token: string;
+    tokenExpiresAt: string;
+    refreshToken: string;
+    refreshTokenExpiresAt: string;
+}
+
+/**
+ * 登录验证挑战响应接口（凭据校验通过，但需要额外验证后才签发令牌）
+ * 
+ * @interface
+ * @property {true} challengeRequired - 固定为 true，用于区分登录响应
+ * @property {LoginChallengeType} challengeType - 验证方式
+ * @property {string} challengeToken - 挑战令牌（完成验证时提交）
+ * @property {string} challengeExpiresAt - 挑战过期时间（ISO 字符串）
+ * @property {string} [accountPurgeAt] - 账号永久删除时间（ISO 字符串，仅 account_restore 挑战返回）
+ */
+export interface LoginChallengeResponse {
+    challengeRequired: true;
+    challengeType: LoginChallengeType;
+    challengeToken: string;
+    challengeExpiresAt: string;
+    accountPurgeAt?: string;
+}
+
+/**
+ * 登录结果类型：直接登录成功，或需要完成额外验证
+ * 
+ * @typedef {LoginResponse | LoginChallengeResponse} LoginResult
+ */
+export type LoginResult = LoginResponse | LoginChallengeResponse;
+
+/**
+ * 登录链接轮询结果：链接尚未确认，或已确认并完成登录
+ * 
+ * @typedef {{ status: 'pending' } | { status: 'completed'; result: LoginResult }} MagicLinkPollResult
+ */
+export type MagicLinkPollResult =
+    | { status: 'pending' }
+    | { status: 'completed'; result: LoginResult };
+
+/**
+ * 客户端请求上下文接口
+ * 
+ * @interface
+ * @property {string | null} ip - 客户端 IP（无法识别时为 null）
+ * @property {string | null} userAgent - 用户代理
+ * @property {string | null} [requestId] - 请求 ID（requestLogger 中间件生成，用于关联日志）
+ * @description 由 handler 从请求中提取后传入 service，service 层不直接读取 ctx
+ */
+export interface ClientContext {
+    ip: string | null;
+    userAgent: string | null;
+    requestId?: string | null;
 }
 
 /**
@@ -111,6 +530,9 @@ export interface LoginResponse {
  * @property {string} [role] - 用户角色（可选）
  * @property {number} [iat] - 签发时间（issued at，Unix 时间戳）
  * @property {number} [exp] - 过期时间（expiration，Unix 时间戳）
+ * @property {string} [jti] - 令牌唯一标识（JWT ID，用于服务端吊销）
+ * @property {string} [sid] - 会话 ID（用于会话吊销检查）
+ * @property {TokenActor} [act] - 实际操作者（管理员模拟登录签发的令牌才有，没有会话和刷新令牌）
  */
 export interface JwtPayload {
     sub: string;           // 用户 ID
@@ -118,6 +540,21 @@ export interface JwtPayload {
     role?: string;         // 角色
     iat?: number;          // 签发时间
     exp?: number;          // 过期时间
+    jti?: string;          // 令牌 ID
+    sid?: string;          // 会话 ID
+    act?: TokenActor;      // 实际操作者（模拟登录时为管理员）
+}
+
+/**
+ * 访问令牌的 act（actor）声明（RFC 8693）
+ * 
+ * @interface
+ * @property {string} sub - 实际操作者的用户 ID（模拟登录的管理员）
+ * @property {string} email - 实际操作者的邮箱
+ */
+export interface TokenActor {
+    sub: string;
+    email: string;
 }
 
 /**
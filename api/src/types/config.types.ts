@@ -26,8 +26,18 @@ export interface AppConfig {
     corsOrigins: string[];
     logLevel: string;
     logDirName: string;
+    rateLimitStore: RateLimitStoreMode;
 }
 
+/**
+ * 限流计数存储方式
+ * 
+ * @description
+ * - memory：计数保存在进程内存中，只适用于单实例部署
+ * - postgres：计数保存在 rate_limits 表中，多个实例共享
+ */
+export type RateLimitStoreMode = 'memory' | 'postgres';
+
 /**
  * 认证配置对象
  * 
@@ -68,4 +78,155 @@ export interface AuthConfig {
     jwtRefreshExpiresIn: number;
     bcryptRounds: number;
     sessionSecret: string;
-}
\ No newline at end of file
+    passwordProvider: PasswordProviderMode;
+    loginLockout: LoginLockoutConfig;
+    webauthn: WebAuthnConfig;
+    oidc: OidcConfig;
+    magicLink: MagicLinkConfig;
+    accountDeletion: AccountDeletionConfig;
+    dataExport: DataExportConfig;
+    botChallenge: BotChallengeConfig;
+    impersonation: ImpersonationConfig;
+}
+
+/**
+ * 登录锁定策略配置
+ * 
+ * @description 时间窗口内失败次数达到阈值后锁定，连续锁定时锁定时长翻倍，直到达到上限；阈值为 0 表示不按该维度锁定
+ */
+export interface LoginLockoutConfig {
+    /** 同一账号（邮箱）允许的失败次数 */
+    maxAccountFailures: number;
+    /** 同一 IP 允许的失败次数 */
+    maxIpFailures: number;
+    /** 失败次数统计时间窗口（秒） */
+    window: number;
+    /** 首次锁定时长（秒） */
+    lockDuration: number;
+    /** 最长锁定时长（秒），超过该时长未再次锁定时锁定级别重置 */
+    maxLockDuration: number;
+}
+
+/**
+ * 通行密钥（WebAuthn）依赖方配置
+ * 
+ * @description 通行密钥与 rpId 域名绑定，上线后修改 rpId 会导致已注册的通行密钥全部失效
+ */
+export interface WebAuthnConfig {
+    /** 依赖方 ID（前端页面所在的域名，不含协议和端口） */
+    rpId: string;
+    /** 依赖方名称（显示在系统的通行密钥提示中） */
+    rpName: string;
+    /** 允许发起仪式的前端来源（协议 + 域名 + 端口） */
+    origins: string[];
+}
+
+/**
+ * OIDC/OAuth2 社交登录配置
+ * 
+ * @description 身份提供方的端点通过发现文档（{issuer}/.well-known/openid-configuration）获取，只需配置 issuer 和客户端凭据
+ */
+export interface OidcConfig {
+    /** 前端回调页面的基础地址，回调地址为 {redirectBaseUrl}/{provider}/callback */
+    redirectBaseUrl: string;
+    /** 已启用的身份提供方 */
+    providers: OidcProviderConfig[];
+}
+
+/**
+ * 单个 OIDC 身份提供方配置
+ */
+export interface OidcProviderConfig {
+    /** 提供方标识（小写字母、数字和连字符，用于路由和 identities.provider） */
+    id: string;
+    /** 显示名称 */
+    name: string;
+    /** 签发者地址（发现文档所在位置） */
+    issuer: string;
+    /** 客户端 ID */
+    clientId: string;
+    /** 客户端密钥（公共客户端可为空，仅使用 PKCE） */
+    clientSecret: string;
+    /** 请求的权限范围 */
+    scopes: string[];
+}
+
+/**
+ * 登录链接（magic link）配置
+ * 
+ * @description 邮件中的链接指向 API（{linkBaseUrl}/{token}），API 校验后携带一次性换取码重定向到前端 redirectUrl
+ */
+export interface MagicLinkConfig {
+    /** 邮件中登录链接的基础地址（API 的 /api/auth/magic） */
+    linkBaseUrl: string;
+    /** 点击链接后重定向到的前端页面 */
+    redirectUrl: string;
+    /** 登录链接有效期（秒） */
+    expiresIn: number;
+}
+
+/**
+ * 账号注销配置
+ * 
+ * @description 用户注销后账号进入宽限期，期间重新登录可以恢复账号，宽限期结束后由 purge_deleted_users() 永久删除
+ */
+export interface AccountDeletionConfig {
+    /** 宽限期（天） */
+    gracePeriodDays: number;
+    /** 注销前要求的最近登录时间（秒），超过后需要重新登录 */
+    reauthMaxAge: number;
+}
+
+/**
+ * 个人数据导出配置
+ * 
+ * @description 导出文件上传到私有存储桶，通过邮件发送有时效的签名下载链接
+ */
+export interface DataExportConfig {
+    /** 导出文件所在的存储桶 */
+    bucket: string;
+    /** 下载链接有效期（秒） */
+    linkExpiresIn: number;
+}
+
+/**
+ * 人机验证配置
+ * 
+ * @description 发送验证码前按 mode 要求客户端完成人机验证：off 不要求，always 每次都要求，
+ * adaptive 在同一 IP 或邮箱的请求次数超过 freeAttempts、或 IP 处于登录锁定状态时要求
+ */
+export interface BotChallengeConfig {
+    /** 何时要求人机验证 */
+    mode: 'off' | 'adaptive' | 'always';
+    /** 验证方式：pow（自托管工作量证明）、hcaptcha、turnstile */
+    provider: 'pow' | 'hcaptcha' | 'turnstile';
+    /** adaptive 模式下每小时无需验证的请求次数（按 IP 和邮箱分别计数） */
+    freeAttempts: number;
+    /** 工作量证明难度（前导零比特数） */
+    powDifficulty: number;
+    /** 工作量证明挑战有效期（秒） */
+    powExpiresIn: number;
+    /** CAPTCHA 站点密钥 */
+    siteKey: string;
+    /** CAPTCHA 服务端密钥 */
+    secretKey: string;
+}
+
+/**
+ * 管理员模拟登录配置
+ * 
+ * @description 模拟登录只签发访问令牌（带 act 声明），不创建会话和刷新令牌，过期后需要重新发起
+ */
+export interface ImpersonationConfig {
+    /** 模拟登录访问令牌有效期（秒） */
+    expiresIn: number;
+}
+
+/**
+ * 密码凭据存储方式
+ * 
+ * @description
+ * - supabase：密码由 Supabase Auth（auth.users）存储和校验（默认）
+ * - local：密码以 bcrypt 哈希存储在 public.users.password_hash
+ */
+export type PasswordProviderMode = 'local' | 'supabase';
\ No newline at end of file
@@ -34,6 +34,100 @@ export type Database = {
     }
     public: {
         Tables: {
+            api_keys: {
+                Row: {
+                    created_at: string | null
+                    expires_at: string | null
+                    id: string
+                    key_hash: string
+                    last_used_at: string | null
+                    last_used_ip: unknown
+                    name: string
+                    prefix: string
+                    revoked_at: string | null
+                    scopes: string[]
+                    user_id: string
+                }
+                Insert: {
+                    created_at?: string | null
+                    expires_at?: string | null
+                    id?: string
+                    key_hash: string
+                    last_used_at?: string | null
+                    last_used_ip?: unknown
+                    name: string
+                    prefix: string
+                    revoked_at?: string | null
+                    scopes?: string[]
+                    user_id: string
+                }
+                Update: {
+                    created_at?: string | null
+                    expires_at?: string | null
+                    id?: string
+                    key_hash?: string
+                    last_used_at?: string | null
+                    last_used_ip?: unknown
+                    name?: string
+                    prefix?: string
+                    revoked_at?: string | null
+                    scopes?: string[]
+                    user_id?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "api_keys_user_id_fkey"
+                        columns: ["user_id"]
+                        isOneToOne: false
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
+            data_exports: {
+                Row: {
+                    completed_at: string | null
+                    created_at: string | null
+                    error: string | null
+                    expires_at: string | null
+                    file_path: string | null
+                    file_size: number | null
+                    id: string
+                    status: string
+                    user_id: string
+                }
+                Insert: {
+                    completed_at?: string | null
+                    created_at?: string | null
+                    error?: string | null
+                    expires_at?: string | null
+                    file_path?: string | null
+                    file_size?: number | null
+                    id?: string
+                    status?: string
+                    user_id: string
+                }
+                Update: {
+                    completed_at?: string | null
+                    created_at?: string | null
+                    error?: string | null
+                    expires_at?: string | null
+                    file_path?: string | null
+                    file_size?: number | null
+                    id?: string
+                    status?: string
+                    user_id?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "data_exports_user_id_fkey"
+                        columns: ["user_id"]
+                        isOneToOne: false
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
             email_verification_codes: {
                 Row: {
                     attempts: number | null
@@ -87,6 +181,198 @@ export type Database = {
                     },
                 ]
             }
+            identities: {
+                Row: {
+                    created_at: string | null
+                    email: string | null
+                    email_verified: boolean
+                    id: string
+                    last_login_at: string | null
+                    provider: string
+                    subject: string
+                    user_id: string
+                }
+                Insert: {
+                    created_at?: string | null
+                    email?: string | null
+                    email_verified?: boolean
+                    id?: string
+                    last_login_at?: string | null
+                    provider: string
+                    subject: string
+                    user_id: string
+                }
+                Update: {
+                    created_at?: string | null
+                    email?: string | null
+                    email_verified?: boolean
+                    id?: string
+                    last_login_at?: string | null
+                    provider?: string
+                    subject?: string
+                    user_id?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "identities_user_id_fkey"
+                        columns: ["user_id"]
+                        isOneToOne: false
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
+            impersonation_logs: {
+                Row: {
+                    admin_email: string
+                    admin_id: string | null
+                    created_at: string | null
+                    expires_at: string
+                    id: string
+                    ip_address: unknown
+                    reason: string
+                    revoked_at: string | null
+                    token_jti: string
+                    user_agent: string | null
+                    user_id: string
+                }
+                Insert: {
+                    admin_email: string
+                    admin_id?: string | null
+                    created_at?: string | null
+                    expires_at: string
+                    id?: string
+                    ip_address?: unknown
+                    reason: string
+                    revoked_at?: string | null
+                    token_jti: string
+                    user_agent?: string | null
+                    user_id: string
+                }
+                Update: {
+                    admin_email?: string
+                    admin_id?: string | null
+                    created_at?: string | null
+                    expires_at?: string
+                    id?: string
+                    ip_address?: unknown
+                    reason?: string
+                    revoked_at?: string | null
+                    token_jti?: string
+                    user_agent?: string | null
+                    user_id?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "impersonation_logs_admin_id_fkey"
+                        columns: ["admin_id"]
+                        isOneToOne: false
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                    {
+                        foreignKeyName: "impersonation_logs_user_id_fkey"
+                        columns: ["user_id"]
+                        isOneToOne: false
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
+            login_challenges: {
+                Row: {
+                    challenge_type: string
+                    consumed_at: string | null
+                    created_at: string | null
+                    email: string
+                    expires_at: string
+                    id: string
+                    ip_address: unknown
+                    login_method: string
+                    risk_signals: string[]
+                    token_hash: string
+                    user_agent: string | null
+                    user_id: string
+                }
+                Insert: {
+                    challenge_type: string
+                    consumed_at?: string | null
+                    created_at?: string | null
+                    email: string
+                    expires_at: string
+                    id?: string
+                    ip_address?: unknown
+                    login_method: string
+                    risk_signals?: string[]
+                    token_hash: string
+                    user_agent?: string | null
+                    user_id: string
+                }
+                Update: {
+                    challenge_type?: string
+                    consumed_at?: string | null
+                    created_at?: string | null
+                    email?: string
+                    expires_at?: string
+                    id?: string
+                    ip_address?: unknown
+                    login_method?: string
+                    risk_signals?: string[]
+                    token_hash?: string
+                    user_agent?: string | null
+                    user_id?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "login_challenges_user_id_fkey"
+                        columns: ["user_id"]
+                        isOneToOne: false
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
+            login_lockouts: {
+                Row: {
+                    counted_from: string
+                    identifier: string
+                    lock_level: number
+                    locked_until: string | null
+                    scope: string
+                    unlocked_at: string | null
+                    unlocked_by: string | null
+                    updated_at: string | null
+                }
+                Insert: {
+                    counted_from?: string
+                    identifier: string
+                    lock_level?: number
+                    locked_until?: string | null
+                    scope: string
+                    unlocked_at?: string | null
+                    unlocked_by?: string | null
+                    updated_at?: string | null
+                }
+                Update: {
+                    counted_from?: string
+                    identifier?: string
+                    lock_level?: number
+                    locked_until?: string | null
+                    scope?: string
+                    unlocked_at?: string | null
+                    unlocked_by?: string | null
+                    updated_at?: string | null
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "login_lockouts_unlocked_by_fkey"
+                        columns: ["unlocked_by"]
+                        isOneToOne: false
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
             login_logs: {
                 Row: {
                     browser: string | null
@@ -155,11 +441,268 @@ export type Database = {
                     },
                 ]
             }
+            magic_links: {
+                Row: {
+                    approved_at: string | null
+                    created_at: string | null
+                    email: string
+                    exchange_redeemed_at: string | null
+                    exchange_token_hash: string | null
+                    expires_at: string
+                    id: string
+                    poll_redeemed_at: string | null
+                    poll_token_hash: string
+                    token_hash: string
+                }
+                Insert: {
+                    approved_at?: string | null
+                    created_at?: string | null
+                    email: string
+                    exchange_redeemed_at?: string | null
+                    exchange_token_hash?: string | null
+                    expires_at: string
+                    id?: string
+                    poll_redeemed_at?: string | null
+                    poll_token_hash: string
+                    token_hash: string
+                }
+                Update: {
+                    approved_at?: string | null
+                    created_at?: string | null
+                    email?: string
+                    exchange_redeemed_at?: string | null
+                    exchange_token_hash?: string | null
+                    expires_at?: string
+                    id?: string
+                    poll_redeemed_at?: string | null
+                    poll_token_hash?: string
+                    token_hash?: string
+                }
+                Relationships: []
+            }
+            mfa_recovery_codes: {
+                Row: {
+                    code_hash: string
+                    created_at: string | null
+                    id: string
+                    used_at: string | null
+                    user_id: string
+                }
+                Insert: {
+                    code_hash: string
+                    created_at?: string | null
+                    id?: string
+                    used_at?: string | null
+                    user_id: string
+                }
+                Update: {
+                    code_hash?: string
+                    created_at?: string | null
+                    id?: string
+                    used_at?: string | null
+                    user_id?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "mfa_recovery_codes_user_id_fkey"
+                        columns: ["user_id"]
+                        isOneToOne: false
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
+            oauth_states: {
+                Row: {
+                    code_verifier: string
+                    consumed_at: string | null
+                    created_at: string | null
+                    expires_at: string
+                    id: string
+                    nonce: string
+                    provider: string
+                    state_hash: string
+                }
+                Insert: {
+                    code_verifier: string
+                    consumed_at?: string | null
+                    created_at?: string | null
+                    expires_at: string
+                    id?: string
+                    nonce: string
+                    provider: string
+                    state_hash: string
+                }
+                Update: {
+                    code_verifier?: string
+                    consumed_at?: string | null
+                    created_at?: string | null
+                    expires_at?: string
+                    id?: string
+                    nonce?: string
+                    provider?: string
+                    state_hash?: string
+                }
+                Relationships: []
+            }
+            rate_limits: {
+                Row: {
+                    count: number
+                    expires_at: string
+                    key: string
+                }
+                Insert: {
+                    count?: number
+                    expires_at: string
+                    key: string
+                }
+                Update: {
+                    count?: number
+                    expires_at?: string
+                    key?: string
+                }
+                Relationships: []
+            }
+            refresh_tokens: {
+                Row: {
+                    created_at: string | null
+                    expires_at: string
+                    family_id: string
+                    id: string
+                    ip_address: unknown
+                    parent_id: string | null
+                    replaced_by: string | null
+                    revoked_at: string | null
+                    revoked_reason: string | null
+                    token_hash: string
+                    user_agent: string | null
+                    user_id: string
+                }
+                Insert: {
+                    created_at?: string | null
+                    expires_at: string
+                    family_id: string
+                    id?: string
+                    ip_address?: unknown
+                    parent_id?: string | null
+                    replaced_by?: string | null
+                    revoked_at?: string | null
+                    revoked_reason?: string | null
+                    token_hash: string
+                    user_agent?: string | null
+                    user_id: string
+                }
+                Update: {
+                    created_at?: string | null
+                    expires_at?: string
+                    family_id?: string
+                    id?: string
+                    ip_address?: unknown
+                    parent_id?: string | null
+                    replaced_by?: string | null
+                    revoked_at?: string | null
+                    revoked_reason?: string | null
+                    token_hash?: string
+                    user_agent?: string | null
+                    user_id?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "refresh_tokens_parent_id_fkey"
+                        columns: ["parent_id"]
+                        isOneToOne: false
+                        referencedRelation: "refresh_tokens"
+                        referencedColumns: ["id"]
+                    },
+                    {
+                        foreignKeyName: "refresh_tokens_replaced_by_fkey"
+                        columns: ["replaced_by"]
+                        isOneToOne: false
+                        referencedRelation: "refresh_tokens"
+                        referencedColumns: ["id"]
+                    },
+                    {
+                        foreignKeyName: "refresh_tokens_user_id_fkey"
+                        columns: ["user_id"]
+                        isOneToOne: false
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
+            revoked_tokens: {
+                Row: {
+                    expires_at: string
+                    jti: string
+                    reason: string
+                    revoked_at: string | null
+                    user_id: string
+                }
+                Insert: {
+                    expires_at: string
+                    jti: string
+                    reason: string
+                    revoked_at?: string | null
+                    user_id: string
+                }
+                Update: {
+                    expires_at?: string
+                    jti?: string
+                    reason?: string
+                    revoked_at?: string | null
+                    user_id?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "revoked_tokens_user_id_fkey"
+                        columns: ["user_id"]
+                        isOneToOne: false
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
+            totp_factors: {
+                Row: {
+                    confirmed_at: string | null
+                    created_at: string | null
+                    last_used_step: number
+                    secret: string
+                    updated_at: string | null
+                    user_id: string
+                }
+                Insert: {
+                    confirmed_at?: string | null
+                    created_at?: string | null
+                    last_used_step?: number
+                    secret: string
+                    updated_at?: string | null
+                    user_id: string
+                }
+                Update: {
+                    confirmed_at?: string | null
+                    created_at?: string | null
+                    last_used_step?: number
+                    secret?: string
+                    updated_at?: string | null
+                    user_id?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "totp_factors_user_id_fkey"
+                        columns: ["user_id"]
+                        isOneToOne: true
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
             users: {
                 Row: {
                     avatar_url: string | null
                     bio: string | null
                     created_at: string | null
+                    deleted_at: string | null
                     email: string
                     email_verified: boolean | null
                     id: string
@@ -167,7 +710,10 @@ export type Database = {
                     metadata: Json | null
                     name: string
                     password_hash: string | null
+                    password_set_at: string | null
                     phone: string | null
+                    purge_after: string | null
+                    role: string
                     status: string | null
                     updated_at: string | null
                 }
@@ -175,6 +721,7 @@ export type Database = {
                     avatar_url?: string | null
                     bio?: string | null
                     created_at?: string | null
+                    deleted_at?: string | null
                     email: string
                     email_verified?: boolean | null
                     id?: string
@@ -182,7 +729,10 @@ export type Database = {
                     metadata?: Json | null
                     name: string
                     password_hash?: string | null
+                    password_set_at?: string | null
                     phone?: string | null
+                    purge_after?: string | null
+                    role?: string
                     status?: string | null
                     updated_at?: string | null
                 }
@@ -190,6 +740,7 @@ export type Database = {
                     avatar_url?: string | null
                     bio?: string | null
                     created_at?: string | null
+                    deleted_at?: string | null
                     email?: string
                     email_verified?: boolean | null
                     id?: string
@@ -197,37 +748,249 @@ export type Database = {
                     metadata?: Json | null
                     name?: string
                     password_hash?: string | null
+                    password_set_at?: string | null
                     phone?: string | null
+                    purge_after?: string | null
+                    role?: string
                     status?: string | null
                     updated_at?: string | null
                 }
                 Relationships: []
             }
+            user_sessions: {
+                Row: {
+                    browser: string | null
+                    created_at: string | null
+                    device_type: string | null
+                    expires_at: string
+                    id: string
+                    ip_address: unknown
+                    last_seen_at: string | null
+                    os: string | null
+                    revoked_at: string | null
+                    revoked_reason: string | null
+                    user_agent: string | null
+                    user_id: string
+                }
+                Insert: {
+                    browser?: string | null
+                    created_at?: string | null
+                    device_type?: string | null
+                    expires_at: string
+                    id?: string
+                    ip_address?: unknown
+                    last_seen_at?: string | null
+                    os?: string | null
+                    revoked_at?: string | null
+                    revoked_reason?: string | null
+                    user_agent?: string | null
+                    user_id: string
+                }
+                Update: {
+                    browser?: string | null
+                    created_at?: string | null
+                    device_type?: string | null
+                    expires_at?: string
+                    id?: string
+                    ip_address?: unknown
+                    last_seen_at?: string | null
+                    os?: string | null
+                    revoked_at?: string | null
+                    revoked_reason?: string | null
+                    user_agent?: string | null
+                    user_id?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "user_sessions_user_id_fkey"
+                        columns: ["user_id"]
+                        isOneToOne: false
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
+            user_token_revocations: {
+                Row: {
+                    revoked_before: string
+                    updated_at: string | null
+                    user_id: string
+                }
+                Insert: {
+                    revoked_before: string
+                    updated_at?: string | null
+                    user_id: string
+                }
+                Update: {
+                    revoked_before?: string
+                    updated_at?: string | null
+                    user_id?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "user_token_revocations_user_id_fkey"
+                        columns: ["user_id"]
+                        isOneToOne: true
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
+            webauthn_challenges: {
+                Row: {
+                    ceremony: string
+                    challenge_hash: string
+                    consumed_at: string | null
+                    created_at: string | null
+                    expires_at: string
+                    id: string
+                    user_id: string | null
+                }
+                Insert: {
+                    ceremony: string
+                    challenge_hash: string
+                    consumed_at?: string | null
+                    created_at?: string | null
+                    expires_at: string
+                    id?: string
+                    user_id?: string | null
+                }
+                Update: {
+                    ceremony?: string
+                    challenge_hash?: string
+                    consumed_at?: string | null
+                    created_at?: string | null
+                    expires_at?: string
+                    id?: string
+                    user_id?: string | null
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "webauthn_challenges_user_id_fkey"
+                        columns: ["user_id"]
+                        isOneToOne: false
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
+            webauthn_credentials: {
+                Row: {
+                    aaguid: string | null
+                    algorithm: number
+                    backed_up: boolean
+                    backup_eligible: boolean
+                    created_at: string | null
+                    credential_id: string
+                    id: string
+                    last_used_at: string | null
+                    name: string | null
+                    public_key: string
+                    sign_count: number
+                    transports: string[]
+                    user_id: string
+                }
+                Insert: {
+                    aaguid?: string | null
+                    algorithm: number
+                    backed_up?: boolean
+                    backup_eligible?: boolean
+                    created_at?: string | null
+                    credential_id: string
+                    id?: string
+                    last_used_at?: string | null
+                    name?: string | null
+                    public_key: string
+                    sign_count?: number
+                    transports?: string[]
+                    user_id: string
+                }
+                Update: {
+                    aaguid?: string | null
+                    algorithm?: number
+                    backed_up?: boolean
+                    backup_eligible?: boolean
+                    created_at?: string | null
+                    credential_id?: string
+                    id?: string
+                    last_used_at?: string | null
+                    name?: string | null
+                    public_key?: string
+                    sign_count?: number
+                    transports?: string[]
+                    user_id?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "webauthn_credentials_user_id_fkey"
+                        columns: ["user_id"]
+                        isOneToOne: false
+                        referencedRelation: "users"
+                        referencedColumns: ["id"]
+                    },
+                ]
+            }
         }
         Views: {
             [_ in never]: never
         }
         Functions: {
+            cleanup_expired_login_challenges: { Args: never; Returns: undefined }
+            cleanup_expired_magic_links: { Args: never; Returns: undefined }
+            cleanup_expired_oauth_states: { Args: never; Returns: undefined }
+            cleanup_expired_rate_limits: { Args: never; Returns: undefined }
+            cleanup_expired_refresh_tokens: { Args: never; Returns: undefined }
+            cleanup_expired_revoked_tokens: { Args: never; Returns: undefined }
+            cleanup_expired_sessions: { Args: never; Returns: undefined }
             cleanup_expired_verification_codes: { Args: never; Returns: undefined }
+            cleanup_expired_webauthn_challenges: { Args: never; Returns: undefined }
             current_user_id: { Args: never; Returns: string }
             detect_suspicious_login: {
-                Args: { p_country: string; p_ip_address: unknown; p_user_id: string }
-                Returns: boolean
+                Args: {
+                    p_browser?: string
+                    p_device_type?: string
+                    p_ip_address: unknown
+                    p_lookback_days?: number
+                    p_min_logins_for_hour?: number
+                    p_os?: string
+                    p_user_id: string
+                }
+                Returns: {
+                    known_logins: number
+                    new_device: boolean
+                    new_ip: boolean
+                    unusual_hour: boolean
+                }[]
             }
             get_user_recent_logins: {
-                Args: { p_limit?: number; p_user_id: string }
+                Args: {
+                    p_before_created_at?: string
+                    p_before_id?: string
+                    p_limit?: number
+                    p_login_method?: string
+                    p_status?: string
+                    p_user_id: string
+                }
                 Returns: {
+                    browser: string
                     created_at: string
                     device_type: string
+                    failure_reason: string
                     id: string
                     ip_address: unknown
                     location: string
                     login_method: string
+                    os: string
                     status: string
                 }[]
             }
+            increment_rate_limit: {
+                Args: { p_key: string; p_ttl_ms: number }
+                Returns: number
+            }
             is_admin: { Args: never; Returns: boolean }
             is_email_verified: { Args: never; Returns: boolean }
+            purge_deleted_users: { Args: never; Returns: number }
         }
         Enums: {
             [_ in never]: never
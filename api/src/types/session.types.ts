@@ -0,0 +1,57 @@
+/**
+ * @file session.types.ts
+ * @description 会话相关类型定义，包含会话表类型、吊销原因和会话列表项等类型
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import type { Database } from '[@BASE]/types/database.types.ts';
+
+/**
+ * 会话表行类型
+ * 
+ * @typedef {Database['public']['Tables']['user_sessions']['Row']} UserSession
+ */
+export type UserSession = Database['public']['Tables']['user_sessions']['Row'];
+
+/**
+ * 会话表插入类型
+ * 
+ * @typedef {Database['public']['Tables']['user_sessions']['Insert']} UserSessionInsert
+ */
+export type UserSessionInsert = Database['public']['Tables']['user_sessions']['Insert'];
+
+/**
+ * 会话表更新类型
+ * 
+ * @typedef {Database['public']['Tables']['user_sessions']['Update']} UserSessionUpdate
+ */
+export type UserSessionUpdate = Database['public']['Tables']['user_sessions']['Update'];
+
+/**
+ * 会话吊销原因枚举
+ * 
+ * @enum {string}
+ */
+export enum SessionRevokeReason {
+    /** 退出登录 */
+    LOGOUT = 'logout',
+    /** 退出所有设备 */
+    LOGOUT_ALL = 'logout_all',
+    /** 用户在设备列表中移除 */
+    USER = 'user',
+    /** 管理员操作 */
+    ADMIN = 'admin',
+    /** 检测到刷新令牌重放 */
+    REUSE_DETECTED = 'reuse_detected',
+}
+
+/**
+ * 会话列表项类型
+ * 
+ * @typedef {Object} SessionInfo
+ * @description 返回给用户的会话信息（不包含用户 ID 和吊销信息），is_current 表示是否为当前请求所在的会话
+ */
+export type SessionInfo = Omit<UserSession, 'user_id' | 'revoked_at' | 'revoked_reason'> & {
+    is_current: boolean;
+};
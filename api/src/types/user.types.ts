@@ -31,10 +31,22 @@ export type UserUpdate = Database['public']['Tables']['users']['Update'];
 /**
  * 用户公开资料类型（不包含敏感信息）
  * 
- * @typedef {Omit<User, 'password_hash' | 'metadata'>} UserProfile
- * @description 从 User 类型中排除密码哈希和元数据字段，用于公开接口返回
+ * @typedef {Omit<User, 'password_hash' | 'password_set_at' | 'metadata' | 'deleted_at' | 'purge_after'> & { has_password: boolean }} UserProfile
+ * @description 从 User 类型中排除密码相关、元数据和注销相关字段，用于公开接口返回；has_password 表示是否已设置密码
  */
-export type UserProfile = Omit<User, 'password_hash' | 'metadata'>;
+export type UserProfile = Omit<User, 'password_hash' | 'password_set_at' | 'metadata' | 'deleted_at' | 'purge_after'> & {
+    has_password: boolean;
+};
+
+/**
+ * 当前用户资料类型
+ * 
+ * @typedef {UserProfile & { impersonator: { id: string; email: string } | null }} CurrentUserProfile
+ * @description impersonator 为管理员模拟登录时实际操作的管理员（前端据此显示模拟登录提示条），正常登录时为 null
+ */
+export type CurrentUserProfile = UserProfile & {
+    impersonator: { id: string; email: string } | null;
+};
 
 /**
  * 用户更新数据接口
@@ -62,4 +74,26 @@ export interface UserUpdateData {
 export interface ChangePasswordData {
     old_password: string;
     new_password: string;
-}
\ No newline at end of file
+}
+/**
+ * 个人数据导出任务表行类型
+ * 
+ * @typedef {Database['public']['Tables']['data_exports']['Row']} DataExport
+ */
+export type DataExport = Database['public']['Tables']['data_exports']['Row'];
+
+/**
+ * 个人数据导出任务状态枚举
+ * 
+ * @enum {string}
+ */
+export enum DataExportStatus {
+    /** 等待处理 */
+    PENDING = 'pending',
+    /** 生成中 */
+    PROCESSING = 'processing',
+    /** 已完成（下载链接已发送到邮箱） */
+    COMPLETED = 'completed',
+    /** 失败 */
+    FAILED = 'failed',
+}
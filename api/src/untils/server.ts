@@ -6,6 +6,7 @@
  */
 
 import type { Context } from '@hono/hono';
+import type { ClientContext } from '[@BASE]/types/auth.types.ts';
 
 /**
  * 获取客户端 IP 地址
@@ -35,4 +36,42 @@ export function getClientIp(c: Context): string {
 
     // 最后使用默认值
     return '0.0.0.0';
-}
\ No newline at end of file
+}
+
+/**
+ * 判断字符串是否为合法的 IP 地址（IPv4 / IPv6）
+ * 
+ * @param {string} ip - 待检查的字符串
+ * @returns {boolean} 是否为合法 IP
+ * 
+ * @description 数据库中 ip_address 为 INET 类型，写入非法值（如 'unknown'）会导致插入失败
+ */
+export function isValidIp(ip: string): boolean {
+    const ipv4 = /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/;
+    if (ipv4.test(ip)) return true;
+
+    // IPv6：只做宽松校验（十六进制 + 冒号，允许内嵌 IPv4）
+    return ip.includes(':') && /^[0-9a-fA-F:.]+$/.test(ip);
+}
+
+/**
+ * 获取客户端请求上下文（IP + User-Agent + 请求 ID）
+ * 
+ * @param {Context} c - Hono 上下文对象
+ * @returns {ClientContext} 客户端上下文，供 service 层记录使用
+ * 
+ * @description 优先使用 requestLogger 中间件注入的 clientIP 和 requestId，非法 IP 统一转为 null
+ * 
+ * @example
+ * const client = getClientContext(c);
+ * await authService.refreshSession(body.refreshToken, client);
+ */
+export function getClientContext(c: Context): ClientContext {
+    const ip: string = c.get('clientIP') || getClientIp(c);
+
+    return {
+        ip: isValidIp(ip) ? ip : null,
+        userAgent: c.req.header('user-agent') || null,
+        requestId: c.get('requestId') || null,
+    };
+}
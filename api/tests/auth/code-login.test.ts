@@ -0,0 +1,118 @@
+/**
+ * @file code-login.test.ts
+ * @description 注册后使用邮箱验证码登录的测试（Supabase 和 public.users 使用内存替身，不依赖运行中的服务）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+
+// 服务模块在导入时读取配置并创建 Supabase 客户端，先补齐缺少的环境变量（不会发出请求）
+for (const [key, value] of Object.entries({
+    SUPABASE_URL: 'http://localhost:54321',
+    SUPABASE_ANON_KEY: 'test-anon-key',
+    SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key',
+    LOG_LEVEL: 'error',
+})) {
+    if (!Deno.env.get(key)) Deno.env.set(key, value);
+}
+
+const { default: config } = await import('[@BASE]/config/index.ts');
+const { AuthClient } = await import('@supabase/supabase-js');
+const { supabaseAdmin } = await import('[@BASE]/lib/supabase.client.ts');
+const { UserRepository } = await import('[@BASE-repositories]/user.repository.ts');
+const { authService } = await import('[@BASE-services]/auth.service.ts');
+const { credentialService } = await import('[@BASE-services]/credential.service.ts');
+
+type User = Awaited<ReturnType<typeof credentialService.createUser>>;
+
+/**
+ * 用内存替身代替 auth.users、public.users 和 Supabase Auth 接口
+ * 
+ * @description verifyOtp 与 Supabase 行为一致：邮箱没有 auth.users 记录时创建新的 auth 用户（新 ID）；
+ * 验证码在一次性客户端上校验，因此替换 AuthClient 原型上的方法
+ */
+function stubBackend() {
+    const authUsers = new Map<string, string>(); // email -> auth.users.id
+    const users = new Map<string, User>(); // id -> public.users
+    const admin = supabaseAdmin.auth.admin;
+    const originals = {
+        createUser: admin.createUser,
+        verifyOtp: AuthClient.prototype.verifyOtp,
+        create: UserRepository.prototype.create,
+        findById: UserRepository.prototype.findById,
+        findByEmail: UserRepository.prototype.findByEmail,
+    };
+
+    const authUser = (email: string) => {
+        const id = authUsers.get(email) ?? crypto.randomUUID();
+        authUsers.set(email, id);
+        return { id, email };
+    };
+
+    admin.createUser = ((attrs: { email: string }) =>
+        Promise.resolve({ data: { user: authUser(attrs.email) }, error: null })) as unknown as typeof admin.createUser;
+    AuthClient.prototype.verifyOtp = ((params: { email: string }) =>
+        Promise.resolve({ data: { user: authUser(params.email), session: null }, error: null })) as unknown as typeof AuthClient.prototype.verifyOtp;
+    UserRepository.prototype.create = function (data) {
+        const user = { id: crypto.randomUUID(), ...data } as User;
+        users.set(user.id, user);
+        return Promise.resolve(user);
+    };
+    UserRepository.prototype.findById = function (id) {
+        return Promise.resolve(users.get(id) ?? null);
+    };
+    UserRepository.prototype.findByEmail = function (email) {
+        return Promise.resolve([...users.values()].find((user) => user.email === email) ?? null);
+    };
+
+    return {
+        users,
+        restore() {
+            admin.createUser = originals.createUser;
+            AuthClient.prototype.verifyOtp = originals.verifyOtp;
+            UserRepository.prototype.create = originals.create;
+            UserRepository.prototype.findById = originals.findById;
+            UserRepository.prototype.findByEmail = originals.findByEmail;
+        },
+    };
+}
+
+Deno.test('注册后使用邮箱验证码登录', async (t) => {
+    const originalProvider = config.auth.passwordProvider;
+
+    for (const provider of ['local', 'supabase'] as const) {
+        // *********
+        await t.step(`>> ${provider === 'local' ? 1 : 2}. 密码存储方式为 ${provider}`, async () => {
+            config.auth.passwordProvider = provider;
+            const backend = stubBackend();
+            try {
+                const email = `code-login-${provider}@example.com`;
+                const registered = await authService.register({ name: 'Test', email, password: 'Passw0rd123' });
+
+                const loggedIn = await authService.authenticateWithCode(email, '123456');
+
+                assertEquals(loggedIn.id, registered.id);
+                assertEquals(backend.users.size, 1);
+            } finally {
+                backend.restore();
+            }
+        });
+    }
+
+    // *********
+    await t.step('>> 3. 未注册的邮箱首次验证码登录时创建用户', async () => {
+        const backend = stubBackend();
+        try {
+            const user = await authService.authenticateWithCode('first-login@example.com', '123456');
+
+            assertEquals(user.email, 'first-login@example.com');
+            assertEquals(user.email_verified, true);
+            assertEquals(backend.users.size, 1);
+        } finally {
+            backend.restore();
+        }
+    });
+
+    config.auth.passwordProvider = originalProvider;
+});
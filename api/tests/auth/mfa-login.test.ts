@@ -0,0 +1,265 @@
+/**
+ * @file mfa-login.test.ts
+ * @description 开启两步验证后登录的测试：登录返回 TOTP 挑战、动态码和恢复码完成挑战、恢复码只能使用一次、动态码错误计入登录锁定
+ * （数据库使用内存替身，不依赖运行中的服务）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import type { LoginChallenge, LoginLockout, LoginLog, LoginResult, TotpFactor } from '[@BASE]/types/auth.types.ts';
+import type { User } from '[@BASE]/types/user.types.ts';
+
+// 服务模块在导入时读取配置并创建 Supabase 客户端，先补齐缺少的环境变量（不会发出请求）
+for (const [key, value] of Object.entries({
+    SUPABASE_URL: 'http://localhost:54321',
+    SUPABASE_ANON_KEY: 'test-anon-key',
+    SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key',
+    LOG_LEVEL: 'error',
+})) {
+    if (!Deno.env.get(key)) Deno.env.set(key, value);
+}
+
+const { default: config } = await import('[@BASE]/config/index.ts');
+const { generateTotp, TOTP_PERIOD } = await import('[@BASE]/lib/totp.ts');
+const { ErrorCodes } = await import('[@BASE]/lib/errors/error-codes.ts');
+const { UserRepository } = await import('[@BASE-repositories]/user.repository.ts');
+const { AuthRepository } = await import('[@BASE-repositories]/auth.repository.ts');
+const { mfaRepository } = await import('[@BASE-repositories]/mfa.repository.ts');
+const { loginChallengeRepository } = await import('[@BASE-repositories]/login-challenge.repository.ts');
+const { loginLockoutRepository } = await import('[@BASE-repositories]/login-lockout.repository.ts');
+const { authService } = await import('[@BASE-services]/auth.service.ts');
+const { mfaService } = await import('[@BASE-services]/mfa.service.ts');
+const { loginRiskService } = await import('[@BASE-services]/login-risk.service.ts');
+const { LoginChallengeType, LoginMethod, LoginRiskLevel } = await import('[@BASE]/types/auth.types.ts');
+
+const CLIENT = { ip: '203.0.113.10', userAgent: 'mfa-login-test' };
+
+/**
+ * 用内存替身代替用户、两步验证、登录挑战、登录日志和登录锁定的数据访问
+ * 
+ * @description 登录风险评估固定为低风险，签发令牌替换为固定响应，其余业务逻辑（两步验证、挑战、锁定）使用真实实现
+ */
+function stubBackend(user: User) {
+    const restores: (() => void)[] = [];
+    const stub = <T extends object, K extends keyof T>(target: T, key: K, impl: T[K]) => {
+        const original = target[key];
+        target[key] = impl;
+        restores.push(() => {
+            target[key] = original;
+        });
+    };
+
+    const factors = new Map<string, TotpFactor>(); // userId -> 因子
+    const recoveryCodes: { user_id: string; code_hash: string; used_at: string | null }[] = [];
+    const challenges: LoginChallenge[] = [];
+    const lockouts = new Map<string, LoginLockout>(); // scope:identifier -> 锁定
+    const logs: LoginLog[] = [];
+
+    stub(UserRepository.prototype, 'findById', (id: string) => Promise.resolve(id === user.id ? user : null));
+    stub(UserRepository.prototype, 'findByEmail', (email: string) => Promise.resolve(email === user.email ? user : null));
+    stub(UserRepository.prototype, 'updateLastLogin', () => Promise.resolve());
+
+    stub(mfaRepository, 'findTotpFactor', (userId) => Promise.resolve(factors.get(userId) ?? null));
+    stub(mfaRepository, 'savePendingTotpFactor', (userId, secret) => {
+        const factor = { user_id: userId, secret, confirmed_at: null, last_used_step: 0 } as TotpFactor;
+        factors.set(userId, factor);
+        return Promise.resolve(factor);
+    });
+    stub(mfaRepository, 'confirmTotpFactor', (userId, step) => {
+        const factor = { ...factors.get(userId)!, confirmed_at: new Date().toISOString(), last_used_step: step };
+        factors.set(userId, factor);
+        return Promise.resolve(factor);
+    });
+    stub(mfaRepository, 'claimTotpStep', (userId, step) => {
+        const factor = factors.get(userId);
+        if (!factor || factor.last_used_step >= step) return Promise.resolve(false);
+        factors.set(userId, { ...factor, last_used_step: step });
+        return Promise.resolve(true);
+    });
+    stub(mfaRepository, 'replaceRecoveryCodes', (userId, codeHashes) => {
+        recoveryCodes.splice(0, recoveryCodes.length, ...recoveryCodes.filter((code) => code.user_id !== userId));
+        recoveryCodes.push(...codeHashes.map((codeHash) => ({ user_id: userId, code_hash: codeHash, used_at: null })));
+        return Promise.resolve();
+    });
+    stub(mfaRepository, 'consumeRecoveryCode', (userId, codeHash) => {
+        const code = recoveryCodes.find((item) => item.user_id === userId && item.code_hash === codeHash && !item.used_at);
+        if (code) code.used_at = new Date().toISOString();
+        return Promise.resolve(!!code);
+    });
+    stub(mfaRepository, 'countUnusedRecoveryCodes', (userId) =>
+        Promise.resolve(recoveryCodes.filter((item) => item.user_id === userId && !item.used_at).length));
+
+    stub(loginChallengeRepository, 'create', (data) => {
+        const challenge = { id: crypto.randomUUID(), consumed_at: null, created_at: new Date().toISOString(), ...data } as LoginChallenge;
+        challenges.push(challenge);
+        return Promise.resolve(challenge);
+    });
+    stub(loginChallengeRepository, 'findByHash', (tokenHash) =>
+        Promise.resolve(challenges.find((challenge) => challenge.token_hash === tokenHash) ?? null));
+    stub(loginChallengeRepository, 'consumeIfPending', (id) => {
+        const challenge = challenges.find((item) => item.id === id && !item.consumed_at);
+        if (challenge) challenge.consumed_at = new Date().toISOString();
+        return Promise.resolve(!!challenge);
+    });
+
+    stub(loginLockoutRepository, 'find', (scope, identifier) =>
+        Promise.resolve(lockouts.get(`${scope}:${identifier}`) ?? null));
+    stub(loginLockoutRepository, 'save', (data) => {
+        const key = `${data.scope}:${data.identifier}`;
+        const lockout = { ...lockouts.get(key), ...data } as LoginLockout;
+        lockouts.set(key, lockout);
+        return Promise.resolve(lockout);
+    });
+
+    stub(AuthRepository.prototype, 'createLoginLog', (data) => {
+        const log = { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...data } as LoginLog;
+        logs.push(log);
+        return Promise.resolve(log);
+    });
+    stub(AuthRepository.prototype, 'countFailedLoginsSince', (target, since, reasons) =>
+        Promise.resolve(logs.filter((log) =>
+            (target.email === undefined || log.email === target.email) &&
+            (target.ip === undefined || log.ip_address === target.ip) &&
+            log.status === 'failed' &&
+            reasons.includes(log.failure_reason ?? '') &&
+            (log.created_at ?? '') > since
+        ).length));
+    stub(AuthRepository.prototype, 'getLastSuccessfulLoginAt', (email) =>
+        Promise.resolve(logs.findLast((log) => log.email === email && log.status === 'success')?.created_at ?? null));
+
+    stub(loginRiskService, 'assess', () => Promise.resolve({ level: LoginRiskLevel.LOW, signals: [] }));
+    stub(authService, 'buildLoginResponse', (loggedIn) => Promise.resolve({
+        user: { id: loggedIn.id, email: loggedIn.email, name: loggedIn.name },
+        token: 'access-token',
+        tokenExpiresAt: new Date().toISOString(),
+        refreshToken: 'refresh-token',
+        refreshTokenExpiresAt: new Date().toISOString(),
+    }));
+
+    return {
+        logs,
+        restore() {
+            restores.reverse().forEach((restore) => restore());
+        },
+    };
+}
+
+/**
+ * 创建测试用户
+ */
+function createUser(email: string): User {
+    return { id: crypto.randomUUID(), email, name: 'Test', status: 'active', role: 'user' } as User;
+}
+
+/**
+ * 开启两步验证，返回 TOTP 密钥和恢复码
+ * 
+ * @description 确认绑定使用上一个时间步的动态码，登录时当前时间步的动态码不会被当作重放
+ */
+async function enableMfa(user: User): Promise<{ secret: string; recoveryCodes: string[] }> {
+    const { secret } = await mfaService.startTotpEnrollment(user.id);
+    const code = await generateTotp(secret, { timestamp: Date.now() - TOTP_PERIOD * 1000 });
+    const { recovery_codes } = await mfaService.confirmTotpEnrollment(user.id, code);
+    return { secret, recoveryCodes: recovery_codes };
+}
+
+/**
+ * 使用密码登录（凭据校验直接通过），返回 TOTP 挑战令牌
+ */
+async function loginForChallenge(user: User): Promise<string> {
+    const result: LoginResult = await authService.login(LoginMethod.PASSWORD, user.email, () => Promise.resolve(user), CLIENT);
+
+    assertEquals('challengeRequired' in result && result.challengeType, LoginChallengeType.TOTP);
+    return (result as Extract<LoginResult, { challengeToken: string }>).challengeToken;
+}
+
+/**
+ * 等待 Promise 失败并返回错误码
+ */
+async function rejectionCode(promise: Promise<unknown>): Promise<string | undefined> {
+    try {
+        await promise;
+    } catch (error) {
+        return (error as { code?: string }).code;
+    }
+    throw new Error('Expected promise to reject');
+}
+
+Deno.test('开启两步验证后登录', async (t) => {
+    // *********
+    await t.step('>> 1. 登录返回 TOTP 挑战，提交动态码后完成登录', async () => {
+        const user = createUser('mfa-totp@example.com');
+        const backend = stubBackend(user);
+        try {
+            const { secret } = await enableMfa(user);
+            const challengeToken = await loginForChallenge(user);
+            const code = await generateTotp(secret);
+
+            const response = await authService.verifyMfaChallenge(challengeToken, code, CLIENT);
+
+            assertEquals(response.user.id, user.id);
+            // 挑战只能完成一次
+            assertEquals(
+                await rejectionCode(authService.verifyMfaChallenge(challengeToken, code, CLIENT)),
+                ErrorCodes.AUTH_LOGIN_CHALLENGE_INVALID
+            );
+            // 同一个动态码不能用于下一次登录
+            assertEquals(
+                await rejectionCode(authService.verifyMfaChallenge(await loginForChallenge(user), code, CLIENT)),
+                ErrorCodes.AUTH_MFA_CODE_INVALID
+            );
+        } finally {
+            backend.restore();
+        }
+    });
+
+    // *********
+    await t.step('>> 2. 恢复码可以完成挑战，且只能使用一次', async () => {
+        const user = createUser('mfa-recovery@example.com');
+        const backend = stubBackend(user);
+        try {
+            const { recoveryCodes } = await enableMfa(user);
+
+            const response = await authService.verifyMfaChallenge(await loginForChallenge(user), recoveryCodes[0], CLIENT);
+
+            assertEquals(response.user.id, user.id);
+            assertEquals((await mfaService.getStatus(user.id)).recovery_codes_remaining, recoveryCodes.length - 1);
+            assertEquals(
+                await rejectionCode(authService.verifyMfaChallenge(await loginForChallenge(user), recoveryCodes[0], CLIENT)),
+                ErrorCodes.AUTH_MFA_CODE_INVALID
+            );
+        } finally {
+            backend.restore();
+        }
+    });
+
+    // *********
+    await t.step('>> 3. 动态码连续错误达到阈值后锁定账号，正确的动态码也被拒绝', async () => {
+        const user = createUser('mfa-lockout@example.com');
+        const backend = stubBackend(user);
+        try {
+            const { secret } = await enableMfa(user);
+            const challengeToken = await loginForChallenge(user);
+            const { maxAccountFailures } = config.auth.loginLockout;
+
+            for (let i = 0; i < maxAccountFailures; i++) {
+                assertEquals(
+                    await rejectionCode(authService.verifyMfaChallenge(challengeToken, '000000', CLIENT)),
+                    ErrorCodes.AUTH_MFA_CODE_INVALID
+                );
+            }
+
+            assertEquals(
+                await rejectionCode(authService.verifyMfaChallenge(challengeToken, await generateTotp(secret), CLIENT)),
+                ErrorCodes.AUTH_ACCOUNT_LOCKED
+            );
+            assertEquals(
+                backend.logs.filter((log) => log.failure_reason === ErrorCodes.AUTH_MFA_CODE_INVALID).length,
+                maxAccountFailures
+            );
+        } finally {
+            backend.restore();
+        }
+    });
+});
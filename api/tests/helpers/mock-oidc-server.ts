@@ -0,0 +1,236 @@
+/**
+ * 本地模拟 OIDC 身份提供方（发现文档、JWKS、授权、令牌和用户信息端点），用于在 Deno 测试中跑通授权码 + PKCE 流程
+ * tests/helpers/mock-oidc-server.ts
+ */
+
+import { toBase64Url } from '[@BASE]/lib/token.ts';
+
+/**
+ * 模拟身份提供方的用户
+ */
+export interface MockOidcUser {
+    sub: string;
+    email?: string;
+    email_verified?: boolean;
+    name?: string;
+}
+
+/**
+ * 启动选项
+ */
+interface MockOidcServerOptions {
+    clientId?: string;
+    clientSecret?: string;
+    /** 令牌端点声明支持的客户端认证方式，默认 client_secret_basic */
+    authMethod?: 'client_secret_basic' | 'client_secret_post';
+}
+
+/**
+ * 已签发、待兑换的授权码
+ */
+interface PendingCode {
+    clientId: string;
+    redirectUri: string;
+    codeChallenge: string;
+    nonce: string;
+    user: MockOidcUser;
+}
+
+export class MockOidcServer {
+    /** 下一次授权登录的用户 */
+    user: MockOidcUser = { sub: 'mock-user-1', email: 'oidc-user@example.com', email_verified: true, name: 'OIDC User' };
+
+    /** 下一次签发 ID Token 时覆盖的声明（用于构造异常令牌） */
+    idTokenOverrides: Record<string, unknown> = {};
+
+    private readonly codes = new Map<string, PendingCode>();
+    private readonly accessTokens = new Map<string, MockOidcUser>();
+    private server!: Deno.HttpServer<Deno.NetAddr>;
+    private signingKey!: { kid: string; keyPair: CryptoKeyPair };
+
+    private constructor(
+        readonly clientId: string,
+        readonly clientSecret: string,
+        private readonly authMethod: string
+    ) {}
+
+    /**
+     * 在随机端口启动模拟身份提供方
+     */
+    static async start(options: MockOidcServerOptions = {}): Promise<MockOidcServer> {
+        const mock = new MockOidcServer(
+            options.clientId ?? 'mock-client',
+            options.clientSecret ?? 'mock-secret',
+            options.authMethod ?? 'client_secret_basic'
+        );
+        await mock.rotateKey();
+        mock.server = Deno.serve(
+            { hostname: '127.0.0.1', port: 0, onListen: () => {} },
+            (request) => mock.handle(request)
+        );
+        return mock;
+    }
+
+    /** 签发者地址 */
+    get issuer(): string {
+        return `http://127.0.0.1:${this.server.addr.port}`;
+    }
+
+    /**
+     * 轮换签名密钥（新 kid，旧密钥从 JWKS 中移除）
+     */
+    async rotateKey(): Promise<void> {
+        const keyPair = await crypto.subtle.generateKey(
+            {
+                name: 'RSASSA-PKCS1-v1_5',
+                modulusLength: 2048,
+                publicExponent: new Uint8Array([1, 0, 1]),
+                hash: 'SHA-256',
+            },
+            true,
+            ['sign', 'verify']
+        );
+        this.signingKey = { kid: crypto.randomUUID(), keyPair };
+    }
+
+    /**
+     * 停止服务
+     */
+    async close(): Promise<void> {
+        await this.server.shutdown();
+    }
+
+    /**
+     * 路由分发
+     */
+    private async handle(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+        switch (url.pathname) {
+            case '/.well-known/openid-configuration':
+                return Response.json({
+                    issuer: this.issuer,
+                    authorization_endpoint: `${this.issuer}/authorize`,
+                    token_endpoint: `${this.issuer}/token`,
+                    jwks_uri: `${this.issuer}/jwks`,
+                    userinfo_endpoint: `${this.issuer}/userinfo`,
+                    response_types_supported: ['code'],
+                    code_challenge_methods_supported: ['S256'],
+                    id_token_signing_alg_values_supported: ['RS256'],
+                    token_endpoint_auth_methods_supported: [this.authMethod],
+                });
+            case '/jwks': {
+                const jwk = await crypto.subtle.exportKey('jwk', this.signingKey.keyPair.publicKey);
+                return Response.json({
+                    keys: [{ kty: jwk.kty, n: jwk.n, e: jwk.e, kid: this.signingKey.kid, use: 'sig', alg: 'RS256' }],
+                });
+            }
+            case '/authorize':
+                return this.authorize(url.searchParams);
+            case '/token':
+                return this.token(request);
+            case '/userinfo': {
+                const token = request.headers.get('Authorization')?.replace(/^Bearer /, '') ?? '';
+                const user = this.accessTokens.get(token);
+                return user ? Response.json(user) : Response.json({ error: 'invalid_token' }, { status: 401 });
+            }
+            default:
+                return new Response('Not Found', { status: 404 });
+        }
+    }
+
+    /**
+     * 授权端点：用户直接同意，重定向回 redirect_uri 并携带授权码
+     */
+    private authorize(params: URLSearchParams): Response {
+        if (
+            params.get('response_type') !== 'code' ||
+            params.get('client_id') !== this.clientId ||
+            params.get('code_challenge_method') !== 'S256'
+        ) {
+            return Response.json({ error: 'invalid_request' }, { status: 400 });
+        }
+
+        const code = crypto.randomUUID();
+        this.codes.set(code, {
+            clientId: this.clientId,
+            redirectUri: params.get('redirect_uri')!,
+            codeChallenge: params.get('code_challenge')!,
+            nonce: params.get('nonce')!,
+            user: this.user,
+        });
+
+        const redirect = new URL(params.get('redirect_uri')!);
+        redirect.searchParams.set('code', code);
+        redirect.searchParams.set('state', params.get('state')!);
+        return Response.redirect(redirect, 302);
+    }
+
+    /**
+     * 令牌端点：校验客户端认证、授权码、redirect_uri 和 PKCE，签发 RS256 ID Token
+     */
+    private async token(request: Request): Promise<Response> {
+        const body = new URLSearchParams(await request.text());
+        const error = (description: string, status = 400) =>
+            Response.json({ error: status === 401 ? 'invalid_client' : 'invalid_grant', error_description: description }, { status });
+
+        const basic = request.headers.get('Authorization')?.replace(/^Basic /, '');
+        const [clientId, clientSecret] = this.authMethod === 'client_secret_basic'
+            ? atob(basic ?? '').split(':').map(decodeURIComponent)
+            : [body.get('client_id'), body.get('client_secret')];
+        if (clientId !== this.clientId || clientSecret !== this.clientSecret) {
+            return error('Client authentication failed', 401);
+        }
+
+        const pending = this.codes.get(body.get('code') ?? '');
+        this.codes.delete(body.get('code') ?? '');
+        if (!pending || body.get('grant_type') !== 'authorization_code') {
+            return error('Authorization code is invalid');
+        }
+        if (body.get('redirect_uri') !== pending.redirectUri) {
+            return error('redirect_uri mismatch');
+        }
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body.get('code_verifier') ?? ''));
+        if (toBase64Url(new Uint8Array(digest)) !== pending.codeChallenge) {
+            return error('PKCE verification failed');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const accessToken = crypto.randomUUID();
+        this.accessTokens.set(accessToken, pending.user);
+
+        const { sub, email, email_verified, name } = pending.user;
+        const idToken = await this.sign({
+            iss: this.issuer,
+            sub,
+            aud: pending.clientId,
+            exp: now + 300,
+            iat: now,
+            nonce: pending.nonce,
+            email,
+            email_verified,
+            name,
+            ...this.idTokenOverrides,
+        });
+
+        return Response.json({
+            access_token: accessToken,
+            id_token: idToken,
+            token_type: 'Bearer',
+            expires_in: 300,
+        });
+    }
+
+    /**
+     * 使用当前签名密钥签发 JWT
+     */
+    private async sign(claims: Record<string, unknown>): Promise<string> {
+        const encode = (value: unknown) => toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+        const input = `${encode({ alg: 'RS256', typ: 'JWT', kid: this.signingKey.kid })}.${encode(claims)}`;
+        const signature = await crypto.subtle.sign(
+            'RSASSA-PKCS1-v1_5',
+            this.signingKey.keyPair.privateKey,
+            new TextEncoder().encode(input)
+        );
+        return `${input}.${toBase64Url(new Uint8Array(signature))}`;
+    }
+}
@@ -0,0 +1,240 @@
+/**
+ * 软件通行密钥认证器（ES256），用于在 Deno 测试中模拟浏览器和认证器生成注册、登录响应
+ * tests/helpers/soft-authenticator.ts
+ */
+
+import { fromBase64Url, toBase64Url } from '[@BASE]/lib/token.ts';
+import type {
+    AuthenticationResponseJSON,
+    RegistrationResponseJSON,
+} from '[@BASE]/lib/webauthn.ts';
+
+/**
+ * 认证器选项
+ */
+interface SoftAuthenticatorOptions {
+    /** 依赖方 ID */
+    rpId: string;
+    /** 页面来源 */
+    origin: string;
+}
+
+/**
+ * 单次仪式选项（用于构造异常响应）
+ */
+interface CeremonyOptions {
+    /** 覆盖 clientData 中的来源 */
+    origin?: string;
+    /** 覆盖签名计数 */
+    signCount?: number;
+    /** 是否设置用户验证标志，默认 true */
+    userVerified?: boolean;
+}
+
+export class SoftAuthenticator {
+    /** 认证器签名计数（每次登录递增） */
+    signCount = 0;
+
+    private constructor(
+        private readonly options: SoftAuthenticatorOptions,
+        private readonly keyPair: CryptoKeyPair,
+        readonly credentialId: Uint8Array
+    ) {}
+
+    /**
+     * 生成新的 ES256 密钥对和凭据 ID
+     */
+    static async create(options: SoftAuthenticatorOptions): Promise<SoftAuthenticator> {
+        const keyPair = await crypto.subtle.generateKey(
+            { name: 'ECDSA', namedCurve: 'P-256' },
+            true,
+            ['sign', 'verify']
+        );
+        return new SoftAuthenticator(options, keyPair, crypto.getRandomValues(new Uint8Array(32)));
+    }
+
+    /**
+     * 模拟 navigator.credentials.create
+     * 
+     * @param {string} challenge - 服务端返回的 base64url 挑战
+     * @param {'none' | 'packed'} [fmt='none'] - 证明格式（packed 为自证明）
+     */
+    async register(
+        challenge: string,
+        fmt: 'none' | 'packed' = 'none',
+        ceremony: CeremonyOptions = {}
+    ): Promise<RegistrationResponseJSON> {
+        const clientDataJSON = this.clientData('webauthn.create', challenge, ceremony);
+
+        const jwk = await crypto.subtle.exportKey('jwk', this.keyPair.publicKey);
+        const coseKey = new Map<number, unknown>([
+            [1, 2],
+            [3, -7],
+            [-1, 1],
+            [-2, fromBase64Url(jwk.x!)],
+            [-3, fromBase64Url(jwk.y!)],
+        ]);
+
+        const idLength = new Uint8Array(2);
+        new DataView(idLength.buffer).setUint16(0, this.credentialId.length);
+        const authData = concat(
+            await this.authDataHeader(0x40, ceremony),
+            new Uint8Array(16),
+            idLength,
+            this.credentialId,
+            encodeCbor(coseKey)
+        );
+
+        const attStmt = new Map<string, unknown>();
+        if (fmt === 'packed') {
+            attStmt.set('alg', -7);
+            attStmt.set('sig', await this.sign(authData, clientDataJSON));
+        }
+
+        return {
+            id: toBase64Url(this.credentialId),
+            rawId: toBase64Url(this.credentialId),
+            type: 'public-key',
+            response: {
+                clientDataJSON: toBase64Url(clientDataJSON),
+                attestationObject: toBase64Url(encodeCbor(new Map<string, unknown>([
+                    ['fmt', fmt],
+                    ['attStmt', attStmt],
+                    ['authData', authData],
+                ]))),
+                transports: ['internal'],
+            },
+        };
+    }
+
+    /**
+     * 模拟 navigator.credentials.get（签名计数自动递增）
+     * 
+     * @param {string} challenge - 服务端返回的 base64url 挑战
+     */
+    async authenticate(challenge: string, ceremony: CeremonyOptions = {}): Promise<AuthenticationResponseJSON> {
+        this.signCount++;
+        const clientDataJSON = this.clientData('webauthn.get', challenge, ceremony);
+        const authData = await this.authDataHeader(0, ceremony);
+
+        return {
+            id: toBase64Url(this.credentialId),
+            rawId: toBase64Url(this.credentialId),
+            type: 'public-key',
+            response: {
+                clientDataJSON: toBase64Url(clientDataJSON),
+                authenticatorData: toBase64Url(authData),
+                signature: toBase64Url(await this.sign(authData, clientDataJSON)),
+                userHandle: null,
+            },
+        };
+    }
+
+    /**
+     * 构造 clientDataJSON
+     */
+    private clientData(type: string, challenge: string, ceremony: CeremonyOptions): Uint8Array<ArrayBuffer> {
+        return new TextEncoder().encode(JSON.stringify({
+            type,
+            challenge,
+            origin: ceremony.origin ?? this.options.origin,
+            crossOrigin: false,
+        }));
+    }
+
+    /**
+     * 构造认证器数据头部：rpIdHash(32) + flags(1) + signCount(4)
+     */
+    private async authDataHeader(extraFlags: number, ceremony: CeremonyOptions): Promise<Uint8Array> {
+        const rpIdHash = new Uint8Array(
+            await crypto.subtle.digest('SHA-256', new TextEncoder().encode(this.options.rpId))
+        );
+        const flags = 0x01 | (ceremony.userVerified === false ? 0 : 0x04) | extraFlags;
+        const counter = new Uint8Array(4);
+        new DataView(counter.buffer).setUint32(0, ceremony.signCount ?? this.signCount);
+
+        return concat(rpIdHash, new Uint8Array([flags]), counter);
+    }
+
+    /**
+     * 对 authData || SHA-256(clientDataJSON) 签名，返回 DER 编码（与真实认证器一致）
+     */
+    private async sign(authData: Uint8Array, clientDataJSON: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+        const clientDataHash = new Uint8Array(await crypto.subtle.digest('SHA-256', clientDataJSON));
+        const raw = new Uint8Array(await crypto.subtle.sign(
+            { name: 'ECDSA', hash: 'SHA-256' },
+            this.keyPair.privateKey,
+            concat(authData, clientDataHash)
+        ));
+        return rawToDer(raw);
+    }
+}
+
+/**
+ * 编码 CBOR（仅支持测试用到的类型）
+ */
+export function encodeCbor(value: unknown): Uint8Array {
+    if (typeof value === 'number') {
+        return value >= 0 ? cborHeader(0, value) : cborHeader(1, -1 - value);
+    }
+    if (typeof value === 'string') {
+        const bytes = new TextEncoder().encode(value);
+        return concat(cborHeader(3, bytes.length), bytes);
+    }
+    if (value instanceof Uint8Array) {
+        return concat(cborHeader(2, value.length), value);
+    }
+    if (value instanceof Map) {
+        const parts = [cborHeader(5, value.size)];
+        for (const [key, item] of value) {
+            parts.push(encodeCbor(key), encodeCbor(item));
+        }
+        return concat(...parts);
+    }
+    throw new Error(`Unsupported CBOR value: ${value}`);
+}
+
+/**
+ * CBOR 数据项头部
+ */
+function cborHeader(major: number, length: number): Uint8Array {
+    if (length < 24) {
+        return new Uint8Array([(major << 5) | length]);
+    }
+    if (length < 0x100) {
+        return new Uint8Array([(major << 5) | 24, length]);
+    }
+    return new Uint8Array([(major << 5) | 25, length >> 8, length & 0xff]);
+}
+
+/**
+ * r || s 签名转换为 DER 编码
+ */
+function rawToDer(raw: Uint8Array): Uint8Array {
+    const integer = (bytes: Uint8Array) => {
+        let start = 0;
+        while (start < bytes.length - 1 && bytes[start] === 0) {
+            start++;
+        }
+        const trimmed = bytes.slice(start);
+        // 最高位为 1 时补 0x00，避免被解释为负数
+        const value = trimmed[0] & 0x80 ? concat(new Uint8Array([0]), trimmed) : trimmed;
+        return concat(new Uint8Array([0x02, value.length]), value);
+    };
+
+    const body = concat(integer(raw.slice(0, 32)), integer(raw.slice(32)));
+    return concat(new Uint8Array([0x30, body.length]), body);
+}
+
+/**
+ * 拼接字节数组
+ */
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
@@ -0,0 +1,50 @@
+/**
+ * 导出文件工具模块测试（CSV 和 ZIP，无需启动服务）
+ * tests/lib/archive.test.ts
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { crc32, createZip, toCsv } from '[@BASE]/lib/archive.ts';
+
+Deno.test('导出文件工具模块', async (t) => {
+    // *********
+    await t.step('>> 1. CSV 转义逗号、引号和换行，空值输出为空单元格', () => {
+        const csv = toCsv([
+            { id: 1, note: 'a,b', quote: 'say "hi"' },
+            { id: 2, note: 'line1\nline2', quote: null },
+        ]);
+
+        assertEquals(csv, 'id,note,quote\r\n1,"a,b","say ""hi"""\r\n2,"line1\nline2",');
+    });
+
+    // *********
+    await t.step('>> 2. CSV 指定列顺序，对象输出为 JSON，公式前缀被转义', () => {
+        const csv = toCsv([{ b: { x: 1 }, a: '=SUM(A1)' }], ['a', 'b']);
+
+        assertEquals(csv, 'a,b\r\n\'=SUM(A1),"{""x"":1}"');
+    });
+
+    // *********
+    await t.step('>> 3. CRC-32 与标准校验值一致', () => {
+        assertEquals(crc32(new TextEncoder().encode('123456789')), 0xCBF43926);
+    });
+
+    // *********
+    await t.step('>> 4. ZIP 包含本地文件头、中央目录和正确的文件数量', () => {
+        const zip = createZip([
+            { name: 'data.json', data: '{}' },
+            { name: '登录记录.csv', data: new Uint8Array([1, 2, 3]) },
+        ], new Date('2026-01-25T08:30:00Z'));
+        const view = new DataView(zip.buffer);
+        const nameLength = view.getUint16(26, true);
+
+        assertEquals(view.getUint32(0, true), 0x04034B50);
+        assertEquals(new TextDecoder().decode(zip.subarray(30, 30 + nameLength)), 'data.json');
+        assertEquals(view.getUint32(14, true), crc32(new TextEncoder().encode('{}')));
+
+        const end = zip.length - 22;
+        assertEquals(view.getUint32(end, true), 0x06054B50);
+        assertEquals(view.getUint16(end + 10, true), 2);
+        assertEquals(view.getUint32(view.getUint32(end + 16, true), true), 0x02014B50);
+    });
+});
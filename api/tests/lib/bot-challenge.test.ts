@@ -0,0 +1,56 @@
+/**
+ * 人机验证模块测试（工作量证明挑战的签发、求解和校验，无需启动服务）
+ * tests/lib/bot-challenge.test.ts
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { hasLeadingZeroBits, ProofOfWorkProvider, solveProofOfWork } from '[@BASE]/lib/bot-challenge.ts';
+import { MemoryRateLimitStore } from '[@BASE]/lib/rate-limit.ts';
+
+const SECRET = 'test-secret-key-at-least-32-characters';
+
+function createProvider(difficulty = 8) {
+    return new ProofOfWorkProvider({ secret: SECRET, difficulty, expiresIn: 60, store: new MemoryRateLimitStore() });
+}
+
+Deno.test('人机验证模块', async (t) => {
+    // *********
+    await t.step('>> 1. 前导零比特数判断', async () => {
+        assertEquals(await hasLeadingZeroBits('anything', 0), true);
+
+        const nonce = await solveProofOfWork('prefix', 12);
+        assertEquals(await hasLeadingZeroBits(`prefix:${nonce}`, 12), true);
+        assertEquals(await hasLeadingZeroBits(`prefix:${Number(nonce) + 1}`, 12), false);
+    });
+
+    // *********
+    await t.step('>> 2. 求解后的挑战可以通过校验，且只能使用一次', async () => {
+        const provider = createProvider();
+        const challenge = await provider.issue();
+        const nonce = await solveProofOfWork(challenge.token!, challenge.difficulty!);
+
+        assertEquals(challenge.type, 'pow');
+        assertEquals(await provider.verify({ token: challenge.token!, nonce }), true);
+        assertEquals(await provider.verify({ token: challenge.token!, nonce }), false);
+    });
+
+    // *********
+    await t.step('>> 3. 缺少或错误的 nonce、伪造的令牌校验失败', async () => {
+        const provider = createProvider(16);
+        const challenge = await provider.issue();
+        const nonce = await solveProofOfWork(challenge.token!, 16);
+
+        assertEquals(await provider.verify({ token: challenge.token! }), false);
+        assertEquals(await provider.verify({ token: challenge.token!, nonce: 'abc' }), false);
+        assertEquals(await provider.verify({ token: `x${challenge.token!}`, nonce }), false);
+    });
+
+    // *********
+    await t.step('>> 4. 低难度签发的挑战不能用于高难度校验', async () => {
+        const easy = createProvider(8);
+        const challenge = await easy.issue();
+        const nonce = await solveProofOfWork(challenge.token!, 8);
+
+        assertEquals(await createProvider(16).verify({ token: challenge.token!, nonce }), false);
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * JWT 签名密钥模块测试（签名验证、轮换和 JWKS，无需启动服务）
+ * tests/lib/jwt-keys.test.ts
+ */
+
+import { assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import {
+    generateJwtKey,
+    importJwtKeys,
+    parseJwtKeys,
+    rotateJwtKeys,
+    selectSigningKey,
+    signJwt,
+    toJwks,
+    verifyJwt,
+} from '[@BASE]/lib/jwt-keys.ts';
+
+const exp = () => Math.floor(Date.now() / 1000) + 60;
+
+Deno.test('JWT 签名密钥模块', async (t) => {
+    // *********
+    await t.step('>> 1. ES256 和 EdDSA 签名的 token 头部包含 kid，可以通过验证', async () => {
+        for (const alg of ['ES256', 'EdDSA'] as const) {
+            const keys = await importJwtKeys([await generateJwtKey(alg)]);
+            const token = await signJwt({ sub: 'user-1', exp: exp() }, keys[0]);
+            const header = JSON.parse(atob(token.split('.')[0].replace(/-/g, '+').replace(/_/g, '/')));
+
+            assertEquals(header, { alg, typ: 'JWT', kid: keys[0].kid });
+            assertEquals((await verifyJwt(token, keys)).sub, 'user-1');
+        }
+    });
+
+    // *********
+    await t.step('>> 2. 未知 kid、篡改载荷和过期 token 验证失败', async () => {
+        const [key] = await importJwtKeys([await generateJwtKey('ES256')]);
+        const [other] = await importJwtKeys([await generateJwtKey('ES256')]);
+        const token = await signJwt({ sub: 'user-1', exp: exp() }, key);
+        const [header, , signature] = token.split('.');
+        const forged = `${header}.${btoa(JSON.stringify({ sub: 'admin', exp: exp() })).replace(/=+$/, '')}.${signature}`;
+
+        const expired = await signJwt({ sub: 'user-1', exp: 1 }, key);
+
+        await assertRejects(() => verifyJwt(token, [other]));
+        await assertRejects(() => verifyJwt(forged, [key]));
+        await assertRejects(() => verifyJwt(expired, [key]));
+    });
+
+    // *********
+    await t.step('>> 3. 轮换后新密钥签名，旧密钥在宽限期内仍可验证，过期后被移除', async () => {
+        const now = new Date();
+        const oldKey = await generateJwtKey('ES256', new Date(now.getTime() - 60_000));
+        const newKey = await generateJwtKey('EdDSA', now);
+        const rotated = rotateJwtKeys([oldKey], newKey, 3600, now);
+
+        assertEquals(rotated.map((key) => key.kid), [oldKey.kid, newKey.kid]);
+        assertEquals(rotated[0].verifyUntil, new Date(now.getTime() + 3600_000).toISOString());
+
+        const keys = await importJwtKeys(parseJwtKeys(JSON.stringify(rotated)));
+        assertEquals(selectSigningKey(keys, now)?.kid, newKey.kid);
+
+        const oldToken = await signJwt({ sub: 'user-1', exp: exp() }, keys[0]);
+        assertEquals((await verifyJwt(oldToken, keys, now)).sub, 'user-1');
+        await assertRejects(() => verifyJwt(oldToken, keys, new Date(now.getTime() + 3600_000)));
+
+        const later = await generateJwtKey('ES256');
+        const next = rotateJwtKeys(rotated, later, 3600, new Date(now.getTime() + 7200_000));
+        assertEquals(next.map((key) => key.kid), [newKey.kid, later.kid]);
+    });
+
+    // *********
+    await t.step('>> 4. 延迟生效的新密钥先出现在 JWKS 中，生效前不用于签名', async () => {
+        const now = new Date();
+        const current = await generateJwtKey('ES256', new Date(now.getTime() - 60_000));
+        const pending = await generateJwtKey('ES256', new Date(now.getTime() + 600_000));
+        const keys = await importJwtKeys(rotateJwtKeys([current], pending, 3600, now));
+
+        assertEquals(selectSigningKey(keys, now)?.kid, current.kid);
+        assertEquals(toJwks(keys, now).keys.map((key) => key.kid), [current.kid, pending.kid]);
+    });
+
+    // *********
+    await t.step('>> 5. JWKS 只包含公钥参数', async () => {
+        const keys = await importJwtKeys([await generateJwtKey('ES256'), await generateJwtKey('EdDSA')]);
+        const [ec, ed] = toJwks(keys).keys;
+
+        assertEquals(Object.keys(ec).sort(), ['alg', 'crv', 'kid', 'kty', 'use', 'x', 'y']);
+        assertEquals(Object.keys(ed).sort(), ['alg', 'crv', 'kid', 'kty', 'use', 'x']);
+        assertEquals(ed.crv, 'Ed25519');
+    });
+
+    // *********
+    await t.step('>> 6. 解析时拒绝缺少私钥、不支持的算法和重复的 kid', async () => {
+        const key = await generateJwtKey('ES256');
+        const { d: _d, ...publicOnly } = key.privateJwk;
+
+        assertEquals(parseJwtKeys(JSON.stringify([key]))[0].kid, key.kid);
+        assertThrows(() => parseJwtKeys(JSON.stringify([{ ...key, privateJwk: publicOnly }])));
+        assertThrows(() => parseJwtKeys(JSON.stringify([{ ...key, alg: 'HS256' }])));
+        assertThrows(() => parseJwtKeys(JSON.stringify([key, key])));
+        assertThrows(() => parseJwtKeys('{}'));
+    });
+});
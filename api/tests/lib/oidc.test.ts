@@ -0,0 +1,186 @@
+/**
+ * OIDC 客户端工具模块测试（使用本地模拟身份提供方，无需启动服务）
+ * tests/lib/oidc.test.ts
+ */
+
+import {
+    assert,
+    assertEquals,
+    assertRejects,
+} from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { generateRandomToken } from '[@BASE]/lib/token.ts';
+import {
+    buildAuthorizationUrl,
+    createPkcePair,
+    discover,
+    exchangeCode,
+    fetchUserInfo,
+    verifyIdToken,
+} from '[@BASE]/lib/oidc.ts';
+import type { DiscoveryDocument, OidcClient } from '[@BASE]/lib/oidc.ts';
+import { MockOidcServer } from '[@BASE-tests]/helpers/mock-oidc-server.ts';
+
+const REDIRECT_URI = 'http://localhost:3000/auth/oauth/mock/callback';
+
+/**
+ * 模拟浏览器完成授权：跳转到授权地址，从回调地址中读取授权码
+ */
+async function authorize(server: MockOidcServer) {
+    const discovery = await discover(server.issuer);
+    const { codeVerifier, codeChallenge } = await createPkcePair();
+    const state = generateRandomToken();
+    const nonce = generateRandomToken();
+
+    const response = await fetch(buildAuthorizationUrl(discovery, {
+        clientId: server.clientId,
+        redirectUri: REDIRECT_URI,
+        scopes: ['openid', 'email', 'profile'],
+        state,
+        nonce,
+        codeChallenge,
+    }), { redirect: 'manual' });
+    await response.body?.cancel();
+
+    const callback = new URL(response.headers.get('Location')!);
+    assertEquals(callback.origin + callback.pathname, REDIRECT_URI);
+    assertEquals(callback.searchParams.get('state'), state);
+
+    return { discovery, code: callback.searchParams.get('code')!, codeVerifier, nonce };
+}
+
+/**
+ * 模拟身份提供方对应的客户端信息
+ */
+function clientOf(server: MockOidcServer): OidcClient {
+    return { clientId: server.clientId, clientSecret: server.clientSecret, redirectUri: REDIRECT_URI };
+}
+
+Deno.test('OIDC 客户端工具模块', async (t) => {
+    const server = await MockOidcServer.start();
+    let discovery: DiscoveryDocument;
+
+    try {
+        // *********
+        await t.step('>> 1. 读取发现文档，签发者不一致时拒绝', async () => {
+            discovery = await discover(server.issuer);
+
+            assertEquals(discovery.issuer, server.issuer);
+            assertEquals(discovery.token_endpoint, `${server.issuer}/token`);
+            await assertRejects(
+                () => discover(`${server.issuer}/`),
+                Error,
+                'Discovery issuer mismatch'
+            );
+        });
+
+        // *********
+        await t.step('>> 2. 授权码 + PKCE 换取令牌并校验 ID Token', async () => {
+            const { code, codeVerifier, nonce } = await authorize(server);
+
+            const tokens = await exchangeCode(discovery, clientOf(server), code, codeVerifier);
+            const claims = await verifyIdToken(discovery, tokens.id_token, { clientId: server.clientId, nonce });
+
+            assertEquals(claims.sub, 'mock-user-1');
+            assertEquals(claims.email, 'oidc-user@example.com');
+            assertEquals(claims.email_verified, true);
+
+            const userInfo = await fetchUserInfo(discovery, tokens.access_token);
+            assertEquals(userInfo.sub, claims.sub);
+        });
+
+        // *********
+        await t.step('>> 3. code_verifier 不匹配或授权码重复使用时拒绝', async () => {
+            const { code, codeVerifier } = await authorize(server);
+            const other = await createPkcePair();
+
+            await assertRejects(
+                () => exchangeCode(discovery, clientOf(server), code, other.codeVerifier),
+                Error,
+                'PKCE verification failed'
+            );
+            await assertRejects(
+                () => exchangeCode(discovery, clientOf(server), code, codeVerifier),
+                Error,
+                'Authorization code is invalid'
+            );
+        });
+
+        // *********
+        await t.step('>> 4. nonce 或受众不匹配时拒绝', async () => {
+            const { code, codeVerifier, nonce } = await authorize(server);
+            const tokens = await exchangeCode(discovery, clientOf(server), code, codeVerifier);
+
+            await assertRejects(
+                () => verifyIdToken(discovery, tokens.id_token, { clientId: server.clientId, nonce: 'other' }),
+                Error,
+                'ID token nonce mismatch'
+            );
+            await assertRejects(
+                () => verifyIdToken(discovery, tokens.id_token, { clientId: 'other-client', nonce }),
+                Error,
+                'ID token audience mismatch'
+            );
+        });
+
+        // *********
+        await t.step('>> 5. 签名被篡改或令牌已过期时拒绝', async () => {
+            const { code, codeVerifier, nonce } = await authorize(server);
+            const tokens = await exchangeCode(discovery, clientOf(server), code, codeVerifier);
+            const [header, payload, signature] = tokens.id_token.split('.');
+            const forged = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+            forged.sub = 'someone-else';
+            const forgedPayload = btoa(JSON.stringify(forged)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+            await assertRejects(
+                () => verifyIdToken(discovery, `${header}.${forgedPayload}.${signature}`, {
+                    clientId: server.clientId,
+                    nonce,
+                }),
+                Error,
+                'ID token signature verification failed'
+            );
+
+            server.idTokenOverrides = { exp: Math.floor(Date.now() / 1000) - 120 };
+            try {
+                const expired = await authorize(server);
+                const expiredTokens = await exchangeCode(discovery, clientOf(server), expired.code, expired.codeVerifier);
+                await assertRejects(
+                    () => verifyIdToken(discovery, expiredTokens.id_token, {
+                        clientId: server.clientId,
+                        nonce: expired.nonce,
+                    }),
+                    Error,
+                    'ID token has expired'
+                );
+            } finally {
+                server.idTokenOverrides = {};
+            }
+        });
+
+        // *********
+        await t.step('>> 6. 身份提供方轮换签名密钥后重新拉取 JWKS', async () => {
+            await server.rotateKey();
+            const { code, codeVerifier, nonce } = await authorize(server);
+            const tokens = await exchangeCode(discovery, clientOf(server), code, codeVerifier);
+
+            const claims = await verifyIdToken(discovery, tokens.id_token, { clientId: server.clientId, nonce });
+            assert(claims.sub);
+        });
+    } finally {
+        await server.close();
+    }
+});
+
+Deno.test('OIDC 客户端工具模块：client_secret_post 客户端认证', async () => {
+    const server = await MockOidcServer.start({ authMethod: 'client_secret_post' });
+
+    try {
+        const { discovery, code, codeVerifier, nonce } = await authorize(server);
+        const tokens = await exchangeCode(discovery, clientOf(server), code, codeVerifier);
+        const claims = await verifyIdToken(discovery, tokens.id_token, { clientId: server.clientId, nonce });
+
+        assertEquals(claims.aud, server.clientId);
+    } finally {
+        await server.close();
+    }
+});
@@ -0,0 +1,31 @@
+/**
+ * 角色权限模块测试（无需启动服务）
+ * tests/lib/permissions.test.ts
+ */
+
+import { assert, assertFalse } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { hasPermission, isUserRole } from '[@BASE]/lib/permissions.ts';
+import { Permission, UserRole } from '[@BASE]/types/auth.types.ts';
+
+Deno.test('角色权限模块', async (t) => {
+    // *********
+    await t.step('>> 1. 管理员拥有全部权限', () => {
+        for (const permission of Object.values(Permission)) {
+            assert(hasPermission(UserRole.ADMIN, permission));
+        }
+    });
+
+    // *********
+    await t.step('>> 2. 普通用户不拥有管理权限', () => {
+        assertFalse(hasPermission(UserRole.USER, Permission.USER_UNLOCK));
+        assertFalse(hasPermission(UserRole.USER, Permission.USER_ROLE_UPDATE));
+    });
+
+    // *********
+    await t.step('>> 3. 缺少角色或未知角色不拥有任何权限', () => {
+        assertFalse(hasPermission(undefined, Permission.USER_UNLOCK));
+        assertFalse(hasPermission('superuser', Permission.USER_UNLOCK));
+        assertFalse(isUserRole('superuser'));
+        assert(isUserRole('admin'));
+    });
+});
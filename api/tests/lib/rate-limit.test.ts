@@ -0,0 +1,71 @@
+/**
+ * 限流算法模块测试（固定窗口、滑动窗口和进程内存存储，无需启动服务）
+ * tests/lib/rate-limit.test.ts
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { consumeRateLimit, MemoryRateLimitStore } from '[@BASE]/lib/rate-limit.ts';
+
+/** 时间窗口起点（60 秒的整数倍，毫秒） */
+const WINDOW_START = 1_769_328_000_000;
+
+Deno.test('限流算法模块', async (t) => {
+    // *********
+    await t.step('>> 1. 固定窗口：超过上限后拒绝，下一个窗口恢复额度', async () => {
+        const store = new MemoryRateLimitStore();
+        const rule = { window: 60, max: 2, algorithm: 'fixed' as const };
+
+        const first = await consumeRateLimit(store, 'k', rule, WINDOW_START + 10_000);
+        const second = await consumeRateLimit(store, 'k', rule, WINDOW_START + 20_000);
+        const third = await consumeRateLimit(store, 'k', rule, WINDOW_START + 30_000);
+        const next = await consumeRateLimit(store, 'k', rule, WINDOW_START + 60_000);
+
+        assertEquals([first.allowed, first.remaining, first.reset], [true, 1, 50]);
+        assertEquals([second.allowed, second.remaining], [true, 0]);
+        assertEquals([third.allowed, third.remaining, third.reset], [false, 0, 30]);
+        assertEquals([next.allowed, next.remaining], [true, 1]);
+    });
+
+    // *********
+    await t.step('>> 2. 滑动窗口：上一个窗口的计数按剩余比例计入，没有窗口边界突发', async () => {
+        const store = new MemoryRateLimitStore();
+        const rule = { window: 60, max: 4 };
+
+        for (let i = 0; i < 4; i++) {
+            assertEquals((await consumeRateLimit(store, 'k', rule, WINDOW_START + 50_000)).allowed, true);
+        }
+
+        // 下一个窗口开始 15 秒：上一个窗口计 floor(4 × 0.75) = 3 次，只剩 1 次额度
+        const first = await consumeRateLimit(store, 'k', rule, WINDOW_START + 75_000);
+        const second = await consumeRateLimit(store, 'k', rule, WINDOW_START + 75_000);
+        assertEquals([first.allowed, first.remaining], [true, 0]);
+        assertEquals(second.allowed, false);
+
+        // 当前窗口已有 2 次：上一个窗口的加权计数降到 2 以下（剩余比例 < 0.5）即可恢复
+        assertEquals(second.reset, 15);
+        assertEquals((await consumeRateLimit(store, 'k', rule, WINDOW_START + 91_000)).allowed, true);
+    });
+
+    // *********
+    await t.step('>> 3. 不同的键分别计数', async () => {
+        const store = new MemoryRateLimitStore();
+        const rule = { window: 60, max: 1 };
+
+        assertEquals((await consumeRateLimit(store, 'a', rule, WINDOW_START)).allowed, true);
+        assertEquals((await consumeRateLimit(store, 'b', rule, WINDOW_START)).allowed, true);
+        assertEquals((await consumeRateLimit(store, 'a', rule, WINDOW_START)).allowed, false);
+    });
+
+    // *********
+    await t.step('>> 4. 内存存储：计数在过期后从 1 重新开始', async () => {
+        const store = new MemoryRateLimitStore();
+
+        assertEquals(await store.incr('k', 20), 1);
+        assertEquals(await store.incr('k', 20), 2);
+        assertEquals(await store.get('k'), 2);
+
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        assertEquals(await store.get('k'), 0);
+        assertEquals(await store.incr('k', 20), 1);
+    });
+});
@@ -0,0 +1,47 @@
+/**
+ * 令牌工具模块测试（带签名的短期令牌，无需启动服务）
+ * tests/lib/token.test.ts
+ */
+
+import { assert, assertEquals, assertFalse } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { createSignedToken, verifySignedToken } from '[@BASE]/lib/token.ts';
+
+const SECRET = 'test-secret-at-least-32-characters-long';
+
+Deno.test('令牌工具模块：带签名的短期令牌', async (t) => {
+    const expiresAt = new Date(Date.now() + 60 * 1000);
+
+    // *********
+    await t.step('>> 1. 签名有效且未过期时通过校验', async () => {
+        const token = await createSignedToken('magic_link', SECRET, expiresAt);
+
+        assertEquals(token.split('.').length, 3);
+        assert(await verifySignedToken('magic_link', SECRET, token));
+    });
+
+    // *********
+    await t.step('>> 2. 篡改随机值或过期时间时拒绝', async () => {
+        const token = await createSignedToken('magic_link', SECRET, expiresAt);
+        const [random, exp, signature] = token.split('.');
+
+        assertFalse(await verifySignedToken('magic_link', SECRET, `${random}x.${exp}.${signature}`));
+        assertFalse(await verifySignedToken('magic_link', SECRET, `${random}.${Number(exp) + 3600}.${signature}`));
+        assertFalse(await verifySignedToken('magic_link', SECRET, `${random}.${exp}`));
+        assertFalse(await verifySignedToken('magic_link', SECRET, `${random}.${exp}.%%%`));
+    });
+
+    // *********
+    await t.step('>> 3. 用途或密钥不同时拒绝', async () => {
+        const token = await createSignedToken('magic_link', SECRET, expiresAt);
+
+        assertFalse(await verifySignedToken('other', SECRET, token));
+        assertFalse(await verifySignedToken('magic_link', `${SECRET}-other`, token));
+    });
+
+    // *********
+    await t.step('>> 4. 已过期时拒绝', async () => {
+        const token = await createSignedToken('magic_link', SECRET, new Date(Date.now() - 1000));
+
+        assertFalse(await verifySignedToken('magic_link', SECRET, token));
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * TOTP 工具模块测试（RFC 6238 附录 B 测试向量，无需启动服务）
+ * tests/lib/totp.test.ts
+ */
+
+import {
+    assertEquals,
+    assertMatch,
+} from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import {
+    buildOtpauthUri,
+    decodeBase32,
+    encodeBase32,
+    generateTotp,
+    generateTotpSecret,
+    verifyTotp,
+} from '[@BASE]/lib/totp.ts';
+
+// RFC 6238 SHA-1 测试密钥 '12345678901234567890'
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+Deno.test('TOTP 工具模块', async (t) => {
+    // *********
+    await t.step('>> 1. Base32 编解码', () => {
+        assertEquals(encodeBase32(new TextEncoder().encode('12345678901234567890')), SECRET);
+        assertEquals(new TextDecoder().decode(decodeBase32(SECRET.toLowerCase())), '12345678901234567890');
+    });
+
+    // *********
+    await t.step('>> 2. RFC 6238 测试向量（8 位）', async () => {
+        const vectors: [number, string][] = [
+            [59, '94287082'],
+            [1111111109, '07081804'],
+            [1111111111, '14050471'],
+            [1234567890, '89005924'],
+            [2000000000, '69279037'],
+            [20000000000, '65353130'],
+        ];
+
+        for (const [seconds, expected] of vectors) {
+            assertEquals(await generateTotp(SECRET, { timestamp: seconds * 1000, digits: 8 }), expected);
+        }
+    });
+
+    // *********
+    await t.step('>> 3. 校验动态码并返回时间步', async () => {
+        // 59 秒处于第 1 个时间步，6 位动态码为 8 位结果的后 6 位
+        assertEquals(await verifyTotp(SECRET, '287082', { timestamp: 59_000 }), 1);
+        // 允许前后各 1 个时间步的时钟误差
+        assertEquals(await verifyTotp(SECRET, '287082', { timestamp: 89_000 }), 1);
+        assertEquals(await verifyTotp(SECRET, '287082', { timestamp: 119_000 }), null);
+        assertEquals(await verifyTotp(SECRET, 'abcdef', { timestamp: 59_000 }), null);
+    });
+
+    // *********
+    await t.step('>> 4. 生成密钥和 otpauth URI', () => {
+        const secret = generateTotpSecret();
+        assertMatch(secret, /^[A-Z2-7]{32}$/);
+
+        assertEquals(
+            buildOtpauthUri({ secret: SECRET, accountName: 'user@example.com', issuer: 'My Project' }),
+            `otpauth://totp/My%20Project:user%40example.com?secret=${SECRET}&issuer=My%20Project&algorithm=SHA1&digits=6&period=30`
+        );
+    });
+});
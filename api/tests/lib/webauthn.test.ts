@@ -0,0 +1,143 @@
+/**
+ * WebAuthn 工具模块测试（使用软件认证器，无需启动服务）
+ * tests/lib/webauthn.test.ts
+ */
+
+import {
+    assertEquals,
+    assertRejects,
+} from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { generateRandomToken, toBase64Url } from '[@BASE]/lib/token.ts';
+import {
+    CoseAlgorithm,
+    verifyAuthenticationResponse,
+    verifyRegistrationResponse,
+} from '[@BASE]/lib/webauthn.ts';
+import type { ExpectedCeremony, VerifiedRegistration } from '[@BASE]/lib/webauthn.ts';
+import { SoftAuthenticator } from '[@BASE-tests]/helpers/soft-authenticator.ts';
+
+const RP_ID = 'localhost';
+const ORIGIN = 'http://localhost:3000';
+
+/**
+ * 生成一次仪式的预期值
+ */
+function expectCeremony(): ExpectedCeremony {
+    return { challenge: generateRandomToken(), origins: [ORIGIN], rpId: RP_ID };
+}
+
+Deno.test('WebAuthn 工具模块', async (t) => {
+    const authenticator = await SoftAuthenticator.create({ rpId: RP_ID, origin: ORIGIN });
+    let credential: VerifiedRegistration;
+
+    // *********
+    await t.step('>> 1. 注册：none 证明格式', async () => {
+        const expected = expectCeremony();
+        const response = await authenticator.register(expected.challenge);
+
+        credential = await verifyRegistrationResponse(response, expected);
+
+        assertEquals(credential.credentialId, toBase64Url(authenticator.credentialId));
+        assertEquals(credential.algorithm, CoseAlgorithm.ES256);
+        assertEquals(credential.signCount, 0);
+        assertEquals(credential.transports, ['internal']);
+    });
+
+    // *********
+    await t.step('>> 2. 注册：packed 自证明格式', async () => {
+        const expected = expectCeremony();
+        const response = await authenticator.register(expected.challenge, 'packed');
+
+        const verified = await verifyRegistrationResponse(response, expected);
+        assertEquals(verified.publicKey, credential.publicKey);
+    });
+
+    // *********
+    await t.step('>> 3. 注册：挑战、来源或用户验证不匹配时拒绝', async () => {
+        const expected = expectCeremony();
+
+        await assertRejects(
+            async () => verifyRegistrationResponse(await authenticator.register(generateRandomToken()), expected),
+            Error,
+            'Challenge mismatch'
+        );
+        await assertRejects(
+            async () => verifyRegistrationResponse(
+                await authenticator.register(expected.challenge, 'none', { origin: 'https://evil.example' }),
+                expected
+            ),
+            Error,
+            'Unexpected origin'
+        );
+        await assertRejects(
+            async () => verifyRegistrationResponse(
+                await authenticator.register(expected.challenge, 'none', { userVerified: false }),
+                expected
+            ),
+            Error,
+            'User verification flag is not set'
+        );
+    });
+
+    // *********
+    await t.step('>> 4. 登录：校验签名并返回递增的签名计数', async () => {
+        for (const count of [1, 2]) {
+            const expected = expectCeremony();
+            const response = await authenticator.authenticate(expected.challenge);
+
+            const verified = await verifyAuthenticationResponse(response, expected, {
+                publicKey: credential.publicKey,
+                signCount: count - 1,
+            });
+            assertEquals(verified.signCount, count);
+        }
+    });
+
+    // *********
+    await t.step('>> 5. 登录：签名被篡改时拒绝', async () => {
+        const expected = expectCeremony();
+        const response = await authenticator.authenticate(expected.challenge);
+        // 用另一次挑战的签名替换
+        const other = await authenticator.authenticate(generateRandomToken());
+        response.response.signature = other.response.signature;
+
+        await assertRejects(
+            () => verifyAuthenticationResponse(response, expected, {
+                publicKey: credential.publicKey,
+                signCount: 0,
+            }),
+            Error,
+            'Assertion signature verification failed'
+        );
+    });
+
+    // *********
+    await t.step('>> 6. 登录：签名计数回退时拒绝（疑似认证器被克隆）', async () => {
+        const expected = expectCeremony();
+        const response = await authenticator.authenticate(expected.challenge, { signCount: 3 });
+
+        await assertRejects(
+            () => verifyAuthenticationResponse(response, expected, {
+                publicKey: credential.publicKey,
+                signCount: 5,
+            }),
+            Error,
+            'Signature counter did not increase'
+        );
+    });
+
+    // *********
+    await t.step('>> 7. 登录：依赖方不匹配时拒绝', async () => {
+        const expected = expectCeremony();
+        const response = await authenticator.authenticate(expected.challenge);
+
+        await assertRejects(
+            () => verifyAuthenticationResponse(response, { ...expected, rpId: 'example.com' }, {
+                publicKey: credential.publicKey,
+                signCount: 0,
+            }),
+            Error,
+            'RP ID hash mismatch'
+        );
+    });
+});
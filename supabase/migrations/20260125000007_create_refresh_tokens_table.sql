@@ -0,0 +1,61 @@
+/**
+ * @file 20260125000007_create_refresh_tokens_table.sql
+ * @description 创建刷新令牌表（Refresh Token 轮换）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 创建刷新令牌表
+-- 说明：
+-- 1. 数据库只保存令牌的 SHA-256 哈希，不保存明文
+-- 2. 每次登录生成一个新的令牌家族（family_id），每次刷新在同一家族内轮换
+-- 3. 已被轮换（revoked_at 不为空）的令牌再次出现视为重放，整族吊销
+CREATE TABLE IF NOT EXISTS public.refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL UNIQUE,
+    family_id UUID NOT NULL,
+    parent_id UUID REFERENCES public.refresh_tokens(id) ON DELETE SET NULL,
+    replaced_by UUID REFERENCES public.refresh_tokens(id) ON DELETE SET NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    revoked_reason TEXT CHECK (revoked_reason IN ('rotated', 'reuse_detected', 'logout', 'admin')),
+    ip_address INET,
+    user_agent TEXT,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON public.refresh_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON public.refresh_tokens(family_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_expires_at ON public.refresh_tokens(expires_at);
+
+-- 启用 RLS（仅服务端使用 Service Role Key 访问，不创建任何策略）
+ALTER TABLE public.refresh_tokens ENABLE ROW LEVEL SECURITY;
+
+-- 清理过期刷新令牌的函数
+CREATE OR REPLACE FUNCTION public.cleanup_expired_refresh_tokens()
+RETURNS void AS $$
+BEGIN
+    -- 删除已过期7天以上的刷新令牌记录
+    DELETE FROM public.refresh_tokens
+    WHERE expires_at < now() - INTERVAL '7 days';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.cleanup_expired_refresh_tokens() IS '清理过期刷新令牌（删除7天前过期的令牌）';
+
+-- 添加表注释
+COMMENT ON TABLE public.refresh_tokens IS '刷新令牌表';
+COMMENT ON COLUMN public.refresh_tokens.id IS '令牌ID（UUID）';
+COMMENT ON COLUMN public.refresh_tokens.user_id IS '所属用户ID';
+COMMENT ON COLUMN public.refresh_tokens.token_hash IS '令牌哈希值（SHA-256）';
+COMMENT ON COLUMN public.refresh_tokens.family_id IS '令牌家族ID（同一次登录轮换出的令牌共享）';
+COMMENT ON COLUMN public.refresh_tokens.parent_id IS '上一个令牌ID（由哪个令牌轮换而来）';
+COMMENT ON COLUMN public.refresh_tokens.replaced_by IS '替换它的新令牌ID';
+COMMENT ON COLUMN public.refresh_tokens.expires_at IS '过期时间';
+COMMENT ON COLUMN public.refresh_tokens.revoked_at IS '吊销时间';
+COMMENT ON COLUMN public.refresh_tokens.revoked_reason IS '吊销原因：rotated-已轮换, reuse_detected-检测到重放, logout-退出登录, admin-管理员操作';
+COMMENT ON COLUMN public.refresh_tokens.ip_address IS 'IP地址';
+COMMENT ON COLUMN public.refresh_tokens.user_agent IS '用户代理';
+COMMENT ON COLUMN public.refresh_tokens.created_at IS '创建时间';
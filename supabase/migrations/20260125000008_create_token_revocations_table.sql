@@ -0,0 +1,57 @@
+/**
+ * @file 20260125000008_create_token_revocations_table.sql
+ * @description 创建访问令牌吊销表（服务端退出登录）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 创建已吊销访问令牌表
+-- 说明：按 JWT 的 jti 吊销单个访问令牌，令牌自然过期后记录即可清理
+CREATE TABLE IF NOT EXISTS public.revoked_tokens (
+    jti UUID PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (reason IN ('logout', 'admin')),
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 创建用户级令牌吊销表
+-- 说明：“退出所有设备”时记录时间点，签发时间早于该时间点的访问令牌全部失效
+CREATE TABLE IF NOT EXISTS public.user_token_revocations (
+    user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+    revoked_before TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_revoked_tokens_user_id ON public.revoked_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_revoked_tokens_expires_at ON public.revoked_tokens(expires_at);
+
+-- 启用 RLS（仅服务端使用 Service Role Key 访问，不创建任何策略）
+ALTER TABLE public.revoked_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_token_revocations ENABLE ROW LEVEL SECURITY;
+
+-- 清理已过期吊销记录的函数
+CREATE OR REPLACE FUNCTION public.cleanup_expired_revoked_tokens()
+RETURNS void AS $$
+BEGIN
+    -- 令牌本身已过期，吊销记录不再需要
+    DELETE FROM public.revoked_tokens
+    WHERE expires_at < now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.cleanup_expired_revoked_tokens() IS '清理已过期的访问令牌吊销记录';
+
+-- 添加表注释
+COMMENT ON TABLE public.revoked_tokens IS '已吊销访问令牌表';
+COMMENT ON COLUMN public.revoked_tokens.jti IS '令牌唯一标识（JWT jti）';
+COMMENT ON COLUMN public.revoked_tokens.user_id IS '所属用户ID';
+COMMENT ON COLUMN public.revoked_tokens.reason IS '吊销原因：logout-退出登录, admin-管理员操作';
+COMMENT ON COLUMN public.revoked_tokens.expires_at IS '令牌原过期时间';
+COMMENT ON COLUMN public.revoked_tokens.revoked_at IS '吊销时间';
+
+COMMENT ON TABLE public.user_token_revocations IS '用户级令牌吊销表（退出所有设备）';
+COMMENT ON COLUMN public.user_token_revocations.user_id IS '用户ID';
+COMMENT ON COLUMN public.user_token_revocations.revoked_before IS '吊销时间点（签发时间早于该时间点的令牌无效）';
+COMMENT ON COLUMN public.user_token_revocations.updated_at IS '更新时间';
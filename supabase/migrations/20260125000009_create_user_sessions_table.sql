@@ -0,0 +1,61 @@
+/**
+ * @file 20260125000009_create_user_sessions_table.sql
+ * @description 创建用户会话表（登录设备管理）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 创建用户会话表
+-- 说明：
+-- 1. 每次登录创建一条会话记录，会话 ID 同时作为该次登录的刷新令牌家族 ID（refresh_tokens.family_id）
+-- 2. 访问令牌通过 sid 声明关联会话，会话被吊销后其访问令牌和刷新令牌全部失效
+CREATE TABLE IF NOT EXISTS public.user_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    ip_address INET,
+    user_agent TEXT,
+    device_type TEXT,
+    os TEXT,
+    browser TEXT,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    last_seen_at TIMESTAMPTZ DEFAULT now(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    revoked_reason TEXT CHECK (revoked_reason IN ('logout', 'logout_all', 'user', 'admin', 'reuse_detected'))
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON public.user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_active ON public.user_sessions(user_id, last_seen_at DESC) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_user_sessions_expires_at ON public.user_sessions(expires_at);
+
+-- 启用 RLS（仅服务端使用 Service Role Key 访问，不创建任何策略）
+ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
+
+-- 清理过期会话的函数
+CREATE OR REPLACE FUNCTION public.cleanup_expired_sessions()
+RETURNS void AS $$
+BEGIN
+    -- 删除已过期或已吊销30天以上的会话记录
+    DELETE FROM public.user_sessions
+    WHERE expires_at < now() - INTERVAL '30 days'
+        OR revoked_at < now() - INTERVAL '30 days';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.cleanup_expired_sessions() IS '清理过期会话（删除过期或吊销30天以上的会话）';
+
+-- 添加表注释
+COMMENT ON TABLE public.user_sessions IS '用户会话表（登录设备）';
+COMMENT ON COLUMN public.user_sessions.id IS '会话ID（同时作为刷新令牌家族ID）';
+COMMENT ON COLUMN public.user_sessions.user_id IS '所属用户ID';
+COMMENT ON COLUMN public.user_sessions.ip_address IS '最近一次使用的IP地址';
+COMMENT ON COLUMN public.user_sessions.user_agent IS '用户代理';
+COMMENT ON COLUMN public.user_sessions.device_type IS '设备类型：desktop, mobile, tablet, bot, unknown';
+COMMENT ON COLUMN public.user_sessions.os IS '操作系统';
+COMMENT ON COLUMN public.user_sessions.browser IS '浏览器';
+COMMENT ON COLUMN public.user_sessions.created_at IS '创建时间（登录时间）';
+COMMENT ON COLUMN public.user_sessions.last_seen_at IS '最近活跃时间';
+COMMENT ON COLUMN public.user_sessions.expires_at IS '过期时间（随刷新令牌轮换延长）';
+COMMENT ON COLUMN public.user_sessions.revoked_at IS '吊销时间';
+COMMENT ON COLUMN public.user_sessions.revoked_reason IS '吊销原因：logout-退出登录, logout_all-退出所有设备, user-用户移除设备, admin-管理员操作, reuse_detected-刷新令牌重放';
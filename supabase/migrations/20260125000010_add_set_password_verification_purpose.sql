@@ -0,0 +1,17 @@
+/**
+ * @file 20260125000010_add_set_password_verification_purpose.sql
+ * @description 邮箱验证码新增 set_password 用途（验证码登录的用户首次设置密码）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 替换 purpose 检查约束（列内联 CHECK 的默认约束名为 <表名>_<列名>_check）
+ALTER TABLE public.email_verification_codes
+    DROP CONSTRAINT IF EXISTS email_verification_codes_purpose_check;
+
+ALTER TABLE public.email_verification_codes
+    ADD CONSTRAINT email_verification_codes_purpose_check
+    CHECK (purpose IN ('login', 'register', 'reset_password', 'change_email', 'verify_email', 'set_password'));
+
+-- 更新注释
+COMMENT ON COLUMN public.email_verification_codes.purpose IS '验证码用途：login-登录, register-注册, reset_password-重置密码, change_email-更换邮箱, verify_email-验证邮箱, set_password-设置密码';
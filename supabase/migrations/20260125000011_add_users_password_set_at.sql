@@ -0,0 +1,20 @@
+/**
+ * @file 20260125000011_add_users_password_set_at.sql
+ * @description 用户表新增密码设置时间（与密码存储方式无关地标记用户是否已设置密码）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 新增密码设置时间字段
+-- 说明：使用 Supabase Auth 存储密码时 password_hash 为空，需要单独记录用户是否已设置密码
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS password_set_at TIMESTAMPTZ;
+
+-- 回填：已有本地密码哈希的用户视为已设置密码
+UPDATE public.users
+SET password_set_at = COALESCE(updated_at, created_at, now())
+WHERE password_hash IS NOT NULL
+  AND password_set_at IS NULL;
+
+-- 添加注释
+COMMENT ON COLUMN public.users.password_set_at IS '密码最近一次设置时间（为空表示未设置密码，只能通过验证码登录）';
@@ -0,0 +1,73 @@
+/**
+ * @file 20260125000012_extend_get_user_recent_logins.sql
+ * @description 扩展获取用户登录记录函数：支持按状态/登录方式筛选和游标分页（用于登录历史接口）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 参数列表变化，需要先删除旧函数（CREATE OR REPLACE 会创建重载）
+DROP FUNCTION IF EXISTS public.get_user_recent_logins(UUID, INTEGER);
+
+-- 获取用户登录记录的函数
+-- 说明：按 (created_at, id) 倒序排列，传入上一页最后一条记录的 created_at 和 id 获取下一页
+CREATE OR REPLACE FUNCTION public.get_user_recent_logins(
+    p_user_id UUID,
+    p_limit INTEGER DEFAULT 10,
+    p_status TEXT DEFAULT NULL,
+    p_login_method TEXT DEFAULT NULL,
+    p_before_created_at TIMESTAMPTZ DEFAULT NULL,
+    p_before_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    login_method TEXT,
+    device_type TEXT,
+    os TEXT,
+    browser TEXT,
+    ip_address INET,
+    location TEXT,
+    status TEXT,
+    failure_reason TEXT,
+    created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT 
+        ll.id,
+        ll.login_method,
+        ll.device_type,
+        ll.os,
+        ll.browser,
+        ll.ip_address,
+        COALESCE(
+            NULLIF(
+                CONCAT_WS(', ', 
+                    NULLIF(ll.city, ''),
+                    NULLIF(ll.region, ''),
+                    NULLIF(ll.country, '')
+                ),
+                ''
+            ),
+            '未知'
+        ) AS location,
+        ll.status,
+        ll.failure_reason,
+        ll.created_at
+    FROM public.login_logs ll
+    WHERE ll.user_id = p_user_id
+      AND (p_status IS NULL OR ll.status = p_status)
+      AND (p_login_method IS NULL OR ll.login_method = p_login_method)
+      AND (
+          p_before_created_at IS NULL
+          OR (ll.created_at, ll.id) < (p_before_created_at, p_before_id)
+      )
+    ORDER BY ll.created_at DESC, ll.id DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 函数可以读取任意用户的登录记录，只允许服务端（service_role）调用
+REVOKE EXECUTE ON FUNCTION public.get_user_recent_logins(UUID, INTEGER, TEXT, TEXT, TIMESTAMPTZ, UUID)
+    FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.get_user_recent_logins(UUID, INTEGER, TEXT, TEXT, TIMESTAMPTZ, UUID) IS '获取用户登录记录（支持按状态、登录方式筛选和游标分页）';
@@ -0,0 +1,41 @@
+/**
+ * @file 20260125000013_create_login_lockouts_table.sql
+ * @description 创建登录锁定表（登录失败次数过多时临时锁定账号或 IP）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 创建登录锁定表
+-- 说明：失败次数由 login_logs 统计，本表只记录锁定状态、锁定级别（用于指数退避）和计数起点
+CREATE TABLE IF NOT EXISTS public.login_lockouts (
+    scope TEXT NOT NULL CHECK (scope IN ('account', 'ip')),
+    identifier TEXT NOT NULL,
+    lock_level INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMPTZ,
+    counted_from TIMESTAMPTZ NOT NULL DEFAULT now(),
+    unlocked_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    unlocked_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (scope, identifier)
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_login_lockouts_locked_until ON public.login_lockouts(locked_until);
+
+-- 用于按失败原因统计某个 IP 的失败次数
+CREATE INDEX IF NOT EXISTS idx_login_logs_ip_created
+    ON public.login_logs(ip_address, created_at DESC);
+
+-- 启用 RLS（仅服务端使用 Service Role Key 访问，不创建任何策略）
+ALTER TABLE public.login_lockouts ENABLE ROW LEVEL SECURITY;
+
+-- 添加表注释
+COMMENT ON TABLE public.login_lockouts IS '登录锁定表';
+COMMENT ON COLUMN public.login_lockouts.scope IS '锁定范围：account-账号（邮箱）, ip-IP地址';
+COMMENT ON COLUMN public.login_lockouts.identifier IS '锁定对象（邮箱或IP地址）';
+COMMENT ON COLUMN public.login_lockouts.lock_level IS '连续锁定次数（锁定时长按 2 的幂递增）';
+COMMENT ON COLUMN public.login_lockouts.locked_until IS '锁定截止时间';
+COMMENT ON COLUMN public.login_lockouts.counted_from IS '失败次数计数起点（锁定或解锁时重置）';
+COMMENT ON COLUMN public.login_lockouts.unlocked_by IS '手动解锁的管理员ID';
+COMMENT ON COLUMN public.login_lockouts.unlocked_at IS '手动解锁时间';
+COMMENT ON COLUMN public.login_lockouts.updated_at IS '更新时间';
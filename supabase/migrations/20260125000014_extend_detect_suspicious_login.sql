@@ -0,0 +1,70 @@
+/**
+ * @file 20260125000014_extend_detect_suspicious_login.sql
+ * @description 扩展可疑登录检测函数：返回新 IP、新设备、非常用时段等风险信号（用于登录风险评估）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 参数列表和返回值变化，需要先删除旧函数
+DROP FUNCTION IF EXISTS public.detect_suspicious_login(UUID, INET, TEXT);
+
+-- 检测可疑登录的函数
+-- 说明：
+-- 1. 与回溯期内该用户的全部成功登录比较，而不只是最近一次
+-- 2. 回溯期内没有成功登录（首次登录）时各项信号均为 false，由调用方结合 known_logins 判断
+-- 3. 设备按“设备类型 + 操作系统 + 浏览器”比较，忽略末尾版本号（浏览器自动升级不视为新设备）
+-- 4. 登录时段按 UTC 小时比较，相差 1 小时以内（跨零点循环计算）视为常用时段
+-- 5. 登录日志不记录国家（没有 IP 地理位置数据源），不再按国家比较
+CREATE OR REPLACE FUNCTION public.detect_suspicious_login(
+    p_user_id UUID,
+    p_ip_address INET,
+    p_device_type TEXT DEFAULT NULL,
+    p_os TEXT DEFAULT NULL,
+    p_browser TEXT DEFAULT NULL,
+    p_lookback_days INTEGER DEFAULT 90,
+    p_min_logins_for_hour INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    known_logins INTEGER,
+    new_ip BOOLEAN,
+    new_device BOOLEAN,
+    unusual_hour BOOLEAN
+) AS $$
+DECLARE
+    v_hour INTEGER := EXTRACT(HOUR FROM now() AT TIME ZONE 'UTC')::INTEGER;
+BEGIN
+    RETURN QUERY
+    WITH history AS (
+        SELECT
+            ll.ip_address,
+            ll.device_type,
+            regexp_replace(ll.os, '\s[0-9][0-9._/]*$', '') AS os_family,
+            regexp_replace(ll.browser, '\s[0-9][0-9._/]*$', '') AS browser_family,
+            ABS(EXTRACT(HOUR FROM ll.created_at AT TIME ZONE 'UTC')::INTEGER - v_hour) AS hour_diff
+        FROM public.login_logs ll
+        WHERE ll.user_id = p_user_id
+          AND ll.status = 'success'
+          AND ll.created_at > now() - make_interval(days => p_lookback_days)
+    )
+    SELECT
+        COUNT(*)::INTEGER AS known_logins,
+        COUNT(*) > 0
+            AND p_ip_address IS NOT NULL
+            AND NOT COALESCE(bool_or(h.ip_address = p_ip_address), false) AS new_ip,
+        COUNT(*) > 0
+            AND NOT COALESCE(bool_or(
+                h.device_type IS NOT DISTINCT FROM p_device_type
+                AND h.os_family IS NOT DISTINCT FROM regexp_replace(p_os, '\s[0-9][0-9._/]*$', '')
+                AND h.browser_family IS NOT DISTINCT FROM regexp_replace(p_browser, '\s[0-9][0-9._/]*$', '')
+            ), false) AS new_device,
+        COUNT(*) >= p_min_logins_for_hour
+            AND NOT COALESCE(bool_or(LEAST(h.hour_diff, 24 - h.hour_diff) <= 1), false) AS unusual_hour
+    FROM history h;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 函数可以读取任意用户的登录记录，只允许服务端（service_role）调用
+REVOKE EXECUTE ON FUNCTION public.detect_suspicious_login(UUID, INET, TEXT, TEXT, TEXT, INTEGER, INTEGER)
+    FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.detect_suspicious_login(UUID, INET, TEXT, TEXT, TEXT, INTEGER, INTEGER) IS '检测可疑登录（返回新IP、新设备、非常用时段等风险信号）';
@@ -0,0 +1,60 @@
+/**
+ * @file 20260125000015_create_login_challenges_table.sql
+ * @description 创建登录验证挑战表（高风险登录需要额外验证后才签发令牌）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 创建登录验证挑战表
+-- 说明：
+-- 1. 凭据校验通过但需要额外验证时创建一条记录，客户端凭挑战令牌完成后续验证
+-- 2. 数据库只保存挑战令牌的 SHA-256 哈希，不保存明文
+-- 3. 挑战只能完成一次（consumed_at 不为空即失效）
+CREATE TABLE IF NOT EXISTS public.login_challenges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL UNIQUE,
+    challenge_type TEXT NOT NULL CHECK (challenge_type IN ('email_otp')),
+    login_method TEXT NOT NULL CHECK (login_method IN ('password', 'verification_code', 'oauth', 'sso')),
+    email TEXT NOT NULL,
+    risk_signals TEXT[] NOT NULL DEFAULT '{}',
+    ip_address INET,
+    user_agent TEXT,
+    expires_at TIMESTAMPTZ NOT NULL,
+    consumed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_login_challenges_user_id ON public.login_challenges(user_id);
+CREATE INDEX IF NOT EXISTS idx_login_challenges_expires_at ON public.login_challenges(expires_at);
+
+-- 启用 RLS（仅服务端使用 Service Role Key 访问，不创建任何策略）
+ALTER TABLE public.login_challenges ENABLE ROW LEVEL SECURITY;
+
+-- 清理过期登录挑战的函数
+CREATE OR REPLACE FUNCTION public.cleanup_expired_login_challenges()
+RETURNS void AS $$
+BEGIN
+    -- 保留 7 天用于排查未完成的高风险登录
+    DELETE FROM public.login_challenges
+    WHERE expires_at < now() - INTERVAL '7 days';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.cleanup_expired_login_challenges() IS '清理过期的登录验证挑战';
+
+-- 添加表注释
+COMMENT ON TABLE public.login_challenges IS '登录验证挑战表';
+COMMENT ON COLUMN public.login_challenges.id IS '挑战ID（UUID）';
+COMMENT ON COLUMN public.login_challenges.user_id IS '已通过凭据校验的用户ID';
+COMMENT ON COLUMN public.login_challenges.token_hash IS '挑战令牌的 SHA-256 哈希';
+COMMENT ON COLUMN public.login_challenges.challenge_type IS '验证方式：email_otp-邮箱验证码';
+COMMENT ON COLUMN public.login_challenges.login_method IS '触发挑战的登录方式';
+COMMENT ON COLUMN public.login_challenges.email IS '登录邮箱';
+COMMENT ON COLUMN public.login_challenges.risk_signals IS '触发挑战的风险信号';
+COMMENT ON COLUMN public.login_challenges.ip_address IS '发起登录的IP地址';
+COMMENT ON COLUMN public.login_challenges.user_agent IS '发起登录的用户代理';
+COMMENT ON COLUMN public.login_challenges.expires_at IS '过期时间';
+COMMENT ON COLUMN public.login_challenges.consumed_at IS '完成验证时间';
+COMMENT ON COLUMN public.login_challenges.created_at IS '创建时间';
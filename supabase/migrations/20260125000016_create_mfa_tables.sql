@@ -0,0 +1,62 @@
+/**
+ * @file 20260125000016_create_mfa_tables.sql
+ * @description 创建两步验证相关表（TOTP 密钥、恢复码），并允许登录验证挑战使用 TOTP 方式
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 创建 TOTP 密钥表
+-- 说明：
+-- 1. 每个用户最多一条记录；confirmed_at 为空表示已生成密钥但尚未确认绑定（未开启）
+-- 2. last_used_step 记录最近一次验证通过的时间步，同一时间步的动态码不能重复使用
+CREATE TABLE IF NOT EXISTS public.totp_factors (
+    user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+    secret TEXT NOT NULL,
+    confirmed_at TIMESTAMPTZ,
+    last_used_step BIGINT NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 创建恢复码表
+-- 说明：数据库只保存恢复码的 SHA-256 哈希；每个恢复码只能使用一次
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (user_id, code_hash)
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON public.mfa_recovery_codes(user_id);
+
+-- 启用 RLS（仅服务端使用 Service Role Key 访问，不创建任何策略）
+ALTER TABLE public.totp_factors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- 登录验证挑战增加 TOTP 方式（开启两步验证的用户登录时使用）
+ALTER TABLE public.login_challenges
+    DROP CONSTRAINT IF EXISTS login_challenges_challenge_type_check;
+ALTER TABLE public.login_challenges
+    ADD CONSTRAINT login_challenges_challenge_type_check
+    CHECK (challenge_type IN ('email_otp', 'totp'));
+
+COMMENT ON COLUMN public.login_challenges.challenge_type IS '验证方式：email_otp-邮箱验证码, totp-两步验证动态码';
+
+-- 添加表注释
+COMMENT ON TABLE public.totp_factors IS 'TOTP 两步验证密钥表';
+COMMENT ON COLUMN public.totp_factors.user_id IS '用户ID';
+COMMENT ON COLUMN public.totp_factors.secret IS 'TOTP 密钥（Base32）';
+COMMENT ON COLUMN public.totp_factors.confirmed_at IS '确认绑定时间（为空表示尚未开启）';
+COMMENT ON COLUMN public.totp_factors.last_used_step IS '最近一次验证通过的时间步（防止动态码重放）';
+COMMENT ON COLUMN public.totp_factors.created_at IS '创建时间';
+COMMENT ON COLUMN public.totp_factors.updated_at IS '更新时间';
+
+COMMENT ON TABLE public.mfa_recovery_codes IS '两步验证恢复码表';
+COMMENT ON COLUMN public.mfa_recovery_codes.id IS '恢复码ID（UUID）';
+COMMENT ON COLUMN public.mfa_recovery_codes.user_id IS '用户ID';
+COMMENT ON COLUMN public.mfa_recovery_codes.code_hash IS '恢复码的 SHA-256 哈希';
+COMMENT ON COLUMN public.mfa_recovery_codes.used_at IS '使用时间（为空表示未使用）';
+COMMENT ON COLUMN public.mfa_recovery_codes.created_at IS '创建时间';
@@ -0,0 +1,101 @@
+/**
+ * @file 20260125000017_create_webauthn_tables.sql
+ * @description 创建通行密钥（WebAuthn）凭据表和仪式挑战表，并允许登录日志记录通行密钥登录
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 创建通行密钥凭据表
+-- 说明：
+-- 1. 每个认证器注册一条记录，一个用户可以注册多个通行密钥
+-- 2. credential_id 和 public_key 均为 base64url 编码；public_key 为 COSE 格式
+-- 3. sign_count 为认证器签名计数，计数回退说明认证器可能被克隆，拒绝登录
+CREATE TABLE IF NOT EXISTS public.webauthn_credentials (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    credential_id TEXT NOT NULL UNIQUE,
+    public_key TEXT NOT NULL,
+    algorithm INTEGER NOT NULL,
+    sign_count BIGINT NOT NULL DEFAULT 0,
+    transports TEXT[] NOT NULL DEFAULT '{}',
+    aaguid TEXT,
+    backup_eligible BOOLEAN NOT NULL DEFAULT false,
+    backed_up BOOLEAN NOT NULL DEFAULT false,
+    name TEXT,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    last_used_at TIMESTAMPTZ
+);
+
+-- 创建通行密钥仪式挑战表
+-- 说明：
+-- 1. 生成注册或登录选项时创建一条记录，数据库只保存挑战的 SHA-256 哈希
+-- 2. 挑战只能使用一次（consumed_at 不为空即失效）
+-- 3. 注册挑战绑定 user_id；登录挑战可能在用户未知时生成（可发现凭据），user_id 为空
+CREATE TABLE IF NOT EXISTS public.webauthn_challenges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    challenge_hash TEXT NOT NULL UNIQUE,
+    ceremony TEXT NOT NULL CHECK (ceremony IN ('registration', 'authentication')),
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+    expires_at TIMESTAMPTZ NOT NULL,
+    consumed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_user_id ON public.webauthn_credentials(user_id);
+CREATE INDEX IF NOT EXISTS idx_webauthn_challenges_expires_at ON public.webauthn_challenges(expires_at);
+
+-- 启用 RLS（仅服务端使用 Service Role Key 访问，不创建任何策略）
+ALTER TABLE public.webauthn_credentials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webauthn_challenges ENABLE ROW LEVEL SECURITY;
+
+-- 清理过期通行密钥挑战的函数
+CREATE OR REPLACE FUNCTION public.cleanup_expired_webauthn_challenges()
+RETURNS void AS $$
+BEGIN
+    DELETE FROM public.webauthn_challenges
+    WHERE expires_at < now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.cleanup_expired_webauthn_challenges() IS '清理过期的通行密钥挑战';
+
+-- 登录方式增加通行密钥
+ALTER TABLE public.login_logs
+    DROP CONSTRAINT IF EXISTS login_logs_login_method_check;
+ALTER TABLE public.login_logs
+    ADD CONSTRAINT login_logs_login_method_check
+    CHECK (login_method IN ('password', 'verification_code', 'oauth', 'sso', 'passkey'));
+
+ALTER TABLE public.login_challenges
+    DROP CONSTRAINT IF EXISTS login_challenges_login_method_check;
+ALTER TABLE public.login_challenges
+    ADD CONSTRAINT login_challenges_login_method_check
+    CHECK (login_method IN ('password', 'verification_code', 'oauth', 'sso', 'passkey'));
+
+COMMENT ON COLUMN public.login_logs.login_method IS '登录方式：password-密码, verification_code-验证码, oauth-OAuth, sso-SSO, passkey-通行密钥';
+
+-- 添加表注释
+COMMENT ON TABLE public.webauthn_credentials IS '通行密钥（WebAuthn）凭据表';
+COMMENT ON COLUMN public.webauthn_credentials.id IS '凭据记录ID（UUID）';
+COMMENT ON COLUMN public.webauthn_credentials.user_id IS '用户ID';
+COMMENT ON COLUMN public.webauthn_credentials.credential_id IS '认证器凭据ID（base64url）';
+COMMENT ON COLUMN public.webauthn_credentials.public_key IS 'COSE 格式公钥（base64url）';
+COMMENT ON COLUMN public.webauthn_credentials.algorithm IS 'COSE 签名算法：-7 ES256, -8 EdDSA, -257 RS256';
+COMMENT ON COLUMN public.webauthn_credentials.sign_count IS '认证器签名计数';
+COMMENT ON COLUMN public.webauthn_credentials.transports IS '认证器传输方式（usb、nfc、ble、internal、hybrid 等）';
+COMMENT ON COLUMN public.webauthn_credentials.aaguid IS '认证器型号标识';
+COMMENT ON COLUMN public.webauthn_credentials.backup_eligible IS '是否可同步（多设备通行密钥）';
+COMMENT ON COLUMN public.webauthn_credentials.backed_up IS '是否已同步备份';
+COMMENT ON COLUMN public.webauthn_credentials.name IS '用户设置的名称';
+COMMENT ON COLUMN public.webauthn_credentials.created_at IS '注册时间';
+COMMENT ON COLUMN public.webauthn_credentials.last_used_at IS '最近一次登录时间';
+
+COMMENT ON TABLE public.webauthn_challenges IS '通行密钥仪式挑战表';
+COMMENT ON COLUMN public.webauthn_challenges.id IS '挑战ID（UUID）';
+COMMENT ON COLUMN public.webauthn_challenges.challenge_hash IS '挑战的 SHA-256 哈希';
+COMMENT ON COLUMN public.webauthn_challenges.ceremony IS '仪式类型：registration-注册, authentication-登录';
+COMMENT ON COLUMN public.webauthn_challenges.user_id IS '注册用户ID（登录挑战可能为空）';
+COMMENT ON COLUMN public.webauthn_challenges.expires_at IS '过期时间';
+COMMENT ON COLUMN public.webauthn_challenges.consumed_at IS '使用时间';
+COMMENT ON COLUMN public.webauthn_challenges.created_at IS '创建时间';
@@ -0,0 +1,79 @@
+/**
+ * @file 20260125000018_create_oauth_tables.sql
+ * @description 创建第三方身份表（OIDC/OAuth2 社交登录）和授权请求状态表
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 创建第三方身份表
+-- 说明：
+-- 1. 每条记录把身份提供方的用户标识（provider + subject）关联到 public.users
+-- 2. 同一提供方的同一 subject 只能关联一个用户；一个用户可以关联多个提供方
+-- 3. email 和 email_verified 记录最近一次登录时身份提供方返回的值，仅用于展示和审计
+CREATE TABLE IF NOT EXISTS public.identities (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    email TEXT,
+    email_verified BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    last_login_at TIMESTAMPTZ,
+    UNIQUE (provider, subject)
+);
+
+-- 创建授权请求状态表
+-- 说明：
+-- 1. 发起授权时创建一条记录，数据库只保存 state 的 SHA-256 哈希
+-- 2. code_verifier（PKCE）和 nonce 在回调时用于换取令牌和校验 ID Token
+-- 3. state 只能使用一次（consumed_at 不为空即失效）
+CREATE TABLE IF NOT EXISTS public.oauth_states (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    state_hash TEXT NOT NULL UNIQUE,
+    provider TEXT NOT NULL,
+    code_verifier TEXT NOT NULL,
+    nonce TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    consumed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_identities_user_id ON public.identities(user_id);
+CREATE INDEX IF NOT EXISTS idx_oauth_states_expires_at ON public.oauth_states(expires_at);
+
+-- 启用 RLS（仅服务端使用 Service Role Key 访问，不创建任何策略）
+ALTER TABLE public.identities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.oauth_states ENABLE ROW LEVEL SECURITY;
+
+-- 清理过期授权请求状态的函数
+CREATE OR REPLACE FUNCTION public.cleanup_expired_oauth_states()
+RETURNS void AS $$
+BEGIN
+    DELETE FROM public.oauth_states
+    WHERE expires_at < now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.cleanup_expired_oauth_states() IS '清理过期的 OAuth 授权请求状态';
+
+-- 添加表注释
+COMMENT ON TABLE public.identities IS '第三方身份表（OIDC/OAuth2）';
+COMMENT ON COLUMN public.identities.id IS '身份记录ID（UUID）';
+COMMENT ON COLUMN public.identities.user_id IS '用户ID';
+COMMENT ON COLUMN public.identities.provider IS '身份提供方标识（如 google）';
+COMMENT ON COLUMN public.identities.subject IS '身份提供方的用户标识（ID Token 的 sub）';
+COMMENT ON COLUMN public.identities.email IS '身份提供方返回的邮箱';
+COMMENT ON COLUMN public.identities.email_verified IS '身份提供方是否已验证该邮箱';
+COMMENT ON COLUMN public.identities.created_at IS '关联时间';
+COMMENT ON COLUMN public.identities.last_login_at IS '最近一次登录时间';
+
+COMMENT ON TABLE public.oauth_states IS 'OAuth 授权请求状态表';
+COMMENT ON COLUMN public.oauth_states.id IS '状态ID（UUID）';
+COMMENT ON COLUMN public.oauth_states.state_hash IS 'state 参数的 SHA-256 哈希';
+COMMENT ON COLUMN public.oauth_states.provider IS '身份提供方标识';
+COMMENT ON COLUMN public.oauth_states.code_verifier IS 'PKCE code_verifier';
+COMMENT ON COLUMN public.oauth_states.nonce IS 'ID Token nonce';
+COMMENT ON COLUMN public.oauth_states.expires_at IS '过期时间';
+COMMENT ON COLUMN public.oauth_states.consumed_at IS '使用时间';
+COMMENT ON COLUMN public.oauth_states.created_at IS '创建时间';
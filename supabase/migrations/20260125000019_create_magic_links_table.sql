@@ -0,0 +1,72 @@
+/**
+ * @file 20260125000019_create_magic_links_table.sql
+ * @description 创建登录链接（magic link）表，并允许登录日志记录登录链接登录
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 创建登录链接表
+-- 说明：
+-- 1. 请求登录时创建一条记录，登录链接通过邮件发送，发起请求的客户端拿到轮询令牌
+-- 2. 数据库只保存三个令牌的 SHA-256 哈希：
+--    token_hash（邮件中的链接）、poll_token_hash（发起请求的客户端轮询）、exchange_token_hash（确认后点击链接的浏览器换取会话）
+-- 3. 打开链接只跳转到前端确认页面，用户确认后 approved_at 被设置；
+--    之后轮询令牌和换取令牌先兑换的一方登录成功，每个链接只签发一个会话
+CREATE TABLE IF NOT EXISTS public.magic_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    poll_token_hash TEXT NOT NULL UNIQUE,
+    exchange_token_hash TEXT UNIQUE,
+    expires_at TIMESTAMPTZ NOT NULL,
+    approved_at TIMESTAMPTZ,
+    poll_redeemed_at TIMESTAMPTZ,
+    exchange_redeemed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_magic_links_email_created_at ON public.magic_links(email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_magic_links_expires_at ON public.magic_links(expires_at);
+
+-- 启用 RLS（仅服务端使用 Service Role Key 访问，不创建任何策略）
+ALTER TABLE public.magic_links ENABLE ROW LEVEL SECURITY;
+
+-- 清理过期登录链接的函数
+CREATE OR REPLACE FUNCTION public.cleanup_expired_magic_links()
+RETURNS void AS $$
+BEGIN
+    DELETE FROM public.magic_links
+    WHERE expires_at < now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.cleanup_expired_magic_links() IS '清理过期的登录链接';
+
+-- 登录方式增加登录链接
+ALTER TABLE public.login_logs
+    DROP CONSTRAINT IF EXISTS login_logs_login_method_check;
+ALTER TABLE public.login_logs
+    ADD CONSTRAINT login_logs_login_method_check
+    CHECK (login_method IN ('password', 'verification_code', 'oauth', 'sso', 'passkey', 'magic_link'));
+
+ALTER TABLE public.login_challenges
+    DROP CONSTRAINT IF EXISTS login_challenges_login_method_check;
+ALTER TABLE public.login_challenges
+    ADD CONSTRAINT login_challenges_login_method_check
+    CHECK (login_method IN ('password', 'verification_code', 'oauth', 'sso', 'passkey', 'magic_link'));
+
+COMMENT ON COLUMN public.login_logs.login_method IS '登录方式：password-密码, verification_code-验证码, oauth-OAuth, sso-SSO, passkey-通行密钥, magic_link-登录链接';
+
+-- 添加表注释
+COMMENT ON TABLE public.magic_links IS '登录链接表';
+COMMENT ON COLUMN public.magic_links.id IS '登录链接ID（UUID）';
+COMMENT ON COLUMN public.magic_links.email IS '登录邮箱';
+COMMENT ON COLUMN public.magic_links.token_hash IS '邮件中登录链接令牌的 SHA-256 哈希';
+COMMENT ON COLUMN public.magic_links.poll_token_hash IS '发起请求的客户端轮询令牌的 SHA-256 哈希';
+COMMENT ON COLUMN public.magic_links.exchange_token_hash IS '确认登录后签发的换取令牌的 SHA-256 哈希';
+COMMENT ON COLUMN public.magic_links.expires_at IS '过期时间';
+COMMENT ON COLUMN public.magic_links.approved_at IS '确认登录时间';
+COMMENT ON COLUMN public.magic_links.poll_redeemed_at IS '轮询令牌兑换时间';
+COMMENT ON COLUMN public.magic_links.exchange_redeemed_at IS '换取令牌兑换时间';
+COMMENT ON COLUMN public.magic_links.created_at IS '创建时间';
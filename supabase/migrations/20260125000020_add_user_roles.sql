@@ -0,0 +1,74 @@
+/**
+ * @file 20260125000020_add_user_roles.sql
+ * @description 为用户表增加角色字段，实现 is_admin() 并开放管理员查看登录日志
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 用户角色
+-- 说明：
+-- 1. 角色写入访问令牌（JWT role 声明），API 层按角色和角色对应的权限校验
+-- 2. 权限与角色的对应关系由 API 层维护，数据库只保存角色
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user';
+
+ALTER TABLE public.users
+    DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE public.users
+    ADD CONSTRAINT users_role_check
+    CHECK (role IN ('user', 'admin'));
+
+-- 只为非普通用户建立索引（用于查询管理员列表）
+CREATE INDEX IF NOT EXISTS idx_users_role ON public.users(role) WHERE role <> 'user';
+
+COMMENT ON COLUMN public.users.role IS '角色：user-普通用户, admin-管理员';
+
+-- 检查当前用户是否为管理员（与 API 层的角色判断保持一致）
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+DECLARE
+    user_id UUID;
+BEGIN
+    user_id := public.current_user_id();
+    IF user_id IS NULL THEN
+        RETURN false;
+    END IF;
+
+    RETURN COALESCE(
+        (SELECT role = 'admin' FROM public.users WHERE id = user_id AND status = 'active'),
+        false
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.is_admin() IS '检查当前用户是否为管理员（users.role = admin 且账号状态正常）';
+
+-- 禁止普通用户修改角色
+-- 说明："Users can update own profile" 策略允许用户更新自己的整行数据，
+-- 通过 anon/authenticated 角色修改 role 时必须是管理员；服务端使用 Service Role Key 不受影响
+CREATE OR REPLACE FUNCTION public.prevent_role_self_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.role IS DISTINCT FROM OLD.role
+        AND current_user IN ('anon', 'authenticated')
+        AND NOT public.is_admin() THEN
+        RAISE EXCEPTION 'Only administrators can change user roles';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.prevent_role_self_update() IS '禁止非管理员通过 anon/authenticated 角色修改用户角色';
+
+DROP TRIGGER IF EXISTS prevent_role_self_update ON public.users;
+CREATE TRIGGER prevent_role_self_update
+    BEFORE UPDATE OF role ON public.users
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_role_self_update();
+
+-- 管理员可以查看所有登录日志
+DROP POLICY IF EXISTS "Admins can view all login logs" ON public.login_logs;
+CREATE POLICY "Admins can view all login logs"
+    ON public.login_logs
+    FOR SELECT
+    USING (public.is_admin());
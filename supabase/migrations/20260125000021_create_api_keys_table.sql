@@ -0,0 +1,45 @@
+/**
+ * @file 20260125000021_create_api_keys_table.sql
+ * @description 创建个人 API 密钥表（脚本和 CI 调用 API 时代替登录）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 创建 API 密钥表
+-- 说明：
+-- 1. 密钥明文只在创建时返回一次，数据库只保存 SHA-256 哈希和用于展示的前缀
+-- 2. scopes 限制密钥可以执行的操作，expires_at 为空表示永不过期
+-- 3. 吊销后保留记录（revoked_at 不为空），不再允许使用
+CREATE TABLE IF NOT EXISTS public.api_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    scopes TEXT[] NOT NULL DEFAULT '{}',
+    expires_at TIMESTAMPTZ,
+    last_used_at TIMESTAMPTZ,
+    last_used_ip INET,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON public.api_keys(user_id, created_at DESC);
+
+-- 启用 RLS（仅服务端使用 Service Role Key 访问，不创建任何策略）
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+-- 添加表注释
+COMMENT ON TABLE public.api_keys IS '个人 API 密钥表';
+COMMENT ON COLUMN public.api_keys.id IS 'API 密钥ID（UUID）';
+COMMENT ON COLUMN public.api_keys.user_id IS '所属用户ID';
+COMMENT ON COLUMN public.api_keys.name IS '名称（如 "CI 部署"）';
+COMMENT ON COLUMN public.api_keys.prefix IS '密钥前缀（用于在列表中识别密钥）';
+COMMENT ON COLUMN public.api_keys.key_hash IS '密钥的 SHA-256 哈希';
+COMMENT ON COLUMN public.api_keys.scopes IS '权限范围：users:read-读取用户资料, users:write-修改用户资料';
+COMMENT ON COLUMN public.api_keys.expires_at IS '过期时间（为空表示永不过期）';
+COMMENT ON COLUMN public.api_keys.last_used_at IS '最近使用时间';
+COMMENT ON COLUMN public.api_keys.last_used_ip IS '最近使用 IP';
+COMMENT ON COLUMN public.api_keys.revoked_at IS '吊销时间';
+COMMENT ON COLUMN public.api_keys.created_at IS '创建时间';
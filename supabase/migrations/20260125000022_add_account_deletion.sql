@@ -0,0 +1,69 @@
+/**
+ * @file 20260125000022_add_account_deletion.sql
+ * @description 用户自助注销：注销后进入宽限期，期间重新登录可恢复账号，到期后永久删除
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 注销时间和永久删除时间
+-- 说明：
+-- 1. 注销时 status 改为 deleted，并写入 deleted_at 和 purge_after（deleted_at + 宽限期）
+-- 2. purge_after 之前重新登录并确认恢复，status 改回 active 并清空这两个字段
+-- 3. purge_after 之后由 purge_deleted_users() 删除 auth.users 和 public.users 中的记录
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS purge_after TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_users_purge_after
+    ON public.users(purge_after)
+    WHERE status = 'deleted';
+
+COMMENT ON COLUMN public.users.deleted_at IS '注销时间';
+COMMENT ON COLUMN public.users.purge_after IS '永久删除时间（宽限期结束时间，之前重新登录可以恢复账号）';
+
+-- 登录验证方式增加恢复账号
+ALTER TABLE public.login_challenges
+    DROP CONSTRAINT IF EXISTS login_challenges_challenge_type_check;
+ALTER TABLE public.login_challenges
+    ADD CONSTRAINT login_challenges_challenge_type_check
+    CHECK (challenge_type IN ('email_otp', 'totp', 'account_restore'));
+
+COMMENT ON COLUMN public.login_challenges.challenge_type IS '验证方式：email_otp-邮箱验证码, totp-两步验证动态码, account_restore-确认恢复注销中的账号';
+
+-- 永久删除宽限期已结束的注销账号
+-- 说明：public.users 与 auth.users 之间没有外键，需要分别删除；其余表通过 user_id 外键级联删除
+CREATE OR REPLACE FUNCTION public.purge_deleted_users()
+RETURNS INTEGER AS $$
+DECLARE
+    purged_ids UUID[];
+BEGIN
+    SELECT COALESCE(array_agg(id), '{}')
+    INTO purged_ids
+    FROM public.users
+    WHERE status = 'deleted'
+        AND purge_after <= now();
+
+    IF array_length(purged_ids, 1) IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    DELETE FROM auth.users WHERE id = ANY(purged_ids);
+    DELETE FROM public.users WHERE id = ANY(purged_ids);
+
+    RETURN array_length(purged_ids, 1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.purge_deleted_users() IS '永久删除宽限期已结束的注销账号（含 auth.users），返回删除的账号数量';
+
+-- 只允许服务端调用
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_users() FROM PUBLIC, anon, authenticated;
+
+-- 已安装 pg_cron 时每天凌晨 3 点执行一次；未安装时需要自行定时调用
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule('purge-deleted-users', '0 3 * * *', 'SELECT public.purge_deleted_users()');
+    END IF;
+END;
+$$;
@@ -0,0 +1,46 @@
+/**
+ * @file 20260125000023_create_data_exports_table.sql
+ * @description 创建个人数据导出任务表和导出文件存储桶（用户下载自己的全部个人数据）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 创建数据导出任务表
+-- 说明：
+-- 1. 用户申请导出后创建 pending 任务，后台生成压缩包（JSON + CSV）并上传到 data-exports 存储桶
+-- 2. 生成完成后通过邮件发送有时效的下载链接（存储桶签名 URL），expires_at 为链接过期时间
+-- 3. 同一用户同时只能有一个进行中的任务；再次导出或注销账号时删除之前的导出文件
+CREATE TABLE IF NOT EXISTS public.data_exports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+    file_path TEXT,
+    file_size BIGINT,
+    error TEXT,
+    expires_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    completed_at TIMESTAMPTZ
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_data_exports_user_id ON public.data_exports(user_id, created_at DESC);
+
+-- 启用 RLS（仅服务端使用 Service Role Key 访问，不创建任何策略）
+ALTER TABLE public.data_exports ENABLE ROW LEVEL SECURITY;
+
+-- 添加表注释
+COMMENT ON TABLE public.data_exports IS '个人数据导出任务表';
+COMMENT ON COLUMN public.data_exports.id IS '导出任务ID（UUID）';
+COMMENT ON COLUMN public.data_exports.user_id IS '所属用户ID';
+COMMENT ON COLUMN public.data_exports.status IS '任务状态：pending-等待处理, processing-生成中, completed-已完成, failed-失败';
+COMMENT ON COLUMN public.data_exports.file_path IS '导出文件在 data-exports 存储桶中的路径（<user_id>/<id>.zip）';
+COMMENT ON COLUMN public.data_exports.file_size IS '导出文件大小（字节）';
+COMMENT ON COLUMN public.data_exports.error IS '失败原因';
+COMMENT ON COLUMN public.data_exports.expires_at IS '下载链接过期时间';
+COMMENT ON COLUMN public.data_exports.created_at IS '申请时间';
+COMMENT ON COLUMN public.data_exports.completed_at IS '完成时间';
+
+-- 创建导出文件存储桶（私有，只能通过签名 URL 下载）
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('data-exports', 'data-exports', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,62 @@
+/**
+ * @file 20260125000024_create_rate_limits_table.sql
+ * @description 创建接口限流计数表（RATE_LIMIT_STORE=postgres 时使用，多实例部署共享限流计数）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 创建限流计数表
+-- 说明：
+-- 1. 每个（限流规则, 限流对象, 时间窗口）对应一条记录，key 由 API 层生成，如 ratelimit:send-mail:email:user@example.com:1769328000000
+-- 2. 计数只通过 increment_rate_limit() 原子递增，记录过期后下次递增时重新从 1 开始计数
+-- 3. 过期记录由 cleanup_expired_rate_limits() 清理
+CREATE TABLE IF NOT EXISTS public.rate_limits (
+    key TEXT PRIMARY KEY,
+    count INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_rate_limits_expires_at ON public.rate_limits(expires_at);
+
+-- 启用 RLS（仅服务端使用 Service Role Key 访问，不创建任何策略）
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- 原子递增计数的函数（语义与 Redis 的 INCR + PEXPIRE NX 相同：记录不存在或已过期时创建，过期时间只在创建时设置）
+CREATE OR REPLACE FUNCTION public.increment_rate_limit(p_key TEXT, p_ttl_ms INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    new_count INTEGER;
+BEGIN
+    INSERT INTO public.rate_limits (key, count, expires_at)
+    VALUES (p_key, 1, now() + p_ttl_ms * INTERVAL '1 millisecond')
+    ON CONFLICT (key) DO UPDATE SET
+        count = CASE WHEN rate_limits.expires_at <= now() THEN 1 ELSE rate_limits.count + 1 END,
+        expires_at = CASE WHEN rate_limits.expires_at <= now() THEN EXCLUDED.expires_at ELSE rate_limits.expires_at END
+    RETURNING count INTO new_count;
+
+    RETURN new_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.increment_rate_limit(TEXT, INTEGER) IS '限流计数加一并返回当前计数';
+
+-- 只允许服务端调用
+REVOKE EXECUTE ON FUNCTION public.increment_rate_limit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 清理过期限流计数的函数
+CREATE OR REPLACE FUNCTION public.cleanup_expired_rate_limits()
+RETURNS void AS $$
+BEGIN
+    DELETE FROM public.rate_limits
+    WHERE expires_at < now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.cleanup_expired_rate_limits() IS '清理过期的限流计数';
+
+-- 添加表注释
+COMMENT ON TABLE public.rate_limits IS '接口限流计数表';
+COMMENT ON COLUMN public.rate_limits.key IS '限流键（限流规则 + 限流对象 + 时间窗口）';
+COMMENT ON COLUMN public.rate_limits.count IS '时间窗口内的请求次数';
+COMMENT ON COLUMN public.rate_limits.expires_at IS '过期时间';
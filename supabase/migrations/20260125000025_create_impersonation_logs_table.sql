@@ -0,0 +1,44 @@
+/**
+ * @file 20260125000025_create_impersonation_logs_table.sql
+ * @description 创建管理员模拟登录记录表（客服以用户身份复现问题的审计记录）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 创建模拟登录记录表
+-- 说明：
+-- 1. 管理员每次模拟登录都写入一条记录，签发的访问令牌带 act 声明，token_jti 为该令牌的 jti
+-- 2. 模拟登录期间的请求日志同时记录被模拟的用户（userId）和管理员（actorId）
+-- 3. 管理员账号删除后保留记录（admin_id 置空，admin_email 保留）
+CREATE TABLE IF NOT EXISTS public.impersonation_logs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    admin_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    admin_email TEXT NOT NULL,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL,
+    token_jti TEXT NOT NULL UNIQUE,
+    ip_address INET,
+    user_agent TEXT,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_impersonation_logs_user_id ON public.impersonation_logs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_impersonation_logs_admin_id ON public.impersonation_logs(admin_id, created_at DESC);
+
+-- 启用 RLS（仅服务端使用 Service Role Key 访问，不创建任何策略）
+ALTER TABLE public.impersonation_logs ENABLE ROW LEVEL SECURITY;
+
+-- 添加表注释
+COMMENT ON TABLE public.impersonation_logs IS '管理员模拟登录记录表';
+COMMENT ON COLUMN public.impersonation_logs.id IS '记录ID（UUID）';
+COMMENT ON COLUMN public.impersonation_logs.admin_id IS '发起模拟登录的管理员ID（管理员账号删除后为空）';
+COMMENT ON COLUMN public.impersonation_logs.admin_email IS '发起模拟登录的管理员邮箱';
+COMMENT ON COLUMN public.impersonation_logs.user_id IS '被模拟的用户ID';
+COMMENT ON COLUMN public.impersonation_logs.reason IS '模拟登录原因（如工单号）';
+COMMENT ON COLUMN public.impersonation_logs.token_jti IS '签发的访问令牌ID（jti）';
+COMMENT ON COLUMN public.impersonation_logs.ip_address IS '管理员的 IP 地址';
+COMMENT ON COLUMN public.impersonation_logs.user_agent IS '管理员的用户代理';
+COMMENT ON COLUMN public.impersonation_logs.expires_at IS '访问令牌过期时间';
+COMMENT ON COLUMN public.impersonation_logs.created_at IS '模拟登录时间';
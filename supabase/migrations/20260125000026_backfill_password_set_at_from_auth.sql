@@ -0,0 +1,19 @@
+/**
+ * @file 20260125000026_backfill_password_set_at_from_auth.sql
+ * @description 按 auth.users 回填密码设置时间（密码由 Supabase Auth 存储的已有用户）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 回填密码设置时间
+-- 说明：
+-- 1. 20260125000011 只按本地 password_hash 回填，密码只保存在 Supabase Auth 中的已有用户 password_set_at 为空，
+--    会被视为未设置密码（无法修改密码，且可以不验证原密码直接设置新密码）
+-- 2. GoTrue 中未设置密码的用户 encrypted_password 为空字符串，不视为已设置密码
+UPDATE public.users u
+SET password_set_at = COALESCE(au.updated_at, au.created_at, now())
+FROM auth.users au
+WHERE au.id = u.id
+  AND au.encrypted_password IS NOT NULL
+  AND au.encrypted_password <> ''
+  AND u.password_set_at IS NULL;
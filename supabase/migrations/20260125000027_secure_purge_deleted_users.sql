@@ -0,0 +1,18 @@
+/**
+ * @file 20260125000027_secure_purge_deleted_users.sql
+ * @description purge_deleted_users() 固定 search_path，未安装 pg_cron 时提示需要自行定时执行
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- SECURITY DEFINER 函数以所有者权限执行，固定 search_path 避免调用方通过同名对象劫持函数内的查询
+ALTER FUNCTION public.purge_deleted_users() SET search_path = public;
+
+-- 未安装 pg_cron 时宽限期结束的账号不会被自动删除，迁移时给出警告
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        RAISE WARNING 'pg_cron 未安装，purge_deleted_users() 不会自动执行：请定时运行 deno task maintenance（或 SELECT public.purge_deleted_users()）';
+    END IF;
+END;
+$$;
@@ -0,0 +1,16 @@
+/**
+ * @file 20260125000028_add_impersonation_logs_revoked_at.sql
+ * @description 模拟登录记录新增结束时间（管理员提前结束模拟登录，或管理员角色变更时记录）
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+-- 新增结束时间字段
+-- 说明：
+-- 1. 提前结束时令牌的 jti 同时写入 revoked_tokens，认证中间件按 jti 拒绝该令牌
+-- 2. 管理员被修改角色或退出所有设备时，其签发的模拟登录令牌按管理员的吊销时间点一并失效
+-- 3. 为空表示未提前结束（令牌在 expires_at 自然过期）
+ALTER TABLE public.impersonation_logs
+    ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.impersonation_logs.revoked_at IS '提前结束时间（为空表示令牌自然过期）';
@@ -0,0 +1,38 @@
+/**
+ * @file page.tsx
+ * @description 登录链接确认页面，点击邮件中的登录链接后 API 重定向到此页面，用户确认后才会登录
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { LoginForm } from '[@BASE]/features/auth/components/login-form'
+
+/**
+ * 登录链接回调页面组件属性
+ */
+interface MagicLinkCallbackPageProps {
+    searchParams: Promise<{ token?: string; error?: string }>
+}
+
+/**
+ * 登录链接回调页面组件
+ *
+ * @component
+ * @description 读取地址栏中的 token（或 error）交给登录表单，由用户点击确认后提交；
+ * 邮件安全网关预取链接不会确认登录；需要两步验证时在登录表单中继续完成
+ *
+ * @param {MagicLinkCallbackPageProps} props - 页面属性
+ * @returns {Promise<JSX.Element>} 登录链接回调页面组件
+ *
+ * @example
+ * // /auth/magic/callback?token=...
+ */
+export default async function MagicLinkCallbackPage({ searchParams }: MagicLinkCallbackPageProps) {
+    const { token, error } = await searchParams
+
+    return (
+        <div className="flex-1 flex flex-col items-center justify-center">
+            <LoginForm magicLinkCallback={{ token, error }} />
+        </div>
+    )
+}
@@ -0,0 +1,39 @@
+/**
+ * @file page.tsx
+ * @description 第三方登录回调页面，身份提供方完成授权后回调到此页面并提交授权码
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+import { LoginForm } from '[@BASE]/features/auth/components/login-form'
+
+/**
+ * 第三方登录回调页面组件属性
+ */
+interface OAuthCallbackPageProps {
+    params: Promise<{ provider: string }>
+    searchParams: Promise<{ code?: string; state?: string }>
+}
+
+/**
+ * 第三方登录回调页面组件
+ *
+ * @component
+ * @description 读取地址栏中的 code 和 state 交给登录表单提交；需要两步验证或邮箱验证时在登录表单中继续完成
+ *
+ * @param {OAuthCallbackPageProps} props - 页面属性
+ * @returns {Promise<JSX.Element>} 第三方登录回调页面组件
+ *
+ * @example
+ * // /auth/oauth/google/callback?code=...&state=...
+ */
+export default async function OAuthCallbackPage({ params, searchParams }: OAuthCallbackPageProps) {
+    const { provider } = await params
+    const { code, state } = await searchParams
+
+    return (
+        <div className="flex-1 flex flex-col items-center justify-center">
+            <LoginForm oauthCallback={{ provider, code, state }} />
+        </div>
+    )
+}
@@ -59,6 +59,22 @@ const passwordSchema = z.object({
     path: ["new_password"],
 })
 
+/**
+ * 设置密码表单验证 Schema（尚未设置密码的用户）
+ * @constant
+ */
+const setPasswordSchema = z.object({
+    code: z.string().regex(/^\d{6}$/, "验证码必须是6位数字"),
+    new_password: z
+        .string()
+        .min(8, "新密码至少8个字符")
+        .max(100, "新密码最多100个字符")
+        .regex(
+            /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+            "新密码必须包含大小写字母和数字"
+        ),
+})
+
 /**
  * 更换邮箱表单验证 Schema
  * @constant
@@ -70,7 +86,16 @@ const emailSchema = z.object({
 
 type NameFormData = z.infer<typeof nameSchema>
 type PasswordFormData = z.infer<typeof passwordSchema>
+type SetPasswordFormData = z.infer<typeof setPasswordSchema>
+/**
+ * 验证邮箱表单验证 Schema
+ */
+const verifyEmailSchema = z.object({
+    code: z.string().regex(/^\d{6}$/, "验证码必须是6位数字"),
+})
+
 type EmailFormData = z.infer<typeof emailSchema>
+type VerifyEmailFormData = z.infer<typeof verifyEmailSchema>
 
 /**
  * 个人中心页面组件
@@ -92,12 +117,24 @@ export default function ProfilePage() {
     const [isEditingName, setIsEditingName] = useState(false)
     const [isChangingEmail, setIsChangingEmail] = useState(false)
     const [isChangingPassword, setIsChangingPassword] = useState(false)
+    const [isSettingPassword, setIsSettingPassword] = useState(false)
+    const [isVerifyingEmail, setIsVerifyingEmail] = useState(false)
 
     // 邮箱验证码相关
     const [emailCodeSent, setEmailCodeSent] = useState(false)
     const [emailCountdown, setEmailCountdown] = useState(0)
     const [isSendingEmailCode, setIsSendingEmailCode] = useState(false)
 
+    // 验证邮箱验证码相关
+    const [verifyCodeSent, setVerifyCodeSent] = useState(false)
+    const [verifyCountdown, setVerifyCountdown] = useState(0)
+    const [isSendingVerifyCode, setIsSendingVerifyCode] = useState(false)
+
+    // 设置密码验证码相关
+    const [passwordCodeSent, setPasswordCodeSent] = useState(false)
+    const [passwordCountdown, setPasswordCountdown] = useState(0)
+    const [isSendingPasswordCode, setIsSendingPasswordCode] = useState(false)
+
     // 表单
     const nameForm = useForm<NameFormData>({
         resolver: zodResolver(nameSchema),
@@ -109,6 +146,16 @@ export default function ProfilePage() {
         defaultValues: { old_password: "", new_password: "" },
     })
 
+    const verifyEmailForm = useForm<VerifyEmailFormData>({
+        resolver: zodResolver(verifyEmailSchema),
+        defaultValues: { code: "" },
+    })
+
+    const setPasswordForm = useForm<SetPasswordFormData>({
+        resolver: zodResolver(setPasswordSchema),
+        defaultValues: { code: "", new_password: "" },
+    })
+
     const emailForm = useForm<EmailFormData>({
         resolver: zodResolver(emailSchema),
         defaultValues: { new_email: "", code: "" },
@@ -146,6 +193,24 @@ export default function ProfilePage() {
         }
     }, [emailCountdown])
 
+    useEffect(() => {
+        if (verifyCountdown > 0) {
+            const timer = setTimeout(() => {
+                setVerifyCountdown(verifyCountdown - 1)
+            }, 1000)
+            return () => clearTimeout(timer)
+        }
+    }, [verifyCountdown])
+
+    useEffect(() => {
+        if (passwordCountdown > 0) {
+            const timer = setTimeout(() => {
+                setPasswordCountdown(passwordCountdown - 1)
+            }, 1000)
+            return () => clearTimeout(timer)
+        }
+    }, [passwordCountdown])
+
     /**
      * 加载用户资料
      */
@@ -233,6 +298,43 @@ export default function ProfilePage() {
         }
     }
 
+    /**
+     * 处理发送验证邮箱验证码
+     */
+    const handleSendVerifyCode = async () => {
+        try {
+            setIsSendingVerifyCode(true)
+            await profileService.sendVerifyEmailCode()
+            setVerifyCodeSent(true)
+            setVerifyCountdown(60)
+            toast.success('验证码已发送到当前邮箱')
+        } catch (err) {
+            verifyEmailForm.setError("code", {
+                message: err instanceof Error ? err.message : "发送验证码失败",
+            })
+        } finally {
+            setIsSendingVerifyCode(false)
+        }
+    }
+
+    /**
+     * 处理验证邮箱
+     */
+    const handleVerifyEmail = async (data: VerifyEmailFormData) => {
+        try {
+            await profileService.verifyEmail(data)
+            verifyEmailForm.reset()
+            setIsVerifyingEmail(false)
+            setVerifyCodeSent(false)
+            toast.success('邮箱验证成功')
+            await loadProfile()
+        } catch (err) {
+            verifyEmailForm.setError("code", {
+                message: err instanceof Error ? err.message : "验证邮箱失败",
+            })
+        }
+    }
+
     /**
      * 处理修改密码
      */
@@ -251,6 +353,43 @@ export default function ProfilePage() {
         }
     }
 
+    /**
+     * 处理发送设置密码验证码
+     */
+    const handleSendPasswordCode = async () => {
+        try {
+            setIsSendingPasswordCode(true)
+            await profileService.sendSetPasswordCode()
+            setPasswordCodeSent(true)
+            setPasswordCountdown(60)
+            toast.success('验证码已发送到当前邮箱')
+        } catch (err) {
+            setPasswordForm.setError("code", {
+                message: err instanceof Error ? err.message : "发送验证码失败",
+            })
+        } finally {
+            setIsSendingPasswordCode(false)
+        }
+    }
+
+    /**
+     * 处理设置密码
+     */
+    const handleSetPassword = async (data: SetPasswordFormData) => {
+        try {
+            await profileService.setPassword(data)
+            setPasswordForm.reset()
+            setIsSettingPassword(false)
+            setPasswordCodeSent(false)
+            toast.success('密码设置成功，可以使用密码登录了')
+            await loadProfile()
+        } catch (err) {
+            setPasswordForm.setError("code", {
+                message: err instanceof Error ? err.message : "设置密码失败",
+            })
+        }
+    }
+
     /**
      * 处理头像上传（简化版，实际需要文件上传功能）
      */
@@ -304,6 +443,12 @@ export default function ProfilePage() {
         <div className="container mx-auto px-4 py-8 max-w-2xl">
             <h1 className="text-3xl font-bold mb-6">个人中心</h1>
 
+            {profile.impersonator && (
+                <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-800">
+                    管理员 {profile.impersonator.email} 正在以该用户身份登录，不能修改密码、邮箱或注销账号
+                </div>
+            )}
+
             {error && (
                 <div className="mb-4 p-4 bg-destructive/10 border border-destructive/20 rounded-lg text-destructive">
                     {error}
@@ -459,29 +604,171 @@ export default function ProfilePage() {
                                 </div>
                             </form>
                         ) : (
-                            <div className="flex items-center justify-between p-3 border rounded-lg">
-                                <div className="flex items-center gap-2">
-                                    <Mail className="w-4 h-4 text-muted-foreground" />
-                                    <span>{profile.email}</span>
-                                    {profile.email_verified ? (
-                                        <span className="text-xs text-green-600">已验证</span>
-                                    ) : (
-                                        <span className="text-xs text-yellow-600">未验证</span>
-                                    )}
+                            <>
+                                <div className="flex items-center justify-between p-3 border rounded-lg">
+                                    <div className="flex items-center gap-2">
+                                        <Mail className="w-4 h-4 text-muted-foreground" />
+                                        <span>{profile.email}</span>
+                                        {profile.email_verified ? (
+                                            <span className="text-xs text-green-600">已验证</span>
+                                        ) : (
+                                            <span className="text-xs text-yellow-600">未验证</span>
+                                        )}
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        {!profile.email_verified && !isVerifyingEmail && (
+                                            <Button
+                                                variant="outline"
+                                                onClick={() => setIsVerifyingEmail(true)}
+                                            >
+                                                验证邮箱
+                                            </Button>
+                                        )}
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => setIsChangingEmail(true)}
+                                        >
+                                            <Edit2 className="w-4 h-4" />
+                                        </Button>
+                                    </div>
                                 </div>
+                                {!profile.email_verified && isVerifyingEmail && (
+                                    <form
+                                        onSubmit={verifyEmailForm.handleSubmit(handleVerifyEmail)}
+                                        className="space-y-2"
+                                    >
+                                        <div className="flex gap-2">
+                                            <Input
+                                                {...verifyEmailForm.register("code")}
+                                                placeholder={`请输入发送到 ${profile.email} 的6位验证码`}
+                                                maxLength={6}
+                                                error={!!verifyEmailForm.formState.errors.code}
+                                                className="flex-1"
+                                            />
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                onClick={handleSendVerifyCode}
+                                                disabled={isSendingVerifyCode || verifyCountdown > 0}
+                                            >
+                                                {verifyCountdown > 0
+                                                    ? `${verifyCountdown}秒后重试`
+                                                    : "发送验证码"}
+                                            </Button>
+                                        </div>
+                                        {verifyEmailForm.formState.errors.code && (
+                                            <p className="text-sm text-destructive">
+                                                {verifyEmailForm.formState.errors.code.message}
+                                            </p>
+                                        )}
+                                        <div className="flex gap-2">
+                                            <Button type="submit" disabled={!verifyCodeSent}>
+                                                确认验证
+                                            </Button>
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                onClick={() => {
+                                                    setIsVerifyingEmail(false)
+                                                    setVerifyCodeSent(false)
+                                                    verifyEmailForm.reset()
+                                                }}
+                                            >
+                                                取消
+                                            </Button>
+                                        </div>
+                                    </form>
+                                )}
+                            </>
+                        )}
+                    </div>
+
+                    {/* 设置密码（尚未设置密码的用户） */}
+                    {!profile.has_password && (isSettingPassword ? (
+                        <div className="space-y-4 p-4 border rounded-lg">
+                            <div className="flex items-center justify-between">
+                                <Label>设置密码</Label>
                                 <Button
                                     variant="ghost"
                                     size="icon"
-                                    onClick={() => setIsChangingEmail(true)}
+                                    onClick={() => {
+                                        setIsSettingPassword(false)
+                                        setPasswordCodeSent(false)
+                                        setPasswordForm.reset()
+                                    }}
                                 >
-                                    <Edit2 className="w-4 h-4" />
+                                    <X className="w-4 h-4" />
                                 </Button>
                             </div>
-                        )}
-                    </div>
+                            <form
+                                onSubmit={setPasswordForm.handleSubmit(handleSetPassword)}
+                                className="space-y-4"
+                            >
+                                <div className="space-y-2">
+                                    <Label>验证码</Label>
+                                    <div className="flex gap-2">
+                                        <Input
+                                            {...setPasswordForm.register("code")}
+                                            placeholder={`请输入发送到 ${profile.email} 的6位验证码`}
+                                            maxLength={6}
+                                            error={!!setPasswordForm.formState.errors.code}
+                                            className="flex-1"
+                                        />
+                                        <Button
+                                            type="button"
+                                            variant="outline"
+                                            onClick={handleSendPasswordCode}
+                                            disabled={isSendingPasswordCode || passwordCountdown > 0}
+                                        >
+                                            {passwordCountdown > 0
+                                                ? `${passwordCountdown}秒后重试`
+                                                : "发送验证码"}
+                                        </Button>
+                                    </div>
+                                    {setPasswordForm.formState.errors.code && (
+                                        <p className="text-sm text-destructive">
+                                            {setPasswordForm.formState.errors.code.message}
+                                        </p>
+                                    )}
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>新密码</Label>
+                                    <Input
+                                        {...setPasswordForm.register("new_password")}
+                                        type="password"
+                                        placeholder="请输入新密码（8-100字符，包含大小写字母和数字）"
+                                        error={!!setPasswordForm.formState.errors.new_password}
+                                    />
+                                    {setPasswordForm.formState.errors.new_password && (
+                                        <p className="text-sm text-destructive">
+                                            {setPasswordForm.formState.errors.new_password.message}
+                                        </p>
+                                    )}
+                                </div>
+                                <Button type="submit" disabled={!passwordCodeSent}>
+                                    确认设置
+                                </Button>
+                            </form>
+                        </div>
+                    ) : (
+                        <div className="flex items-center justify-between p-3 border rounded-lg">
+                            <div className="flex items-center gap-2">
+                                <Lock className="w-4 h-4 text-muted-foreground" />
+                                <span>密码</span>
+                                <span className="text-xs text-yellow-600">未设置</span>
+                            </div>
+                            <Button
+                                variant="outline"
+                                onClick={() => setIsSettingPassword(true)}
+                            >
+                                设置密码
+                            </Button>
+                        </div>
+                    ))}
 
                     {/* 更换密码 */}
-                    {isChangingPassword ? (
+                    {profile.has_password && (isChangingPassword ? (
                         <div className="space-y-4 p-4 border rounded-lg">
                             <div className="flex items-center justify-between">
                                 <Label>更换密码</Label>
@@ -544,7 +831,7 @@ export default function ProfilePage() {
                                 更换密码
                             </Button>
                         </div>
-                    )}
+                    ))}
                 </CardContent>
             </Card>
         </div>
@@ -13,6 +13,7 @@ import { useRouter } from "next/navigation"
 import { User, LogOut, Settings, ChevronDown } from "lucide-react"
 import { Button } from "[@BASE]/components/ui/button"
 import { useAuthStore } from "[@BASE]/features/auth/stores/auth.store"
+import { authService } from "[@BASE]/features/auth/services/auth.service"
 
 /**
  * 头部导航栏组件
@@ -27,7 +28,7 @@ import { useAuthStore } from "[@BASE]/features/auth/stores/auth.store"
  */
 export function Header() {
     const router = useRouter()
-    const { user, isAuthenticated, logout } = useAuthStore()
+    const { user, isAuthenticated, refreshToken, logout } = useAuthStore()
     const [isMenuOpen, setIsMenuOpen] = useState(false)
     const menuRef = useRef<HTMLDivElement>(null)
 
@@ -48,9 +49,14 @@ export function Header() {
 
     /**
      * 处理退出登录
-     * @description 清除用户认证状态并跳转到首页
+     * @description 通知服务端吊销令牌，清除用户认证状态并跳转到首页
      */
-    const handleLogout = () => {
+    const handleLogout = async () => {
+        try {
+            await authService.logout(refreshToken)
+        } catch {
+            // 服务端吊销失败（如令牌已过期）不影响本地退出
+        }
         logout()
         setIsMenuOpen(false)
         router.push("/")
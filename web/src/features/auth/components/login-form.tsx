@@ -1,18 +1,18 @@
 /**
  * @file login-form.tsx
- * @description 登录表单组件，支持密码登录和验证码登录两种方式
+ * @description 登录表单组件，支持密码登录、验证码登录、登录链接、通行密钥登录和第三方登录
  * @author System
  * @createDate 2024-01-01
  */
 
 "use client"
 
-import { useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { useRouter } from "next/navigation"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
-import { Mail, Lock, KeyRound, ArrowRight } from "lucide-react"
+import { Mail, Lock, KeyRound, ArrowRight, ShieldCheck, Fingerprint, LogIn, Link2 } from "lucide-react"
 import { toast } from "sonner"
 import { Button } from "[@BASE]/components/ui/button"
 import { Input } from "[@BASE]/components/ui/input"
@@ -24,8 +24,17 @@ import {
     CardHeader,
     CardTitle
 } from "[@BASE]/components/ui/card"
+import { isPasskeySupported } from "[@BASE]/lib/utils/webauthn"
 import { authService } from "../services/auth.service"
 import { useAuthStore } from "../stores/auth.store"
+import type {
+    AuthResponse,
+    LoginChallengeResponse,
+    LoginResult,
+    MagicLinkRequest,
+    OAuthCallbackPayload,
+    OAuthProvider,
+} from "../types/auth.types"
 
 /**
  * 密码登录表单验证 Schema
@@ -45,6 +54,15 @@ const codeSchema = z.object({
     code: z.string().length(6, "验证码必须是6位数字"),
 })
 
+/**
+ * 登录验证（登录的第二步）表单验证 Schema
+ * @constant
+ * @description 邮箱验证码和两步验证动态码均为6位，两步验证也可以输入更长的恢复码
+ */
+const challengeSchema = z.object({
+    code: z.string().trim().min(6, "请输入6位验证码").max(32, "验证码格式不正确"),
+})
+
 /**
  * 密码登录表单数据类型
  * @typedef {Object} PasswordFormData
@@ -57,26 +75,67 @@ type PasswordFormData = z.infer<typeof passwordSchema>
  */
 type CodeFormData = z.infer<typeof codeSchema>
 
+/**
+ * 登录验证表单数据类型
+ * @typedef {Object} ChallengeFormData
+ */
+type ChallengeFormData = z.infer<typeof challengeSchema>
+
+/**
+ * 登录链接轮询间隔（毫秒）
+ * @constant
+ */
+const MAGIC_LINK_POLL_INTERVAL_MS = 3000
+
+/**
+ * 判断登录结果是否需要额外验证
+ *
+ * @param {LoginResult} result - 登录接口返回结果
+ * @returns {boolean} 是否为验证挑战
+ */
+function isLoginChallenge(result: LoginResult): result is LoginChallengeResponse {
+    return "challengeRequired" in result && result.challengeRequired
+}
+
+/**
+ * 登录表单组件属性
+ */
+interface LoginFormProps {
+    /** 第三方登录回调参数（在回调页面使用时传入，挂载后自动提交；code 或 state 缺失表示授权被取消或失败） */
+    oauthCallback?: { provider: string } & Partial<OAuthCallbackPayload>
+    /** 登录链接回调参数（点击邮件中的链接后重定向到的页面传入，用户点击确认后提交；error 表示链接无效或已过期） */
+    magicLinkCallback?: { token?: string; error?: string }
+}
+
 /**
  * 登录表单组件
  *
  * @component
- * @description 提供密码登录和验证码登录两种登录方式，支持表单验证、错误处理和状态管理
+ * @description 提供密码登录、验证码登录、登录链接、通行密钥登录和第三方登录，支持表单验证、错误处理和状态管理
  *
+ * @param {LoginFormProps} props - 组件属性
  * @returns {JSX.Element} 登录表单组件
  *
  * @example
  * <LoginForm />
  */
-export function LoginForm() {
+export function LoginForm({ oauthCallback, magicLinkCallback }: LoginFormProps = {}) {
     const router = useRouter()
     const login = useAuthStore((state) => state.login)
 
     const [mode, setMode] = useState<"password" | "code">("password")
-    const [isLoading, setIsLoading] = useState(false)
+    const [isLoading, setIsLoading] = useState(!!oauthCallback)
     const [isSendingCode, setIsSendingCode] = useState(false)
     const [codeSent, setCodeSent] = useState(false)
     const [countdown, setCountdown] = useState(0)
+    const [challenge, setChallenge] = useState<LoginChallengeResponse | null>(null)
+    const [oauthProviders, setOAuthProviders] = useState<OAuthProvider[]>([])
+    const [isSendingMagicLink, setIsSendingMagicLink] = useState(false)
+    const [magicLink, setMagicLink] = useState<(MagicLinkRequest & { email: string }) | null>(null)
+    const [magicLinkCode, setMagicLinkCode] = useState<string | null>(null)
+    // state 只能使用一次，避免开发模式下重复挂载时提交两次回调
+    const oauthCallbackHandled = useRef(false)
+    const magicLinkCallbackHandled = useRef(false)
 
     // 密码登录表单
     const passwordForm = useForm<PasswordFormData>({
@@ -90,6 +149,46 @@ export function LoginForm() {
         defaultValues: { email: "", code: "" },
     })
 
+    // 登录验证表单
+    const challengeForm = useForm<ChallengeFormData>({
+        resolver: zodResolver(challengeSchema),
+        defaultValues: { code: "" },
+    })
+
+    /**
+     * 保存登录状态并跳转
+     *
+     * @param {AuthResponse} response - 登录成功返回的用户信息和 Token
+     */
+    const completeLogin = (response: AuthResponse) => {
+        // 保存用户信息和 token 到 Zustand store
+        login(response.user, response.token, response.refreshToken)
+
+        toast.success("登录成功")
+
+        // 跳转到主页
+        router.push("/")
+    }
+
+    /**
+     * 处理登录结果
+     *
+     * @description 已开启两步验证需要输入动态码，高风险登录需要输入邮箱验证码，注销宽限期内的账号需要确认恢复，其余情况直接完成登录
+     * @param {LoginResult} result - 登录接口返回结果
+     */
+    const handleLoginResult = (result: LoginResult) => {
+        if (isLoginChallenge(result)) {
+            challengeForm.reset()
+            setChallenge(result)
+            if (result.challengeType === "email_otp") {
+                toast.info("检测到异常登录，验证码已发送到您的邮箱")
+            }
+            return
+        }
+
+        completeLogin(result)
+    }
+
     /**
      * 处理密码登录
      *
@@ -100,15 +199,8 @@ export function LoginForm() {
         setIsLoading(true)
 
         try {
-            const response = await authService.loginWithPassword(data)
-
-            // 保存用户信息和 token 到 Zustand store
-            login(response.user, response.token)
-
-            toast.success("登录成功")
-
-            // 跳转到主页
-            router.push("/")
+            const result = await authService.loginWithPassword(data)
+            handleLoginResult(result)
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : "登录失败，请重试"
             toast.error(errorMessage)
@@ -127,23 +219,199 @@ export function LoginForm() {
         setIsLoading(true)
 
         try {
-            const response = await authService.loginWithCode(data)
+            const result = await authService.loginWithCode(data)
+            handleLoginResult(result)
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : "登录失败，请重试"
+            toast.error(errorMessage)
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    /**
+     * 处理通行密钥登录
+     *
+     * @description 不需要输入邮箱，由浏览器列出本站可用的通行密钥
+     * @returns {Promise<void>}
+     */
+    const handlePasskeyLogin = async () => {
+        if (!isPasskeySupported()) {
+            toast.error("当前浏览器不支持通行密钥")
+            return
+        }
+
+        setIsLoading(true)
+
+        try {
+            const result = await authService.loginWithPasskey()
+            handleLoginResult(result)
+        } catch (err) {
+            // 用户在系统弹窗中取消时不提示
+            if (err instanceof DOMException && err.name === "NotAllowedError") return
 
-            // 保存用户信息和 token 到 Zustand store
-            login(response.user, response.token)
+            const errorMessage = err instanceof Error ? err.message : "登录失败，请重试"
+            toast.error(errorMessage)
+        } finally {
+            setIsLoading(false)
+        }
+    }
 
-            toast.success("登录成功")
+    /**
+     * 发起第三方登录
+     *
+     * @description 获取授权地址后跳转到身份提供方，完成授权后回调到 /auth/oauth/:provider/callback 页面
+     * @param {string} provider - 第三方登录方式标识
+     * @returns {Promise<void>}
+     */
+    const handleOAuthLogin = async (provider: string) => {
+        setIsLoading(true)
 
-            // 跳转到主页
-            router.push("/")
+        try {
+            window.location.assign(await authService.startOAuth(provider))
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : "登录失败，请重试"
             toast.error(errorMessage)
+            setIsLoading(false)
+        }
+    }
+
+    // 加载已启用的第三方登录方式（未启用时不显示按钮）
+    useEffect(() => {
+        authService.getOAuthProviders()
+            .then(setOAuthProviders)
+            .catch(() => setOAuthProviders([]))
+    }, [])
+
+    // 第三方登录回调：提交授权码完成登录
+    useEffect(() => {
+        if (!oauthCallback || oauthCallbackHandled.current) return
+        oauthCallbackHandled.current = true
+
+        const { provider, code, state } = oauthCallback
+        const completeOAuth = async () => {
+            try {
+                if (!code || !state) {
+                    throw new Error("第三方登录已取消或失败，请重试")
+                }
+                handleLoginResult(await authService.completeOAuth(provider, { code, state }))
+            } catch (err) {
+                const errorMessage = err instanceof Error ? err.message : "登录失败，请重试"
+                toast.error(errorMessage)
+                router.replace("/login")
+            } finally {
+                setIsLoading(false)
+            }
+        }
+        completeOAuth()
+    })
+
+    // 登录链接回调：链接无效或已过期时返回登录页，有效时等待用户确认
+    useEffect(() => {
+        if (!magicLinkCallback || magicLinkCallbackHandled.current) return
+        magicLinkCallbackHandled.current = true
+
+        if (magicLinkCallback.error || !magicLinkCallback.token) {
+            toast.error("登录链接无效或已过期，请重新发送")
+            router.replace("/login")
+        }
+    })
+
+    // 已发送登录链接：轮询登录结果，在任意设备上点击链接并确认后本页面完成登录
+    useEffect(() => {
+        if (!magicLink) return
+
+        let stopped = false
+        let timer: ReturnType<typeof setTimeout>
+        const poll = async () => {
+            try {
+                const result = await authService.pollMagicLink(magicLink.pollToken)
+                if (stopped) return
+
+                if (result.status === "completed") {
+                    setMagicLink(null)
+                    handleLoginResult(result.result)
+                    return
+                }
+                if (new Date(magicLink.expiresAt).getTime() <= Date.now()) {
+                    throw new Error("登录链接已过期，请重新发送")
+                }
+                timer = setTimeout(poll, MAGIC_LINK_POLL_INTERVAL_MS)
+            } catch (err) {
+                if (stopped) return
+
+                setMagicLink(null)
+                const errorMessage = err instanceof Error ? err.message : "登录失败，请重试"
+                toast.error(errorMessage)
+            }
+        }
+        timer = setTimeout(poll, MAGIC_LINK_POLL_INTERVAL_MS)
+
+        return () => {
+            stopped = true
+            clearTimeout(timer)
+        }
+        // 只在发送新的登录链接时重新开始轮询
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [magicLink])
+
+    /**
+     * 处理登录验证
+     *
+     * @param {ChallengeFormData} data - 登录验证表单数据
+     * @returns {Promise<void>}
+     */
+    const handleChallengeSubmit = async (data: ChallengeFormData) => {
+        if (!challenge) return
+
+        setIsLoading(true)
+
+        try {
+            const payload = { challengeToken: challenge.challengeToken, code: data.code }
+            const response = challenge.challengeType === "totp"
+                ? await authService.verifyMfaChallenge(payload)
+                : await authService.verifyLoginChallenge(payload)
+
+            completeLogin(response)
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : "验证失败，请重试"
+            toast.error(errorMessage)
         } finally {
             setIsLoading(false)
         }
     }
 
+    /**
+     * 确认恢复注销中的账号
+     *
+     * @description 恢复后继续登录；开启两步验证或高风险登录时进入对应的验证步骤
+     * @returns {Promise<void>}
+     */
+    const handleRestoreAccount = async () => {
+        if (!challenge) return
+
+        setIsLoading(true)
+
+        try {
+            const result = await authService.restoreAccount(challenge.challengeToken)
+            toast.success("账号已恢复")
+            handleLoginResult(result)
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : "恢复账号失败，请重试"
+            toast.error(errorMessage)
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    /**
+     * 取消登录验证，返回登录表单
+     */
+    const cancelChallenge = () => {
+        setChallenge(null)
+        challengeForm.reset()
+    }
+
     /**
      * 发送验证码
      *
@@ -194,6 +462,80 @@ export function LoginForm() {
         }
     }
 
+    /**
+     * 发送登录链接
+     *
+     * @description 验证邮箱格式后发送登录链接，然后轮询登录结果
+     * @returns {Promise<void>}
+     */
+    const handleSendMagicLink = async () => {
+        const email = codeForm.getValues("email")
+
+        const emailValidation = z.email().safeParse(email)
+        if (!emailValidation.success) {
+            codeForm.setError("email", { message: email ? "请输入有效的邮箱地址" : "请输入邮箱地址" })
+            return
+        }
+
+        setIsSendingMagicLink(true)
+
+        try {
+            const request = await authService.sendMagicLink(email)
+            setMagicLink({ ...request, email })
+            toast.success("登录链接已发送到您的邮箱")
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : "发送登录链接失败"
+            toast.error(errorMessage)
+        } finally {
+            setIsSendingMagicLink(false)
+        }
+    }
+
+    /**
+     * 确认登录链接
+     *
+     * @description 确认后发起请求的页面通过轮询完成登录，也可以继续在当前浏览器登录
+     * @returns {Promise<void>}
+     */
+    const handleConfirmMagicLink = async () => {
+        if (!magicLinkCallback?.token) return
+
+        setIsLoading(true)
+
+        try {
+            const { code } = await authService.confirmMagicLink(magicLinkCallback.token)
+            setMagicLinkCode(code)
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : "确认登录失败，请重试"
+            toast.error(errorMessage)
+            router.replace("/login")
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    /**
+     * 使用已确认的登录链接在当前浏览器登录
+     *
+     * @description 每个登录链接只能登录一处，发起请求的页面已完成登录时提交失败
+     * @returns {Promise<void>}
+     */
+    const handleMagicLinkSignInHere = async () => {
+        if (!magicLinkCode) return
+
+        setIsLoading(true)
+
+        try {
+            handleLoginResult(await authService.completeMagicLink(magicLinkCode))
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : "登录失败，请重试"
+            toast.error(errorMessage)
+            router.replace("/login")
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
     /**
      * 切换登录模式
      *
@@ -207,6 +549,169 @@ export function LoginForm() {
         setCountdown(0)
     }
 
+    if (challenge?.challengeType === "account_restore") {
+        const purgeDate = challenge.accountPurgeAt
+            ? new Date(challenge.accountPurgeAt).toLocaleDateString("zh-CN")
+            : null
+
+        return (
+            <Card className="border-none shadow-2xl w-[90%] max-w-md">
+                <CardHeader className="space-y-1 p-8 pb-0">
+                    <CardTitle className="text-2xl font-bold">恢复账号</CardTitle>
+                    <CardDescription>
+                        {purgeDate
+                            ? `该账号已申请注销，将于 ${purgeDate} 永久删除。恢复后可继续正常使用。`
+                            : "该账号已申请注销，恢复后可继续正常使用。"}
+                    </CardDescription>
+                </CardHeader>
+
+                <CardContent className="space-y-4 p-8">
+                    <Button type="button" className="w-full" isLoading={isLoading} onClick={handleRestoreAccount}>
+                        {isLoading ? "恢复中..." : "恢复账号并登录"}
+                        {!isLoading && <ArrowRight className="h-4 w-4" />}
+                    </Button>
+
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={cancelChallenge}
+                        className="w-full"
+                    >
+                        返回登录
+                    </Button>
+                </CardContent>
+            </Card>
+        )
+    }
+
+    if (challenge) {
+        const isTotp = challenge.challengeType === "totp"
+
+        return (
+            <Card className="border-none shadow-2xl w-[90%] max-w-md">
+                <CardHeader className="space-y-1 p-8 pb-0">
+                    <CardTitle className="text-2xl font-bold">
+                        {isTotp ? "两步验证" : "安全验证"}
+                    </CardTitle>
+                    <CardDescription>
+                        {isTotp
+                            ? "请输入验证器 App 中的6位动态码，无法使用验证器时可输入恢复码"
+                            : "检测到来自新设备或新位置的登录，请输入发送到您邮箱的验证码"}
+                    </CardDescription>
+                </CardHeader>
+
+                <CardContent className="space-y-4 p-8">
+                    <form onSubmit={challengeForm.handleSubmit(handleChallengeSubmit)} className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="challenge-code" required>
+                                {isTotp ? "动态码" : "验证码"}
+                            </Label>
+                            <div className="relative">
+                                <ShieldCheck className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                    id="challenge-code"
+                                    type="text"
+                                    maxLength={isTotp ? 32 : 6}
+                                    autoComplete="one-time-code"
+                                    className="pl-10"
+                                    error={!!challengeForm.formState.errors.code}
+                                    {...challengeForm.register("code")}
+                                />
+                            </div>
+                            {challengeForm.formState.errors.code && (
+                                <p className="text-xs text-destructive">
+                                    {challengeForm.formState.errors.code.message}
+                                </p>
+                            )}
+                        </div>
+
+                        <Button type="submit" className="w-full" isLoading={isLoading}>
+                            {isLoading ? "验证中..." : "验证并登录"}
+                            {!isLoading && <ArrowRight className="h-4 w-4" />}
+                        </Button>
+                    </form>
+
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={cancelChallenge}
+                        className="w-full"
+                    >
+                        返回登录
+                    </Button>
+                </CardContent>
+            </Card>
+        )
+    }
+
+    if (magicLinkCallback?.token) {
+        return (
+            <Card className="border-none shadow-2xl w-[90%] max-w-md">
+                <CardHeader className="space-y-1 p-8 pb-0">
+                    <CardTitle className="text-2xl font-bold">
+                        {magicLinkCode ? "已确认登录" : "确认登录"}
+                    </CardTitle>
+                    <CardDescription>
+                        {magicLinkCode
+                            ? "发起登录请求的页面将自动完成登录，也可以改为在此浏览器登录（每个登录链接只能登录一处）"
+                            : "确认后，发起登录请求的页面将完成登录。如果这不是您本人的操作，请关闭此页面"}
+                    </CardDescription>
+                </CardHeader>
+
+                <CardContent className="space-y-4 p-8">
+                    {magicLinkCode ? (
+                        <Button type="button" className="w-full" isLoading={isLoading} onClick={handleMagicLinkSignInHere}>
+                            {isLoading ? "登录中..." : "在此浏览器登录"}
+                            {!isLoading && <LogIn className="h-4 w-4" />}
+                        </Button>
+                    ) : (
+                        <Button type="button" className="w-full" isLoading={isLoading} onClick={handleConfirmMagicLink}>
+                            {isLoading ? "确认中..." : "确认登录"}
+                            {!isLoading && <ArrowRight className="h-4 w-4" />}
+                        </Button>
+                    )}
+
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => router.replace("/login")}
+                        className="w-full"
+                    >
+                        返回登录
+                    </Button>
+                </CardContent>
+            </Card>
+        )
+    }
+
+    if (magicLink) {
+        return (
+            <Card className="border-none shadow-2xl w-[90%] max-w-md">
+                <CardHeader className="space-y-1 p-8 pb-0">
+                    <CardTitle className="text-2xl font-bold">查收登录链接</CardTitle>
+                    <CardDescription>
+                        登录链接已发送到 {magicLink.email}，可以在任意设备上点击邮件中的链接并确认，本页面会自动完成登录
+                    </CardDescription>
+                </CardHeader>
+
+                <CardContent className="space-y-4 p-8">
+                    <Button type="button" className="w-full" isLoading>
+                        等待点击链接...
+                    </Button>
+
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => setMagicLink(null)}
+                        className="w-full"
+                    >
+                        返回登录
+                    </Button>
+                </CardContent>
+            </Card>
+        )
+    }
+
     return (
         <Card className="border-none shadow-2xl w-[90%] max-w-md">
             <CardHeader className="space-y-1 p-8 pb-0">
@@ -337,6 +842,18 @@ export function LoginForm() {
                             {isLoading ? "登录中..." : "登录"}
                             {!isLoading && <ArrowRight className="h-4 w-4" />}
                         </Button>
+
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={handleSendMagicLink}
+                            disabled={isLoading}
+                            className="w-full"
+                            isLoading={isSendingMagicLink}
+                        >
+                            {!isSendingMagicLink && <Link2 className="h-4 w-4" />}
+                            发送登录链接
+                        </Button>
                     </form>
                 )}
 
@@ -359,6 +876,31 @@ export function LoginForm() {
                     {mode === "password" ? "使用验证码登录" : "使用密码登录"}
                 </Button>
 
+                <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handlePasskeyLogin}
+                    disabled={isLoading}
+                    className="w-full"
+                >
+                    <Fingerprint className="h-4 w-4" />
+                    使用通行密钥登录
+                </Button>
+
+                {oauthProviders.map((provider) => (
+                    <Button
+                        key={provider.id}
+                        type="button"
+                        variant="outline"
+                        onClick={() => handleOAuthLogin(provider.id)}
+                        disabled={isLoading}
+                        className="w-full"
+                    >
+                        <LogIn className="h-4 w-4" />
+                        使用 {provider.name} 登录
+                    </Button>
+                ))}
+
                 {/* 底部提示 */}
                 <p className="text-center text-xs text-muted-foreground">
                     登录即表示您同意我们的{" "}
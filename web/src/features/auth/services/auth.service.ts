@@ -1,10 +1,26 @@
-import { apiClient } from '[@BASE]/lib/api/client'
+import { apiClient, ApiClientError } from '[@BASE]/lib/api/client'
+import { getPasskey } from '[@BASE]/lib/utils/webauthn'
+import { solveProofOfWork } from '[@BASE]/lib/utils/proof-of-work'
+import type { PasskeyAuthenticationOptions } from '[@BASE]/lib/utils/webauthn'
 import type {
     LoginWithPasswordPayload,
     LoginWithCodePayload,
-    AuthResponse
+    RegisterPayload,
+    AuthResponse,
+    LoginResult,
+    VerifyLoginChallengePayload,
+    OAuthProvider,
+    OAuthCallbackPayload,
+    MagicLinkRequest,
+    MagicLinkConfirmResult,
+    MagicLinkPollResult,
+    BotChallenge,
+    BotChallengeSolution
 } from '../types/auth.types'
 
+/** 需要完成人机验证的错误码（details.challenge 为挑战） */
+const CHALLENGE_REQUIRED_CODE = '10-0026'
+
 /**
  * 认证服务类
  * 处理用户登录、注册、验证码等认证相关操作
@@ -14,13 +30,13 @@ class AuthService {
      * 使用密码登录
      * 
      * @param payload - 登录信息（邮箱和密码）
-     * @returns 用户信息和 Token
+     * @returns 用户信息和 Token；高风险登录返回验证挑战
      * @throws {ApiClientError} 当登录失败时抛出错误
      */
     async loginWithPassword(
         payload: LoginWithPasswordPayload
-    ): Promise<AuthResponse> {
-        const response = await apiClient.post<AuthResponse>(
+    ): Promise<LoginResult> {
+        const response = await apiClient.post<LoginResult>(
             '/auth/login/password',
             payload
         )
@@ -36,14 +52,259 @@ class AuthService {
      * 使用验证码登录
      * 
      * @param payload - 登录信息（邮箱和验证码）
-     * @returns 用户信息和 Token
+     * @returns 用户信息和 Token；高风险登录返回验证挑战
      * @throws {ApiClientError} 当登录失败时抛出错误
      */
     async loginWithCode(
         payload: LoginWithCodePayload
+    ): Promise<LoginResult> {
+        const response = await apiClient.post<LoginResult>(
+            '/auth/login/code',
+            payload
+        )
+
+        if (!response.success) {
+            throw new Error(response.error.message)
+        }
+
+        return response.data
+    }
+
+    /**
+     * 完成登录验证（高风险登录的第二步）
+     * 
+     * @param payload - 挑战令牌和邮箱验证码
+     * @returns 用户信息和 Token
+     * @throws {ApiClientError} 当验证码错误或挑战已失效时抛出错误
+     */
+    async verifyLoginChallenge(
+        payload: VerifyLoginChallengePayload
     ): Promise<AuthResponse> {
         const response = await apiClient.post<AuthResponse>(
-            '/auth/login/code',
+            '/auth/login/verify',
+            payload
+        )
+
+        if (!response.success) {
+            throw new Error(response.error.message)
+        }
+
+        return response.data
+    }
+
+    /**
+     * 完成两步验证（已开启两步验证的用户登录的第二步）
+     * 
+     * @param payload - 挑战令牌和动态码（或恢复码）
+     * @returns 用户信息和 Token
+     * @throws {ApiClientError} 当动态码错误或挑战已失效时抛出错误
+     */
+    async verifyMfaChallenge(
+        payload: VerifyLoginChallengePayload
+    ): Promise<AuthResponse> {
+        const response = await apiClient.post<AuthResponse>(
+            '/auth/login/mfa',
+            payload
+        )
+
+        if (!response.success) {
+            throw new Error(response.error.message)
+        }
+
+        return response.data
+    }
+
+    /**
+     * 恢复注销中的账号并继续登录（登录返回 account_restore 挑战后，用户确认恢复时调用）
+     * 
+     * @param challengeToken - 登录时返回的挑战令牌
+     * @returns 用户信息和 Token；开启两步验证或高风险登录时返回验证挑战
+     * @throws {ApiClientError} 当挑战已失效或宽限期已结束时抛出错误
+     */
+    async restoreAccount(challengeToken: string): Promise<LoginResult> {
+        const response = await apiClient.post<LoginResult>(
+            '/auth/login/restore',
+            { challengeToken }
+        )
+
+        if (!response.success) {
+            throw new Error(response.error.message)
+        }
+
+        return response.data
+    }
+
+    /**
+     * 使用通行密钥登录
+     * 
+     * @param email - 登录邮箱（可选）；不传时由浏览器列出本站可用的通行密钥
+     * @returns 用户信息和 Token
+     * @throws {Error} 当用户取消、通行密钥无效或登录失败时抛出错误
+     */
+    async loginWithPasskey(email?: string): Promise<LoginResult> {
+        const optionsResponse = await apiClient.post<PasskeyAuthenticationOptions>(
+            '/auth/webauthn/login/options',
+            email ? { email } : {}
+        )
+
+        if (!optionsResponse.success) {
+            throw new Error(optionsResponse.error.message)
+        }
+
+        const credential = await getPasskey(optionsResponse.data)
+
+        const response = await apiClient.post<LoginResult>(
+            '/auth/webauthn/login/verify',
+            { credential }
+        )
+
+        if (!response.success) {
+            throw new Error(response.error.message)
+        }
+
+        return response.data
+    }
+
+    /**
+     * 获取已启用的第三方登录方式
+     * 
+     * @returns 第三方登录方式列表
+     * @throws {ApiClientError} 当请求失败时抛出错误
+     */
+    async getOAuthProviders(): Promise<OAuthProvider[]> {
+        const response = await apiClient.get<OAuthProvider[]>('/auth/oauth/providers')
+
+        if (!response.success) {
+            throw new Error(response.error.message)
+        }
+
+        return response.data
+    }
+
+    /**
+     * 发起第三方登录
+     * 
+     * @param provider - 第三方登录方式标识
+     * @returns 身份提供方的授权地址（调用方负责跳转）
+     * @throws {ApiClientError} 当登录方式未启用或请求失败时抛出错误
+     */
+    async startOAuth(provider: string): Promise<string> {
+        const response = await apiClient.post<{ authorizationUrl: string }>(
+            `/auth/oauth/${provider}`,
+            {}
+        )
+
+        if (!response.success) {
+            throw new Error(response.error.message)
+        }
+
+        return response.data.authorizationUrl
+    }
+
+    /**
+     * 完成第三方登录（身份提供方回调后提交授权码）
+     * 
+     * @param provider - 第三方登录方式标识
+     * @param payload - 回调地址中的 code 和 state
+     * @returns 用户信息和 Token；开启两步验证或高风险登录时返回验证挑战
+     * @throws {ApiClientError} 当授权已失效、邮箱冲突或登录失败时抛出错误
+     */
+    async completeOAuth(
+        provider: string,
+        payload: OAuthCallbackPayload
+    ): Promise<LoginResult> {
+        const response = await apiClient.post<LoginResult>(
+            `/auth/oauth/${provider}/callback`,
+            payload
+        )
+
+        if (!response.success) {
+            throw new Error(response.error.message)
+        }
+
+        return response.data
+    }
+
+    /**
+     * 发送登录链接
+     * 
+     * @param email - 登录邮箱
+     * @returns 轮询令牌和链接过期时间
+     * @throws {ApiClientError} 当发送过于频繁或邮件发送失败时抛出错误
+     */
+    async sendMagicLink(email: string): Promise<MagicLinkRequest> {
+        const response = await apiClient.post<MagicLinkRequest>('/auth/magic/send', { email })
+
+        if (!response.success) {
+            throw new Error(response.error.message)
+        }
+
+        return response.data
+    }
+
+    /**
+     * 确认登录链接（点击链接后重定向到前端确认页面，用户点击确认后提交地址栏中的 token）
+     * 
+     * @param token - 重定向地址中的登录链接令牌
+     * @returns 一次性换取令牌，用于在当前浏览器登录
+     * @throws {ApiClientError} 当链接已失效或已被确认时抛出错误
+     */
+    async confirmMagicLink(token: string): Promise<MagicLinkConfirmResult> {
+        const response = await apiClient.post<MagicLinkConfirmResult>('/auth/magic/confirm', { token })
+
+        if (!response.success) {
+            throw new Error(response.error.message)
+        }
+
+        return response.data
+    }
+
+    /**
+     * 使用登录链接在当前浏览器完成登录（提交确认登录链接时返回的 code）
+     * 
+     * @param code - 一次性换取令牌
+     * @returns 用户信息和 Token；开启两步验证时返回验证挑战
+     * @throws {ApiClientError} 当链接已失效、或发起请求的页面已完成登录时抛出错误
+     */
+    async completeMagicLink(code: string): Promise<LoginResult> {
+        const response = await apiClient.post<LoginResult>('/auth/magic/exchange', { code })
+
+        if (!response.success) {
+            throw new Error(response.error.message)
+        }
+
+        return response.data
+    }
+
+    /**
+     * 轮询登录链接结果（在其他设备上点击链接并确认后，发起请求的页面完成登录）
+     * 
+     * @param pollToken - 发送登录链接时返回的轮询令牌
+     * @returns 链接尚未确认时返回 pending，确认后返回登录结果
+     * @throws {ApiClientError} 当链接已过期、或已在点击链接的浏览器完成登录时抛出错误
+     */
+    async pollMagicLink(pollToken: string): Promise<MagicLinkPollResult> {
+        const response = await apiClient.post<MagicLinkPollResult>('/auth/magic/poll', { pollToken })
+
+        if (!response.success) {
+            throw new Error(response.error.message)
+        }
+
+        return response.data
+    }
+
+    /**
+     * 使用邮箱和密码注册（注册成功后直接登录）
+     * 
+     * @param payload - 注册信息（姓名、邮箱和密码）
+     * @returns 用户信息和 Token
+     * @throws {ApiClientError} 当注册失败（如邮箱已被注册）时抛出错误
+     */
+    async register(
+        payload: RegisterPayload
+    ): Promise<AuthResponse> {
+        const response = await apiClient.post<AuthResponse>(
+            '/auth/register',
             payload
         )
 
@@ -58,12 +319,61 @@ class AuthService {
      * 发送邮箱验证码
      * 
      * @param email - 邮箱地址
+     * @param challenge - 人机验证解答
      * @throws {ApiClientError} 当发送失败时抛出错误
+     * 
+     * @description 服务端要求工作量证明时自动求解并重新发送；要求 CAPTCHA 时抛出错误（details.challenge 包含站点密钥）
+     */
+    async sendVerificationCode(email: string, challenge?: BotChallengeSolution): Promise<void> {
+        try {
+            const response = await apiClient.post<void>(
+                '/auth/send-code',
+                challenge ? { email, challenge } : { email }
+            )
+
+            if (!response.success) {
+                throw new Error(response.error.message)
+            }
+        } catch (error) {
+            const details = error instanceof ApiClientError && error.code === CHALLENGE_REQUIRED_CODE
+                ? error.details as { challenge?: BotChallenge } | undefined
+                : undefined
+            const pow = details?.challenge
+            if (challenge || pow?.type !== 'pow' || !pow.token || !pow.difficulty) {
+                throw error
+            }
+
+            const nonce = await solveProofOfWork(pow.token, pow.difficulty)
+            await this.sendVerificationCode(email, { token: pow.token, nonce })
+        }
+    }
+
+    /**
+     * 退出登录（吊销服务端的访问令牌和刷新令牌）
+     * 
+     * @param refreshToken - 当前设备的刷新令牌
+     * @throws {ApiClientError} 当退出失败时抛出错误
+     */
+    async logout(refreshToken?: string | null): Promise<void> {
+        const response = await apiClient.post<null>(
+            '/auth/logout',
+            refreshToken ? { refreshToken } : {}
+        )
+
+        if (!response.success) {
+            throw new Error(response.error.message)
+        }
+    }
+
+    /**
+     * 退出所有设备
+     * 
+     * @throws {ApiClientError} 当退出失败时抛出错误
      */
-    async sendVerificationCode(email: string): Promise<void> {
-        const response = await apiClient.post<void>(
-            '/auth/send-code',
-            { email }
+    async logoutAll(): Promise<void> {
+        const response = await apiClient.post<{ revokedBefore: string }>(
+            '/auth/logout-all',
+            {}
         )
 
         if (!response.success) {
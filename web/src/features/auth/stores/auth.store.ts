@@ -5,10 +5,11 @@ import type { User } from '[@BASE]/features/auth/types/auth.types'
 interface AuthStore {
     user: User | null
     token: string | null
+    refreshToken: string | null
     isAuthenticated: boolean
     _hasHydrated: boolean
 
-    login: (user: User, token: string) => void
+    login: (user: User, token: string, refreshToken?: string) => void
     logout: () => void
     setHasHydrated: (state: boolean) => void
 }
@@ -18,18 +19,22 @@ export const useAuthStore = create<AuthStore>()(
         (set) => ({
             user: null,
             token: null,
+            refreshToken: null,
             isAuthenticated: false,
             _hasHydrated: false,
 
-            login: (user: User, token: string) => set({
+            // 未传入 refreshToken 时（如更新资料）保留已有的刷新令牌
+            login: (user: User, token: string, refreshToken?: string) => set((state) => ({
                 user,
                 token,
+                refreshToken: refreshToken ?? state.refreshToken,
                 isAuthenticated: true
-            }),
+            })),
 
             logout: () => set({
                 user: null,
                 token: null,
+                refreshToken: null,
                 isAuthenticated: false
             }),
 
@@ -9,6 +9,12 @@ export interface LoginWithPasswordPayload {
     password: string
 }
 
+export interface RegisterPayload {
+    name: string
+    email: string
+    password: string
+}
+
 export interface LoginWithCodePayload {
     email: string
     code: string
@@ -17,4 +23,93 @@ export interface LoginWithCodePayload {
 export interface AuthResponse {
     user: User
     token: string
-}
\ No newline at end of file
+    tokenExpiresAt: string
+    refreshToken: string
+    refreshTokenExpiresAt: string
+}
+
+/**
+ * 登录验证挑战（凭据正确，但需要完成额外验证后才签发令牌）
+ * - email_otp：高风险登录，输入发送到邮箱的验证码
+ * - totp：已开启两步验证，输入验证器 App 的动态码或恢复码
+ * - account_restore：账号已申请注销且仍在宽限期内，确认后恢复账号（accountPurgeAt 为永久删除时间）
+ */
+export interface LoginChallengeResponse {
+    challengeRequired: true
+    challengeType: 'email_otp' | 'totp' | 'account_restore'
+    challengeToken: string
+    challengeExpiresAt: string
+    accountPurgeAt?: string
+}
+
+/**
+ * 登录结果：直接登录成功，或需要完成额外验证
+ */
+export type LoginResult = AuthResponse | LoginChallengeResponse
+
+export interface VerifyLoginChallengePayload {
+    challengeToken: string
+    code: string
+}
+
+/**
+ * 第三方登录方式（服务端已启用的 OIDC 身份提供方）
+ */
+export interface OAuthProvider {
+    id: string
+    name: string
+}
+
+/**
+ * 第三方登录回调参数（身份提供方回调到前端页面时携带）
+ */
+export interface OAuthCallbackPayload {
+    code: string
+    state: string
+}
+
+/**
+ * 人机验证挑战（发送验证码返回 AUTH_CHALLENGE_REQUIRED 时的 details.challenge）
+ */
+export interface BotChallenge {
+    type: 'pow' | 'hcaptcha' | 'turnstile'
+    /** 工作量证明：挑战令牌 */
+    token?: string
+    /** 工作量证明：前导零比特数 */
+    difficulty?: number
+    expiresAt?: string
+    /** CAPTCHA：站点密钥 */
+    siteKey?: string
+}
+
+/**
+ * 人机验证解答
+ */
+export interface BotChallengeSolution {
+    /** 工作量证明的挑战令牌，或 CAPTCHA 组件返回的响应令牌 */
+    token: string
+    /** 工作量证明找到的随机数 */
+    nonce?: string
+}
+
+/**
+ * 登录链接请求（发起请求的页面用 pollToken 轮询登录结果）
+ */
+export interface MagicLinkRequest {
+    pollToken: string
+    expiresAt: string
+}
+
+/**
+ * 登录链接确认结果（code 用于在点击链接的浏览器登录）
+ */
+export interface MagicLinkConfirmResult {
+    code: string
+}
+
+/**
+ * 登录链接轮询结果：链接尚未确认，或已确认并完成登录
+ */
+export type MagicLinkPollResult =
+    | { status: 'pending' }
+    | { status: 'completed'; result: LoginResult }
@@ -7,13 +7,29 @@
 
 import { apiClient } from '[@BASE]/lib/api/client'
 import { ENDPOINTS } from '[@BASE]/lib/api/endpoints'
+import { createPasskey } from '[@BASE]/lib/utils/webauthn'
+import type { PasskeyRegistrationOptions } from '[@BASE]/lib/utils/webauthn'
 import type {
     UserProfile,
     UpdateProfileData,
     UpdateAvatarData,
     ChangePasswordData,
+    SetPasswordData,
     SendEmailCodeData,
     ChangeEmailData,
+    VerifyEmailData,
+    LoginHistoryParams,
+    LoginHistoryPage,
+    MfaStatus,
+    TotpEnrollment,
+    RecoveryCodes,
+    MfaCodeData,
+    Passkey,
+    ApiKey,
+    CreatedApiKey,
+    CreateApiKeyData,
+    AccountDeletionResult,
+    DataExportInfo,
 } from '../types/profile.types'
 
 /**
@@ -94,6 +110,38 @@ class ProfileService {
         }
     }
 
+    /**
+     * 发送设置密码验证码（发送到当前邮箱）
+     * 
+     * @throws {ApiClientError} 当请求失败时抛出错误
+     */
+    async sendSetPasswordCode(): Promise<void> {
+        const response = await apiClient.post<void>(
+            ENDPOINTS.users.sendSetPasswordCode()
+        )
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '发送验证码失败')
+        }
+    }
+
+    /**
+     * 设置密码（尚未设置密码的用户）
+     * 
+     * @param data - 验证码和新密码
+     * @throws {ApiClientError} 当请求失败时抛出错误
+     */
+    async setPassword(data: SetPasswordData): Promise<void> {
+        const response = await apiClient.post<void>(
+            ENDPOINTS.users.setMyPassword(),
+            data
+        )
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '设置密码失败')
+        }
+    }
+
     /**
      * 发送邮箱验证码（用于更换邮箱）
      * 
@@ -130,6 +178,282 @@ class ProfileService {
 
         return response.data
     }
+
+    /**
+     * 发送验证当前邮箱的验证码
+     * 
+     * @throws {ApiClientError} 当邮箱已验证或请求失败时抛出错误
+     */
+    async sendVerifyEmailCode(): Promise<void> {
+        const response = await apiClient.post<void>(ENDPOINTS.users.sendVerifyEmailCode())
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '发送验证码失败')
+        }
+    }
+
+    /**
+     * 验证当前邮箱
+     * 
+     * @param data - 验证码数据
+     * @throws {ApiClientError} 当验证码错误或请求失败时抛出错误
+     */
+    async verifyEmail(data: VerifyEmailData): Promise<void> {
+        const response = await apiClient.post<void>(ENDPOINTS.users.verifyEmail(), data)
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '验证邮箱失败')
+        }
+    }
+
+    /**
+     * 获取登录历史
+     * 
+     * @param params - 分页和筛选参数
+     * @returns 登录记录和下一页游标
+     * @throws {ApiClientError} 当请求失败时抛出错误
+     */
+    async getLoginHistory(params?: LoginHistoryParams): Promise<LoginHistoryPage> {
+        const response = await apiClient.get<LoginHistoryPage>(
+            ENDPOINTS.users.myLoginHistory(params)
+        )
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '获取登录历史失败')
+        }
+
+        return response.data
+    }
+
+    /**
+     * 获取两步验证状态
+     * 
+     * @returns 是否已开启及剩余恢复码数量
+     * @throws {ApiClientError} 当请求失败时抛出错误
+     */
+    async getMfaStatus(): Promise<MfaStatus> {
+        const response = await apiClient.get<MfaStatus>(ENDPOINTS.users.myMfa())
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '获取两步验证状态失败')
+        }
+
+        return response.data
+    }
+
+    /**
+     * 开始绑定 TOTP 两步验证
+     * 
+     * @returns 密钥和 otpauth URI
+     * @throws {ApiClientError} 当请求失败时抛出错误
+     */
+    async startTotpEnrollment(): Promise<TotpEnrollment> {
+        const response = await apiClient.post<TotpEnrollment>(
+            ENDPOINTS.users.startTotpEnrollment()
+        )
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '获取两步验证密钥失败')
+        }
+
+        return response.data
+    }
+
+    /**
+     * 确认绑定 TOTP 两步验证
+     * 
+     * @param data - 验证器 App 生成的动态码
+     * @returns 一次性恢复码
+     * @throws {ApiClientError} 当请求失败时抛出错误
+     */
+    async confirmTotp(data: MfaCodeData): Promise<RecoveryCodes> {
+        const response = await apiClient.post<RecoveryCodes>(
+            ENDPOINTS.users.confirmTotp(),
+            data
+        )
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '开启两步验证失败')
+        }
+
+        return response.data
+    }
+
+    /**
+     * 关闭 TOTP 两步验证
+     * 
+     * @param data - 动态码或恢复码
+     * @throws {ApiClientError} 当请求失败时抛出错误
+     */
+    async disableTotp(data: MfaCodeData): Promise<void> {
+        const response = await apiClient.post(ENDPOINTS.users.disableTotp(), data)
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '关闭两步验证失败')
+        }
+    }
+
+    /**
+     * 重新生成两步验证恢复码
+     * 
+     * @param data - 动态码或恢复码
+     * @returns 新的一次性恢复码
+     * @throws {ApiClientError} 当请求失败时抛出错误
+     */
+    async regenerateRecoveryCodes(data: MfaCodeData): Promise<RecoveryCodes> {
+        const response = await apiClient.post<RecoveryCodes>(
+            ENDPOINTS.users.regenerateRecoveryCodes(),
+            data
+        )
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '重新生成恢复码失败')
+        }
+
+        return response.data
+    }
+
+    /**
+     * 获取通行密钥列表
+     * 
+     * @returns 当前用户的通行密钥（按添加时间倒序）
+     * @throws {ApiClientError} 当请求失败时抛出错误
+     */
+    async getPasskeys(): Promise<Passkey[]> {
+        const response = await apiClient.get<Passkey[]>(ENDPOINTS.auth.passkeys())
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '获取通行密钥失败')
+        }
+
+        return response.data
+    }
+
+    /**
+     * 添加通行密钥
+     * 
+     * @param name - 通行密钥名称（可选）
+     * @returns 新添加的通行密钥
+     * @throws {Error} 当用户取消、该设备已添加过或注册失败时抛出错误
+     */
+    async registerPasskey(name?: string): Promise<Passkey> {
+        const optionsResponse = await apiClient.post<PasskeyRegistrationOptions>(
+            ENDPOINTS.auth.passkeyRegisterOptions(),
+            {}
+        )
+
+        if (!optionsResponse.success) {
+            throw new Error(optionsResponse.error?.message || '添加通行密钥失败')
+        }
+
+        const credential = await createPasskey(optionsResponse.data)
+
+        const response = await apiClient.post<Passkey>(
+            ENDPOINTS.auth.passkeyRegister(),
+            { name, credential }
+        )
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '添加通行密钥失败')
+        }
+
+        return response.data
+    }
+
+    /**
+     * 删除通行密钥
+     * 
+     * @param id - 通行密钥ID
+     * @throws {ApiClientError} 当请求失败时抛出错误
+     */
+    async deletePasskey(id: string): Promise<void> {
+        const response = await apiClient.delete(ENDPOINTS.auth.deletePasskey(id))
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '删除通行密钥失败')
+        }
+    }
+
+    /**
+     * 获取 API 密钥列表
+     * 
+     * @returns API 密钥列表（包含已吊销的密钥）
+     * @throws {ApiClientError} 当请求失败时抛出错误
+     */
+    async getApiKeys(): Promise<ApiKey[]> {
+        const response = await apiClient.get<ApiKey[]>(ENDPOINTS.users.myApiKeys())
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '获取 API 密钥失败')
+        }
+
+        return response.data
+    }
+
+    /**
+     * 创建 API 密钥
+     * 
+     * @param data - 名称、权限范围和有效天数
+     * @returns 新创建的密钥（key 为密钥明文，只返回这一次）
+     * @throws {ApiClientError} 当密钥数量已达上限或请求失败时抛出错误
+     */
+    async createApiKey(data: CreateApiKeyData): Promise<CreatedApiKey> {
+        const response = await apiClient.post<CreatedApiKey>(ENDPOINTS.users.createApiKey(), data)
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '创建 API 密钥失败')
+        }
+
+        return response.data
+    }
+
+    /**
+     * 吊销 API 密钥
+     * 
+     * @param id - API 密钥ID
+     * @throws {ApiClientError} 当请求失败时抛出错误
+     */
+    async revokeApiKey(id: string): Promise<void> {
+        const response = await apiClient.delete(ENDPOINTS.users.revokeApiKey(id))
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '吊销 API 密钥失败')
+        }
+    }
+
+    /**
+     * 注销当前账号
+     * 
+     * @description 需要在最近登录后的一段时间内操作；注销后所有会话立即失效，宽限期内重新登录可以恢复账号
+     * @returns 注销时间和永久删除时间
+     * @throws {ApiClientError} 当需要重新登录或请求失败时抛出错误
+     */
+    async deleteAccount(): Promise<AccountDeletionResult> {
+        const response = await apiClient.delete<AccountDeletionResult>(ENDPOINTS.users.deleteMe())
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '注销账号失败')
+        }
+
+        return response.data
+    }
+
+    /**
+     * 导出个人数据
+     * 
+     * @description 后台生成压缩包（JSON + CSV），完成后下载链接会发送到当前邮箱
+     * @returns 导出任务
+     * @throws {ApiClientError} 当已有进行中的导出或请求失败时抛出错误
+     */
+    async exportData(): Promise<DataExportInfo> {
+        const response = await apiClient.post<DataExportInfo>(ENDPOINTS.users.exportMe())
+
+        if (!response.success) {
+            throw new Error(response.error?.message || '导出个人数据失败')
+        }
+
+        return response.data
+    }
 }
 
 export const profileService = new ProfileService()
@@ -16,10 +16,13 @@
  * @property {string | null} bio - 个人简介
  * @property {string | null} phone - 手机号
  * @property {string | null} status - 用户状态
+ * @property {'user' | 'admin'} role - 角色
  * @property {boolean | null} email_verified - 邮箱是否已验证
  * @property {string | null} created_at - 创建时间
  * @property {string | null} updated_at - 更新时间
  * @property {string | null} last_login_at - 最后登录时间
+ * @property {boolean} has_password - 是否已设置密码（验证码登录的用户默认未设置）
+ * @property {ImpersonatorInfo | null} [impersonator] - 管理员模拟登录时为实际操作的管理员（仅获取当前用户资料时返回）
  */
 export interface UserProfile {
     id: string
@@ -29,10 +32,26 @@ export interface UserProfile {
     bio: string | null
     phone: string | null
     status: string | null
+    role: 'user' | 'admin'
     email_verified: boolean | null
     created_at: string | null
     updated_at: string | null
     last_login_at: string | null
+    has_password: boolean
+    impersonator?: ImpersonatorInfo | null
+}
+
+/**
+ * 模拟登录的管理员
+ * 
+ * @interface
+ * @property {string} id - 管理员ID
+ * @property {string} email - 管理员邮箱
+ * @description 模拟登录期间不能修改密码、邮箱、两步验证等凭据或注销账号
+ */
+export interface ImpersonatorInfo {
+    id: string
+    email: string
 }
 
 /**
@@ -71,6 +90,18 @@ export interface ChangePasswordData {
     new_password: string
 }
 
+/**
+ * 设置密码请求数据
+ * 
+ * @interface
+ * @property {string} code - 发送到当前邮箱的验证码（6位数字）
+ * @property {string} new_password - 新密码
+ */
+export interface SetPasswordData {
+    code: string
+    new_password: string
+}
+
 /**
  * 发送邮箱验证码请求数据
  * 
@@ -92,3 +123,216 @@ export interface ChangeEmailData {
     new_email: string
     code: string
 }
+
+/**
+ * 验证邮箱请求数据
+ * 
+ * @interface
+ * @property {string} code - 发送到当前邮箱的验证码（6位数字）
+ */
+export interface VerifyEmailData {
+    code: string
+}
+
+/**
+ * 登录记录
+ * 
+ * @interface
+ * @property {string} id - 记录ID
+ * @property {string} login_method - 登录方式：password / verification_code / oauth / sso / passkey / magic_link
+ * @property {string | null} device_type - 设备类型
+ * @property {string | null} os - 操作系统
+ * @property {string | null} browser - 浏览器
+ * @property {string | null} ip_address - IP地址
+ * @property {string} location - 登录地点（未知时为“未知”）
+ * @property {'success' | 'failed'} status - 登录状态
+ * @property {string | null} failure_reason - 失败原因（错误码）
+ * @property {string} created_at - 登录时间
+ */
+export interface LoginHistoryItem {
+    id: string
+    login_method: string
+    device_type: string | null
+    os: string | null
+    browser: string | null
+    ip_address: string | null
+    location: string
+    status: 'success' | 'failed'
+    failure_reason: string | null
+    created_at: string
+}
+
+/**
+ * 登录历史查询参数
+ * 
+ * @interface
+ * @property {number} [limit] - 每页数量（1-50，默认 20）
+ * @property {string} [cursor] - 分页游标（上一页返回的 next_cursor）
+ * @property {'success' | 'failed'} [status] - 按登录状态筛选
+ * @property {string} [method] - 按登录方式筛选
+ */
+export interface LoginHistoryParams {
+    limit?: number
+    cursor?: string
+    status?: 'success' | 'failed'
+    method?: 'password' | 'verification_code' | 'oauth' | 'sso' | 'passkey' | 'magic_link'
+}
+
+/**
+ * 登录历史分页结果
+ * 
+ * @interface
+ * @property {LoginHistoryItem[]} items - 登录记录，按时间倒序
+ * @property {string | null} next_cursor - 下一页游标，没有更多数据时为 null
+ */
+export interface LoginHistoryPage {
+    items: LoginHistoryItem[]
+    next_cursor: string | null
+}
+
+/**
+ * 两步验证状态
+ * 
+ * @interface
+ * @property {boolean} totp_enabled - 是否已开启 TOTP 两步验证
+ * @property {number} recovery_codes_remaining - 剩余可用的恢复码数量
+ */
+export interface MfaStatus {
+    totp_enabled: boolean
+    recovery_codes_remaining: number
+}
+
+/**
+ * TOTP 绑定信息
+ * 
+ * @interface
+ * @property {string} secret - Base32 编码的密钥（无法扫码时手动输入）
+ * @property {string} otpauth_uri - otpauth:// URI（用于生成二维码）
+ */
+export interface TotpEnrollment {
+    secret: string
+    otpauth_uri: string
+}
+
+/**
+ * 一次性恢复码
+ * 
+ * @interface
+ * @property {string[]} recovery_codes - 恢复码明文（只返回这一次）
+ */
+export interface RecoveryCodes {
+    recovery_codes: string[]
+}
+
+/**
+ * 两步验证码数据
+ * 
+ * @interface
+ * @property {string} code - 6 位动态码（关闭两步验证、重新生成恢复码时也可使用恢复码）
+ */
+export interface MfaCodeData {
+    code: string
+}
+
+/**
+ * 通行密钥
+ * 
+ * @interface
+ * @property {string} id - 通行密钥ID
+ * @property {string | null} name - 名称
+ * @property {string[]} transports - 认证器传输方式（internal、hybrid、usb 等）
+ * @property {boolean} backed_up - 是否已同步到云端（多设备通行密钥）
+ * @property {string | null} created_at - 添加时间
+ * @property {string | null} last_used_at - 最近一次登录时间
+ */
+export interface Passkey {
+    id: string
+    name: string | null
+    transports: string[]
+    backed_up: boolean
+    created_at: string | null
+    last_used_at: string | null
+}
+
+/**
+ * API 密钥权限范围
+ * 
+ * @description users:read 用于 GET 请求，users:write 用于修改资料等其余请求
+ */
+export type ApiKeyScope = 'users:read' | 'users:write'
+
+/**
+ * 个人 API 密钥（脚本和 CI 通过 `Authorization: ApiKey <key>` 调用 /api/users/*）
+ * 
+ * @interface
+ * @property {string} id - API 密钥ID
+ * @property {string} name - 名称
+ * @property {string} prefix - 密钥前缀（用于识别密钥）
+ * @property {ApiKeyScope[]} scopes - 权限范围
+ * @property {string | null} expires_at - 过期时间（为空表示永不过期）
+ * @property {string | null} last_used_at - 最近使用时间
+ * @property {string | null} last_used_ip - 最近使用 IP
+ * @property {string | null} revoked_at - 吊销时间
+ * @property {string | null} created_at - 创建时间
+ */
+export interface ApiKey {
+    id: string
+    name: string
+    prefix: string
+    scopes: ApiKeyScope[]
+    expires_at: string | null
+    last_used_at: string | null
+    last_used_ip: string | null
+    revoked_at: string | null
+    created_at: string | null
+}
+
+/**
+ * 新创建的 API 密钥
+ * 
+ * @interface
+ * @property {string} key - 密钥明文（只在创建时返回一次）
+ */
+export interface CreatedApiKey extends ApiKey {
+    key: string
+}
+
+/**
+ * 创建 API 密钥请求数据
+ * 
+ * @interface
+ * @property {string} name - 名称（1-50 个字符）
+ * @property {ApiKeyScope[]} scopes - 权限范围（至少一个）
+ * @property {number} [expiresInDays] - 有效天数（1-365，不传表示永不过期）
+ */
+export interface CreateApiKeyData {
+    name: string
+    scopes: ApiKeyScope[]
+    expiresInDays?: number
+}
+
+/**
+ * 账号注销结果
+ * 
+ * @interface
+ * @property {string} deleted_at - 申请注销时间
+ * @property {string} purge_after - 永久删除时间（在此之前重新登录可以恢复账号）
+ */
+export interface AccountDeletionResult {
+    deleted_at: string
+    purge_after: string
+}
+
+/**
+ * 个人数据导出任务
+ * 
+ * @interface
+ * @property {string} id - 导出任务ID
+ * @property {'pending' | 'processing' | 'completed' | 'failed'} status - 任务状态
+ * @property {string | null} created_at - 申请时间
+ */
+export interface DataExportInfo {
+    id: string
+    status: 'pending' | 'processing' | 'completed' | 'failed'
+    created_at: string | null
+}
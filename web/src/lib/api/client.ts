@@ -7,6 +7,7 @@ import {
     createDefaultErrorInterceptors,
     createTokenRefreshInterceptor,
 } from './interceptors'
+import type { ErrorInterceptor } from './interceptors'
 import { toast } from 'sonner'
 
 /**
@@ -63,9 +64,13 @@ class ApiClient {
     /** 拦截器管理器 */
     public interceptors: InterceptorManager
 
+    /** Token 刷新（不在错误拦截器链中：需要先于默认的 401 拦截器执行，成功后重试原请求） */
+    private refreshToken: ErrorInterceptor
+
     constructor(baseURL: string) {
         this.baseURL = baseURL
         this.interceptors = new InterceptorManager()
+        this.refreshToken = createTokenRefreshInterceptor(this.buildURL('/auth/refresh'))
 
         // 初始化默认拦截器
         this.setupDefaultInterceptors()
@@ -93,11 +98,6 @@ class ApiClient {
         errorInterceptors.forEach((interceptor) => {
             this.interceptors.addErrorInterceptor(interceptor)
         })
-
-        // 添加 Token 刷新拦截器
-        this.interceptors.addErrorInterceptor(
-            createTokenRefreshInterceptor('/auth/refresh')
-        )
     }
 
     /**
@@ -231,6 +231,7 @@ class ApiClient {
      * 
      * @param url - 请求 URL
      * @param config - 请求配置
+     * @param isAuthRetry - 是否为刷新 Token 后的重试（只重试一次）
      * @returns Promise<ApiResponse<T>>
      * @throws {ApiClientError} 当所有重试都失败时抛出错误
      * @private
@@ -241,7 +242,8 @@ class ApiClient {
      */
     private async executeRequest<T>(
         url: string,
-        config: RequestConfig
+        config: RequestConfig,
+        isAuthRetry: boolean = false
     ): Promise<ApiResponse<T>> {
         const {
             timeout = this.defaultTimeout,
@@ -295,6 +297,25 @@ class ApiClient {
                     )
                 }
 
+                // access token 过期：刷新后使用新 Token 重试原请求；刷新失败时继续执行错误拦截器（退出登录）
+                const headers = config.headers as Record<string, string> | undefined
+                if (
+                    lastError instanceof ApiClientError &&
+                    lastError.status === 401 &&
+                    headers?.Authorization &&
+                    !isAuthRetry
+                ) {
+                    const token = await Promise.resolve(this.refreshToken(lastError)).catch(() => null)
+                    if (token) {
+                        // 重试的请求自身失败时会执行错误拦截器
+                        return this.executeRequest<T>(
+                            url,
+                            { ...config, headers: { ...headers, Authorization: `Bearer ${token}` } },
+                            true
+                        )
+                    }
+                }
+
                 // 执行错误拦截器
                 try {
                     await this.interceptors.runErrorInterceptors(lastError)
@@ -303,8 +324,8 @@ class ApiClient {
                 }
                 
                 // 如果是 ApiClientError，显示 toast 提示（错误拦截器可能已经处理了某些情况）
-                if (lastError instanceof ApiClientError && lastError.status !== 401 && lastError.status !== 403) {
-                    // 401 和 403 已经在错误拦截器中处理了 toast
+                if (lastError instanceof ApiClientError && ![401, 403, 428].includes(lastError.status ?? 0)) {
+                    // 401 和 403 已经在错误拦截器中处理了 toast；428（需要人机验证）由调用方求解挑战后重试
                     if (lastError.status !== 500 && lastError.status !== undefined && lastError.status < 500) {
                         toast.error(lastError.message || '请求失败')
                     }
@@ -41,6 +41,12 @@ export const AUTH_ENDPOINTS = {
     /** 登出 */
     logout: () => '/auth/logout',
 
+    /** 退出所有设备 */
+    logoutAll: () => '/auth/logout-all',
+
+    /** 恢复注销中的账号并继续登录 */
+    restoreAccount: () => '/auth/login/restore',
+
     /** 刷新 Token */
     refresh: () => '/auth/refresh',
 
@@ -59,11 +65,38 @@ export const AUTH_ENDPOINTS = {
     /** 修改密码 */
     changePassword: () => '/auth/change-password',
 
+    /** 获取已启用的 OAuth 登录方式 */
+    oauthProviders: () => '/auth/oauth/providers',
+
     /** OAuth 登录 */
     oauth: (provider: string) => `/auth/oauth/${provider}`,
 
     /** OAuth 回调 */
     oauthCallback: (provider: string) => `/auth/oauth/${provider}/callback`,
+
+    /** 发送登录链接 */
+    magicLinkSend: () => '/auth/magic/send',
+
+    /** 确认登录链接 */
+    magicLinkConfirm: () => '/auth/magic/confirm',
+
+    /** 登录链接换取令牌 */
+    magicLinkExchange: () => '/auth/magic/exchange',
+
+    /** 轮询登录链接结果 */
+    magicLinkPoll: () => '/auth/magic/poll',
+
+    /** 获取通行密钥注册选项 */
+    passkeyRegisterOptions: () => '/auth/webauthn/register/options',
+
+    /** 注册通行密钥 */
+    passkeyRegister: () => '/auth/webauthn/register/verify',
+
+    /** 获取当前用户的通行密钥列表 */
+    passkeys: () => '/auth/webauthn/credentials',
+
+    /** 删除通行密钥 */
+    deletePasskey: (id: string) => `/auth/webauthn/credentials/${id}`,
 } as const
 
 /**
@@ -120,17 +153,67 @@ export const USER_ENDPOINTS = {
     /** 更新当前用户资料 */
     updateMe: () => '/users/me',
 
+    /** 注销当前账号 */
+    deleteMe: () => '/users/me',
+
+    /** 导出个人数据 */
+    exportMe: () => '/users/me/export',
+
     /** 更新当前用户头像 */
     updateMyAvatar: () => '/users/me/avatar',
 
     /** 修改当前用户密码 */
     changeMyPassword: () => '/users/me/password',
 
+    /** 发送设置密码验证码（尚未设置密码的用户） */
+    sendSetPasswordCode: () => '/users/me/password/send-code',
+
+    /** 设置当前用户密码（尚未设置密码的用户） */
+    setMyPassword: () => '/users/me/password',
+
     /** 发送邮箱验证码（用于更换邮箱） */
     sendEmailCode: () => '/users/me/email/send-code',
 
     /** 确认更换邮箱 */
     changeEmail: () => '/users/me/email',
+
+    /** 发送验证当前邮箱的验证码 */
+    sendVerifyEmailCode: () => '/users/me/email/verify/send-code',
+
+    /** 验证当前邮箱 */
+    verifyEmail: () => '/users/me/email/verify',
+
+    /** 获取当前用户登录历史（游标分页） */
+    myLoginHistory: (params?: {
+        limit?: number
+        cursor?: string
+        status?: 'success' | 'failed'
+        method?: 'password' | 'verification_code' | 'oauth' | 'sso' | 'passkey' | 'magic_link'
+    }) => `/users/me/login-history${buildQueryParams(params)}`,
+
+    /** 获取当前用户两步验证状态 */
+    myMfa: () => '/users/me/mfa',
+
+    /** 开始绑定 TOTP 两步验证 */
+    startTotpEnrollment: () => '/users/me/mfa/totp',
+
+    /** 确认绑定 TOTP 两步验证 */
+    confirmTotp: () => '/users/me/mfa/totp/confirm',
+
+    /** 关闭 TOTP 两步验证 */
+    disableTotp: () => '/users/me/mfa/totp/disable',
+
+    /** 重新生成两步验证恢复码 */
+    regenerateRecoveryCodes: () => '/users/me/mfa/recovery-codes',
+
+    /** 获取当前用户的 API 密钥列表 */
+    myApiKeys: () => '/users/me/api-keys',
+
+    /** 创建 API 密钥 */
+    createApiKey: () => '/users/me/api-keys',
+
+    /** 吊销 API 密钥 */
+    revokeApiKey: (id: string) => `/users/me/api-keys/${id}`,
 } as const
 
 /**
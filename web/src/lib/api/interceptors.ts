@@ -229,7 +229,7 @@ export const createDefaultResponseInterceptors = () => {
 export const createDefaultErrorInterceptors = () => {
     const interceptors: ErrorInterceptor[] = []
 
-    // 1. 401 未认证处理
+    // 1. 401 未认证处理（ApiClient 先尝试刷新 Token 并重试，刷新失败或重试仍为 401 时才会执行到这里）
     interceptors.push((error) => {
         if (error?.status === 401) {
             // 清除认证信息
@@ -250,6 +250,16 @@ export const createDefaultErrorInterceptors = () => {
 
     // 2. 403 权限不足处理
     interceptors.push((error) => {
+        // 账号已被禁用（未激活、已暂停或已删除）：当前登录不再可用，清除认证信息并回到登录页
+        if (error?.status === 403 && error?.code === '10-0005') {
+            if (typeof window !== 'undefined' && localStorage.getItem('auth-storage')) {
+                localStorage.removeItem('auth-storage')
+                toast.error(error.message || '账号已被禁用')
+                window.location.href = '/login'
+            }
+            throw error
+        }
+
         if (error?.status === 403) {
             console.error('Permission denied:', error)
             toast.error('权限不足，无法执行此操作')
@@ -285,112 +295,102 @@ export const createDefaultErrorInterceptors = () => {
 /**
  * Token 刷新拦截器
  * 自动刷新过期的 access token
+ *
+ * 返回新的 access token，由 ApiClient 使用新 token 重试原请求；
+ * 刷新失败时清除认证信息并抛出错误，跳转登录页由默认的 401 错误拦截器处理
  */
-let isRefreshing = false
-let refreshSubscribers: Array<(token: string) => void> = []
+let refreshPromise: Promise<string> | null = null
 
-const subscribeTokenRefresh = (callback: (token: string) => void) => {
-    refreshSubscribers.push(callback)
+/**
+ * 读取持久化的 refresh token
+ */
+const getStoredRefreshToken = (): string | null => {
+    if (typeof window === 'undefined') return null
+
+    try {
+        const authStorage = localStorage.getItem('auth-storage')
+        if (authStorage) {
+            const { state } = JSON.parse(authStorage)
+            return state?.refreshToken || null
+        }
+    } catch (err) {
+        console.error('Failed to get refresh token:', err)
+    }
+    return null
 }
 
-const onTokenRefreshed = (token: string) => {
-    refreshSubscribers.forEach((callback) => callback(token))
-    refreshSubscribers = []
-}
+/**
+ * 调用刷新接口并保存新的 token
+ */
+const refreshAccessToken = async (refreshEndpoint: string, refreshToken: string): Promise<string> => {
+    try {
+        const response = await fetch(refreshEndpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ refreshToken }),
+        })
 
-export const createTokenRefreshInterceptor = (
-    refreshEndpoint: string = '/auth/refresh'
-): ErrorInterceptor => {
-    return async (error) => {
-        // 只处理 401 错误
-        if (error?.status !== 401) {
-            throw error
+        if (!response.ok) {
+            throw new Error('Token refresh failed')
         }
 
-        // 获取 refresh token
-        const refreshToken = (() => {
-            if (typeof window === 'undefined') return null
+        const data = await response.json()
+        const newToken = data.data?.token || data.token
+
+        if (!newToken) {
+            throw new Error('No token in refresh response')
+        }
 
+        // 保存新 token（刷新令牌每次使用后轮换，同时保存新的刷新令牌）
+        if (typeof window !== 'undefined') {
             try {
                 const authStorage = localStorage.getItem('auth-storage')
                 if (authStorage) {
-                    const { state } = JSON.parse(authStorage)
-                    return state?.refreshToken || null
+                    const storage = JSON.parse(authStorage)
+                    storage.state.token = newToken
+                    if (data.data?.refreshToken || data.refreshToken) {
+                        storage.state.refreshToken = data.data?.refreshToken || data.refreshToken
+                    }
+                    localStorage.setItem('auth-storage', JSON.stringify(storage))
                 }
             } catch (err) {
-                console.error('Failed to get refresh token:', err)
+                console.error('Failed to save new token:', err)
             }
-            return null
-        })()
+        }
 
-        if (!refreshToken) {
-            throw error
+        return newToken
+    } catch (refreshError) {
+        // 刷新失败，清除认证信息
+        if (typeof window !== 'undefined') {
+            localStorage.removeItem('auth-storage')
         }
+        throw refreshError
+    }
+}
 
-        // 如果正在刷新，等待刷新完成
-        if (isRefreshing) {
-            return new Promise((resolve, reject) => {
-                subscribeTokenRefresh((token: string) => {
-                    // 重试原请求
-                    resolve(token)
-                })
-            })
+export const createTokenRefreshInterceptor = (
+    refreshEndpoint: string = '/auth/refresh'
+): ErrorInterceptor => {
+    return async (error) => {
+        // 只处理 401 错误
+        if (error?.status !== 401) {
+            throw error
         }
 
-        isRefreshing = true
+        const refreshToken = getStoredRefreshToken()
+        if (!refreshToken) {
+            throw error
+        }
 
-        try {
-            // 调用刷新 token 接口
-            const response = await fetch(refreshEndpoint, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ refreshToken }),
+        // 并发请求同时过期时共用同一次刷新（刷新令牌只能使用一次）
+        if (!refreshPromise) {
+            refreshPromise = refreshAccessToken(refreshEndpoint, refreshToken).finally(() => {
+                refreshPromise = null
             })
-
-            if (!response.ok) {
-                throw new Error('Token refresh failed')
-            }
-
-            const data = await response.json()
-            const newToken = data.data?.token || data.token
-
-            if (!newToken) {
-                throw new Error('No token in refresh response')
-            }
-
-            // 保存新 token
-            if (typeof window !== 'undefined') {
-                try {
-                    const authStorage = localStorage.getItem('auth-storage')
-                    if (authStorage) {
-                        const storage = JSON.parse(authStorage)
-                        storage.state.token = newToken
-                        if (data.data?.refreshToken || data.refreshToken) {
-                            storage.state.refreshToken = data.data?.refreshToken || data.refreshToken
-                        }
-                        localStorage.setItem('auth-storage', JSON.stringify(storage))
-                    }
-                } catch (err) {
-                    console.error('Failed to save new token:', err)
-                }
-            }
-
-            // 通知所有等待的请求
-            onTokenRefreshed(newToken)
-
-            // 返回新 token，让调用者重试请求
-            return newToken
-        } catch (refreshError) {
-            // 刷新失败，清除认证信息
-            if (typeof window !== 'undefined') {
-                localStorage.removeItem('auth-storage')
-                window.location.href = '/login'
-            }
-            throw refreshError
-        } finally {
-            isRefreshing = false
         }
+
+        return refreshPromise
     }
-}
\ No newline at end of file
+}
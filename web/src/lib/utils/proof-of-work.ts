@@ -0,0 +1,52 @@
+/**
+ * @file proof-of-work.ts
+ * @description 工作量证明（人机验证）浏览器端求解：找到 nonce 使 SHA-256(`${token}:${nonce}`) 的前 difficulty 个比特为 0
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+/** 每批并行计算的哈希数量 */
+const BATCH_SIZE = 256
+
+/**
+ * 判断摘要的前导零比特数是否不少于 bits
+ */
+function hasLeadingZeroBits(digest: Uint8Array, bits: number): boolean {
+    let remaining = bits
+    for (const byte of digest) {
+        if (remaining <= 0) return true
+        if (remaining >= 8) {
+            if (byte !== 0) return false
+            remaining -= 8
+        } else {
+            return byte >> (8 - remaining) === 0
+        }
+    }
+    return remaining <= 0
+}
+
+/**
+ * 求解工作量证明挑战
+ * 
+ * @param token - 服务端签发的挑战令牌
+ * @param difficulty - 前导零比特数（每加 1 平均计算量翻倍）
+ * @returns 满足难度的 nonce
+ * 
+ * @example
+ * const nonce = await solveProofOfWork(challenge.token, challenge.difficulty)
+ */
+export async function solveProofOfWork(token: string, difficulty: number): Promise<string> {
+    const encoder = new TextEncoder()
+
+    for (let start = 0; ; start += BATCH_SIZE) {
+        const digests = await Promise.all(
+            Array.from({ length: BATCH_SIZE }, (_, i) =>
+                crypto.subtle.digest('SHA-256', encoder.encode(`${token}:${start + i}`))
+            )
+        )
+        const index = digests.findIndex((digest) => hasLeadingZeroBits(new Uint8Array(digest), difficulty))
+        if (index !== -1) {
+            return String(start + index)
+        }
+    }
+}
@@ -0,0 +1,178 @@
+/**
+ * @file webauthn.ts
+ * @description 通行密钥（WebAuthn）浏览器端工具：在服务端返回的 JSON 选项与浏览器 API 之间转换 base64url 和 ArrayBuffer
+ * @author System
+ * @createDate 2026-01-25
+ */
+
+/**
+ * 凭据描述（excludeCredentials / allowCredentials 列表项）
+ */
+interface CredentialDescriptorJSON {
+    type: 'public-key'
+    id: string
+    transports?: string[]
+}
+
+/**
+ * 注册选项（服务端 /auth/webauthn/register/options 返回）
+ */
+export interface PasskeyRegistrationOptions {
+    challenge: string
+    rp: { id: string; name: string }
+    user: { id: string; name: string; displayName: string }
+    pubKeyCredParams: { type: 'public-key'; alg: number }[]
+    timeout: number
+    attestation: AttestationConveyancePreference
+    authenticatorSelection: AuthenticatorSelectionCriteria
+    excludeCredentials: CredentialDescriptorJSON[]
+}
+
+/**
+ * 登录选项（服务端 /auth/webauthn/login/options 返回）
+ */
+export interface PasskeyAuthenticationOptions {
+    challenge: string
+    rpId: string
+    timeout: number
+    userVerification: UserVerificationRequirement
+    allowCredentials: CredentialDescriptorJSON[]
+}
+
+/**
+ * 注册响应（提交给 /auth/webauthn/register/verify）
+ */
+export interface PasskeyRegistrationCredential {
+    id: string
+    rawId: string
+    type: 'public-key'
+    response: {
+        clientDataJSON: string
+        attestationObject: string
+        transports?: string[]
+    }
+}
+
+/**
+ * 登录响应（提交给 /auth/webauthn/login/verify）
+ */
+export interface PasskeyAuthenticationCredential {
+    id: string
+    rawId: string
+    type: 'public-key'
+    response: {
+        clientDataJSON: string
+        authenticatorData: string
+        signature: string
+        userHandle: string | null
+    }
+}
+
+/**
+ * 当前浏览器是否支持通行密钥
+ */
+export function isPasskeySupported(): boolean {
+    return typeof window !== 'undefined' && typeof window.PublicKeyCredential === 'function'
+}
+
+/**
+ * 调用 navigator.credentials.create 创建通行密钥
+ *
+ * @param options - 服务端返回的注册选项
+ * @returns 可直接提交给服务端的注册响应
+ * @throws {Error} 用户取消或浏览器不支持时抛出错误
+ */
+export async function createPasskey(
+    options: PasskeyRegistrationOptions
+): Promise<PasskeyRegistrationCredential> {
+    const credential = await navigator.credentials.create({
+        publicKey: {
+            ...options,
+            challenge: fromBase64Url(options.challenge),
+            user: { ...options.user, id: fromBase64Url(options.user.id) },
+            excludeCredentials: options.excludeCredentials.map(toDescriptor),
+        },
+    }) as PublicKeyCredential | null
+
+    if (!credential) {
+        throw new Error('未创建通行密钥')
+    }
+
+    const response = credential.response as AuthenticatorAttestationResponse
+
+    return {
+        id: credential.id,
+        rawId: toBase64Url(credential.rawId),
+        type: 'public-key',
+        response: {
+            clientDataJSON: toBase64Url(response.clientDataJSON),
+            attestationObject: toBase64Url(response.attestationObject),
+            transports: response.getTransports?.() ?? [],
+        },
+    }
+}
+
+/**
+ * 调用 navigator.credentials.get 使用通行密钥
+ *
+ * @param options - 服务端返回的登录选项
+ * @returns 可直接提交给服务端的登录响应
+ * @throws {Error} 用户取消或浏览器不支持时抛出错误
+ */
+export async function getPasskey(
+    options: PasskeyAuthenticationOptions
+): Promise<PasskeyAuthenticationCredential> {
+    const credential = await navigator.credentials.get({
+        publicKey: {
+            ...options,
+            challenge: fromBase64Url(options.challenge),
+            allowCredentials: options.allowCredentials.map(toDescriptor),
+        },
+    }) as PublicKeyCredential | null
+
+    if (!credential) {
+        throw new Error('未选择通行密钥')
+    }
+
+    const response = credential.response as AuthenticatorAssertionResponse
+
+    return {
+        id: credential.id,
+        rawId: toBase64Url(credential.rawId),
+        type: 'public-key',
+        response: {
+            clientDataJSON: toBase64Url(response.clientDataJSON),
+            authenticatorData: toBase64Url(response.authenticatorData),
+            signature: toBase64Url(response.signature),
+            userHandle: response.userHandle ? toBase64Url(response.userHandle) : null,
+        },
+    }
+}
+
+/**
+ * 转换凭据描述
+ */
+function toDescriptor(descriptor: CredentialDescriptorJSON): PublicKeyCredentialDescriptor {
+    return {
+        type: descriptor.type,
+        id: fromBase64Url(descriptor.id),
+        transports: descriptor.transports as AuthenticatorTransport[] | undefined,
+    }
+}
+
+/**
+ * ArrayBuffer 编码为 base64url（无填充）
+ */
+function toBase64Url(buffer: ArrayBuffer): string {
+    const binary = String.fromCharCode(...new Uint8Array(buffer))
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * base64url 解码为 ArrayBuffer
+ */
+function fromBase64Url(value: string): ArrayBuffer {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+    const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0)).buffer
+}